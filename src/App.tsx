@@ -9,16 +9,19 @@ import NotFound from "./pages/NotFound";
 import BusinessDetail from "./pages/BusinessDetail";
 import BusinessDirectory from "./pages/BusinessDirectory";
 import FindShops from "./pages/FindShops";
+import SearchResults from "./pages/SearchResults";
 import ListBusiness from "./pages/ListBusiness";
 import Auth from "./pages/Auth";
 import AuthCallback from "./pages/AuthCallback";
 import AdminAuth from "./pages/admin/AdminAuth";
 import AdminAuthCallback from "./pages/admin/AdminAuthCallback";
 import AdminDashboard from "./pages/admin/AdminDashboard";
+import AdminEditListing from "./pages/admin/AdminEditListing";
 import ProtectedAdminRoute from "./components/admin/ProtectedAdminRoute";
 import ProtectedRoute from "./components/ProtectedRoute";
 import ListAndGetPOS from "./pages/ListAndGetPOS";
 import UserDashboard from "./pages/UserDashboard";
+import ClaimListing from "./pages/ClaimListing";
 
 const queryClient = new QueryClient();
 
@@ -32,6 +35,7 @@ const App = () => (
           <Route path="/" element={<Index />} />
           <Route path="/businesses" element={<BusinessDirectory />} />
           <Route path="/find-shops" element={<FindShops />} />
+          <Route path="/search" element={<SearchResults />} />
           <Route path="/business/:id" element={<BusinessDetail />} />
           <Route path="/list-business" element={<ListBusiness />} />
           <Route path="/auth/signin" element={<Auth />} />
@@ -45,12 +49,22 @@ const App = () => (
               <AdminDashboard />
             </ProtectedAdminRoute>
           } />
+          <Route path="/admin/listings/:id/edit" element={
+            <ProtectedAdminRoute requiredPermission="manage_listings">
+              <AdminEditListing />
+            </ProtectedAdminRoute>
+          } />
           <Route path="/list-&-get-pos-website" element={<ListAndGetPOS />} />
           <Route path="/dashboard" element={
             <ProtectedRoute>
               <UserDashboard />
             </ProtectedRoute>
           } />
+          <Route path="/claim-listing/:token" element={
+            <ProtectedRoute>
+              <ClaimListing />
+            </ProtectedRoute>
+          } />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
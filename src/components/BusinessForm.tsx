@@ -1,6 +1,9 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
+import { FieldErrors, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
 import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
 import { useAuth } from "@/hooks/useAuth";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -10,238 +13,328 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
-import { Building2, Upload, Calendar, MapPin, Phone, Globe, Facebook, Music, DollarSign, Package, Camera, CreditCard, Plus, X } from "lucide-react";
-
-interface BusinessFormData {
-  name: string;
-  description: string;
-  category: string;
-  phone: string;
-  licenseExpiredDate: string;
-  address: string;
-  city: string;
-  state: string;
-  zipCode: string;
-  website: string;
-  facebookPage: string;
-  tiktokUrl: string;
-  startingPrice: string;
-  options: string[];
-  productsCatalog: string[];
-  onlineShopOption: string;
-  paymentOption: string;
-}
+import { useBusinessCategories } from "@/hooks/useBusinessCategories";
+import ProductCatalogManager from "@/components/ProductCatalogManager";
+import LocationPicker from "@/components/LocationPicker";
+import { LISTING_FEE, LISTING_FEE_CURRENCY, startStripeCheckout } from "@/lib/payments";
+import { createBusinessProducts } from "@/lib/products";
+import { createClaimableBusiness } from "@/lib/admin";
+import {
+  BusinessAdminFields,
+  DAY_NAMES,
+  DEFAULT_OPENING_TIME,
+  LISTING_FORM_STEPS,
+  LISTING_TIME_ZONES,
+  LISTING_MEDIA_STEP,
+  ListingDraft,
+  ListingFormValues,
+  MAX_PRODUCT_IMAGES,
+  deleteListingDraft,
+  getListingFormDefaults,
+  listingFormSchema,
+  resolveListingLocation,
+  saveListingDraft,
+  toBusinessRow,
+  toListingDraftData,
+  uploadListingAssets,
+  uploadListingMedia,
+} from "@/lib/listingForm";
+import {
+  BusinessOption,
+  SuggestedProduct,
+  buildCategoryTree,
+  getBusinessOptions,
+  getSuggestedProducts,
+  getSuggestionsForCategory,
+} from "@/lib/taxonomy";
+import { Coordinates, LOCATION_SOURCE_LABELS, formatListingAddress, geocodeAddress } from "@/lib/geocoding";
+import { cn } from "@/lib/utils";
+import { Building2, ChevronLeft, ChevronRight, Upload, Calendar, MapPin, Phone, Globe, Facebook, Music, DollarSign, Package, Camera, CreditCard, Plus, X } from "lucide-react";
 
-const BUSINESS_OPTIONS = [
-  "Cash on Delivery",
-  "Pickup In-Store", 
-  "Digital Payments",
-  "Next-Day Delivery"
-];
-
-const BUSINESS_CATEGORIES = [
-  "Restaurant",
-  "Retail Store",
-  "Service Business",
-  "Healthcare",
-  "Beauty & Salon",
-  "Technology",
-  "Automotive",
-  "Real Estate",
-  "Education",
-  "Entertainment",
-  "Other"
-];
-
-const PREDEFINED_PRODUCTS = [
-  "Espresso Latte",
-  "Cappuccino",
-  "Cold Brew",
-  "Tea",
-  "Pastries",
-  "Sandwiches"
-];
+interface BusinessFormOwner {
+  id: string;
+  email: string | null;
+}
 
 interface BusinessFormProps {
-  onSuccess?: () => void;
-  editingBusiness?: any;
+  onSuccess?: (business?: { id: string; claimToken?: string }) => void;
+  editingBusiness?: Tables<'businesses'> | null;
+  // Set when an admin creates the listing on behalf of another account
+  owner?: BusinessFormOwner;
+  // Admin-only columns saved together with the form, overriding the derived values
+  adminFields?: BusinessAdminFields;
+  // Placeholder listing: created together with a claim link for the owner's email
+  claimable?: boolean;
+  // Autosaved progress to resume a new listing from
+  draft?: ListingDraft | null;
 }
 
-export default function BusinessForm({ onSuccess, editingBusiness }: BusinessFormProps) {
+type DraftStatus = "idle" | "saving" | "saved" | "error";
+
+// Wait this long after the last change before autosaving the draft
+const DRAFT_SAVE_DELAY = 1000;
+
+const LAST_STEP = LISTING_FORM_STEPS.length - 1;
+
+export default function BusinessForm({ onSuccess, editingBusiness, owner, adminFields, claimable, draft }: BusinessFormProps) {
   const { user } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [loading, setLoading] = useState(false);
-  const [logoFile, setLogoFile] = useState<File | null>(null);
-  const [productImages, setProductImages] = useState<File[]>([]);
-  const [existingImages, setExistingImages] = useState<string[]>(editingBusiness?.product_images || []);
-  const [receiptFile, setReceiptFile] = useState<File | null>(null);
-  const [customProducts, setCustomProducts] = useState<string[]>([]);
+  const { categories } = useBusinessCategories();
+  const [businessOptions, setBusinessOptions] = useState<BusinessOption[]>([]);
+  const [suggestions, setSuggestions] = useState<SuggestedProduct[]>([]);
   const [newProductName, setNewProductName] = useState("");
-  
-  const [formData, setFormData] = useState<BusinessFormData>({
-    name: editingBusiness?.name || "",
-    description: editingBusiness?.description || "",
-    category: editingBusiness?.category || "",
-    phone: editingBusiness?.phone || "",
-    licenseExpiredDate: editingBusiness?.license_expired_date || "",
-    address: editingBusiness?.address || "",
-    city: editingBusiness?.city || "",
-    state: editingBusiness?.state || "",
-    zipCode: editingBusiness?.zip_code || "",
-    website: editingBusiness?.website || "",
-    facebookPage: editingBusiness?.facebook_page || "",
-    tiktokUrl: editingBusiness?.tiktok_url || "",
-    startingPrice: editingBusiness?.starting_price || "",
-    options: editingBusiness?.business_options || [],
-    productsCatalog: editingBusiness?.products_catalog ? editingBusiness.products_catalog.split(', ') : [],
-    onlineShopOption: "sure",
-    paymentOption: "stripe"
+  const [step, setStep] = useState(Math.min(draft?.current_step ?? 0, LAST_STEP));
+  const [uploadingMedia, setUploadingMedia] = useState(false);
+  const [locating, setLocating] = useState(false);
+  const [showMap, setShowMap] = useState(false);
+  const [draftStatus, setDraftStatus] = useState<DraftStatus>(draft ? "saved" : "idle");
+  const draftIdRef = useRef<string | null>(draft?.id ?? null);
+  const draftSaveQueue = useRef(Promise.resolve());
+  const submittedRef = useRef(false);
+  // What a new listing's submit already saved, so retrying after a later step failed finishes that
+  // listing instead of creating a second one
+  const savedSteps = useRef<{ businessId: string | null; claimToken?: string; products: boolean; payment: boolean }>({
+    businessId: null,
+    products: false,
+    payment: false,
   });
 
-  const handleInputChange = (field: keyof BusinessFormData, value: string) => {
-    setFormData(prev => ({ ...prev, [field]: value }));
-  };
+  const form = useForm<ListingFormValues>({
+    resolver: zodResolver(listingFormSchema),
+    defaultValues: { ...getListingFormDefaults(editingBusiness), ...draft?.data },
+  });
 
-  const handleOptionChange = (option: string, checked: boolean) => {
-    setFormData(prev => ({
-      ...prev,
-      options: checked 
-        ? [...prev.options, option]
-        : prev.options.filter(opt => opt !== option)
-    }));
-  };
+  const { isDirty, isSubmitting: loading } = form.formState;
+  // Only owners starting a new listing get drafts; edits and admin-created listings save directly
+  const draftsEnabled = !editingBusiness && !owner && !!user;
+  // Existing listings are already complete, so any step can be opened and saved
+  const canJumpAhead = !!editingBusiness;
+  // Once a listing exists only admins can change its plan; the database rejects it from owners
+  const planLocked = !!editingBusiness && !adminFields;
+  const draftJson = JSON.stringify(toListingDraftData(form.watch()));
+  const logoUrl = form.watch('logoUrl');
+  const existingImages = form.watch('existingImages');
+  const productImages = form.watch('productImages');
+  const category = form.watch('category');
+  const selectedOptions = form.watch('options');
+  const productsCatalog = form.watch('productsCatalog');
+  const onlineShopOption = form.watch('onlineShopOption');
+  const paymentOption = form.watch('paymentOption');
+  const latitude = form.watch('latitude');
+  const longitude = form.watch('longitude');
+  const locationSource = form.watch('locationSource');
+  const locationPrecision = form.watch('locationPrecision');
+  const openingHours = form.watch('openingHours');
+  const timeZone = form.watch('timeZone');
+  const pinnedLocation = latitude !== null && longitude !== null ? { latitude, longitude } : null;
 
-  const handleProductChange = (product: string, checked: boolean) => {
-    setFormData(prev => ({
-      ...prev,
-      productsCatalog: checked 
-        ? [...prev.productsCatalog, product]
-        : prev.productsCatalog.filter(p => p !== product)
-    }));
-  };
+  // Keep a deactivated category or option the listing already uses selectable instead of silently dropping it
+  const categoryTree = buildCategoryTree(categories);
+  const hasUnlistedCategory = !!category && !categories.some(item => item.name === category);
+  const optionNames = businessOptions.map(option => option.name);
+  const availableOptions = [...optionNames, ...selectedOptions.filter(option => !optionNames.includes(option))];
+  const suggestedProducts = getSuggestionsForCategory(suggestions, categories, category);
+  // Anything in the catalog that isn't one of the category's suggestions was typed in by the owner
+  const customProducts = productsCatalog.filter(product => !suggestedProducts.includes(product));
+  const remainingImageSlots = MAX_PRODUCT_IMAGES - existingImages.length - productImages.length;
+
+  useEffect(() => {
+    Promise.all([getBusinessOptions(), getSuggestedProducts()])
+      .then(([options, products]) => {
+        setBusinessOptions(options);
+        setSuggestions(products);
+      })
+      .catch((error) => console.error('Error fetching listing options:', error));
+  }, []);
+
+  const toggleListValue = (list: string[], value: string, checked: boolean) =>
+    checked ? [...list, value] : list.filter(item => item !== value);
 
   const addCustomProduct = () => {
-    if (newProductName.trim() && !customProducts.includes(newProductName.trim())) {
-      const newProduct = newProductName.trim();
-      setCustomProducts(prev => [...prev, newProduct]);
-      setFormData(prev => ({
-        ...prev,
-        productsCatalog: [...prev.productsCatalog, newProduct]
-      }));
+    const product = newProductName.trim();
+    if (product && !productsCatalog.includes(product)) {
+      form.setValue('productsCatalog', [...productsCatalog, product]);
       setNewProductName("");
     }
   };
 
   const removeCustomProduct = (product: string) => {
-    setCustomProducts(prev => prev.filter(p => p !== product));
-    setFormData(prev => ({
-      ...prev,
-      productsCatalog: prev.productsCatalog.filter(p => p !== product)
-    }));
-  };
-
-  const handleLogoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      const maxSize = 1 * 1024 * 1024; // 1MB in bytes
-      
-      if (file.size > maxSize) {
-        toast({
-          title: "File Too Large",
-          description: "Logo file must be smaller than 1MB. Please choose a smaller file.",
-          variant: "destructive",
-        });
-        e.target.value = ''; // Clear the input
-        return;
-      }
-      
-      setLogoFile(file);
-    }
+    form.setValue('productsCatalog', productsCatalog.filter(p => p !== product));
   };
 
   const handleProductImagesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
-      const files = Array.from(e.target.files);
-      const maxSize = 1 * 1024 * 1024; // 1MB in bytes
-      const maxFiles = 3;
-      const availableSlots = maxFiles - existingImages.length;
-      
-      // Check if adding new files would exceed limit
-      if (files.length > availableSlots) {
-        toast({
-          title: "Too Many Files",
-          description: `You can only add ${availableSlots} more image(s). You already have ${existingImages.length} existing image(s).`,
-          variant: "destructive",
-        });
-        e.target.value = ''; // Clear the input
-        return;
-      }
-      
-      // Check file sizes
-      const oversizedFiles = files.filter(file => file.size > maxSize);
-      if (oversizedFiles.length > 0) {
-        toast({
-          title: "Files Too Large",
-          description: `Each product image must be smaller than 1MB. ${oversizedFiles.length} file(s) exceed this limit.`,
-          variant: "destructive",
-        });
-        e.target.value = ''; // Clear the input
-        return;
-      }
-      
-      setProductImages(files);
+      form.setValue('productImages', [...productImages, ...Array.from(e.target.files)], { shouldValidate: true });
+      e.target.value = ''; // Allow picking the same file again after removing it
     }
   };
 
   const removeExistingImage = (imageUrl: string) => {
-    setExistingImages(prev => prev.filter(img => img !== imageUrl));
+    form.setValue('existingImages', existingImages.filter(img => img !== imageUrl), { shouldValidate: true });
   };
 
   const removeNewImage = (index: number) => {
-    setProductImages(prev => prev.filter((_, i) => i !== index));
+    form.setValue('productImages', productImages.filter((_, i) => i !== index), { shouldValidate: true });
   };
 
-  const handleReceiptChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      const maxSize = 1 * 1024 * 1024; // 1MB in bytes
-      
-      if (file.size > maxSize) {
+  const findOnMap = async () => {
+    const values = form.getValues();
+    setShowMap(true);
+    setLocating(true);
+    try {
+      const location = await geocodeAddress(values);
+      if (!location) {
         toast({
-          title: "File Too Large",
-          description: "Receipt file must be smaller than 1MB. Please choose a smaller file.",
-          variant: "destructive",
+          title: "Address not found",
+          description: "We couldn't find this address. Click the map to place your business.",
         });
-        e.target.value = ''; // Clear the input
         return;
       }
-      
-      setReceiptFile(file);
+      form.setValue('latitude', location.latitude, { shouldDirty: true });
+      form.setValue('longitude', location.longitude, { shouldDirty: true });
+      form.setValue('locationSource', location.source, { shouldDirty: true });
+      form.setValue('locationPrecision', location.precision, { shouldDirty: true });
+      form.setValue('locatedAt', new Date().toISOString(), { shouldDirty: true });
+      form.setValue('locatedAddress', formatListingAddress(values), { shouldDirty: true });
+    } catch (error) {
+      console.error('Error geocoding address:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to look up the address. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLocating(false);
     }
   };
 
-  const uploadFile = async (file: File, bucket: string, path: string) => {
-    const { data, error } = await supabase.storage
-      .from(bucket)
-      .upload(path, file, {
-        cacheControl: '3600',
-        upsert: false
+  const setDayOpen = (day: number, open: boolean) => {
+    const hours = open
+      ? [...openingHours, { day, ...DEFAULT_OPENING_TIME }].sort((a, b) => a.day - b.day)
+      : openingHours.filter(item => item.day !== day);
+    form.setValue('openingHours', hours, { shouldDirty: true, shouldValidate: true });
+  };
+
+  const setDayTime = (day: number, field: 'opens' | 'closes', time: string) => {
+    form.setValue(
+      'openingHours',
+      openingHours.map(item => item.day === day ? { ...item, [field]: time } : item),
+      { shouldDirty: true, shouldValidate: true }
+    );
+  };
+
+  // A hand-placed pin belongs to the address as it is now, so saving won't geocode over it
+  const pinLocation = ({ latitude, longitude }: Coordinates) => {
+    form.setValue('latitude', latitude, { shouldDirty: true });
+    form.setValue('longitude', longitude, { shouldDirty: true });
+    form.setValue('locationSource', 'manual', { shouldDirty: true });
+    form.setValue('locationPrecision', 'address', { shouldDirty: true });
+    form.setValue('locatedAt', new Date().toISOString(), { shouldDirty: true });
+    form.setValue('locatedAddress', formatListingAddress(form.getValues()), { shouldDirty: true });
+  };
+
+  // Saves run one after another so the first save's insert finishes before any update
+  const queueDraftSave = (data: string, currentStep: number) => {
+    draftSaveQueue.current = draftSaveQueue.current.then(async () => {
+      if (!user || submittedRef.current) return;
+
+      setDraftStatus("saving");
+      try {
+        draftIdRef.current = await saveListingDraft(draftIdRef.current, user.id, JSON.parse(data), currentStep);
+        setDraftStatus("saved");
+      } catch (error) {
+        console.error('Error saving listing draft:', error);
+        setDraftStatus("error");
+      }
+    });
+  };
+
+  useEffect(() => {
+    if (!draftsEnabled || (!draftIdRef.current && !isDirty)) return;
+
+    const timeout = setTimeout(() => queueDraftSave(draftJson, step), DRAFT_SAVE_DELAY);
+    return () => clearTimeout(timeout);
+  }, [draftsEnabled, draftJson, step]);
+
+  // Picked media is uploaded as soon as the step is done, so a later failure doesn't lose it
+  const uploadPendingMedia = async () => {
+    const values = form.getValues();
+    const ownerId = owner?.id ?? user?.id;
+    if (!ownerId || (!values.logo && values.productImages.length === 0)) return true;
+
+    setUploadingMedia(true);
+    try {
+      const uploads = await uploadListingMedia(values, ownerId);
+      if (uploads.logoUrl) {
+        form.setValue('logoUrl', uploads.logoUrl, { shouldDirty: true });
+      }
+      form.setValue('existingImages', [...values.existingImages, ...uploads.productImageUrls], { shouldDirty: true });
+      form.setValue('logo', null);
+      form.setValue('productImages', []);
+      return true;
+    } catch (error) {
+      console.error('Error uploading listing media:', error);
+      toast({
+        title: "Upload failed",
+        description: error instanceof Error ? error.message : "Failed to upload your images. Please try again.",
+        variant: "destructive",
       });
+      return false;
+    } finally {
+      setUploadingMedia(false);
+    }
+  };
+
+  const goToNextStep = async () => {
+    const valid = await form.trigger(LISTING_FORM_STEPS[step].fields);
+    if (!valid) return;
+
+    if (step === LISTING_MEDIA_STEP && !(await uploadPendingMedia())) return;
+
+    setStep(step + 1);
+  };
+
+  const goToStep = (target: number) => {
+    if (target < step || canJumpAhead) {
+      setStep(target);
+    } else if (target === step + 1) {
+      goToNextStep();
+    }
+  };
+
+  // Full validation can fail on a step the user isn't looking at, so open the first one with an error
+  const onInvalid = (errors: FieldErrors<ListingFormValues>) => {
+    const invalidStep = LISTING_FORM_STEPS.findIndex(({ fields }) => fields.some(field => errors[field]));
+    if (invalidStep !== -1) setStep(invalidStep);
+  };
 
-    if (error) throw error;
-    
-    const { data: { publicUrl } } = supabase.storage
-      .from(bucket)
-      .getPublicUrl(data.path);
-    
-    return publicUrl;
+  const handleFormSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    // Pressing Enter before the last step moves on instead of submitting
+    if (step < LAST_STEP && !canJumpAhead) {
+      e.preventDefault();
+      goToNextStep();
+      return;
+    }
+    form.handleSubmit(onSubmit, onInvalid)(e);
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
+  const discardDraft = async () => {
+    submittedRef.current = true;
+    await draftSaveQueue.current;
+    if (!draftIdRef.current) return;
+
+    try {
+      await deleteListingDraft(draftIdRef.current);
+      draftIdRef.current = null;
+    } catch (error) {
+      console.error('Error deleting listing draft:', error);
+    }
+  };
+
+  const onSubmit = async (values: ListingFormValues) => {
     if (!user) {
       toast({
         title: "Authentication Required",
@@ -252,94 +345,108 @@ export default function BusinessForm({ onSuccess, editingBusiness }: BusinessFor
       return;
     }
 
-    setLoading(true);
+    const ownerId = owner?.id ?? user.id;
 
     try {
-      let logoUrl = "";
-      let imageUrls: string[] = [];
-      let receiptUrl = "";
-
-      // Upload logo if provided
-      if (logoFile) {
-        const logoPath = `logos/${user.id}/${Date.now()}_${logoFile.name}`;
-        logoUrl = await uploadFile(logoFile, 'business-assets', logoPath);
+      const uploads = await uploadListingAssets(values, ownerId);
+      const location = await resolveListingLocation(values);
+
+      const { "POS+Website": plan, ...businessRow } = toBusinessRow({ ...values, ...location }, uploads);
+
+      // Create or update business listing
+      const businessData = {
+        owner_id: ownerId,
+        ...(owner && { user_email: owner.email }),
+        ...businessRow,
+        ...(!planLocked && { "POS+Website": plan }),
+        ...adminFields
+      };
+
+      const existingId = editingBusiness?.id ?? savedSteps.current.businessId;
+      let savedBusiness: { id: string };
+
+      if (!existingId && claimable) {
+        const { id, claimToken } = await createClaimableBusiness(businessData, owner?.email ?? null);
+        savedSteps.current.claimToken = claimToken;
+        savedBusiness = { id };
+      } else {
+        const { data, error } = existingId
+          ? await supabase
+              .from('businesses')
+              .update(businessData)
+              .eq('id', existingId)
+              .select('id')
+              .single()
+          : await supabase
+              .from('businesses')
+              .insert(businessData)
+              .select('id')
+              .single();
+
+        if (error) throw error;
+        savedBusiness = data;
       }
+      savedSteps.current.businessId = editingBusiness ? null : savedBusiness.id;
 
-      // Upload product images if provided
-      if (productImages.length > 0) {
-        const uploadPromises = productImages.map((file, index) => {
-          const imagePath = `products/${user.id}/${Date.now()}_${index}_${file.name}`;
-          return uploadFile(file, 'business-assets', imagePath);
-        });
-        imageUrls = await Promise.all(uploadPromises);
+      if (!editingBusiness && !savedSteps.current.products) {
+        await createBusinessProducts(savedBusiness.id, values.productsCatalog);
+        savedSteps.current.products = true;
       }
 
-      // Combine existing and new product images
-      const allProductImages = [...existingImages, ...imageUrls];
+      // Record the receipt in the payments ledger; this also marks the listing as awaiting confirmation
+      if (uploads.receiptPath && !savedSteps.current.payment) {
+        const { error: paymentError } = await supabase
+          .from('payments')
+          .insert({
+            business_id: savedBusiness.id,
+            payer_id: ownerId,
+            amount: LISTING_FEE,
+            currency: LISTING_FEE_CURRENCY,
+            method: 'bank_transfer',
+            receipt_path: uploads.receiptPath
+          });
 
-      // Upload receipt if bank payment option is selected
-      if (formData.paymentOption === 'bank' && receiptFile) {
-        const receiptPath = `receipts/${user.id}/${Date.now()}_${receiptFile.name}`;
-        receiptUrl = await uploadFile(receiptFile, 'business-assets', receiptPath);
+        if (paymentError) throw paymentError;
+        savedSteps.current.payment = true;
       }
 
-      // Create or update business listing
-      const businessData = {
-        owner_id: user.id,
-        name: formData.name,
-        description: formData.description,
-        category: formData.category,
-        phone: formData.phone,
-        address: formData.address,
-        city: formData.city,
-        state: formData.state,
-        zip_code: formData.zipCode,
-        website: formData.website,
-        image_url: logoUrl || editingBusiness?.image_url || null,
-        facebook_page: formData.facebookPage || null,
-        tiktok_url: formData.tiktokUrl || null,
-        starting_price: formData.startingPrice || null,
-        business_options: formData.options.length > 0 ? formData.options : null,
-        products_catalog: formData.productsCatalog.length > 0 ? formData.productsCatalog.join(', ') : null,
-        license_expired_date: formData.licenseExpiredDate || null,
-        product_images: allProductImages.length > 0 ? allProductImages : null,
-        receipt_url: receiptUrl || editingBusiness?.receipt_url || null,
-        payment_status: receiptUrl ? 'to_be_confirmed' : (editingBusiness?.payment_status || 'to_be_confirmed'),
-        last_payment_date: receiptUrl ? new Date().toISOString() : editingBusiness?.last_payment_date,
-        "POS+Website": formData.onlineShopOption === 'sure' ? 1 : 0
-      };
-
-      const { error } = editingBusiness 
-        ? await supabase
-            .from('businesses')
-            .update(businessData)
-            .eq('id', editingBusiness.id)
-        : await supabase
-            .from('businesses')
-            .insert(businessData);
+      // The listing exists now, so its draft is no longer needed
+      if (draftsEnabled) {
+        await discardDraft();
+      }
 
-      if (error) throw error;
+      // New listings paid by card continue to Stripe Checkout; the webhook confirms the payment
+      if (!editingBusiness && !owner && values.paymentOption === 'stripe') {
+        toast({
+          title: "Redirecting to payment",
+          description: "Your business has been saved. Complete the payment with Stripe to activate it.",
+        });
+        await startStripeCheckout(savedBusiness.id);
+        return;
+      }
 
       toast({
         title: "Success!",
-        description: editingBusiness ? "Your business has been updated successfully." : "Your business has been listed successfully.",
+        description: editingBusiness
+          ? "Your business has been updated successfully."
+          : owner
+            ? "The business has been listed successfully."
+            : "Your business has been listed successfully.",
       });
 
       // Call onSuccess callback if provided, otherwise navigate to dashboard
       if (onSuccess) {
-        onSuccess();
+        onSuccess({ ...savedBusiness, claimToken: savedSteps.current.claimToken });
       } else {
         navigate('/dashboard');
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error listing business:', error);
       toast({
         title: "Error",
-        description: error.message || "Failed to list business. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to list business. Please try again.",
         variant: "destructive",
       });
-    } finally {
-      setLoading(false);
     }
   };
 
@@ -352,490 +459,798 @@ export default function BusinessForm({ onSuccess, editingBusiness }: BusinessFor
         </CardTitle>
       </CardHeader>
       <CardContent>
-        <form onSubmit={handleSubmit} className="space-y-6">
-          {/* Basic Information */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <div className="space-y-2">
-              <Label htmlFor="name">Business Name *</Label>
-              <Input
-                id="name"
-                value={formData.name}
-                onChange={(e) => handleInputChange('name', e.target.value)}
-                placeholder="Enter your business name"
-                required
-              />
-            </div>
-            
+        <Form {...form}>
+          <form onSubmit={handleFormSubmit} className="space-y-6">
+            {/* Steps */}
             <div className="space-y-2">
-              <Label htmlFor="category">Category *</Label>
-              <Select value={formData.category} onValueChange={(value) => handleInputChange('category', value)}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Select a category" />
-                </SelectTrigger>
-                <SelectContent>
-                  {BUSINESS_CATEGORIES.map((category) => (
-                    <SelectItem key={category} value={category}>
-                      {category}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="description">Business Description *</Label>
-            <Textarea
-              id="description"
-              value={formData.description}
-              onChange={(e) => handleInputChange('description', e.target.value)}
-              placeholder="Describe your business, services, and what makes you unique..."
-              rows={4}
-              required
-            />
-          </div>
-
-          {/* Logo Upload */}
-          <div className="space-y-2">
-            <Label htmlFor="logo">Business Logo</Label>
-            <div className="relative">
-              <input
-                id="logo"
-                type="file"
-                accept="image/*"
-                onChange={handleLogoChange}
-                className="sr-only"
-              />
-              <label
-                htmlFor="logo"
-                className="flex items-center justify-center gap-3 w-full p-6 border-2 border-dashed border-primary/30 rounded-lg bg-primary/5 hover:bg-primary/10 hover:border-primary/50 transition-all duration-200 cursor-pointer group"
-              >
-                <Upload className="h-6 w-6 text-primary group-hover:text-primary/80 transition-colors" />
-                <div className="text-center">
-                  <p className="text-sm font-medium text-primary group-hover:text-primary/80">
-                    Choose Logo File
-                  </p>
-                  <p className="text-xs text-muted-foreground mt-1">
-                    PNG, JPG up to 1MB
-                  </p>
-                </div>
-              </label>
-            </div>
-            {logoFile && (
-              <div className="flex items-center gap-2 p-2 bg-green-50 border border-green-200 rounded-md">
-                <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                <p className="text-sm text-green-700">Selected: {logoFile.name}</p>
+              <div className="grid grid-cols-5 gap-2">
+                {LISTING_FORM_STEPS.map((item, index) => (
+                  <button
+                    key={item.title}
+                    type="button"
+                    onClick={() => goToStep(index)}
+                    className="space-y-1 text-left"
+                  >
+                    <div className={cn("h-1.5 rounded-full", index <= step ? "bg-primary" : "bg-muted")} />
+                    <p className={cn("hidden text-xs md:block", index === step ? "font-medium text-foreground" : "text-muted-foreground")}>
+                      {item.title}
+                    </p>
+                  </button>
+                ))}
               </div>
-            )}
-          </div>
-
-          {/* Product Images */}
-          <div className="space-y-4">
-            <Label htmlFor="productImages">Product Images (Max 3)</Label>
-            
-            {/* Existing Images Display */}
-            {existingImages.length > 0 && (
-              <div className="space-y-2">
-                <p className="text-sm text-muted-foreground">Existing images:</p>
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
-                  {existingImages.map((imageUrl, index) => (
-                    <div key={index} className="relative">
-                      <img
-                        src={imageUrl}
-                        alt={`Product ${index + 1}`}
-                        className="w-full h-24 object-cover rounded-lg border"
-                      />
-                      <Button
-                        type="button"
-                        variant="destructive"
-                        size="sm"
-                        onClick={() => removeExistingImage(imageUrl)}
-                        className="absolute top-1 right-1 h-6 w-6 p-0"
-                      >
-                        <X className="h-3 w-3" />
-                      </Button>
-                    </div>
-                  ))}
-                </div>
-                <div className="flex items-center gap-2 p-2 bg-blue-50 border border-blue-200 rounded-md">
-                  <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
-                  <p className="text-sm text-blue-700">
-                    Existing images: {existingImages.length} / 3
+              <div className="flex items-center justify-between text-sm">
+                <p className="font-medium">
+                  Step {step + 1} of {LISTING_FORM_STEPS.length}: {LISTING_FORM_STEPS[step].title}
+                </p>
+                {draftsEnabled && draftStatus !== "idle" && (
+                  <p className={cn("text-xs", draftStatus === "error" ? "text-destructive" : "text-muted-foreground")}>
+                    {draftStatus === "saving" ? "Saving draft..." : draftStatus === "saved" ? "Draft saved" : "Draft could not be saved"}
                   </p>
-                </div>
+                )}
               </div>
-            )}
+            </div>
 
-            {/* New Images Display */}
-            {productImages.length > 0 && (
-              <div className="space-y-2">
-                <p className="text-sm text-muted-foreground">New images to upload:</p>
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
-                  {Array.from(productImages).map((file, index) => (
-                    <div key={index} className="relative">
-                      <img
-                        src={URL.createObjectURL(file)}
-                        alt={`New product ${index + 1}`}
-                        className="w-full h-24 object-cover rounded-lg border"
-                      />
-                      <Button
-                        type="button"
-                        variant="destructive"
-                        size="sm"
-                        onClick={() => removeNewImage(index)}
-                        className="absolute top-1 right-1 h-6 w-6 p-0"
-                      >
-                        <X className="h-3 w-3" />
-                      </Button>
-                    </div>
-                  ))}
-                </div>
-                <div className="flex items-center gap-2 p-2 bg-green-50 border border-green-200 rounded-md">
-                  <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                  <p className="text-sm text-green-700">
-                    Selected: {productImages.length} new image(s)
-                  </p>
-                </div>
-              </div>
-            )}
-            
-            <div className="relative">
-              <input
-                id="productImages"
-                type="file"
-                accept="image/*"
-                multiple
-                onChange={handleProductImagesChange}
-                className="sr-only"
-              />
-              <label
-                htmlFor="productImages"
-                className="flex items-center justify-center gap-3 w-full p-6 border-2 border-dashed border-blue-300 rounded-lg bg-blue-50 hover:bg-blue-100 hover:border-blue-400 transition-all duration-200 cursor-pointer group"
-              >
-                <Camera className="h-6 w-6 text-blue-600 group-hover:text-blue-700 transition-colors" />
-                <div className="text-center">
-                  <p className="text-sm font-medium text-blue-700 group-hover:text-blue-800">
-                    Choose Product Images
-                  </p>
-                  <p className="text-xs text-blue-600 mt-1">
-                    {(existingImages.length + productImages.length) < 3 ? 
-                      `Add ${3 - (existingImages.length + productImages.length)} more images (PNG, JPG, max 1MB each)` :
-                      'Maximum 3 images reached'
-                    }
-                  </p>
+            {step === 0 && (
+              <>
+                {/* Basic Information */}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Business Name *</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Enter your business name" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="category"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Category *</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select a category" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {categoryTree.map((item) => (
+                              <SelectItem key={item.id} value={item.name} className={cn(item.depth > 0 && "pl-12")}>
+                                {item.name}
+                              </SelectItem>
+                            ))}
+                            {hasUnlistedCategory && (
+                              <SelectItem value={category}>{category}</SelectItem>
+                            )}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 </div>
-              </label>
-            </div>
-          </div>
 
-          {/* Contact Information */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <div className="space-y-2">
-              <Label htmlFor="phone">Phone Number *</Label>
-              <div className="flex items-center gap-2">
-                <Phone className="h-4 w-4 text-muted-foreground" />
-                <Input
-                  id="phone"
-                  value={formData.phone}
-                  onChange={(e) => handleInputChange('phone', e.target.value)}
-                  placeholder="(555) 123-4567"
-                  required
-                />
-              </div>
-            </div>
-            
-            <div className="space-y-2">
-              <Label htmlFor="licenseExpiredDate">License Expiration Date</Label>
-              <div className="flex items-center gap-2">
-                <Calendar className="h-4 w-4 text-muted-foreground" />
-                <Input
-                  id="licenseExpiredDate"
-                  type="date"
-                  value={formData.licenseExpiredDate}
-                  onChange={(e) => handleInputChange('licenseExpiredDate', e.target.value)}
+                <FormField
+                  control={form.control}
+                  name="description"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Business Description *</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          placeholder="Describe your business, services, and what makes you unique..."
+                          rows={4}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
                 />
-              </div>
-            </div>
-          </div>
+              </>
+            )}
 
-          {/* Location Information */}
-          <div className="space-y-4">
-            <div className="flex items-center gap-2 mb-2">
-              <MapPin className="h-4 w-4 text-muted-foreground" />
-              <Label>Business Address</Label>
-            </div>
-            
-            <div className="space-y-2">
-              <Input
-                value={formData.address}
-                onChange={(e) => handleInputChange('address', e.target.value)}
-                placeholder="Street address"
-              />
-            </div>
-            
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <Input
-                value={formData.city}
-                onChange={(e) => handleInputChange('city', e.target.value)}
-                placeholder="City"
-              />
-              <Input
-                value={formData.state}
-                onChange={(e) => handleInputChange('state', e.target.value)}
-                placeholder="State"
-              />
-              <Input
-                value={formData.zipCode}
-                onChange={(e) => handleInputChange('zipCode', e.target.value)}
-                placeholder="ZIP code"
-              />
-            </div>
-          </div>
-
-          {/* Online Presence */}
-          <div className="space-y-4">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div className="space-y-2">
-                <div className="flex items-center gap-2">
-                  <Globe className="h-4 w-4 text-muted-foreground" />
-                  <Label htmlFor="website">Website</Label>
-                </div>
-                <Input
-                  id="website"
-                  value={formData.website}
-                  onChange={(e) => handleInputChange('website', e.target.value)}
-                  placeholder="https://your-website.com"
+            {step === 1 && (
+              <>
+                {/* Logo Upload */}
+                <FormField
+                  control={form.control}
+                  name="logo"
+                  render={({ field }) => (
+                    <FormItem>
+                      <Label htmlFor="logo">Business Logo</Label>
+                      <div className="relative">
+                        <input
+                          id="logo"
+                          type="file"
+                          accept="image/*"
+                          onChange={(e) => form.setValue('logo', e.target.files?.[0] ?? null, { shouldValidate: true })}
+                          className="sr-only"
+                        />
+                        <label
+                          htmlFor="logo"
+                          className="flex items-center justify-center gap-3 w-full p-6 border-2 border-dashed border-primary/30 rounded-lg bg-primary/5 hover:bg-primary/10 hover:border-primary/50 transition-all duration-200 cursor-pointer group"
+                        >
+                          <Upload className="h-6 w-6 text-primary group-hover:text-primary/80 transition-colors" />
+                          <div className="text-center">
+                            <p className="text-sm font-medium text-primary group-hover:text-primary/80">
+                              Choose Logo File
+                            </p>
+                            <p className="text-xs text-muted-foreground mt-1">
+                              PNG, JPG up to 1MB
+                            </p>
+                          </div>
+                        </label>
+                      </div>
+                      {field.value ? (
+                        <div className="flex items-center gap-2 p-2 bg-green-50 border border-green-200 rounded-md">
+                          <div className="w-2 h-2 bg-green-500 rounded-full"></div>
+                          <p className="text-sm text-green-700">Selected: {field.value.name}</p>
+                        </div>
+                      ) : logoUrl && (
+                        <div className="flex items-center gap-3">
+                          <img src={logoUrl} alt="Current logo" className="h-12 w-12 rounded-lg border object-cover" />
+                          <p className="text-sm text-muted-foreground">Current logo. Choose a file to replace it.</p>
+                        </div>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
                 />
-              </div>
-              
-              <div className="space-y-2">
-                <div className="flex items-center gap-2">
-                  <Facebook className="h-4 w-4 text-muted-foreground" />
-                  <Label htmlFor="facebookPage">Facebook Page</Label>
-                </div>
-                <Input
-                  id="facebookPage"
-                  value={formData.facebookPage}
-                  onChange={(e) => handleInputChange('facebookPage', e.target.value)}
-                  placeholder="https://facebook.com/yourpage"
+
+                {/* Product Images */}
+                <FormField
+                  control={form.control}
+                  name="productImages"
+                  render={() => (
+                    <FormItem className="space-y-4">
+                      <Label htmlFor="productImages">Product Images (Max {MAX_PRODUCT_IMAGES})</Label>
+
+                      {/* Existing Images Display */}
+                      {existingImages.length > 0 && (
+                        <div className="space-y-2">
+                          <p className="text-sm text-muted-foreground">Uploaded images:</p>
+                          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                            {existingImages.map((imageUrl, index) => (
+                              <div key={imageUrl} className="relative">
+                                <img
+                                  src={imageUrl}
+                                  alt={`Product ${index + 1}`}
+                                  className="w-full h-24 object-cover rounded-lg border"
+                                />
+                                <Button
+                                  type="button"
+                                  variant="destructive"
+                                  size="sm"
+                                  onClick={() => removeExistingImage(imageUrl)}
+                                  className="absolute top-1 right-1 h-6 w-6 p-0"
+                                >
+                                  <X className="h-3 w-3" />
+                                </Button>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
+                      {/* New Images Display */}
+                      {productImages.length > 0 && (
+                        <div className="space-y-2">
+                          <p className="text-sm text-muted-foreground">New images to upload:</p>
+                          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                            {productImages.map((file, index) => (
+                              <div key={`${file.name}-${index}`} className="relative">
+                                <img
+                                  src={URL.createObjectURL(file)}
+                                  alt={`New product ${index + 1}`}
+                                  className="w-full h-24 object-cover rounded-lg border"
+                                />
+                                <Button
+                                  type="button"
+                                  variant="destructive"
+                                  size="sm"
+                                  onClick={() => removeNewImage(index)}
+                                  className="absolute top-1 right-1 h-6 w-6 p-0"
+                                >
+                                  <X className="h-3 w-3" />
+                                </Button>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
+                      <div className="relative">
+                        <input
+                          id="productImages"
+                          type="file"
+                          accept="image/*"
+                          multiple
+                          onChange={handleProductImagesChange}
+                          disabled={remainingImageSlots <= 0}
+                          className="sr-only"
+                        />
+                        <label
+                          htmlFor="productImages"
+                          className="flex items-center justify-center gap-3 w-full p-6 border-2 border-dashed border-blue-300 rounded-lg bg-blue-50 hover:bg-blue-100 hover:border-blue-400 transition-all duration-200 cursor-pointer group"
+                        >
+                          <Camera className="h-6 w-6 text-blue-600 group-hover:text-blue-700 transition-colors" />
+                          <div className="text-center">
+                            <p className="text-sm font-medium text-blue-700 group-hover:text-blue-800">
+                              Choose Product Images
+                            </p>
+                            <p className="text-xs text-blue-600 mt-1">
+                              {remainingImageSlots > 0
+                                ? `Add ${remainingImageSlots} more image(s) (PNG, JPG, max 1MB each)`
+                                : `Maximum ${MAX_PRODUCT_IMAGES} images reached`}
+                            </p>
+                          </div>
+                        </label>
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
                 />
-              </div>
-            </div>
-            
-            <div className="space-y-2">
-              <div className="flex items-center gap-2">
-                <Music className="h-4 w-4 text-muted-foreground" />
-                <Label htmlFor="tiktokUrl">TikTok</Label>
-              </div>
-              <Input
-                id="tiktokUrl"
-                value={formData.tiktokUrl}
-                onChange={(e) => handleInputChange('tiktokUrl', e.target.value)}
-                placeholder="https://tiktok.com/@yourusername"
-              />
-            </div>
-          </div>
+              </>
+            )}
 
-          {/* Pricing */}
-          <div className="space-y-2">
-            <div className="flex items-center gap-2">
-              <DollarSign className="h-4 w-4 text-muted-foreground" />
-              <Label htmlFor="startingPrice">Starting Price</Label>
-            </div>
-            <Input
-              id="startingPrice"
-              value={formData.startingPrice}
-              onChange={(e) => handleInputChange('startingPrice', e.target.value)}
-              placeholder="$20, From $50, etc."
-            />
-          </div>
-
-          {/* Business Options */}
-          <div className="space-y-4">
-            <Label>Business Options</Label>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {BUSINESS_OPTIONS.map((option) => (
-                <div key={option} className="flex items-center space-x-2">
-                  <Checkbox
-                    id={option}
-                    checked={formData.options.includes(option)}
-                    onCheckedChange={(checked) => handleOptionChange(option, checked as boolean)}
+            {step === 2 && (
+              <>
+                {/* Contact Information */}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <FormField
+                    control={form.control}
+                    name="phone"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Phone Number *</FormLabel>
+                        <div className="flex items-center gap-2">
+                          <Phone className="h-4 w-4 text-muted-foreground" />
+                          <FormControl>
+                            <Input placeholder="(555) 123-4567" {...field} />
+                          </FormControl>
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
                   />
-                  <Label htmlFor={option} className="text-sm">
-                    {option}
-                  </Label>
-                </div>
-              ))}
-            </div>
-          </div>
 
-          {/* Products Catalog */}
-          <div className="space-y-4">
-            <div className="flex items-center gap-2">
-              <Package className="h-4 w-4 text-muted-foreground" />
-              <Label>Products/Services Catalog</Label>
-            </div>
-            
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {PREDEFINED_PRODUCTS.map((product) => (
-                <div key={product} className="flex items-center space-x-2">
-                  <Checkbox
-                    id={product}
-                    checked={formData.productsCatalog.includes(product)}
-                    onCheckedChange={(checked) => handleProductChange(product, checked as boolean)}
+                  <FormField
+                    control={form.control}
+                    name="licenseExpiredDate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>License Expiration Date</FormLabel>
+                        <div className="flex items-center gap-2">
+                          <Calendar className="h-4 w-4 text-muted-foreground" />
+                          <FormControl>
+                            <Input type="date" {...field} />
+                          </FormControl>
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
                   />
-                  <Label htmlFor={product} className="text-sm">
-                    {product}
-                  </Label>
                 </div>
-              ))}
-            </div>
 
-            {/* Custom Products */}
-            <div className="space-y-2">
-              <Label>Add Custom Products/Services</Label>
-              <div className="flex gap-2">
-                <Input
-                  value={newProductName}
-                  onChange={(e) => setNewProductName(e.target.value)}
-                  placeholder="Enter product/service name"
-                  onKeyPress={(e) => e.key === 'Enter' && (e.preventDefault(), addCustomProduct())}
-                />
-                <Button type="button" onClick={addCustomProduct} variant="outline">
-                  <Plus className="h-4 w-4" />
-                </Button>
-              </div>
-              
-              {customProducts.length > 0 && (
-                <div className="flex flex-wrap gap-2 mt-2">
-                  {customProducts.map((product) => (
-                    <div key={product} className="flex items-center gap-1 bg-secondary text-secondary-foreground px-2 py-1 rounded-md text-sm">
-                      <span>{product}</span>
-                      <Button
-                        type="button"
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => removeCustomProduct(product)}
-                        className="h-auto p-0 w-4 h-4 hover:bg-destructive hover:text-destructive-foreground"
-                      >
-                        <X className="h-3 w-3" />
+                {/* Address */}
+                <div className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="address"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Store Address *</FormLabel>
+                        <div className="flex items-center gap-2">
+                          <MapPin className="h-4 w-4 text-muted-foreground" />
+                          <FormControl>
+                            <Input placeholder="123 Main Street" {...field} />
+                          </FormControl>
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="city"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>City *</FormLabel>
+                          <FormControl>
+                            <Input placeholder="City" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="state"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>State *</FormLabel>
+                          <FormControl>
+                            <Input placeholder="State" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="zipCode"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>ZIP Code *</FormLabel>
+                          <FormControl>
+                            <Input placeholder="12345" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  {/* Map location */}
+                  <div className="space-y-3">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <p className="text-sm text-muted-foreground">
+                        {pinnedLocation && locationSource
+                          ? `Map location: ${LOCATION_SOURCE_LABELS[locationSource]}`
+                          : "Your address is placed on the map when you save."}
+                      </p>
+                      <Button type="button" variant="outline" size="sm" onClick={findOnMap} disabled={locating}>
+                        <MapPin className="h-4 w-4 mr-2" />
+                        {locating ? "Finding..." : "Find on map"}
                       </Button>
                     </div>
-                  ))}
+                    {pinnedLocation && locationPrecision === 'state' && (
+                      <p className="text-sm text-muted-foreground">
+                        We could only place your business in the middle of the state, so it won't show up in nearby
+                        searches. Click the map where your business is to fix it.
+                      </p>
+                    )}
+                    {(showMap || pinnedLocation) && (
+                      <>
+                        <LocationPicker value={pinnedLocation} onChange={pinLocation} />
+                        <p className="text-xs text-muted-foreground">
+                          Pin in the wrong spot? Click the map where your business is to move it.
+                        </p>
+                      </>
+                    )}
+                  </div>
                 </div>
-              )}
-            </div>
-          </div>
-
-          {/* Online Shop + POS Option */}
-          <div className="space-y-4">
-            <Label>Enjoy a free 14-day Online Shop Website and POS. Please also rest assured that you will be informed before your trial expires. Only $10 a month after that, and can cancel anytime.</Label>
-            <RadioGroup
-              value={formData.onlineShopOption}
-              onValueChange={(value) => handleInputChange('onlineShopOption', value)}
-            >
-              <div className="flex items-center space-x-2">
-                <RadioGroupItem value="sure" id="sure" />
-                <Label htmlFor="sure">Sure</Label>
-              </div>
-              <div className="flex items-center space-x-2">
-                <RadioGroupItem value="maybe" id="maybe" />
-                <Label htmlFor="maybe">Maybe Later</Label>  
-              </div>
-            </RadioGroup>
 
-            {formData.onlineShopOption === 'sure' && (
-              <div className="ml-6 p-3 bg-green-50 border border-green-200 rounded-lg">
-                <p className="text-sm text-green-800 font-medium">
-                  Within 48 hours, your online shop website and POS (plus other apps like Inventory and Sales) will be ready. We'll send you the link, login details, and detailed instructions in an email. The total is 10 USD. You can choose the suitable payment options below.
-                </p>
-              </div>
-            )}
+                {/* Opening Hours */}
+                <FormField
+                  control={form.control}
+                  name="openingHours"
+                  render={() => (
+                    <FormItem>
+                      <FormLabel>Opening Hours</FormLabel>
+                      <div className="space-y-2">
+                        {DAY_NAMES.map((dayName, day) => {
+                          const hours = openingHours.find(item => item.day === day);
+                          return (
+                            <div key={dayName} className="flex flex-wrap items-center gap-3">
+                              <div className="flex w-32 items-center gap-2">
+                                <Checkbox
+                                  id={`open-${day}`}
+                                  checked={!!hours}
+                                  onCheckedChange={(checked) => setDayOpen(day, checked === true)}
+                                />
+                                <Label htmlFor={`open-${day}`} className="font-normal">{dayName}</Label>
+                              </div>
+                              {hours ? (
+                                <div className="flex items-center gap-2">
+                                  <Input
+                                    type="time"
+                                    value={hours.opens}
+                                    onChange={(e) => setDayTime(day, 'opens', e.target.value)}
+                                    className="w-32"
+                                    aria-label={`${dayName} opening time`}
+                                  />
+                                  <span className="text-sm text-muted-foreground">to</span>
+                                  <Input
+                                    type="time"
+                                    value={hours.closes}
+                                    onChange={(e) => setDayTime(day, 'closes', e.target.value)}
+                                    className="w-32"
+                                    aria-label={`${dayName} closing time`}
+                                  />
+                                </div>
+                              ) : (
+                                <span className="text-sm text-muted-foreground">Closed</span>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
 
-            {formData.onlineShopOption === 'maybe' && (
-              <div className="ml-6 p-3 bg-green-50 border border-green-200 rounded-lg">
-                <p className="text-sm text-green-800 font-medium">
-                  The total is 10 USD. Please choose the suitable payment options below.
-                </p>
-              </div>
+                {openingHours.length > 0 && (
+                  <FormField
+                    control={form.control}
+                    name="timeZone"
+                    render={({ field }) => (
+                      <FormItem className="max-w-xs">
+                        <FormLabel>Time Zone</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select a time zone" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {LISTING_TIME_ZONES.map((zone) => (
+                              <SelectItem key={zone.value} value={zone.value}>{zone.label}</SelectItem>
+                            ))}
+                            {/* Keep a zone outside the list, e.g. the browser's own, selectable */}
+                            {timeZone && !LISTING_TIME_ZONES.some(zone => zone.value === timeZone) && (
+                              <SelectItem value={timeZone}>{timeZone}</SelectItem>
+                            )}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                {/* Online Presence */}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <FormField
+                    control={form.control}
+                    name="website"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Website URL</FormLabel>
+                        <div className="flex items-center gap-2">
+                          <Globe className="h-4 w-4 text-muted-foreground" />
+                          <FormControl>
+                            <Input placeholder="https://yourbusiness.com" {...field} />
+                          </FormControl>
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="facebookPage"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Facebook Page URL</FormLabel>
+                        <div className="flex items-center gap-2">
+                          <Facebook className="h-4 w-4 text-muted-foreground" />
+                          <FormControl>
+                            <Input placeholder="https://facebook.com/yourbusiness" {...field} />
+                          </FormControl>
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="tiktokUrl"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>TikTok URL</FormLabel>
+                      <div className="flex items-center gap-2">
+                        <Music className="h-4 w-4 text-muted-foreground" />
+                        <FormControl>
+                          <Input placeholder="https://tiktok.com/@yourbusiness" {...field} />
+                        </FormControl>
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
             )}
-          </div>
-
-          {/* Payment Options */}
-          <div className="space-y-4">
-            <Label className="flex items-center gap-2">
-              <CreditCard className="h-4 w-4" />
-              Payment Options *
-            </Label>
-            <RadioGroup
-              value={formData.paymentOption}
-              onValueChange={(value) => handleInputChange('paymentOption', value)}
-            >
-              <div className="flex items-center space-x-2">
-                <RadioGroupItem value="stripe" id="stripe" />
-                <Label htmlFor="stripe">Stripe</Label>
-              </div>
-              <div className="flex items-center space-x-2">
-                <RadioGroupItem value="bank" id="bank" />
-                <Label htmlFor="bank">Bank/Digital Payments</Label>
-              </div>
-            </RadioGroup>
 
-            {formData.paymentOption === 'bank' && (
-              <div className="space-y-4 ml-6 p-4 bg-muted/50 rounded-lg">
-                <p className="text-sm text-muted-foreground">
-                  Please make payment to Bank ABC 1234567, or True Money 610123456
-                </p>
-                
-                <div className="space-y-2">
-                  <Label htmlFor="receipt">Upload your receipt *</Label>
-                  <div className="relative">
-                    <input
-                      id="receipt"
-                      type="file"
-                      accept="image/*,.pdf"
-                      onChange={handleReceiptChange}
-                      className="sr-only"
-                      required={formData.paymentOption === 'bank'}
-                    />
-                    <label
-                      htmlFor="receipt"
-                      className="flex items-center justify-center gap-3 w-full p-4 border-2 border-dashed border-orange-300 rounded-lg bg-orange-50 hover:bg-orange-100 hover:border-orange-400 transition-all duration-200 cursor-pointer group"
-                    >
-                      <Upload className="h-5 w-5 text-orange-600 group-hover:text-orange-700 transition-colors" />
-                      <div className="text-center">
-                        <p className="text-sm font-medium text-orange-700 group-hover:text-orange-800">
-                          Choose Receipt File
-                        </p>
-                        <p className="text-xs text-orange-600 mt-1">
-                          PNG, JPG, or PDF (max 1MB)
-                        </p>
+            {step === 3 && (
+              <>
+                {/* Pricing */}
+                <FormField
+                  control={form.control}
+                  name="startingPrice"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Starting Price</FormLabel>
+                      <div className="flex items-center gap-2">
+                        <DollarSign className="h-4 w-4 text-muted-foreground" />
+                        <FormControl>
+                          <Input placeholder="$20, From $50, etc." {...field} />
+                        </FormControl>
                       </div>
-                    </label>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Business Options */}
+                <FormField
+                  control={form.control}
+                  name="options"
+                  render={({ field }) => (
+                    <FormItem className="space-y-4">
+                      <Label>Business Options</Label>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {availableOptions.map((option) => (
+                          <div key={option} className="flex items-center space-x-2">
+                            <Checkbox
+                              id={option}
+                              checked={field.value.includes(option)}
+                              onCheckedChange={(checked) => field.onChange(toggleListValue(field.value, option, checked === true))}
+                            />
+                            <Label htmlFor={option} className="text-sm font-normal">
+                              {option}
+                            </Label>
+                          </div>
+                        ))}
+                      </div>
+                    </FormItem>
+                  )}
+                />
+
+                {/* Products Catalog: new listings pick names to start from, existing ones edit their products directly */}
+                {editingBusiness ? (
+                  <div className="space-y-4">
+                    <Label className="flex items-center gap-2">
+                      <Package className="h-4 w-4" />
+                      Products/Services Catalog
+                    </Label>
+                    <ProductCatalogManager businessId={editingBusiness.id} ownerId={editingBusiness.owner_id} />
                   </div>
-                  {receiptFile && (
-                    <div className="flex items-center gap-2 p-2 bg-green-50 border border-green-200 rounded-md">
-                      <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                      <p className="text-sm text-green-700">Selected: {receiptFile.name}</p>
-                    </div>
+                ) : (
+                  <FormField
+                    control={form.control}
+                    name="productsCatalog"
+                    render={({ field }) => (
+                      <FormItem className="space-y-4">
+                        <Label className="flex items-center gap-2">
+                          <Package className="h-4 w-4" />
+                          Products/Services Catalog
+                        </Label>
+                        <p className="text-sm text-muted-foreground">
+                          Pick what you offer to start your catalog. You can add prices and photos from My Listings once the listing is created.
+                        </p>
+
+                        {suggestedProducts.length > 0 && (
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            {suggestedProducts.map((product) => (
+                              <div key={product} className="flex items-center space-x-2">
+                                <Checkbox
+                                  id={product}
+                                  checked={field.value.includes(product)}
+                                  onCheckedChange={(checked) => field.onChange(toggleListValue(field.value, product, checked === true))}
+                                />
+                                <Label htmlFor={product} className="text-sm font-normal">
+                                  {product}
+                                </Label>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+
+                        {/* Custom Products */}
+                        <div className="space-y-2">
+                          <Label htmlFor="customProduct">Add Custom Products/Services</Label>
+                          <div className="flex gap-2">
+                            <Input
+                              id="customProduct"
+                              value={newProductName}
+                              onChange={(e) => setNewProductName(e.target.value)}
+                              placeholder="Enter product/service name"
+                              onKeyDown={(e) => e.key === 'Enter' && (e.preventDefault(), addCustomProduct())}
+                            />
+                            <Button type="button" onClick={addCustomProduct} variant="outline" disabled={!newProductName.trim()}>
+                              <Plus className="h-4 w-4" />
+                            </Button>
+                          </div>
+
+                          {customProducts.length > 0 && (
+                            <div className="flex flex-wrap gap-2 mt-2">
+                              {customProducts.map((product) => (
+                                <div key={product} className="flex items-center gap-1 bg-secondary text-secondary-foreground px-2 py-1 rounded-md text-sm">
+                                  <span>{product}</span>
+                                  <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => removeCustomProduct(product)}
+                                    className="h-4 w-4 p-0 hover:bg-destructive hover:text-destructive-foreground"
+                                  >
+                                    <X className="h-3 w-3" />
+                                  </Button>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </>
+            )}
+
+            {step === 4 && (
+              <>
+                {/* Online Shop + POS Option */}
+                <FormField
+                  control={form.control}
+                  name="onlineShopOption"
+                  render={({ field }) => (
+                    <FormItem className="space-y-4">
+                      <Label>Enjoy a free 14-day Online Shop Website and POS. Please also rest assured that you will be informed before your trial expires. Only $10 a month after that, and can cancel anytime.</Label>
+                      <RadioGroup value={field.value} onValueChange={field.onChange} disabled={planLocked}>
+                        <div className="flex items-center space-x-2">
+                          <RadioGroupItem value="sure" id="sure" />
+                          <Label htmlFor="sure">Sure</Label>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <RadioGroupItem value="maybe" id="maybe" />
+                          <Label htmlFor="maybe">Maybe Later</Label>
+                        </div>
+                      </RadioGroup>
+
+                      {planLocked && (
+                        <p className="text-sm text-muted-foreground">
+                          Contact us to change the plan of an existing listing.
+                        </p>
+                      )}
+
+                      {onlineShopOption === 'sure' && (
+                        <div className="ml-6 p-3 bg-green-50 border border-green-200 rounded-lg">
+                          <p className="text-sm text-green-800 font-medium">
+                            Within 48 hours, your online shop website and POS (plus other apps like Inventory and Sales) will be ready. We'll send you the link, login details, and detailed instructions in an email. The total is 10 USD. You can choose the suitable payment options below.
+                          </p>
+                        </div>
+                      )}
+
+                      {onlineShopOption === 'maybe' && (
+                        <div className="ml-6 p-3 bg-green-50 border border-green-200 rounded-lg">
+                          <p className="text-sm text-green-800 font-medium">
+                            The total is 10 USD. Please choose the suitable payment options below.
+                          </p>
+                        </div>
+                      )}
+                    </FormItem>
                   )}
-                </div>
-              </div>
+                />
+
+                {/* Payment Options */}
+                <FormField
+                  control={form.control}
+                  name="paymentOption"
+                  render={({ field }) => (
+                    <FormItem className="space-y-4">
+                      <Label className="flex items-center gap-2">
+                        <CreditCard className="h-4 w-4" />
+                        Payment Options *
+                      </Label>
+                      <RadioGroup value={field.value} onValueChange={field.onChange}>
+                        <div className="flex items-center space-x-2">
+                          <RadioGroupItem value="stripe" id="stripe" />
+                          <Label htmlFor="stripe">Stripe</Label>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <RadioGroupItem value="bank" id="bank" />
+                          <Label htmlFor="bank">Bank/Digital Payments</Label>
+                        </div>
+                      </RadioGroup>
+                    </FormItem>
+                  )}
+                />
+
+                {paymentOption === 'bank' && (
+                  <FormField
+                    control={form.control}
+                    name="receipt"
+                    render={({ field }) => (
+                      <FormItem className="space-y-4 ml-6 p-4 bg-muted/50 rounded-lg">
+                        <p className="text-sm text-muted-foreground">
+                          Please make payment to Bank ABC 1234567, or True Money 610123456
+                        </p>
+
+                        <div className="space-y-2">
+                          <Label htmlFor="receipt">Upload your receipt *</Label>
+                          <div className="relative">
+                            <input
+                              id="receipt"
+                              type="file"
+                              accept="image/*,.pdf"
+                              onChange={(e) => form.setValue('receipt', e.target.files?.[0] ?? null, { shouldValidate: true })}
+                              className="sr-only"
+                            />
+                            <label
+                              htmlFor="receipt"
+                              className="flex items-center justify-center gap-3 w-full p-4 border-2 border-dashed border-orange-300 rounded-lg bg-orange-50 hover:bg-orange-100 hover:border-orange-400 transition-all duration-200 cursor-pointer group"
+                            >
+                              <Upload className="h-5 w-5 text-orange-600 group-hover:text-orange-700 transition-colors" />
+                              <div className="text-center">
+                                <p className="text-sm font-medium text-orange-700 group-hover:text-orange-800">
+                                  Choose Receipt File
+                                </p>
+                                <p className="text-xs text-orange-600 mt-1">
+                                  PNG, JPG, or PDF (max 1MB)
+                                </p>
+                              </div>
+                            </label>
+                          </div>
+                          {field.value && (
+                            <div className="flex items-center gap-2 p-2 bg-green-50 border border-green-200 rounded-md">
+                              <div className="w-2 h-2 bg-green-500 rounded-full"></div>
+                              <p className="text-sm text-green-700">Selected: {field.value.name}</p>
+                            </div>
+                          )}
+                          <FormMessage />
+                        </div>
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </>
             )}
-          </div>
-
-
-          {/* Submit Button */}
-          <Button 
-            type="submit" 
-            className="w-full" 
-            size="lg"
-            disabled={loading}
-          >
-            {loading ? (editingBusiness ? "Updating Business..." : "Creating Listing...") : (editingBusiness ? "Update My Business Info" : "List My Business")}
-          </Button>
-        </form>
+
+            {/* Step Navigation */}
+            <div className="flex items-center justify-between gap-4 pt-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setStep(step - 1)}
+                disabled={step === 0 || loading || uploadingMedia}
+              >
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                Back
+              </Button>
+              <div className="flex items-center gap-2">
+                {step < LAST_STEP && (
+                  <Button
+                    type="button"
+                    variant={canJumpAhead ? "outline" : "default"}
+                    onClick={goToNextStep}
+                    disabled={loading || uploadingMedia}
+                  >
+                    {uploadingMedia ? "Uploading..." : "Next"}
+                    <ChevronRight className="h-4 w-4 ml-1" />
+                  </Button>
+                )}
+                {(step === LAST_STEP || canJumpAhead) && (
+                  <Button
+                    type="submit"
+                    size="lg"
+                    disabled={loading || uploadingMedia}
+                  >
+                    {loading ? (editingBusiness ? "Updating Business..." : "Creating Listing...") : (editingBusiness ? "Update My Business Info" : "List My Business")}
+                  </Button>
+                )}
+              </div>
+            </div>
+          </form>
+        </Form>
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
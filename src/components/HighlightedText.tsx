@@ -0,0 +1,22 @@
+import { splitHighlight } from "@/lib/search";
+
+interface HighlightedTextProps {
+  text: string;
+  className?: string;
+}
+
+export default function HighlightedText({ text, className }: HighlightedTextProps) {
+  return (
+    <span className={className}>
+      {splitHighlight(text).map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} className="rounded-sm bg-primary/20 px-0.5 text-foreground">
+            {segment.text}
+          </mark>
+        ) : (
+          segment.text
+        )
+      )}
+    </span>
+  );
+}
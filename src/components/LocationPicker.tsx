@@ -0,0 +1,52 @@
+import { useEffect } from "react";
+import { CircleMarker, MapContainer, TileLayer, useMap, useMapEvents } from "react-leaflet";
+import "leaflet/dist/leaflet.css";
+import { Coordinates } from "@/lib/geocoding";
+import { DEFAULT_MAP_CENTER, DEFAULT_MAP_ZOOM, LOCATED_MAP_ZOOM, MAP_TILE_ATTRIBUTION, MAP_TILE_URL } from "@/lib/map";
+
+interface LocationPickerProps {
+  value: Coordinates | null;
+  onChange: (value: Coordinates) => void;
+}
+
+const PinOnClick = ({ onChange }: Pick<LocationPickerProps, "onChange">) => {
+  useMapEvents({
+    click: (event) => onChange({ latitude: event.latlng.lat, longitude: event.latlng.lng }),
+  });
+  return null;
+};
+
+// Follows the pin when it moves from outside the map, e.g. after the address is geocoded again
+const FollowPin = ({ value }: Pick<LocationPickerProps, "value">) => {
+  const map = useMap();
+
+  useEffect(() => {
+    if (value) {
+      map.setView([value.latitude, value.longitude], Math.max(map.getZoom(), LOCATED_MAP_ZOOM));
+    }
+  }, [value?.latitude, value?.longitude]);
+
+  return null;
+};
+
+// Click anywhere on the map to move the listing's pin
+export default function LocationPicker({ value, onChange }: LocationPickerProps) {
+  return (
+    <MapContainer
+      center={value ? [value.latitude, value.longitude] : DEFAULT_MAP_CENTER}
+      zoom={value ? LOCATED_MAP_ZOOM : DEFAULT_MAP_ZOOM}
+      className="h-64 w-full rounded-md border z-0"
+    >
+      <TileLayer url={MAP_TILE_URL} attribution={MAP_TILE_ATTRIBUTION} />
+      {value && (
+        <CircleMarker
+          center={[value.latitude, value.longitude]}
+          radius={9}
+          pathOptions={{ className: "fill-primary stroke-primary", fillOpacity: 0.8 }}
+        />
+      )}
+      <PinOnClick onChange={onChange} />
+      <FollowPin value={value} />
+    </MapContainer>
+  );
+}
@@ -0,0 +1,166 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ExternalLink } from "lucide-react";
+import { PAYMENT_METHOD_LABELS, formatPaymentAmount, getReceiptUrl } from "@/lib/payments";
+
+interface Payment {
+  id: string;
+  business_id: string;
+  amount: number | null;
+  currency: string;
+  method: string;
+  receipt_path: string | null;
+  status: string;
+  notes: string | null;
+  created_at: string;
+  reviewed_at: string | null;
+}
+
+interface PaymentHistoryProps {
+  businesses: { id: string; name: string }[];
+  // Bump to reload after a new payment is submitted
+  refreshKey?: number;
+}
+
+const getStatusBadge = (status: string) => {
+  switch (status) {
+    case "confirmed":
+      return <Badge variant="secondary" className="bg-green-100 text-green-800">Confirmed</Badge>;
+    case "pending":
+      return <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">Pending</Badge>;
+    case "needs_review":
+      return <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">Under review</Badge>;
+    case "rejected":
+      return <Badge variant="destructive">Rejected</Badge>;
+    case "cancelled":
+      return <Badge variant="secondary" className="bg-gray-100 text-gray-800">Cancelled</Badge>;
+    default:
+      return <Badge variant="outline">{status}</Badge>;
+  }
+};
+
+export default function PaymentHistory({ businesses, refreshKey }: PaymentHistoryProps) {
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Stable key so the effect only reruns when the set of businesses changes
+  const businessKey = businesses.map(business => business.id).join(',');
+
+  useEffect(() => {
+    const fetchPayments = async () => {
+      const businessIds = businessKey ? businessKey.split(',') : [];
+      if (businessIds.length === 0) {
+        setPayments([]);
+        setLoading(false);
+        return;
+      }
+
+      setLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from('payments')
+          .select('id, business_id, amount, currency, method, receipt_path, status, notes, created_at, reviewed_at')
+          .in('business_id', businessIds)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        setPayments(data || []);
+      } catch (error) {
+        console.error('Error fetching payment history:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPayments();
+  }, [businessKey, refreshKey]);
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="py-8">
+          <p className="text-muted-foreground text-center">Loading payment history...</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const businessesWithPayments = businesses.filter(business =>
+    payments.some(payment => payment.business_id === business.id)
+  );
+
+  if (businessesWithPayments.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-8">
+          <p className="text-muted-foreground text-center">No payments recorded yet.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {businessesWithPayments.map((business) => (
+        <Card key={business.id}>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">{business.name}</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Submitted</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Method</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Receipt</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payments
+                  .filter(payment => payment.business_id === business.id)
+                  .map((payment) => (
+                    <TableRow key={payment.id}>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {new Date(payment.created_at).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell>{formatPaymentAmount(payment.amount, payment.currency)}</TableCell>
+                      <TableCell>{PAYMENT_METHOD_LABELS[payment.method] || payment.method}</TableCell>
+                      <TableCell>{getStatusBadge(payment.status)}</TableCell>
+                      <TableCell>
+                        {payment.receipt_path ? (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => window.open(getReceiptUrl(payment.receipt_path), '_blank')}
+                            className="flex items-center space-x-1"
+                          >
+                            <ExternalLink className="h-4 w-4" />
+                            <span>View</span>
+                          </Button>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
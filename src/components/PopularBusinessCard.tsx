@@ -12,6 +12,10 @@ import { Swiper, SwiperSlide } from 'swiper/react';
 import { Navigation, Pagination } from 'swiper/modules';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import ProductCatalogList from '@/components/ProductCatalogList';
+import HighlightedText from '@/components/HighlightedText';
+import { BusinessProduct, getBusinessProducts } from '@/lib/products';
+import { formatDistance } from '@/lib/geocoding';
 import 'swiper/css';
 import 'swiper/css/navigation';
 import 'swiper/css/pagination';
@@ -30,10 +34,15 @@ interface Business {
   business_options?: string[] | null;
   starting_price?: string | null;
   license_expired_date?: string | null;
-  products_catalog?: string | null;
   facebook_page?: string | null;
   tiktok_url?: string | null;
   phone?: string | null;
+  // Set on search results: the name and a matching excerpt with <mark>ed terms
+  name_highlight?: string | null;
+  snippet?: string | null;
+  // Set when searching near a point
+  distance_km?: number | null;
+  is_open_now?: boolean | null;
 }
 
 interface PopularBusinessCardProps {
@@ -49,8 +58,17 @@ export const PopularBusinessCard = ({ business }: PopularBusinessCardProps) => {
   const [loadingReviews, setLoadingReviews] = useState(false);
   const [isBookmarked, setIsBookmarked] = useState(false);
   const [isBookmarkLoading, setIsBookmarkLoading] = useState(false);
+  const [products, setProducts] = useState<BusinessProduct[]>([]);
+  const [loadingProducts, setLoadingProducts] = useState(false);
   const { toast } = useToast();
 
+  // Fetch the product catalog when its modal opens
+  useEffect(() => {
+    if (openModal) {
+      fetchProducts();
+    }
+  }, [openModal, business.id]);
+
   // Fetch existing reviews when modal opens
   useEffect(() => {
     if (openReviewModal) {
@@ -82,6 +100,18 @@ export const PopularBusinessCard = ({ business }: PopularBusinessCardProps) => {
     }
   };
 
+  const fetchProducts = async () => {
+    setLoadingProducts(true);
+    try {
+      setProducts(await getBusinessProducts(business.id));
+    } catch (error) {
+      console.error('Error fetching products:', error);
+      setProducts([]);
+    } finally {
+      setLoadingProducts(false);
+    }
+  };
+
   const fetchReviews = async () => {
     setLoadingReviews(true);
     try {
@@ -271,30 +301,6 @@ export const PopularBusinessCard = ({ business }: PopularBusinessCardProps) => {
     return expiryDate >= currentDate;
   };
 
-  const parseProductsCatalog = (catalogString?: string | null) => {
-    if (!catalogString || catalogString.trim() === '') {
-      return [];
-    }
-    
-    // Try to parse as JSON first (in case it's stored as JSON array)
-    try {
-      const parsed = JSON.parse(catalogString);
-      if (Array.isArray(parsed)) {
-        return parsed;
-      }
-    } catch (error) {
-      // If JSON parsing fails, treat as comma-separated string
-    }
-    
-    // Parse as comma-separated string
-    const products = catalogString
-      .split(',')
-      .map(item => item.trim())
-      .filter(item => item.length > 0);
-    
-    return products;
-  };
-
   const hasMultipleImages = business.product_images && business.product_images.length > 1;
 
   return (
@@ -489,7 +495,7 @@ export const PopularBusinessCard = ({ business }: PopularBusinessCardProps) => {
             </div>
             <div className="flex-1">
               <h3 className="font-semibold text-sm text-foreground leading-tight line-clamp-2">
-                {business.name}
+                {business.name_highlight ? <HighlightedText text={business.name_highlight} /> : business.name}
               </h3>
             </div>
           </div>
@@ -498,9 +504,20 @@ export const PopularBusinessCard = ({ business }: PopularBusinessCardProps) => {
             <p className="text-xs text-muted-foreground flex items-center gap-1">
               <MapPin className="w-3 h-3 text-gray-500" />
               {business.city}, {business.state}
+              {formatDistance(business.distance_km) && ` · ${formatDistance(business.distance_km)} away`}
             </p>
           )}
+
+          {business.is_open_now && (
+            <p className="text-xs font-medium text-green-600">Open now</p>
+          )}
           
+          {business.snippet?.includes("<mark>") && (
+            <p className="text-xs text-muted-foreground line-clamp-2">
+              <HighlightedText text={business.snippet} />
+            </p>
+          )}
+
           {/* Business Options */}
           {business.business_options && business.business_options.length > 0 && (
             <div className="flex flex-wrap gap-x-1 gap-y-1">
@@ -541,20 +558,13 @@ export const PopularBusinessCard = ({ business }: PopularBusinessCardProps) => {
              <DialogHeader>
                <DialogTitle>{business.name} - Products Catalog</DialogTitle>
              </DialogHeader>
-             <div className="space-y-3">
-               {parseProductsCatalog(business.products_catalog).length > 0 ? (
-                 parseProductsCatalog(business.products_catalog).map((product: string, index: number) => (
-                   <div key={index} className="flex items-center space-x-2 p-3 bg-muted/50 rounded-lg">
-                     <Check className="w-4 h-4 text-primary" />
-                     <span className="text-sm">{product}</span>
-                   </div>
-                 ))
-               ) : (
-                 <div className="text-center py-8 text-muted-foreground">
-                   <p>No products catalog available</p>
-                 </div>
-               )}
-             </div>
+             {loadingProducts ? (
+               <div className="text-center py-8 text-muted-foreground">
+                 <p>Loading products...</p>
+               </div>
+             ) : (
+               <ProductCatalogList products={products} />
+             )}
            </DialogContent>
          </Dialog>
          
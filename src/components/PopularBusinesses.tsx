@@ -23,7 +23,6 @@ interface Business {
   business_options?: string[] | null;
   starting_price?: string | null;
   license_expired_date?: string | null;
-  products_catalog?: string | null;
   facebook_page?: string | null;
   tiktok_url?: string | null;
   phone?: string | null;
@@ -39,7 +38,7 @@ const PopularBusinesses = () => {
 
   const fetchBusinesses = async () => {
     try {
-      // Query businesses table directly to get all fields including products_catalog
+      // Query businesses table directly to get all the fields the cards show
       const { data, error } = await supabase
         .from('businesses')
         .select(`
@@ -56,11 +55,12 @@ const PopularBusinesses = () => {
           business_options,
           starting_price,
           license_expired_date,
-          products_catalog,
           facebook_page,
           tiktok_url,
           phone
         `)
+        .neq('payment_status', 'expired')
+        .is('deleted_at', null)
         .order('created_at', { ascending: false })
         .limit(5);
         
@@ -70,9 +70,6 @@ const PopularBusinesses = () => {
       }
       
       console.log('Fetched businesses data:', data);
-      if (data && data.length > 0) {
-        console.log('First business products_catalog:', data[0]?.products_catalog);
-      }
       setBusinesses(data || []);
     } catch (error) {
       console.error('Error:', error);
@@ -0,0 +1,57 @@
+import { Badge } from "@/components/ui/badge";
+import { BusinessProduct, formatProductPrice } from "@/lib/products";
+import { cn } from "@/lib/utils";
+import { Package } from "lucide-react";
+
+interface ProductCatalogListProps {
+  products: BusinessProduct[];
+  emptyMessage?: string;
+}
+
+export default function ProductCatalogList({ products, emptyMessage = "No products catalog available" }: ProductCatalogListProps) {
+  if (products.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <p>{emptyMessage}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {products.map((product) => {
+        const price = formatProductPrice(product);
+        return (
+          <div
+            key={product.id}
+            className={cn("flex items-start gap-3 p-3 bg-muted/50 rounded-lg", !product.is_available && "opacity-60")}
+          >
+            {product.image_url ? (
+              <img
+                src={product.image_url}
+                alt={product.name}
+                className="h-14 w-14 flex-shrink-0 rounded-md border object-cover"
+              />
+            ) : (
+              <div className="flex h-14 w-14 flex-shrink-0 items-center justify-center rounded-md bg-background">
+                <Package className="h-5 w-5 text-muted-foreground" />
+              </div>
+            )}
+            <div className="min-w-0 flex-1">
+              <div className="flex items-start justify-between gap-2">
+                <p className="text-sm font-medium">{product.name}</p>
+                {price && <p className="text-sm font-semibold text-primary whitespace-nowrap">{price}</p>}
+              </div>
+              {product.description && (
+                <p className="mt-1 text-xs text-muted-foreground">{product.description}</p>
+              )}
+              {!product.is_available && (
+                <Badge variant="secondary" className="mt-1">Currently unavailable</Badge>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
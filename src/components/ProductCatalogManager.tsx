@@ -0,0 +1,362 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import {
+  BusinessProduct,
+  PRODUCT_CURRENCIES,
+  ProductFormValues,
+  deleteBusinessProduct,
+  formatProductPrice,
+  getBusinessProducts,
+  getProductFormDefaults,
+  productFormSchema,
+  reorderBusinessProducts,
+  saveBusinessProduct,
+} from "@/lib/products";
+import { ArrowDown, ArrowUp, Edit, Package, Plus, Trash2, Upload } from "lucide-react";
+
+interface ProductCatalogManagerProps {
+  businessId: string;
+  // Product images are stored under the listing owner's folder, also when an admin edits
+  ownerId: string;
+}
+
+export default function ProductCatalogManager({ businessId, ownerId }: ProductCatalogManagerProps) {
+  const [products, setProducts] = useState<BusinessProduct[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingProduct, setEditingProduct] = useState<BusinessProduct | null>(null);
+  const [reordering, setReordering] = useState(false);
+  const { toast } = useToast();
+
+  const form = useForm<ProductFormValues>({
+    resolver: zodResolver(productFormSchema),
+    defaultValues: getProductFormDefaults(),
+  });
+
+  const imageUrl = form.watch('imageUrl');
+  const image = form.watch('image');
+
+  const fetchProducts = async () => {
+    setLoading(true);
+    try {
+      setProducts(await getBusinessProducts(businessId));
+    } catch (error) {
+      console.error('Error fetching products:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the product catalog",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchProducts();
+  }, [businessId]);
+
+  const openProductDialog = (product: BusinessProduct | null) => {
+    setEditingProduct(product);
+    form.reset(getProductFormDefaults(product));
+    setDialogOpen(true);
+  };
+
+  const onSubmit = async (values: ProductFormValues) => {
+    try {
+      await saveBusinessProduct(businessId, ownerId, values, editingProduct?.id, products.length);
+      toast({
+        title: editingProduct ? "Product updated" : "Product added",
+        description: `${values.name} has been saved to the catalog.`,
+      });
+      setDialogOpen(false);
+      fetchProducts();
+    } catch (error) {
+      console.error('Error saving product:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save the product",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removeProduct = async (product: BusinessProduct) => {
+    if (!confirm(`Remove "${product.name}" from the catalog?`)) return;
+
+    try {
+      await deleteBusinessProduct(product.id);
+      setProducts(prev => prev.filter(item => item.id !== product.id));
+    } catch (error) {
+      console.error('Error deleting product:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to remove the product",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const moveProduct = async (index: number, offset: number) => {
+    const reordered = [...products];
+    const [moved] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, moved);
+
+    setProducts(reordered);
+    setReordering(true);
+    try {
+      await reorderBusinessProducts(reordered);
+    } catch (error) {
+      console.error('Error reordering products:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save the new order",
+        variant: "destructive",
+      });
+      fetchProducts();
+    } finally {
+      setReordering(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {products.length} product{products.length === 1 ? '' : 's'} in the catalog
+        </p>
+        <Button type="button" size="sm" onClick={() => openProductDialog(null)}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Product
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="space-y-2">
+          {Array.from({ length: 3 }).map((_, index) => (
+            <Skeleton key={index} className="h-16 w-full" />
+          ))}
+        </div>
+      ) : products.length === 0 ? (
+        <div className="rounded-lg border border-dashed p-8 text-center text-sm text-muted-foreground">
+          No products yet. Add what you sell so customers can see prices and photos.
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {products.map((product, index) => (
+            <div key={product.id} className="flex items-center gap-3 rounded-lg border p-3">
+              {product.image_url ? (
+                <img src={product.image_url} alt={product.name} className="h-12 w-12 rounded-md border object-cover" />
+              ) : (
+                <div className="flex h-12 w-12 items-center justify-center rounded-md bg-muted">
+                  <Package className="h-5 w-5 text-muted-foreground" />
+                </div>
+              )}
+              <div className="min-w-0 flex-1">
+                <p className="truncate font-medium">{product.name}</p>
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <span>{formatProductPrice(product) ?? 'No price'}</span>
+                  {!product.is_available && <Badge variant="secondary">Unavailable</Badge>}
+                </div>
+              </div>
+              <div className="flex items-center gap-1">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => moveProduct(index, -1)}
+                  disabled={index === 0 || reordering}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => moveProduct(index, 1)}
+                  disabled={index === products.length - 1 || reordering}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="sm" onClick={() => openProductDialog(product)}>
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="sm" onClick={() => removeProduct(product)}>
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingProduct ? "Edit Product" : "Add Product"}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            {/* React bubbles events out of the dialog portal, so keep this submit away from a surrounding listing form */}
+            <form
+              onSubmit={(e) => {
+                e.stopPropagation();
+                form.handleSubmit(onSubmit)(e);
+              }}
+              className="space-y-4"
+            >
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name *</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Iced Latte" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Textarea rows={3} placeholder="Size, ingredients, what's included..." {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="price"
+                  render={({ field }) => (
+                    <FormItem className="col-span-2">
+                      <FormLabel>Price</FormLabel>
+                      <FormControl>
+                        <Input inputMode="decimal" placeholder="4.50" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="currency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Currency</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {PRODUCT_CURRENCIES.map((currency) => (
+                            <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="image"
+                render={() => (
+                  <FormItem>
+                    <Label htmlFor="productImage">Photo</Label>
+                    <div className="flex items-center gap-3">
+                      {(image || imageUrl) && (
+                        <img
+                          src={image ? URL.createObjectURL(image) : imageUrl}
+                          alt="Product"
+                          className="h-16 w-16 rounded-md border object-cover"
+                        />
+                      )}
+                      <input
+                        id="productImage"
+                        type="file"
+                        accept="image/*"
+                        onChange={(e) => form.setValue('image', e.target.files?.[0] ?? null, { shouldValidate: true })}
+                        className="sr-only"
+                      />
+                      <label
+                        htmlFor="productImage"
+                        className="flex flex-1 items-center justify-center gap-2 rounded-lg border-2 border-dashed border-primary/30 bg-primary/5 p-4 text-sm font-medium text-primary cursor-pointer hover:bg-primary/10"
+                      >
+                        <Upload className="h-4 w-4" />
+                        {image || imageUrl ? "Replace photo" : "Choose photo (max 1MB)"}
+                      </label>
+                      {(image || imageUrl) && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            form.setValue('image', null, { shouldValidate: true });
+                            form.setValue('imageUrl', '');
+                          }}
+                        >
+                          Remove
+                        </Button>
+                      )}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="isAvailable"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                    <div>
+                      <FormLabel>Available</FormLabel>
+                      <p className="text-xs text-muted-foreground">Unavailable products stay listed but are marked as such</p>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting ? "Saving..." : "Save Product"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { AlertCircle } from "lucide-react";
+
+interface RejectableBusiness {
+  id: string;
+  name: string;
+  payment_status: string;
+}
+
+interface RejectedPaymentBannerProps<T extends RejectableBusiness> {
+  businesses: T[];
+  onResubmit: (business: T) => void;
+}
+
+export default function RejectedPaymentBanner<T extends RejectableBusiness>({ businesses, onResubmit }: RejectedPaymentBannerProps<T>) {
+  const [reasons, setReasons] = useState<Record<string, string | null>>({});
+
+  const rejectedBusinesses = businesses.filter(business => business.payment_status === 'rejected');
+  const rejectedKey = rejectedBusinesses.map(business => business.id).join(',');
+
+  useEffect(() => {
+    const fetchReasons = async () => {
+      const businessIds = rejectedKey ? rejectedKey.split(',') : [];
+      if (businessIds.length === 0) {
+        setReasons({});
+        return;
+      }
+
+      try {
+        const { data, error } = await supabase
+          .from('payments')
+          .select('business_id, notes, reviewed_at')
+          .in('business_id', businessIds)
+          .eq('status', 'rejected')
+          .order('reviewed_at', { ascending: false });
+
+        if (error) throw error;
+
+        // Keep only the most recent rejection per business
+        const latest: Record<string, string | null> = {};
+        data?.forEach(payment => {
+          if (!(payment.business_id in latest)) {
+            latest[payment.business_id] = payment.notes;
+          }
+        });
+        setReasons(latest);
+      } catch (error) {
+        console.error('Error fetching rejection reasons:', error);
+      }
+    };
+
+    fetchReasons();
+  }, [rejectedKey]);
+
+  if (rejectedBusinesses.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      {rejectedBusinesses.map((business) => (
+        <Alert key={business.id} variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Payment receipt rejected for {business.name}</AlertTitle>
+          <AlertDescription className="space-y-2">
+            <p>{reasons[business.id] || "Your receipt could not be verified."}</p>
+            <Button size="sm" variant="outline" onClick={() => onResubmit(business)}>
+              Resubmit Receipt
+            </Button>
+          </AlertDescription>
+        </Alert>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useEffect, useState } from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Switch } from "@/components/ui/switch";
+import {
+  BusinessFacetCounts,
+  FacetFilters,
+  PRICE_RANGES,
+  RATING_THRESHOLDS,
+  formatPriceRange,
+} from "@/lib/search";
+import { BusinessOption, getBusinessOptions } from "@/lib/taxonomy";
+import { cn } from "@/lib/utils";
+import { Star } from "lucide-react";
+
+interface SearchFacetsProps {
+  value: FacetFilters;
+  onChange: (value: FacetFilters) => void;
+  // Null until the first counts arrive
+  counts: BusinessFacetCounts | null;
+}
+
+const FacetCount = ({ count }: { count: number | undefined }) => (
+  <span className="ml-auto text-xs text-muted-foreground">{count ?? 0}</span>
+);
+
+// Options, rating, price and open now, each value showing how many listings it would give
+export const SearchFacets = ({ value, onChange, counts }: SearchFacetsProps) => {
+  const [businessOptions, setBusinessOptions] = useState<BusinessOption[]>([]);
+
+  useEffect(() => {
+    getBusinessOptions()
+      .then(setBusinessOptions)
+      .catch((error) => console.error('Error fetching business options:', error));
+  }, []);
+
+  const toggleOption = (option: string, checked: boolean) => {
+    onChange({
+      ...value,
+      options: checked ? [...value.options, option] : value.options.filter(item => item !== option),
+    });
+  };
+
+  const selectedPrice = value.priceRange ? String(value.priceRange.min) : "any";
+
+  return (
+    <div className="grid grid-cols-1 gap-6 border-t pt-4 sm:grid-cols-2 lg:grid-cols-4">
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Business Options</p>
+        {businessOptions.map((option) => (
+          <div key={option.id} className="flex items-center gap-2">
+            <Checkbox
+              id={`facet-option-${option.id}`}
+              checked={value.options.includes(option.name)}
+              onCheckedChange={(checked) => toggleOption(option.name, checked === true)}
+            />
+            <Label htmlFor={`facet-option-${option.id}`} className="font-normal">
+              {option.name}
+            </Label>
+            {counts && <FacetCount count={counts.options[option.name]} />}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Rating</p>
+        <RadioGroup
+          value={value.minRating === null ? "any" : String(value.minRating)}
+          onValueChange={(rating) => onChange({ ...value, minRating: rating === "any" ? null : Number(rating) })}
+        >
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value="any" id="facet-rating-any" />
+            <Label htmlFor="facet-rating-any" className="font-normal">Any rating</Label>
+          </div>
+          {RATING_THRESHOLDS.map((stars) => (
+            <div key={stars} className="flex items-center gap-2">
+              <RadioGroupItem value={String(stars)} id={`facet-rating-${stars}`} />
+              <Label htmlFor={`facet-rating-${stars}`} className="flex items-center gap-1 font-normal">
+                {Array.from({ length: 5 }).map((_, index) => (
+                  <Star
+                    key={index}
+                    className={cn("h-3 w-3", index < stars ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground")}
+                  />
+                ))}
+                <span className="ml-1">& up</span>
+              </Label>
+              {counts && <FacetCount count={counts.ratings[stars]} />}
+            </div>
+          ))}
+        </RadioGroup>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Price</p>
+        <RadioGroup
+          value={selectedPrice}
+          onValueChange={(min) => onChange({
+            ...value,
+            priceRange: PRICE_RANGES.find(range => String(range.min) === min) ?? null,
+          })}
+        >
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value="any" id="facet-price-any" />
+            <Label htmlFor="facet-price-any" className="font-normal">Any price</Label>
+          </div>
+          {PRICE_RANGES.map((range) => (
+            <div key={range.min} className="flex items-center gap-2">
+              <RadioGroupItem value={String(range.min)} id={`facet-price-${range.min}`} />
+              <Label htmlFor={`facet-price-${range.min}`} className="font-normal">
+                {formatPriceRange(range)}
+              </Label>
+              {counts && <FacetCount count={counts.prices[range.min]} />}
+            </div>
+          ))}
+        </RadioGroup>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Hours</p>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="facet-open-now"
+            checked={value.openNow}
+            onCheckedChange={(openNow) => onChange({ ...value, openNow })}
+          />
+          <Label htmlFor="facet-open-now" className="font-normal">Open now</Label>
+          {counts && <FacetCount count={counts.openNow} />}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -3,23 +3,85 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card } from "@/components/ui/card";
-import { Search, MapPin, Filter } from "lucide-react";
+import { SearchFacets } from "@/components/SearchFacets";
+import { useToast } from "@/hooks/use-toast";
+import { Coordinates, getCurrentPosition } from "@/lib/geocoding";
+import {
+  BusinessFacetCounts,
+  DEFAULT_NEARBY_RADIUS_MILES,
+  EMPTY_FACET_FILTERS,
+  FacetFilters,
+  NEARBY_RADIUS_MILES,
+  NearbyFilter,
+  milesToKm,
+} from "@/lib/search";
+import { BusinessCategory, buildCategoryTree } from "@/lib/taxonomy";
+import { cn } from "@/lib/utils";
+import { Search, MapPin, Filter, LocateFixed } from "lucide-react";
 
 interface SearchFiltersProps {
   onSearchChange: (search: string) => void;
   onCategoryChange: (category: string) => void;
   onLocationChange: (location: string) => void;
-  categories: string[];
+  // Called with null when "Near me" is turned off
+  onNearChange: (near: NearbyFilter | null) => void;
+  facets: FacetFilters;
+  onFacetsChange: (facets: FacetFilters) => void;
+  facetCounts: BusinessFacetCounts | null;
+  categories: BusinessCategory[];
 }
 
 export const SearchFilters = ({
   onSearchChange,
   onCategoryChange,
   onLocationChange,
+  onNearChange,
+  facets,
+  onFacetsChange,
+  facetCounts,
   categories,
 }: SearchFiltersProps) => {
   const [search, setSearch] = useState("");
   const [location, setLocation] = useState("");
+  const [position, setPosition] = useState<Coordinates | null>(null);
+  const [radius, setRadius] = useState(String(DEFAULT_NEARBY_RADIUS_MILES));
+  const [locating, setLocating] = useState(false);
+  const { toast } = useToast();
+
+  const applyNear = (coordinates: Coordinates | null, radiusValue: string) => {
+    onNearChange(coordinates && {
+      ...coordinates,
+      radiusKm: radiusValue === "any" ? null : milesToKm(Number(radiusValue)),
+    });
+  };
+
+  const toggleNearMe = async () => {
+    if (position) {
+      setPosition(null);
+      applyNear(null, radius);
+      return;
+    }
+
+    setLocating(true);
+    try {
+      const coordinates = await getCurrentPosition();
+      setPosition(coordinates);
+      applyNear(coordinates, radius);
+    } catch (error) {
+      toast({
+        title: "Location unavailable",
+        description: error instanceof Error ? error.message : "We couldn't determine your location.",
+        variant: "destructive",
+      });
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const handleRadiusChange = (value: string) => {
+    setRadius(value);
+    applyNear(position, value);
+  };
 
   const handleSearchSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -58,9 +120,9 @@ export const SearchFilters = ({
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">All Categories</SelectItem>
-              {categories.map((category) => (
-                <SelectItem key={category} value={category}>
-                  {category}
+              {buildCategoryTree(categories).map((category) => (
+                <SelectItem key={category.id} value={category.name} className={cn(category.depth > 0 && "pl-12")}>
+                  {category.name}
                 </SelectItem>
               ))}
             </SelectContent>
@@ -78,6 +140,34 @@ export const SearchFilters = ({
           </form>
         </div>
         
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            type="button"
+            variant={position ? "default" : "outline"}
+            onClick={toggleNearMe}
+            disabled={locating}
+            aria-pressed={!!position}
+          >
+            <LocateFixed className="h-4 w-4 mr-2" />
+            {locating ? "Locating..." : "Near me"}
+          </Button>
+          {position && (
+            <Select value={radius} onValueChange={handleRadiusChange}>
+              <SelectTrigger className="w-36" aria-label="Distance">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {NEARBY_RADIUS_MILES.map((miles) => (
+                  <SelectItem key={miles} value={String(miles)}>Within {miles} mi</SelectItem>
+                ))}
+                <SelectItem value="any">Any distance</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        <SearchFacets value={facets} onChange={onFacetsChange} counts={facetCounts} />
+
         <div className="flex gap-2">
           <Button type="button" onClick={() => handleSearchSubmit(new Event('submit') as any)}>
             Search
@@ -88,8 +178,11 @@ export const SearchFilters = ({
             onClick={() => {
               setSearch("");
               setLocation("");
+              setPosition(null);
               onSearchChange("");
               onLocationChange("");
+              onNearChange(null);
+              onFacetsChange(EMPTY_FACET_FILTERS);
               onCategoryChange("all");
             }}
           >
@@ -0,0 +1,161 @@
+import { useEffect, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import L from "leaflet";
+import { MapContainer, Marker, Popup, TileLayer, useMap, useMapEvents } from "react-leaflet";
+import MarkerClusterGroup from "react-leaflet-cluster";
+import "leaflet/dist/leaflet.css";
+import "react-leaflet-cluster/dist/assets/MarkerCluster.css";
+import "react-leaflet-cluster/dist/assets/MarkerCluster.Default.css";
+import { Button } from "@/components/ui/button";
+import { formatDistance } from "@/lib/geocoding";
+import { DEFAULT_MAP_CENTER, DEFAULT_MAP_ZOOM, MAP_TILE_ATTRIBUTION, MAP_TILE_URL } from "@/lib/map";
+import { BusinessMapPoint, MapBounds } from "@/lib/search";
+import { MapPin, Search, Star, Store } from "lucide-react";
+
+interface ShopMapProps {
+  // Located matches only, up to the map's limit
+  businesses: BusinessMapPoint[];
+  // Located matches in all, which can be more than were loaded
+  totalCount: number;
+  // Matches without coordinates, which can't be plotted
+  unlocatedCount: number;
+  onSearchArea: (bounds: MapBounds) => void;
+  // Off while searching a map area, so the view stays where the customer put it
+  fitToResults: boolean;
+}
+
+// Drawn with CSS instead of Leaflet's default marker images, which don't survive bundling
+const shopIcon = L.divIcon({
+  className: "",
+  html: '<span class="block h-4 w-4 rounded-full border-2 border-white bg-primary shadow-md"></span>',
+  iconSize: [16, 16],
+  iconAnchor: [8, 8],
+  popupAnchor: [0, -8],
+});
+
+const FitToResults = ({ businesses, fitting }: { businesses: BusinessMapPoint[]; fitting: React.MutableRefObject<boolean> }) => {
+  const map = useMap();
+  const key = businesses.map(business => business.id).join();
+
+  useEffect(() => {
+    if (businesses.length === 0) return;
+
+    fitting.current = true;
+    map.fitBounds(
+      L.latLngBounds(businesses.map(business => [business.latitude, business.longitude] as [number, number])),
+      { padding: [40, 40], maxZoom: 14 }
+    );
+  }, [key]);
+
+  return null;
+};
+
+// Offers "search this area" once the customer pans or zooms, but not after the map fits itself to the results
+const WatchMoves = ({ fitting, onMoved }: { fitting: React.MutableRefObject<boolean>; onMoved: (bounds: MapBounds) => void }) => {
+  const map = useMapEvents({
+    moveend: () => {
+      if (fitting.current) {
+        fitting.current = false;
+        return;
+      }
+      const bounds = map.getBounds();
+      onMoved({ south: bounds.getSouth(), west: bounds.getWest(), north: bounds.getNorth(), east: bounds.getEast() });
+    },
+  });
+  return null;
+};
+
+const ShopPopup = ({ business }: { business: BusinessMapPoint }) => {
+  const distance = formatDistance(business.distance_km);
+
+  return (
+    <div className="flex w-56 gap-3">
+      {business.image_url ? (
+        <img src={business.image_url} alt={business.name} className="h-14 w-14 shrink-0 rounded-md border object-cover" />
+      ) : (
+        <div className="flex h-14 w-14 shrink-0 items-center justify-center rounded-md bg-muted">
+          <Store className="h-5 w-5 text-muted-foreground" />
+        </div>
+      )}
+      <div className="min-w-0 space-y-1">
+        <p className="truncate font-semibold text-foreground">{business.name}</p>
+        {business.category && <p className="truncate text-xs text-muted-foreground">{business.category}</p>}
+        {business.city && business.state && (
+          <p className="flex items-center gap-1 text-xs text-muted-foreground">
+            <MapPin className="h-3 w-3" />
+            {business.city}, {business.state}
+            {distance && ` · ${distance}`}
+          </p>
+        )}
+        {business.rating !== null && business.rating > 0 && (
+          <p className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+            {Number(business.rating).toFixed(1)}
+          </p>
+        )}
+        <Link to={`/business/${business.id}`} className="text-xs font-medium text-primary hover:underline">
+          View details
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+// Search results on a map; nearby shops are grouped into clusters until zoomed in
+export default function ShopMap({ businesses, totalCount, unlocatedCount, onSearchArea, fitToResults }: ShopMapProps) {
+  const [movedBounds, setMovedBounds] = useState<MapBounds | null>(null);
+  // Set while the map moves itself, so that move doesn't offer "search this area"
+  const fitting = useRef(false);
+
+  const searchArea = () => {
+    if (!movedBounds) return;
+    onSearchArea(movedBounds);
+    setMovedBounds(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <MapContainer center={DEFAULT_MAP_CENTER} zoom={DEFAULT_MAP_ZOOM} className="z-0 h-[600px] w-full rounded-lg border">
+          <TileLayer url={MAP_TILE_URL} attribution={MAP_TILE_ATTRIBUTION} />
+          <MarkerClusterGroup chunkedLoading>
+            {businesses.map((business) => (
+              <Marker key={business.id} position={[business.latitude, business.longitude]} icon={shopIcon}>
+                <Popup>
+                  <ShopPopup business={business} />
+                </Popup>
+              </Marker>
+            ))}
+          </MarkerClusterGroup>
+          {fitToResults && <FitToResults businesses={businesses} fitting={fitting} />}
+          <WatchMoves fitting={fitting} onMoved={setMovedBounds} />
+        </MapContainer>
+
+        {movedBounds && (
+          <Button
+            type="button"
+            size="sm"
+            onClick={searchArea}
+            className="absolute left-1/2 top-3 z-[1000] -translate-x-1/2 shadow-md"
+          >
+            <Search className="h-4 w-4 mr-2" />
+            Search this area
+          </Button>
+        )}
+      </div>
+
+      {totalCount > businesses.length && (
+        <p className="text-sm text-muted-foreground">
+          Showing the {businesses.length} best rated of {totalCount} businesses. Zoom in and search this area to see the rest.
+        </p>
+      )}
+      {unlocatedCount > 0 && (
+        <p className="text-sm text-muted-foreground">
+          {unlocatedCount === 1
+            ? "1 business in these results has no map location yet and isn't shown."
+            : `${unlocatedCount} businesses in these results have no map location yet and aren't shown.`}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -5,18 +5,22 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { LISTING_FEE_CURRENCY } from "@/lib/payments";
 
 interface UpgradeModalProps {
   isOpen: boolean;
   onClose: () => void;
   businessId: string;
   businessName: string;
+  onSubmitted?: () => void;
 }
 
-export default function UpgradeModal({ isOpen, onClose, businessId, businessName }: UpgradeModalProps) {
+export default function UpgradeModal({ isOpen, onClose, businessId, businessName, onSubmitted }: UpgradeModalProps) {
   const [totalAmount, setTotalAmount] = useState("");
   const [receiptFile, setReceiptFile] = useState<File | null>(null);
   const [loading, setLoading] = useState(false);
+  const { user } = useAuth();
   const { toast } = useToast();
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -29,6 +33,8 @@ export default function UpgradeModal({ isOpen, onClose, businessId, businessName
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
+    if (!user) return;
+
     if (!receiptFile || !totalAmount) {
       toast({
         title: "Error",
@@ -41,31 +47,27 @@ export default function UpgradeModal({ isOpen, onClose, businessId, businessName
     setLoading(true);
     try {
       // Upload receipt to Supabase storage
-      const fileExt = receiptFile.name.split('.').pop();
-      const fileName = `${businessId}-${Date.now()}.${fileExt}`;
-      
-      const { data: uploadData, error: uploadError } = await supabase.storage
+      const receiptPath = `receipts/${user.id}/${Date.now()}_${receiptFile.name}`;
+
+      const { error: uploadError } = await supabase.storage
         .from('business-assets')
-        .upload(`receipts/${fileName}`, receiptFile);
+        .upload(receiptPath, receiptFile);
 
       if (uploadError) throw uploadError;
 
-      // Get public URL for the uploaded file
-      const { data: urlData } = supabase.storage
-        .from('business-assets')
-        .getPublicUrl(`receipts/${fileName}`);
-
-      // Update business with new receipt URL and payment status
-      const { error: updateError } = await supabase
-        .from('businesses')
-        .update({
-          receipt_url: urlData.publicUrl,
-          payment_status: 'to_be_confirmed',
-          last_payment_date: new Date().toISOString()
-        })
-        .eq('id', businessId);
+      // Record the payment; the listing is marked as awaiting confirmation by the ledger trigger
+      const { error: paymentError } = await supabase
+        .from('payments')
+        .insert({
+          business_id: businessId,
+          payer_id: user.id,
+          amount: Number(totalAmount),
+          currency: LISTING_FEE_CURRENCY,
+          method: 'bank_transfer',
+          receipt_path: receiptPath
+        });
 
-      if (updateError) throw updateError;
+      if (paymentError) throw paymentError;
 
       toast({
         title: "Success",
@@ -74,6 +76,7 @@ export default function UpgradeModal({ isOpen, onClose, businessId, businessName
 
       setTotalAmount("");
       setReceiptFile(null);
+      onSubmitted?.();
       onClose();
     } catch (error) {
       console.error('Error uploading receipt:', error);
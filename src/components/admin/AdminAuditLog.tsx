@@ -0,0 +1,368 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { ChevronLeft, ChevronRight, Download, History, Search } from "lucide-react";
+
+type AuditData = Record<string, unknown> | null;
+
+interface AuditEntry {
+  id: string;
+  created_at: string;
+  actor_id: string;
+  actor_email: string | null;
+  action: string;
+  target_table: string;
+  target_id: string | null;
+  before_data: AuditData;
+  after_data: AuditData;
+  total_count: number;
+}
+
+const PAGE_SIZE = 25;
+// Largest page the RPC returns; exports are capped at this many rows
+const EXPORT_LIMIT = 1000;
+
+const TABLE_OPTIONS = [
+  { value: "all", label: "All tables" },
+  { value: "businesses", label: "Listings" },
+  { value: "payments", label: "Payments" },
+  { value: "business_products", label: "Listing products" },
+  { value: "business_categories", label: "Categories" },
+  { value: "business_options", label: "Business options" },
+  { value: "category_suggested_products", label: "Suggested products" },
+  { value: "business_claims", label: "Listing claims" },
+  { value: "business_reviews", label: "Reviews" },
+  { value: "profiles", label: "User profiles" },
+  { value: "user_management_actions", label: "User actions" },
+  { value: "admin_users", label: "Admin users" },
+  { value: "admin_invitations", label: "Admin invitations" },
+  { value: "admin_security_settings", label: "Security settings" },
+];
+
+const ACTION_STYLES: Record<string, string> = {
+  insert: "bg-green-100 text-green-800",
+  update: "bg-blue-100 text-blue-800",
+  delete: "bg-red-100 text-red-800",
+};
+
+// Keys whose value differs between the two snapshots; inserts and deletes list every key
+const getChangedKeys = (entry: AuditEntry) => {
+  const before = entry.before_data ?? {};
+  const after = entry.after_data ?? {};
+  return Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter((key) => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .sort();
+};
+
+const formatValue = (value: unknown) =>
+  value === undefined ? "—" : typeof value === "string" ? value : JSON.stringify(value);
+
+const toCsvCell = (value: unknown) => {
+  const text = value === null || value === undefined ? "" : typeof value === "string" ? value : JSON.stringify(value);
+  return `"${text.replace(/"/g, '""')}"`;
+};
+
+export default function AdminAuditLog() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [searchInput, setSearchInput] = useState("");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [tableFilter, setTableFilter] = useState("all");
+  const [page, setPage] = useState(0);
+  const [selectedEntry, setSelectedEntry] = useState<AuditEntry | null>(null);
+  const { toast } = useToast();
+
+  const totalPages = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+
+  const queryAuditLog = (pageSize: number, pageOffset: number) =>
+    supabase.rpc('get_admin_audit_log', {
+      search_term: searchTerm.trim() || null,
+      table_filter: tableFilter === "all" ? null : tableFilter,
+      page_size: pageSize,
+      page_offset: pageOffset
+    });
+
+  const fetchEntries = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await queryAuditLog(PAGE_SIZE, page * PAGE_SIZE);
+
+      if (error) throw error;
+      setEntries((data || []) as AuditEntry[]);
+      setTotalCount(data?.[0]?.total_count || 0);
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch audit log",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Debounce typing before hitting the database
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setSearchTerm(searchInput);
+      setPage(0);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [searchTerm, tableFilter, page]);
+
+  const exportCsv = async () => {
+    setExporting(true);
+    try {
+      const { data, error } = await queryAuditLog(EXPORT_LIMIT, 0);
+
+      if (error) throw error;
+
+      const header = ["timestamp", "actor_email", "actor_id", "action", "target_table", "target_id", "before", "after"];
+      const rows = ((data || []) as AuditEntry[]).map((entry) => [
+        entry.created_at,
+        entry.actor_email,
+        entry.actor_id,
+        entry.action,
+        entry.target_table,
+        entry.target_id,
+        entry.before_data,
+        entry.after_data,
+      ].map(toCsvCell).join(","));
+
+      const blob = new Blob([[header.join(","), ...rows].join("\n")], { type: "text/csv;charset=utf-8" });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `admin-audit-log-${format(new Date(), "yyyy-MM-dd")}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      if ((data?.[0]?.total_count || 0) > EXPORT_LIMIT) {
+        toast({
+          title: "Export truncated",
+          description: `Only the latest ${EXPORT_LIMIT} matching entries were exported. Narrow the search to export the rest.`,
+        });
+      }
+    } catch (error) {
+      console.error('Error exporting audit log:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export audit log",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Card className="md:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            <History className="h-5 w-5" />
+            <span>Audit Log</span>
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={exportCsv}
+            disabled={exporting || totalCount === 0}
+            className="flex items-center space-x-1"
+          >
+            <Download className="h-4 w-4" />
+            <span>{exporting ? "Exporting..." : "Export CSV"}</span>
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col gap-4 md:flex-row">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by admin email, record ID or value..."
+              className="pl-10"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+            />
+          </div>
+          <Select
+            value={tableFilter}
+            onValueChange={(value) => {
+              setTableFilter(value);
+              setPage(0);
+            }}
+          >
+            <SelectTrigger className="md:w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TABLE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Admin</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Target</TableHead>
+                <TableHead>Changed Fields</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                Array.from({ length: 5 }).map((_, index) => (
+                  <TableRow key={index}>
+                    {Array.from({ length: 6 }).map((_, cell) => (
+                      <TableCell key={cell}>
+                        <Skeleton className="h-4 w-full" />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))
+              ) : entries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    No audit entries found
+                  </TableCell>
+                </TableRow>
+              ) : (
+                entries.map((entry) => {
+                  const changedKeys = getChangedKeys(entry);
+                  return (
+                    <TableRow key={entry.id}>
+                      <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                        {format(new Date(entry.created_at), "MMM d, yyyy HH:mm:ss")}
+                      </TableCell>
+                      <TableCell className="text-sm">{entry.actor_email || entry.actor_id}</TableCell>
+                      <TableCell>
+                        <Badge variant="secondary" className={ACTION_STYLES[entry.action]}>
+                          {entry.action}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{entry.target_table}</div>
+                        <div className="font-mono text-xs text-muted-foreground">{entry.target_id}</div>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground max-w-xs truncate">
+                        {entry.action === "update" ? changedKeys.join(", ") : "—"}
+                      </TableCell>
+                      <TableCell>
+                        <Button variant="ghost" size="sm" onClick={() => setSelectedEntry(entry)}>
+                          Details
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        {/* Pagination */}
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            {totalCount === 0
+              ? 'No entries'
+              : `Showing ${page * PAGE_SIZE + 1}-${Math.min((page + 1) * PAGE_SIZE, totalCount)} of ${totalCount.toLocaleString()}`}
+          </p>
+          <div className="flex items-center space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(prev => prev - 1)}
+              disabled={loading || page === 0}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm">Page {page + 1} of {totalPages}</span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(prev => prev + 1)}
+              disabled={loading || page + 1 >= totalPages}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+
+      <Dialog open={!!selectedEntry} onOpenChange={(open) => !open && setSelectedEntry(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>
+              {selectedEntry?.action} on {selectedEntry?.target_table}
+            </DialogTitle>
+          </DialogHeader>
+          {selectedEntry && (
+            <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+              <p className="text-sm text-muted-foreground">
+                By {selectedEntry.actor_email || selectedEntry.actor_id} on{" "}
+                {format(new Date(selectedEntry.created_at), "MMM d, yyyy HH:mm:ss")}
+              </p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Field</TableHead>
+                    <TableHead>Before</TableHead>
+                    <TableHead>After</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {getChangedKeys(selectedEntry).map((key) => (
+                    <TableRow key={key}>
+                      <TableCell className="font-mono text-xs">{key}</TableCell>
+                      <TableCell className="text-xs break-all">
+                        {formatValue(selectedEntry.before_data?.[key])}
+                      </TableCell>
+                      <TableCell className="text-xs break-all">
+                        {formatValue(selectedEntry.after_data?.[key])}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
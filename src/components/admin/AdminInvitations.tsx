@@ -0,0 +1,270 @@
+import { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { ADMIN_ROLE_LABELS, ADMIN_ROLE_OPTIONS } from "@/lib/admin";
+import { MailPlus, RefreshCw, XCircle } from "lucide-react";
+
+interface AdminInvitation {
+  id: string;
+  email: string;
+  admin_role: string;
+  expires_at: string;
+  last_sent_at: string | null;
+  created_at: string;
+}
+
+const isExpired = (invitation: AdminInvitation) => new Date(invitation.expires_at) < new Date();
+
+export default function AdminInvitations() {
+  const [invitations, setInvitations] = useState<AdminInvitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState("admin");
+  const [submitting, setSubmitting] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchInvitations = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('admin_invitations')
+        .select('id, email, admin_role, expires_at, last_sent_at, created_at')
+        .is('accepted_at', null)
+        .is('revoked_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setInvitations(data || []);
+    } catch (error) {
+      console.error('Error fetching invitations:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch invitations",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchInvitations();
+  }, []);
+
+  // The edge function emails the link and restarts the invitation's expiry
+  const sendInvitation = async (invitationId: string) => {
+    const { data, error } = await supabase.functions.invoke('send-admin-invitation', {
+      body: {
+        invitationId,
+        signupUrl: `${window.location.origin}/@admin/signup`
+      }
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      const { data: invitationId, error } = await supabase.rpc('create_admin_invitation', {
+        invite_email: inviteEmail.trim(),
+        invite_role: inviteRole
+      });
+
+      if (error) throw error;
+
+      await sendInvitation(invitationId);
+
+      toast({
+        title: "Invitation sent",
+        description: `An invitation has been emailed to ${inviteEmail.trim()}`,
+      });
+      setInviteEmail("");
+      setInviteRole("admin");
+      await fetchInvitations();
+    } catch (error) {
+      console.error('Error creating invitation:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send invitation",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const resendInvitation = async (invitation: AdminInvitation) => {
+    setUpdatingId(invitation.id);
+    try {
+      await sendInvitation(invitation.id);
+
+      toast({
+        title: "Invitation resent",
+        description: `A new invitation email has been sent to ${invitation.email}`,
+      });
+      await fetchInvitations();
+    } catch (error) {
+      console.error('Error resending invitation:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to resend invitation",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const revokeInvitation = async (invitation: AdminInvitation) => {
+    if (!confirm(`Revoke the invitation for ${invitation.email}?`)) return;
+
+    setUpdatingId(invitation.id);
+    try {
+      const { error } = await supabase.rpc('revoke_admin_invitation', {
+        invitation_id: invitation.id
+      });
+
+      if (error) throw error;
+
+      setInvitations(prev => prev.filter(item => item.id !== invitation.id));
+      toast({
+        title: "Invitation revoked",
+        description: `${invitation.email} can no longer use their invitation`,
+      });
+    } catch (error) {
+      console.error('Error revoking invitation:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revoke invitation",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  return (
+    <Card className="md:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <MailPlus className="h-5 w-5" />
+          <span>Admin Invitations</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleInvite} className="flex flex-col gap-4 md:flex-row md:items-end">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="invite-email">Email</Label>
+            <Input
+              id="invite-email"
+              type="email"
+              placeholder="new.admin@example.com"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2 md:w-48">
+            <Label>Role</Label>
+            <Select value={inviteRole} onValueChange={setInviteRole}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ADMIN_ROLE_OPTIONS.map((role) => (
+                  <SelectItem key={role.value} value={role.value}>{role.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="submit" disabled={submitting}>
+            {submitting ? "Sending..." : "Send Invitation"}
+          </Button>
+        </form>
+
+        {loading ? (
+          <p className="text-muted-foreground text-center py-4">Loading invitations...</p>
+        ) : invitations.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">No pending invitations.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Email</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Last Sent</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invitations.map((invitation) => (
+                <TableRow key={invitation.id}>
+                  <TableCell className="font-medium">{invitation.email}</TableCell>
+                  <TableCell>{ADMIN_ROLE_LABELS[invitation.admin_role] ?? invitation.admin_role}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {invitation.last_sent_at
+                      ? formatDistanceToNow(new Date(invitation.last_sent_at), { addSuffix: true })
+                      : "Not sent"}
+                  </TableCell>
+                  <TableCell>
+                    {isExpired(invitation) ? (
+                      <Badge variant="secondary" className="bg-red-100 text-red-800">Expired</Badge>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">
+                        {formatDistanceToNow(new Date(invitation.expires_at), { addSuffix: true })}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center space-x-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => resendInvitation(invitation)}
+                        disabled={updatingId === invitation.id}
+                        className="flex items-center space-x-1"
+                      >
+                        <RefreshCw className="h-4 w-4" />
+                        <span>Resend</span>
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => revokeInvitation(invitation)}
+                        disabled={updatingId === invitation.id}
+                        className="flex items-center space-x-1 text-destructive"
+                      >
+                        <XCircle className="h-4 w-4" />
+                        <span>Revoke</span>
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
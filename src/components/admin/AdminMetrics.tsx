@@ -1,115 +1,237 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { 
-  Users, 
-  Store, 
-  UserPlus, 
-  DollarSign, 
-  TrendingUp, 
-  Calendar,
-  Eye,
-  ShoppingBag
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Users,
+  Store,
+  UserPlus,
+  DollarSign,
+  Heart,
+  Star,
+  Clock,
+  MessageSquare,
+  AlertCircle,
+  RefreshCw
 } from "lucide-react";
 
+interface DashboardMetrics {
+  total_listings: number;
+  active_listings: number;
+  pending_listings: number;
+  new_listings: number;
+  previous_new_listings: number;
+  total_users: number;
+  new_users: number;
+  previous_new_users: number;
+  total_bookmarks: number;
+  total_reviews: number;
+  new_reviews: number;
+  previous_new_reviews: number;
+  average_rating: number;
+  confirmed_payments: number;
+  previous_confirmed_payments: number;
+  revenue: number;
+  previous_revenue: number;
+}
+
+const PERIOD_OPTIONS = [
+  { value: "7", label: "Last 7 days" },
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+];
+
+// Percentage change between the current and the previous window of the same length
+const formatChange = (current: number, previous: number) => {
+  if (previous === 0) {
+    return {
+      change: current > 0 ? "New" : "0%",
+      changeType: current > 0 ? "positive" as const : "neutral" as const
+    };
+  }
+
+  const percent = ((current - previous) / previous) * 100;
+  return {
+    change: `${percent > 0 ? '+' : ''}${percent.toFixed(0)}%`,
+    changeType: percent > 0 ? "positive" as const : percent < 0 ? "negative" as const : "neutral" as const
+  };
+};
+
 export default function AdminMetrics() {
-  // Mock data - in real app this would come from API
-  const metrics = [
+  const [period, setPeriod] = useState("30");
+  const [metrics, setMetrics] = useState<DashboardMetrics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchMetrics = async (periodDays: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error } = await supabase.rpc('get_admin_dashboard_metrics', {
+        period_days: Number(periodDays)
+      });
+
+      if (error) throw error;
+      setMetrics(data?.[0] ?? null);
+    } catch (error) {
+      console.error('Error fetching dashboard metrics:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load dashboard metrics');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchMetrics(period);
+  }, [period]);
+
+  const periodLabel = PERIOD_OPTIONS.find(option => option.value === period)?.label.toLowerCase();
+
+  const cards = metrics ? [
     {
       title: "Total Listings",
-      value: "2,847",
-      change: "+12%",
-      changeType: "positive" as const,
+      value: metrics.total_listings.toLocaleString(),
+      ...formatChange(metrics.new_listings, metrics.previous_new_listings),
       icon: Store,
-      description: "Active business listings"
+      description: `${metrics.active_listings.toLocaleString()} active, ${metrics.new_listings.toLocaleString()} new`
+    },
+    {
+      title: "Pending Confirmation",
+      value: metrics.pending_listings.toLocaleString(),
+      change: null,
+      changeType: "neutral" as const,
+      icon: Clock,
+      description: "Listings awaiting payment review"
     },
     {
       title: "Total Users",
-      value: "18,432",
-      change: "+8%",
-      changeType: "positive" as const,
+      value: metrics.total_users.toLocaleString(),
+      ...formatChange(metrics.new_users, metrics.previous_new_users),
       icon: Users,
       description: "Registered users"
     },
     {
       title: "New Sign-ups",
-      value: "234",
-      change: "+23%",
-      changeType: "positive" as const,
+      value: metrics.new_users.toLocaleString(),
+      ...formatChange(metrics.new_users, metrics.previous_new_users),
       icon: UserPlus,
-      description: "This month"
+      description: periodLabel
     },
     {
-      title: "Total Revenue",
-      value: "$54,280",
-      change: "+18%",
-      changeType: "positive" as const,
+      title: "Revenue",
+      value: `$${Number(metrics.revenue).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`,
+      ...formatChange(Number(metrics.revenue), Number(metrics.previous_revenue)),
       icon: DollarSign,
-      description: "Monthly revenue"
+      description: `${metrics.confirmed_payments.toLocaleString()} confirmed payments, ${periodLabel}`
     },
     {
-      title: "Page Views",
-      value: "124,583",
-      change: "+5%",
-      changeType: "positive" as const,
-      icon: Eye,
-      description: "This month"
+      title: "Reviews",
+      value: metrics.total_reviews.toLocaleString(),
+      ...formatChange(metrics.new_reviews, metrics.previous_new_reviews),
+      icon: MessageSquare,
+      description: `${metrics.new_reviews.toLocaleString()} new reviews`
     },
     {
-      title: "Active Orders",
-      value: "89",
-      change: "-2%",
-      changeType: "negative" as const,
-      icon: ShoppingBag,
-      description: "Pending orders"
+      title: "Average Rating",
+      value: Number(metrics.average_rating).toFixed(1),
+      change: null,
+      changeType: "neutral" as const,
+      icon: Star,
+      description: "Across all reviews"
     },
     {
-      title: "Growth Rate",
-      value: "15.3%",
-      change: "+2.1%",
-      changeType: "positive" as const,
-      icon: TrendingUp,
-      description: "Monthly growth"
-    },
-    {
-      title: "Avg. Session",
-      value: "4m 32s",
-      change: "+12s",
-      changeType: "positive" as const,
-      icon: Calendar,
-      description: "User engagement"
+      title: "Bookmarks",
+      value: metrics.total_bookmarks.toLocaleString(),
+      change: null,
+      changeType: "neutral" as const,
+      icon: Heart,
+      description: "Saved listings"
     }
-  ];
+  ] : [];
 
   return (
-    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
-      {metrics.map((metric, index) => {
-        const IconComponent = metric.icon;
-        return (
-          <Card key={index}>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">{metric.title}</CardTitle>
-              <IconComponent className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">{metric.value}</div>
-              <div className="flex items-center space-x-1 text-xs">
-                <span
-                  className={`font-medium ${
-                    metric.changeType === 'positive' 
-                      ? 'text-green-600' 
-                      : 'text-red-600'
-                  }`}
-                >
-                  {metric.change}
-                </span>
-                <span className="text-muted-foreground">from last month</span>
-              </div>
-              <p className="text-xs text-muted-foreground mt-1">
-                {metric.description}
-              </p>
-            </CardContent>
-          </Card>
-        );
-      })}
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Select value={period} onValueChange={setPeriod}>
+          <SelectTrigger className="w-40">
+            <SelectValue placeholder="Period" />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIOD_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+          {Array.from({ length: 8 }).map((_, index) => (
+            <Card key={index}>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <Skeleton className="h-4 w-24" />
+                <Skeleton className="h-4 w-4" />
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <Skeleton className="h-8 w-20" />
+                <Skeleton className="h-3 w-32" />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : error ? (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <AlertCircle className="h-10 w-10 mx-auto mb-3 text-destructive" />
+            <p className="font-medium mb-1">Unable to load dashboard metrics</p>
+            <p className="text-sm text-muted-foreground mb-4">{error}</p>
+            <Button variant="outline" onClick={() => fetchMetrics(period)} className="flex items-center space-x-2 mx-auto">
+              <RefreshCw className="h-4 w-4" />
+              <span>Try again</span>
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+          {cards.map((metric) => {
+            const IconComponent = metric.icon;
+            return (
+              <Card key={metric.title}>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                  <CardTitle className="text-sm font-medium">{metric.title}</CardTitle>
+                  <IconComponent className="h-4 w-4 text-muted-foreground" />
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{metric.value}</div>
+                  {metric.change && (
+                    <div className="flex items-center space-x-1 text-xs">
+                      <span
+                        className={`font-medium ${
+                          metric.changeType === 'positive'
+                            ? 'text-green-600'
+                            : metric.changeType === 'negative'
+                              ? 'text-red-600'
+                              : 'text-muted-foreground'
+                        }`}
+                      >
+                        {metric.change}
+                      </span>
+                      <span className="text-muted-foreground">from previous period</span>
+                    </div>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {metric.description}
+                  </p>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
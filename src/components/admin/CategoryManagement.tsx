@@ -0,0 +1,550 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import {
+  BusinessCategory,
+  BusinessOption,
+  CategoryFormValues,
+  SuggestedProduct,
+  buildCategoryTree,
+  categoryFormSchema,
+  createBusinessOption,
+  createSuggestedProduct,
+  deleteBusinessCategory,
+  deleteBusinessOption,
+  deleteSuggestedProduct,
+  getBusinessCategories,
+  getBusinessOptions,
+  getCategoryFormDefaults,
+  getSuggestedProducts,
+  reorderBusinessOptions,
+  saveBusinessCategory,
+  slugify,
+  updateBusinessOption,
+} from "@/lib/taxonomy";
+import { cn } from "@/lib/utils";
+import { ArrowDown, ArrowUp, Edit, Plus, Trash2, X } from "lucide-react";
+
+const NO_PARENT = "none";
+
+export default function CategoryManagement() {
+  const [categories, setCategories] = useState<BusinessCategory[]>([]);
+  const [options, setOptions] = useState<BusinessOption[]>([]);
+  const [suggestions, setSuggestions] = useState<SuggestedProduct[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<BusinessCategory | null>(null);
+  const [newOptionName, setNewOptionName] = useState("");
+  const [savingOptions, setSavingOptions] = useState(false);
+  const [suggestionCategoryId, setSuggestionCategoryId] = useState("");
+  const [newSuggestionName, setNewSuggestionName] = useState("");
+  const { toast } = useToast();
+
+  const form = useForm<CategoryFormValues>({
+    resolver: zodResolver(categoryFormSchema),
+    defaultValues: getCategoryFormDefaults(),
+  });
+
+  const categoryTree = buildCategoryTree(categories);
+  // Only one level of nesting: a category with subcategories cannot become one itself
+  const parentChoices = categories.filter(
+    (category) => !category.parent_id && category.id !== editingCategory?.id
+  );
+  const editingHasChildren = !!editingCategory && categories.some((category) => category.parent_id === editingCategory.id);
+  const categorySuggestions = suggestions.filter((suggestion) => suggestion.category_id === suggestionCategoryId);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const fetchTaxonomy = async () => {
+    try {
+      const [categoryData, optionData, suggestionData] = await Promise.all([
+        getBusinessCategories(true),
+        getBusinessOptions(true),
+        getSuggestedProducts(),
+      ]);
+      setCategories(categoryData);
+      setOptions(optionData);
+      setSuggestions(suggestionData);
+      setSuggestionCategoryId((current) => current || categoryData[0]?.id || "");
+    } catch (error) {
+      console.error('Error fetching categories and options:', error);
+      showError(error, "Failed to load categories and options");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTaxonomy();
+  }, []);
+
+  const openCategoryDialog = (category: BusinessCategory | null) => {
+    setEditingCategory(category);
+    form.reset(getCategoryFormDefaults(category, categories.length));
+    setDialogOpen(true);
+  };
+
+  const onSubmitCategory = async (values: CategoryFormValues) => {
+    try {
+      await saveBusinessCategory(values, editingCategory?.id);
+      toast({
+        title: editingCategory ? "Category updated" : "Category added",
+        description: editingCategory && editingCategory.name !== values.name
+          ? `Listings in ${editingCategory.name} now show ${values.name}.`
+          : `${values.name} has been saved.`,
+      });
+      setDialogOpen(false);
+      fetchTaxonomy();
+    } catch (error) {
+      console.error('Error saving category:', error);
+      showError(error, "Failed to save the category");
+    }
+  };
+
+  const removeCategory = async (category: BusinessCategory) => {
+    if (!confirm(`Delete the category "${category.name}"?`)) return;
+
+    try {
+      await deleteBusinessCategory(category.id);
+      fetchTaxonomy();
+    } catch (error) {
+      console.error('Error deleting category:', error);
+      showError(error, "Failed to delete the category");
+    }
+  };
+
+  const addOption = async () => {
+    const name = newOptionName.trim();
+    if (!name) return;
+
+    setSavingOptions(true);
+    try {
+      await createBusinessOption(name, options.length);
+      setNewOptionName("");
+      fetchTaxonomy();
+    } catch (error) {
+      console.error('Error adding option:', error);
+      showError(error, "Failed to add the option");
+    } finally {
+      setSavingOptions(false);
+    }
+  };
+
+  const toggleOption = async (option: BusinessOption, isActive: boolean) => {
+    setOptions((prev) => prev.map((item) => (item.id === option.id ? { ...item, is_active: isActive } : item)));
+    try {
+      await updateBusinessOption(option.id, { is_active: isActive });
+    } catch (error) {
+      console.error('Error updating option:', error);
+      showError(error, "Failed to update the option");
+      fetchTaxonomy();
+    }
+  };
+
+  const removeOption = async (option: BusinessOption) => {
+    if (!confirm(`Delete the option "${option.name}"? Listings that already offer it keep it until edited.`)) return;
+
+    try {
+      await deleteBusinessOption(option.id);
+      setOptions((prev) => prev.filter((item) => item.id !== option.id));
+    } catch (error) {
+      console.error('Error deleting option:', error);
+      showError(error, "Failed to delete the option");
+    }
+  };
+
+  const moveOption = async (index: number, offset: number) => {
+    const reordered = [...options];
+    const [moved] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, moved);
+
+    setOptions(reordered);
+    setSavingOptions(true);
+    try {
+      await reorderBusinessOptions(reordered);
+    } catch (error) {
+      console.error('Error reordering options:', error);
+      showError(error, "Failed to save the new order");
+      fetchTaxonomy();
+    } finally {
+      setSavingOptions(false);
+    }
+  };
+
+  const addSuggestion = async () => {
+    const name = newSuggestionName.trim();
+    if (!name || !suggestionCategoryId) return;
+
+    try {
+      await createSuggestedProduct(suggestionCategoryId, name, categorySuggestions.length);
+      setNewSuggestionName("");
+      fetchTaxonomy();
+    } catch (error) {
+      console.error('Error adding suggested product:', error);
+      showError(error, "Failed to add the suggested product");
+    }
+  };
+
+  const removeSuggestion = async (suggestion: SuggestedProduct) => {
+    try {
+      await deleteSuggestedProduct(suggestion.id);
+      setSuggestions((prev) => prev.filter((item) => item.id !== suggestion.id));
+    } catch (error) {
+      console.error('Error deleting suggested product:', error);
+      showError(error, "Failed to remove the suggested product");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-2">
+        {Array.from({ length: 5 }).map((_, index) => (
+          <Skeleton key={index} className="h-14 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <Tabs defaultValue="categories" className="space-y-6">
+      <TabsList>
+        <TabsTrigger value="categories">Categories</TabsTrigger>
+        <TabsTrigger value="options">Business Options</TabsTrigger>
+        <TabsTrigger value="suggestions">Suggested Products</TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="categories">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle>Categories</CardTitle>
+            <Button size="sm" onClick={() => openCategoryDialog(null)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Category
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {categoryTree.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">No categories yet.</p>
+            ) : (
+              categoryTree.map((category) => (
+                <div
+                  key={category.id}
+                  className={cn("flex items-center gap-3 rounded-lg border p-3", category.depth > 0 && "ml-8")}
+                >
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <p className="truncate font-medium">{category.name}</p>
+                      {!category.is_active && <Badge variant="secondary">Hidden</Badge>}
+                      {category.is_service && <Badge variant="outline">Service</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      /{category.slug}
+                      {category.icon && ` · ${category.icon}`}
+                      {` · order ${category.sort_order}`}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => openCategoryDialog(category)}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => removeCategory(category)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </TabsContent>
+
+      <TabsContent value="options">
+        <Card>
+          <CardHeader>
+            <CardTitle>Business Options</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex gap-2">
+              <Input
+                value={newOptionName}
+                onChange={(e) => setNewOptionName(e.target.value)}
+                placeholder="e.g. Free Wi-Fi"
+                onKeyDown={(e) => e.key === 'Enter' && addOption()}
+              />
+              <Button onClick={addOption} disabled={!newOptionName.trim() || savingOptions}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              {options.map((option, index) => (
+                <div key={option.id} className="flex items-center gap-3 rounded-lg border p-3">
+                  <p className="flex-1 font-medium">{option.name}</p>
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor={`option-${option.id}`} className="text-sm font-normal text-muted-foreground">
+                      Offered
+                    </Label>
+                    <Switch
+                      id={`option-${option.id}`}
+                      checked={option.is_active}
+                      onCheckedChange={(checked) => toggleOption(option, checked)}
+                    />
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => moveOption(index, -1)}
+                    disabled={index === 0 || savingOptions}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => moveOption(index, 1)}
+                    disabled={index === options.length - 1 || savingOptions}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => removeOption(option)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </TabsContent>
+
+      <TabsContent value="suggestions">
+        <Card>
+          <CardHeader>
+            <CardTitle>Suggested Products</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Offered as one-click picks when a new listing in the category builds its catalog. Subcategories also get their parent's suggestions.
+            </p>
+            <Select value={suggestionCategoryId} onValueChange={setSuggestionCategoryId}>
+              <SelectTrigger className="w-64">
+                <SelectValue placeholder="Select a category" />
+              </SelectTrigger>
+              <SelectContent>
+                {categoryTree.map((category) => (
+                  <SelectItem key={category.id} value={category.id} className={cn(category.depth > 0 && "pl-12")}>
+                    {category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <div className="flex gap-2">
+              <Input
+                value={newSuggestionName}
+                onChange={(e) => setNewSuggestionName(e.target.value)}
+                placeholder="e.g. Cappuccino"
+                onKeyDown={(e) => e.key === 'Enter' && addSuggestion()}
+                disabled={!suggestionCategoryId}
+              />
+              <Button onClick={addSuggestion} disabled={!newSuggestionName.trim() || !suggestionCategoryId}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add
+              </Button>
+            </div>
+
+            {categorySuggestions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No suggested products for this category.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {categorySuggestions.map((suggestion) => (
+                  <div
+                    key={suggestion.id}
+                    className="flex items-center gap-1 bg-secondary text-secondary-foreground px-2 py-1 rounded-md text-sm"
+                  >
+                    <span>{suggestion.name}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeSuggestion(suggestion)}
+                      className="h-4 w-4 p-0 hover:bg-destructive hover:text-destructive-foreground"
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </TabsContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingCategory ? "Edit Category" : "Add Category"}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmitCategory)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name *</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="Coffee Shop"
+                        {...field}
+                        onChange={(e) => {
+                          field.onChange(e);
+                          // New categories follow the name until the slug is edited by hand
+                          if (!editingCategory && !form.getFieldState('slug').isDirty) {
+                            form.setValue('slug', slugify(e.target.value));
+                          }
+                        }}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="slug"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Slug *</FormLabel>
+                    <FormControl>
+                      <Input placeholder="coffee-shop" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="icon"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Icon</FormLabel>
+                      <FormControl>
+                        <Input placeholder="coffee" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="sortOrder"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Sort order</FormLabel>
+                      <FormControl>
+                        <Input inputMode="numeric" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="parentId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Parent category</FormLabel>
+                    <Select
+                      value={field.value || NO_PARENT}
+                      onValueChange={(value) => field.onChange(value === NO_PARENT ? "" : value)}
+                      disabled={editingHasChildren}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_PARENT}>None (top-level)</SelectItem>
+                        {parentChoices.map((category) => (
+                          <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {editingHasChildren && (
+                      <p className="text-xs text-muted-foreground">This category has subcategories, so it stays top-level.</p>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="isActive"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                    <div>
+                      <FormLabel>Active</FormLabel>
+                      <p className="text-xs text-muted-foreground">Hidden categories disappear from the listing form and filters but keep their listings</p>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="isService"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                    <div>
+                      <FormLabel>Service category</FormLabel>
+                      <p className="text-xs text-muted-foreground">Listings here, and in its subcategories, show up under "Find Service"</p>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting ? "Saving..." : "Save Category"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Tabs>
+  );
+}
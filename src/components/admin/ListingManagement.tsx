@@ -1,70 +1,270 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import BusinessForm from "@/components/BusinessForm";
+import ListingTrash from "@/components/admin/ListingTrash";
+import { BusinessCategory, buildCategoryTree, getBusinessCategories, getCategoryFilterNames } from "@/lib/taxonomy";
+import { cn } from "@/lib/utils";
 import { 
   Plus, 
   Search, 
   Filter, 
-  MoreHorizontal,
-  Edit,
-  Trash2,
+  ArrowUpDown,
+  ChevronLeft,
+  ChevronRight,
   Eye,
+  Edit,
   Star,
   MapPin,
   Phone,
   Globe,
-  Upload
+  Calendar,
+  UserSearch,
+  Copy
 } from "lucide-react";
 
+interface Listing {
+  id: string;
+  name: string;
+  category: string | null;
+  city: string | null;
+  state: string | null;
+  phone: string | null;
+  website: string | null;
+  rating: number | null;
+  payment_status: string;
+  listing_expired_date: string | null;
+  created_at: string;
+}
+
+interface OwnerAccount {
+  user_id: string;
+  email: string;
+  display_name: string | null;
+}
+
+type OwnerMode = "existing" | "placeholder";
+
+const PAGE_SIZE = 12;
+
+const SORT_OPTIONS = {
+  newest: { label: "Newest", column: "created_at", ascending: false },
+  oldest: { label: "Oldest", column: "created_at", ascending: true },
+  name: { label: "Name (A-Z)", column: "name", ascending: true },
+  rating: { label: "Top Rated", column: "rating", ascending: false },
+  expiry: { label: "Expiring Soon", column: "listing_expired_date", ascending: true },
+} as const;
+
+type SortKey = keyof typeof SORT_OPTIONS;
+
+// Strip characters that carry meaning in PostgREST filter strings
+const sanitizeSearchTerm = (term: string) => term.replace(/[,()"\\%*]/g, ' ').trim();
+
+const todayString = () => new Date().toISOString().split('T')[0];
+
+// The status shown on each listing and the status filter follow one rule: the payment status decides, except that a
+// confirmed listing past its expiry date is expired before the nightly job marks it so. No expiry date means no end.
+const getListingStatus = (listing: Listing) => {
+  if (listing.payment_status === 'to_be_confirmed') return "pending";
+  if (listing.payment_status === 'rejected') return "rejected";
+  if (listing.payment_status === 'cancelled') return "cancelled";
+  if (listing.payment_status === 'expired') return "expired";
+  if (listing.listing_expired_date && listing.listing_expired_date < todayString()) return "expired";
+  return "active";
+};
+
+// The same rule as a PostgREST "or" filter for one status
+const getStatusFilter = (status: string) => {
+  const today = todayString();
+  switch (status) {
+    case "active":
+      return `and(payment_status.eq.confirmed,or(listing_expired_date.is.null,listing_expired_date.gte.${today}))`;
+    case "pending":
+      return 'payment_status.eq.to_be_confirmed';
+    case "expired":
+      return `payment_status.eq.expired,and(payment_status.eq.confirmed,listing_expired_date.lt.${today})`;
+    default:
+      return `payment_status.eq.${status}`;
+  }
+};
+
 export default function ListingManagement() {
   const [activeTab, setActiveTab] = useState("all");
+  const [listings, setListings] = useState<Listing[]>([]);
+  const [categories, setCategories] = useState<BusinessCategory[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [searchInput, setSearchInput] = useState("");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [categoryFilter, setCategoryFilter] = useState("all");
+  const [sortBy, setSortBy] = useState<SortKey>("newest");
+  const [page, setPage] = useState(0);
+  const [ownerMode, setOwnerMode] = useState<OwnerMode>("existing");
+  const [ownerEmail, setOwnerEmail] = useState("");
+  const [selectedOwner, setSelectedOwner] = useState<OwnerAccount | null>(null);
+  const [lookingUpOwner, setLookingUpOwner] = useState(false);
+  const [claimEmail, setClaimEmail] = useState("");
+  const [claimLink, setClaimLink] = useState<string | null>(null);
+  const [formKey, setFormKey] = useState(0);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const totalPages = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+
+  const fetchCategories = async () => {
+    try {
+      // Deactivated categories stay filterable here since listings may still use them
+      setCategories(await getBusinessCategories(true));
+    } catch (error) {
+      console.error("Error fetching categories:", error);
+    }
+  };
+
+  const fetchListings = async () => {
+    setLoading(true);
+    try {
+      const sort = SORT_OPTIONS[sortBy];
+      let query = supabase
+        .from('businesses')
+        .select('id, name, category, city, state, phone, website, rating, payment_status, listing_expired_date, created_at', { count: 'exact' })
+        // Trashed listings are managed in the trash view
+        .is('deleted_at', null)
+        .order(sort.column, { ascending: sort.ascending, nullsFirst: false })
+        .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+      const term = sanitizeSearchTerm(searchTerm);
+      if (term) {
+        query = query.or(`name.ilike.%${term}%,description.ilike.%${term}%`);
+      }
+
+      if (statusFilter !== "all") {
+        query = query.or(getStatusFilter(statusFilter));
+      }
+
+      if (categoryFilter !== "all") {
+        query = query.in('category', getCategoryFilterNames(categories, categoryFilter));
+      }
+
+      const { data, error, count } = await query;
+
+      if (error) throw error;
+      setListings(data || []);
+      setTotalCount(count || 0);
+    } catch (error) {
+      console.error('Error fetching listings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch listings",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchCategories();
+  }, []);
+
+  // Debounce typing before hitting the database
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setSearchTerm(searchInput);
+      setPage(0);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
 
-  // Mock data for existing listings
-  const listings = [
-    {
-      id: 1,
-      name: "Sunset Cafe",
-      category: "Food & Beverage",
-      location: "Downtown",
-      status: "active",
-      rating: 4.5,
-      reviews: 89,
-      phone: "(555) 123-4567",
-      website: "www.sunsetcafe.com",
-      featured: true
-    },
-    {
-      id: 2,
-      name: "TechHub Coworking",
-      category: "Business Services", 
-      location: "Tech District",
-      status: "pending",
-      rating: 4.8,
-      reviews: 156,
-      phone: "(555) 987-6543",
-      website: "www.techhub.co",
-      featured: false
-    },
-    {
-      id: 3,
-      name: "Green Valley Spa",
-      category: "Health & Wellness",
-      location: "Uptown",
-      status: "active",
-      rating: 4.2,
-      reviews: 234,
-      phone: "(555) 456-7890",
-      website: "www.greenvalleyspa.com",
-      featured: true
+  useEffect(() => {
+    fetchListings();
+  }, [searchTerm, statusFilter, categoryFilter, sortBy, page]);
+
+  // Any filter change starts again from the first page
+  const handleFilterChange = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(0);
+  };
+
+  const handleOwnerModeChange = (mode: OwnerMode) => {
+    setOwnerMode(mode);
+    setClaimLink(null);
+  };
+
+  const lookupOwner = async () => {
+    setLookingUpOwner(true);
+    setSelectedOwner(null);
+    try {
+      const { data, error } = await supabase.rpc('find_user_by_email', {
+        search_email: ownerEmail.trim()
+      });
+
+      if (error) throw error;
+
+      if (!data?.length) {
+        toast({
+          title: "User Not Found",
+          description: "No account is registered with that email. Use a placeholder owner instead.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setSelectedOwner(data[0]);
+    } catch (error) {
+      console.error('Error looking up owner:', error);
+      toast({
+        title: "Error",
+        description: "Failed to look up user",
+        variant: "destructive",
+      });
+    } finally {
+      setLookingUpOwner(false);
+    }
+  };
+
+  // Placeholder listings are owned by the admin until the claim link is used
+  const formOwner = ownerMode === "existing"
+    ? selectedOwner && { id: selectedOwner.user_id, email: selectedOwner.email }
+    : user && { id: user.id, email: claimEmail.trim() || null };
+
+  const handleListingCreated = (business?: { id: string; claimToken?: string }) => {
+    setFormKey(prev => prev + 1);
+    fetchListings();
+
+    if (ownerMode === "existing") {
+      setOwnerEmail("");
+      setSelectedOwner(null);
+      setActiveTab("all");
+      return;
     }
-  ];
+
+    // The claim was created in the same request as the listing
+    if (!business?.claimToken) return;
+
+    setClaimLink(`${window.location.origin}/claim-listing/${business.claimToken}`);
+    setClaimEmail("");
+  };
+
+  const copyClaimLink = async () => {
+    if (!claimLink) return;
+    await navigator.clipboard.writeText(claimLink);
+    toast({
+      title: "Copied",
+      description: "Claim link copied to clipboard",
+    });
+  };
 
   const getStatusBadge = (status: string) => {
     switch (status) {
@@ -72,8 +272,12 @@ export default function ListingManagement() {
         return <Badge variant="secondary" className="bg-green-100 text-green-800">Active</Badge>;
       case "pending":
         return <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">Pending</Badge>;
-      case "inactive":
-        return <Badge variant="secondary" className="bg-gray-100 text-gray-800">Inactive</Badge>;
+      case "expired":
+        return <Badge variant="secondary" className="bg-red-100 text-red-800">Expired</Badge>;
+      case "rejected":
+        return <Badge variant="destructive">Rejected</Badge>;
+      case "cancelled":
+        return <Badge variant="secondary" className="bg-gray-100 text-gray-800">Cancelled</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
@@ -82,9 +286,10 @@ export default function ListingManagement() {
   return (
     <div className="space-y-6">
       <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="all">All Listings</TabsTrigger>
           <TabsTrigger value="create">Create New Listing</TabsTrigger>
+          <TabsTrigger value="trash">Trash</TabsTrigger>
         </TabsList>
 
         {/* All Listings Tab */}
@@ -99,12 +304,14 @@ export default function ListingManagement() {
                     <Input 
                       placeholder="Search listings..." 
                       className="pl-10"
+                      value={searchInput}
+                      onChange={(e) => setSearchInput(e.target.value)}
                     />
                   </div>
                 </div>
-                <div className="flex gap-2">
-                  <Select>
-                    <SelectTrigger className="w-32">
+                <div className="flex flex-wrap gap-2">
+                  <Select value={statusFilter} onValueChange={handleFilterChange(setStatusFilter)}>
+                    <SelectTrigger className="w-36">
                       <Filter className="h-4 w-4 mr-2" />
                       <SelectValue placeholder="Status" />
                     </SelectTrigger>
@@ -112,19 +319,35 @@ export default function ListingManagement() {
                       <SelectItem value="all">All Status</SelectItem>
                       <SelectItem value="active">Active</SelectItem>
                       <SelectItem value="pending">Pending</SelectItem>
-                      <SelectItem value="inactive">Inactive</SelectItem>
+                      <SelectItem value="expired">Expired</SelectItem>
+                      <SelectItem value="rejected">Rejected</SelectItem>
+                      <SelectItem value="cancelled">Cancelled</SelectItem>
                     </SelectContent>
                   </Select>
-                  <Select>
+                  <Select value={categoryFilter} onValueChange={handleFilterChange(setCategoryFilter)}>
                     <SelectTrigger className="w-40">
                       <SelectValue placeholder="Category" />
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="all">All Categories</SelectItem>
-                      <SelectItem value="food">Food & Beverage</SelectItem>
-                      <SelectItem value="retail">Retail</SelectItem>
-                      <SelectItem value="services">Services</SelectItem>
-                      <SelectItem value="health">Health & Wellness</SelectItem>
+                      {buildCategoryTree(categories).map((category) => (
+                        <SelectItem key={category.id} value={category.name} className={cn(category.depth > 0 && "pl-12")}>
+                          {category.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={sortBy} onValueChange={handleFilterChange((value: string) => setSortBy(value as SortKey))}>
+                    <SelectTrigger className="w-40">
+                      <ArrowUpDown className="h-4 w-4 mr-2" />
+                      <SelectValue placeholder="Sort" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(SORT_OPTIONS).map(([key, option]) => (
+                        <SelectItem key={key} value={key}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -133,61 +356,112 @@ export default function ListingManagement() {
           </Card>
 
           {/* Listings Grid */}
-          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-            {listings.map((listing) => (
-              <Card key={listing.id} className="hover:shadow-md transition-shadow">
-                <CardHeader className="pb-3">
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1">
-                      <CardTitle className="text-lg flex items-center gap-2">
-                        {listing.name}
-                        {listing.featured && <Star className="h-4 w-4 text-yellow-500 fill-current" />}
-                      </CardTitle>
-                      <p className="text-sm text-muted-foreground">{listing.category}</p>
+          {loading ? (
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {Array.from({ length: 6 }).map((_, index) => (
+                <Card key={index}>
+                  <CardHeader className="pb-3 space-y-2">
+                    <Skeleton className="h-5 w-3/4" />
+                    <Skeleton className="h-4 w-1/3" />
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <Skeleton className="h-4 w-1/2" />
+                    <Skeleton className="h-4 w-2/3" />
+                    <Skeleton className="h-4 w-1/2" />
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : listings.length === 0 ? (
+            <Card>
+              <CardContent className="p-8 text-center text-muted-foreground">
+                No listings match your filters
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {listings.map((listing) => (
+                <Card key={listing.id} className="hover:shadow-md transition-shadow">
+                  <CardHeader className="pb-3">
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1">
+                        <CardTitle className="text-lg">{listing.name}</CardTitle>
+                        <p className="text-sm text-muted-foreground">{listing.category || 'Uncategorized'}</p>
+                      </div>
+                      {getStatusBadge(getListingStatus(listing))}
                     </div>
-                    {getStatusBadge(listing.status)}
-                  </div>
-                </CardHeader>
-                <CardContent className="space-y-3">
-                  <div className="flex items-center text-sm text-muted-foreground">
-                    <MapPin className="h-4 w-4 mr-1" />
-                    {listing.location}
-                  </div>
-                  <div className="flex items-center text-sm">
-                    <Star className="h-4 w-4 text-yellow-500 fill-current mr-1" />
-                    <span className="font-medium">{listing.rating}</span>
-                    <span className="text-muted-foreground ml-1">({listing.reviews} reviews)</span>
-                  </div>
-                  <div className="flex items-center text-sm text-muted-foreground">
-                    <Phone className="h-4 w-4 mr-1" />
-                    {listing.phone}
-                  </div>
-                  <div className="flex items-center text-sm text-muted-foreground">
-                    <Globe className="h-4 w-4 mr-1" />
-                    {listing.website}
-                  </div>
-                  <Separator />
-                  <div className="flex justify-between">
-                    <Button variant="outline" size="sm">
-                      <Eye className="h-4 w-4 mr-1" />
-                      View
-                    </Button>
-                    <Button variant="outline" size="sm">
-                      <Edit className="h-4 w-4 mr-1" />
-                      Edit
-                    </Button>
-                    <Button variant="outline" size="sm">
-                      <MoreHorizontal className="h-4 w-4" />
-                    </Button>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div className="flex items-center text-sm text-muted-foreground">
+                      <MapPin className="h-4 w-4 mr-1" />
+                      {[listing.city, listing.state].filter(Boolean).join(', ') || 'No location'}
+                    </div>
+                    <div className="flex items-center text-sm">
+                      <Star className="h-4 w-4 text-yellow-500 fill-current mr-1" />
+                      <span className="font-medium">{listing.rating ?? 0}</span>
+                    </div>
+                    <div className="flex items-center text-sm text-muted-foreground">
+                      <Phone className="h-4 w-4 mr-1" />
+                      {listing.phone || 'No phone'}
+                    </div>
+                    <div className="flex items-center text-sm text-muted-foreground">
+                      <Globe className="h-4 w-4 mr-1" />
+                      <span className="truncate">{listing.website || 'No website'}</span>
+                    </div>
+                    <div className="flex items-center text-sm text-muted-foreground">
+                      <Calendar className="h-4 w-4 mr-1" />
+                      {listing.listing_expired_date
+                        ? `Expires ${new Date(listing.listing_expired_date).toLocaleDateString()}`
+                        : 'No expiry'}
+                    </div>
+                    <Separator />
+                    <div className="flex justify-between">
+                      <Button variant="outline" size="sm" onClick={() => window.open(`/business/${listing.id}`, '_blank')}>
+                        <Eye className="h-4 w-4 mr-1" />
+                        View
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => window.open(`/admin/listings/${listing.id}/edit`, '_blank')}>
+                        <Edit className="h-4 w-4 mr-1" />
+                        Edit
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+
+          {/* Pagination */}
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              {totalCount === 0
+                ? 'No listings'
+                : `Showing ${page * PAGE_SIZE + 1}-${Math.min((page + 1) * PAGE_SIZE, totalCount)} of ${totalCount.toLocaleString()}`}
+            </p>
+            <div className="flex items-center space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(prev => prev - 1)}
+                disabled={loading || page === 0}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-sm">Page {page + 1} of {totalPages}</span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(prev => prev + 1)}
+                disabled={loading || page + 1 >= totalPages}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
           </div>
         </TabsContent>
 
         {/* Create New Listing Tab */}
-        <TabsContent value="create">
+        <TabsContent value="create" className="space-y-6">
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center space-x-2">
@@ -195,174 +469,99 @@ export default function ListingManagement() {
                 <span>Create New Business Listing</span>
               </CardTitle>
             </CardHeader>
-            <CardContent className="space-y-6">
-              <form className="space-y-6">
-                {/* Basic Information */}
-                <div className="space-y-4">
-                  <h3 className="text-lg font-semibold">Basic Information</h3>
-                  <div className="grid gap-4 md:grid-cols-2">
-                    <div className="space-y-2">
-                      <Label htmlFor="businessName">Business Name *</Label>
-                      <Input id="businessName" placeholder="Enter business name" />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="category">Category *</Label>
-                      <Select>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select category" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="food">Food & Beverage</SelectItem>
-                          <SelectItem value="retail">Retail</SelectItem>
-                          <SelectItem value="services">Services</SelectItem>
-                          <SelectItem value="health">Health & Wellness</SelectItem>
-                          <SelectItem value="automotive">Automotive</SelectItem>
-                          <SelectItem value="professional">Professional Services</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
+            <CardContent className="space-y-4">
+              <div className="space-y-3">
+                <Label>Listing Owner</Label>
+                <RadioGroup value={ownerMode} onValueChange={(value) => handleOwnerModeChange(value as OwnerMode)}>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="existing" id="owner-existing" />
+                    <Label htmlFor="owner-existing">Existing user</Label>
                   </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="description">Description *</Label>
-                    <Textarea 
-                      id="description" 
-                      placeholder="Describe the business..."
-                      rows={4}
-                    />
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="placeholder" id="owner-placeholder" />
+                    <Label htmlFor="owner-placeholder">Placeholder owner (claimable later)</Label>
                   </div>
-                </div>
-
-                <Separator />
-
-                {/* Contact Information */}
-                <div className="space-y-4">
-                  <h3 className="text-lg font-semibold">Contact Information</h3>
-                  <div className="grid gap-4 md:grid-cols-2">
-                    <div className="space-y-2">
-                      <Label htmlFor="phone">Phone Number *</Label>
-                      <Input id="phone" placeholder="(555) 123-4567" />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="email">Email Address *</Label>
-                      <Input id="email" type="email" placeholder="business@example.com" />
-                    </div>
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="website">Website URL</Label>
-                    <Input id="website" placeholder="https://www.example.com" />
-                  </div>
-                </div>
-
-                <Separator />
+                </RadioGroup>
+              </div>
 
-                {/* Location Information */}
-                <div className="space-y-4">
-                  <h3 className="text-lg font-semibold">Location</h3>
-                  <div className="space-y-2">
-                    <Label htmlFor="address">Street Address *</Label>
-                    <Input id="address" placeholder="123 Main Street" />
-                  </div>
-                  <div className="grid gap-4 md:grid-cols-3">
-                    <div className="space-y-2">
-                      <Label htmlFor="city">City *</Label>
-                      <Input id="city" placeholder="City" />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="state">State/Province *</Label>
-                      <Input id="state" placeholder="State" />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="zipCode">ZIP/Postal Code *</Label>
-                      <Input id="zipCode" placeholder="12345" />
-                    </div>
+              {ownerMode === "existing" ? (
+                <div className="space-y-2">
+                  <Label htmlFor="ownerEmail">Owner Email</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="ownerEmail"
+                      type="email"
+                      placeholder="owner@example.com"
+                      value={ownerEmail}
+                      onChange={(e) => {
+                        setOwnerEmail(e.target.value);
+                        setSelectedOwner(null);
+                      }}
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={lookupOwner}
+                      disabled={lookingUpOwner || !ownerEmail.trim()}
+                    >
+                      <UserSearch className="h-4 w-4 mr-1" />
+                      {lookingUpOwner ? "Looking up..." : "Find User"}
+                    </Button>
                   </div>
+                  {selectedOwner && (
+                    <p className="text-sm text-muted-foreground">
+                      Creating listing for <span className="font-medium text-foreground">{selectedOwner.display_name || selectedOwner.email}</span> ({selectedOwner.email})
+                    </p>
+                  )}
                 </div>
-
-                <Separator />
-
-                {/* Business Hours */}
-                <div className="space-y-4">
-                  <h3 className="text-lg font-semibold">Business Hours</h3>
-                  <div className="grid gap-4">
-                    {['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'].map((day) => (
-                      <div key={day} className="flex items-center space-x-4">
-                        <div className="w-20 text-sm font-medium">{day}</div>
-                        <div className="flex items-center space-x-2">
-                          <Input className="w-24" placeholder="9:00 AM" />
-                          <span className="text-muted-foreground">to</span>
-                          <Input className="w-24" placeholder="5:00 PM" />
-                        </div>
-                        <Button variant="outline" size="sm">Closed</Button>
-                      </div>
-                    ))}
-                  </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="claimEmail">Claim Email (optional)</Label>
+                  <Input
+                    id="claimEmail"
+                    type="email"
+                    placeholder="owner@example.com"
+                    value={claimEmail}
+                    onChange={(e) => setClaimEmail(e.target.value)}
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    The listing stays under your account until the shop owner opens the claim link. If an email is set, only that account can claim it.
+                  </p>
                 </div>
+              )}
 
-                <Separator />
-
-                {/* Images */}
-                <div className="space-y-4">
-                  <h3 className="text-lg font-semibold">Images</h3>
-                  <div className="grid gap-4 md:grid-cols-2">
-                    <div className="space-y-2">
-                      <Label>Logo</Label>
-                      <div className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-6 text-center">
-                        <Upload className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
-                        <p className="text-sm text-muted-foreground">Click to upload logo</p>
-                      </div>
-                    </div>
-                    <div className="space-y-2">
-                      <Label>Cover Photo</Label>
-                      <div className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-6 text-center">
-                        <Upload className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
-                        <p className="text-sm text-muted-foreground">Click to upload cover photo</p>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-
-                <Separator />
-
-                {/* Additional Settings */}
-                <div className="space-y-4">
-                  <h3 className="text-lg font-semibold">Additional Settings</h3>
-                  <div className="grid gap-4 md:grid-cols-2">
-                    <div className="space-y-2">
-                      <Label htmlFor="status">Status</Label>
-                      <Select>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select status" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="active">Active</SelectItem>
-                          <SelectItem value="pending">Pending Review</SelectItem>
-                          <SelectItem value="inactive">Inactive</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="featured">Featured Listing</Label>
-                      <Select>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select featured status" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="yes">Yes</SelectItem>
-                          <SelectItem value="no">No</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
+              {claimLink && (
+                <div className="p-4 rounded-lg border bg-muted/20 space-y-2">
+                  <p className="text-sm font-medium">Claim link for the new listing</p>
+                  <div className="flex gap-2">
+                    <Input value={claimLink} readOnly />
+                    <Button variant="outline" onClick={copyClaimLink}>
+                      <Copy className="h-4 w-4 mr-1" />
+                      Copy
+                    </Button>
                   </div>
                 </div>
-
-                {/* Form Actions */}
-                <div className="flex justify-end space-x-4">
-                  <Button variant="outline">Save as Draft</Button>
-                  <Button type="submit">Create Listing</Button>
-                </div>
-              </form>
+              )}
             </CardContent>
           </Card>
+
+          {formOwner ? (
+            <BusinessForm
+              key={formKey}
+              owner={formOwner}
+              claimable={ownerMode === "placeholder"}
+              onSuccess={handleListingCreated}
+            />
+          ) : (
+            <Card>
+              <CardContent className="p-8 text-center text-muted-foreground">
+                Find the owner's account to continue
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        <TabsContent value="trash" className="space-y-6">
+          <ListingTrash onRestored={fetchListings} />
         </TabsContent>
       </Tabs>
     </div>
@@ -0,0 +1,183 @@
+import { useEffect, useState } from "react";
+import { addDays, differenceInCalendarDays, formatDistanceToNow } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useBusinessTrashRetentionDays } from "@/hooks/useBusinessTrashRetentionDays";
+import { RotateCcw, Trash2 } from "lucide-react";
+
+interface TrashedListing {
+  id: string;
+  name: string;
+  category: string | null;
+  city: string | null;
+  user_email: string | null;
+  deleted_at: string;
+  deletion_reason: string | null;
+}
+
+interface ListingTrashProps {
+  // Lets the parent refresh its active listings after a restore
+  onRestored?: () => void;
+}
+
+const getDaysUntilPurge = (listing: TrashedListing, retentionDays: number) =>
+  Math.max(0, differenceInCalendarDays(addDays(new Date(listing.deleted_at), retentionDays), new Date()));
+
+export default function ListingTrash({ onRestored }: ListingTrashProps) {
+  const [listings, setListings] = useState<TrashedListing[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const retentionDays = useBusinessTrashRetentionDays();
+  const { toast } = useToast();
+
+  const fetchTrash = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('businesses')
+        .select('id, name, category, city, user_email, deleted_at, deletion_reason')
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false });
+
+      if (error) throw error;
+      setListings(data || []);
+    } catch (error) {
+      console.error('Error fetching trashed listings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch deleted listings",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTrash();
+  }, []);
+
+  const restoreListing = async (listing: TrashedListing) => {
+    setRestoringId(listing.id);
+    try {
+      const { error } = await supabase.rpc('restore_business', { business_id: listing.id });
+
+      if (error) throw error;
+
+      setListings(prev => prev.filter(item => item.id !== listing.id));
+      toast({
+        title: "Listing restored",
+        description: `${listing.name} is visible again`,
+      });
+      onRestored?.();
+    } catch (error) {
+      console.error('Error restoring listing:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to restore listing",
+        variant: "destructive",
+      });
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-0">
+        <div className="px-6 py-4 border-b flex items-center space-x-2 text-sm text-muted-foreground">
+          <Trash2 className="h-4 w-4" />
+          <span>
+            Deleted listings are hidden from the site and permanently removed, with their reviews and bookmarks, {retentionDays === null ? "some time" : `${retentionDays} days`} after deletion.
+          </span>
+        </div>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Listing</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Deleted</TableHead>
+                <TableHead>Purged In</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                Array.from({ length: 3 }).map((_, index) => (
+                  <TableRow key={index}>
+                    {Array.from({ length: 5 }).map((_, cell) => (
+                      <TableCell key={cell}>
+                        <Skeleton className="h-4 w-full" />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))
+              ) : listings.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                    The trash is empty
+                  </TableCell>
+                </TableRow>
+              ) : (
+                listings.map((listing) => {
+                  const daysUntilPurge = retentionDays === null ? null : getDaysUntilPurge(listing, retentionDays);
+                  return (
+                    <TableRow key={listing.id}>
+                      <TableCell>
+                        <div className="font-medium">{listing.name}</div>
+                        <div className="text-sm text-muted-foreground">
+                          {[listing.category, listing.city].filter(Boolean).join(' · ') || listing.user_email}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground max-w-xs">
+                        {listing.deletion_reason || 'No reason given'}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {formatDistanceToNow(new Date(listing.deleted_at), { addSuffix: true })}
+                      </TableCell>
+                      <TableCell>
+                        {daysUntilPurge !== null && (
+                          <Badge
+                            variant="secondary"
+                            className={daysUntilPurge <= 3 ? "bg-red-100 text-red-800" : undefined}
+                          >
+                            {daysUntilPurge === 0 ? 'Next purge' : `${daysUntilPurge} days`}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => restoreListing(listing)}
+                          disabled={restoringId === listing.id}
+                          className="flex items-center space-x-1"
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                          <span>Restore</span>
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
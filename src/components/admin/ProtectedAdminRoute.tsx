@@ -1,14 +1,18 @@
 import { useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAdminAuth } from "@/hooks/useAdminAuth";
-import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { AdminPermission } from "@/lib/admin";
+import { Loader2, ShieldAlert } from "lucide-react";
 
 interface ProtectedAdminRouteProps {
   children: React.ReactNode;
+  // Admins whose role lacks this permission see an access denied page instead
+  requiredPermission?: AdminPermission;
 }
 
-export default function ProtectedAdminRoute({ children }: ProtectedAdminRouteProps) {
-  const { isAuthenticated, loading } = useAdminAuth();
+export default function ProtectedAdminRoute({ children, requiredPermission }: ProtectedAdminRouteProps) {
+  const { isAuthenticated, loading, hasPermission } = useAdminAuth();
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -32,5 +36,20 @@ export default function ProtectedAdminRoute({ children }: ProtectedAdminRoutePro
     return null; // Will redirect via useEffect
   }
 
+  if (requiredPermission && !hasPermission(requiredPermission)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <div className="text-center space-y-4">
+          <ShieldAlert className="h-12 w-12 text-muted-foreground mx-auto" />
+          <h1 className="text-2xl font-bold">Access denied</h1>
+          <p className="text-muted-foreground">Your admin role does not have permission to view this page.</p>
+          <Button variant="outline" onClick={() => navigate('/admin/dashboard')}>
+            Back to Dashboard
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   return <>{children}</>;
 }
\ No newline at end of file
@@ -1,95 +1,131 @@
+import { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { 
-  Store, 
-  UserPlus, 
-  DollarSign, 
-  AlertCircle,
-  CheckCircle,
-  Clock
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Store,
+  UserPlus,
+  DollarSign,
+  Clock,
+  Receipt,
+  Star,
+  XCircle
 } from "lucide-react";
 
+interface ActivityEvent {
+  id: string;
+  event_type: string;
+  actor_id: string | null;
+  actor_name: string | null;
+  business_id: string | null;
+  title: string;
+  description: string | null;
+  created_at: string;
+}
+
+const PAGE_SIZE = 10;
+
+const EVENT_TYPES = [
+  { value: "business_created", label: "New listings", icon: Store },
+  { value: "receipt_uploaded", label: "Receipts uploaded", icon: Receipt },
+  { value: "payment_confirmed", label: "Payments confirmed", icon: DollarSign },
+  { value: "payment_rejected", label: "Payments rejected", icon: XCircle },
+  { value: "review_posted", label: "Reviews", icon: Star },
+  { value: "user_signed_up", label: "Sign-ups", icon: UserPlus },
+];
+
 export default function RecentActivity() {
-  // Mock data - in real app this would come from API
-  const activities = [
-    {
-      id: 1,
-      type: "listing",
-      title: "New listing submitted",
-      description: "Sunset Cafe - Coffee Shop in Downtown",
-      user: "John Smith",
-      avatar: "/placeholder.svg",
-      timestamp: "2 minutes ago",
-      status: "pending",
-      icon: Store
-    },
-    {
-      id: 2,
-      type: "user",
-      title: "New user registration",
-      description: "sarah.johnson@example.com",
-      user: "Sarah Johnson",
-      avatar: "/placeholder.svg", 
-      timestamp: "5 minutes ago",
-      status: "completed",
-      icon: UserPlus
-    },
-    {
-      id: 3,
-      type: "payment",
-      title: "Payment received",
-      description: "$89.99 - Premium listing upgrade",
-      user: "Mike Wilson",
-      avatar: "/placeholder.svg",
-      timestamp: "12 minutes ago", 
-      status: "completed",
-      icon: DollarSign
-    },
-    {
-      id: 4,
-      type: "listing",
-      title: "Listing approved",
-      description: "TechHub Coworking - Business Services",
-      user: "Admin",
-      avatar: "/placeholder.svg",
-      timestamp: "23 minutes ago",
-      status: "approved",
-      icon: CheckCircle
-    },
-    {
-      id: 5,
-      type: "listing",
-      title: "Listing flagged for review", 
-      description: "Quick Mart - Potential policy violation",
-      user: "System",
-      avatar: "/placeholder.svg",
-      timestamp: "1 hour ago",
-      status: "flagged",
-      icon: AlertCircle
-    },
-    {
-      id: 6,
-      type: "user",
-      title: "User verification completed",
-      description: "Business owner verification approved",
-      user: "Emma Davis",
-      avatar: "/placeholder.svg",
-      timestamp: "2 hours ago",
-      status: "completed", 
-      icon: CheckCircle
+  const [activities, setActivities] = useState<ActivityEvent[]>([]);
+  const [typeFilter, setTypeFilter] = useState("all");
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  // Pages continue after the oldest event shown rather than by offset, since live events are prepended
+  // while the feed is open. Events written together share a timestamp, so the id breaks ties.
+  const fetchActivities = async (olderThan?: ActivityEvent) => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('activity_events')
+        .select('id, event_type, actor_id, actor_name, business_id, title, description, created_at')
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(PAGE_SIZE);
+
+      if (olderThan) {
+        query = query.or(
+          `created_at.lt."${olderThan.created_at}",and(created_at.eq."${olderThan.created_at}",id.lt.${olderThan.id})`
+        );
+      }
+
+      if (typeFilter !== "all") {
+        query = query.eq('event_type', typeFilter);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      setActivities(prev => olderThan
+        ? [...prev, ...(data || []).filter(event => !prev.some(a => a.id === event.id))]
+        : (data || []));
+      setHasMore((data?.length || 0) === PAGE_SIZE);
+    } catch (error) {
+      console.error('Error fetching activity events:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch recent activity",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
     }
-  ];
+  };
+
+  useEffect(() => {
+    fetchActivities();
 
-  const getStatusBadge = (status: string) => {
-    switch (status) {
-      case "completed":
-      case "approved":
+    // Prepend new events as they are written by the database triggers
+    const channel = supabase
+      .channel('admin-activity-events')
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'activity_events' },
+        (payload) => {
+          const event = payload.new as ActivityEvent;
+          if (typeFilter !== "all" && event.event_type !== typeFilter) return;
+          setActivities(prev => prev.some(a => a.id === event.id) ? prev : [event, ...prev]);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [typeFilter]);
+
+  const getEventIcon = (eventType: string) => {
+    return EVENT_TYPES.find(type => type.value === eventType)?.icon || Clock;
+  };
+
+  const getStatusBadge = (eventType: string) => {
+    switch (eventType) {
+      case "payment_confirmed":
         return <Badge variant="secondary" className="bg-green-100 text-green-800">Completed</Badge>;
-      case "pending":
+      case "payment_rejected":
+        return <Badge variant="secondary" className="bg-red-100 text-red-800">Rejected</Badge>;
+      case "business_created":
+      case "receipt_uploaded":
         return <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">Pending</Badge>;
-      case "flagged":
-        return <Badge variant="destructive">Flagged</Badge>;
+      case "review_posted":
+      case "user_signed_up":
+        return <Badge variant="secondary" className="bg-blue-100 text-blue-800">New</Badge>;
       default:
         return <Badge variant="outline">Unknown</Badge>;
     }
@@ -100,45 +136,86 @@ export default function RecentActivity() {
       {/* Recent Activity Feed */}
       <Card className="md:col-span-2">
         <CardHeader>
-          <CardTitle className="flex items-center space-x-2">
-            <Clock className="h-5 w-5" />
-            <span>Recent Activity</span>
-          </CardTitle>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center space-x-2">
+              <Clock className="h-5 w-5" />
+              <span>Recent Activity</span>
+            </CardTitle>
+            <Select value={typeFilter} onValueChange={setTypeFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="Event type" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Events</SelectItem>
+                {EVENT_TYPES.map((type) => (
+                  <SelectItem key={type.value} value={type.value}>
+                    {type.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
         </CardHeader>
         <CardContent>
-          <div className="space-y-4">
-            {activities.map((activity) => {
-              const IconComponent = activity.icon;
-              return (
-                <div key={activity.id} className="flex items-start space-x-4 p-4 rounded-lg border bg-muted/20">
-                  <div className="flex-shrink-0">
-                    <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
-                      <IconComponent className="h-5 w-5 text-primary" />
-                    </div>
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center space-x-2">
-                        <p className="text-sm font-medium">{activity.title}</p>
-                        {getStatusBadge(activity.status)}
+          {loading && activities.length === 0 ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : activities.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No activity recorded yet
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {activities.map((activity) => {
+                const IconComponent = getEventIcon(activity.event_type);
+                const actorName = activity.actor_name || "System";
+                return (
+                  <div key={activity.id} className="flex items-start space-x-4 p-4 rounded-lg border bg-muted/20">
+                    <div className="flex-shrink-0">
+                      <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
+                        <IconComponent className="h-5 w-5 text-primary" />
                       </div>
-                      <span className="text-xs text-muted-foreground">{activity.timestamp}</span>
                     </div>
-                    <p className="text-sm text-muted-foreground mt-1">{activity.description}</p>
-                    <div className="flex items-center space-x-2 mt-2">
-                      <Avatar className="h-6 w-6">
-                        <AvatarImage src={activity.avatar} />
-                        <AvatarFallback>{activity.user.charAt(0)}</AvatarFallback>
-                      </Avatar>
-                      <span className="text-xs text-muted-foreground">{activity.user}</span>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-2">
+                          <p className="text-sm font-medium">{activity.title}</p>
+                          {getStatusBadge(activity.event_type)}
+                        </div>
+                        <span className="text-xs text-muted-foreground">
+                          {formatDistanceToNow(new Date(activity.created_at), { addSuffix: true })}
+                        </span>
+                      </div>
+                      {activity.description && (
+                        <p className="text-sm text-muted-foreground mt-1">{activity.description}</p>
+                      )}
+                      <div className="flex items-center space-x-2 mt-2">
+                        <Avatar className="h-6 w-6">
+                          <AvatarFallback>{actorName.charAt(0).toUpperCase()}</AvatarFallback>
+                        </Avatar>
+                        <span className="text-xs text-muted-foreground">{actorName}</span>
+                      </div>
                     </div>
                   </div>
+                );
+              })}
+
+              {hasMore && (
+                <div className="flex justify-center pt-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => fetchActivities(activities[activities.length - 1])}
+                    disabled={loading}
+                  >
+                    {loading ? "Loading..." : "Load more"}
+                  </Button>
                 </div>
-              );
-            })}
-          </div>
+              )}
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
   );
-}
\ No newline at end of file
+}
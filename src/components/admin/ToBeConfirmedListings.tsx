@@ -4,6 +4,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Table,
   TableBody,
@@ -12,68 +14,88 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { ExternalLink, CheckCircle, Edit, Trash2, AlertCircle, Save } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ExternalLink, CheckCircle, XCircle, Edit, Trash2, AlertCircle, Save } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { PAYMENT_METHOD_LABELS, formatPaymentAmount, getReceiptUrl } from "@/lib/payments";
+import { useBusinessTrashRetentionDays } from "@/hooks/useBusinessTrashRetentionDays";
 
-interface Business {
+interface PendingPayment {
   id: string;
-  name: string;
-  owner_id: string;
-  user_email: string;
-  receipt_url: string;
-  payment_status: string;
+  amount: number | null;
+  currency: string;
+  method: string;
+  status: string;
+  notes: string | null;
+  receipt_path: string | null;
   created_at: string;
-  listing_expired_date: string;
-  last_payment_date: string;
-  odoo_expired_date: string;
-  "POS+Website": number;
+  business_id: string;
+  businesses: {
+    id: string;
+    name: string;
+    user_email: string | null;
+    listing_expired_date: string | null;
+    odoo_expired_date: string | null;
+    "POS+Website": number | null;
+  } | null;
+}
+
+interface ToBeConfirmedListingsProps {
+  canConfirmPayments: boolean;
+  canManageListings: boolean;
 }
 
-export default function ToBeConfirmedListings() {
-  const [listings, setListings] = useState<Business[]>([]);
+export default function ToBeConfirmedListings({ canConfirmPayments, canManageListings }: ToBeConfirmedListingsProps) {
+  const [payments, setPayments] = useState<PendingPayment[]>([]);
   const [loading, setLoading] = useState(true);
   const [editingDates, setEditingDates] = useState<{[key: string]: string}>({});
+  const [rejectTarget, setRejectTarget] = useState<PendingPayment | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+  const [deleteTarget, setDeleteTarget] = useState<PendingPayment | null>(null);
+  const [deleteReason, setDeleteReason] = useState("");
+  const retentionDays = useBusinessTrashRetentionDays();
   const { toast } = useToast();
 
   const fetchPendingListings = async () => {
     try {
-      console.log('Fetching pending listings...');
       const { data, error } = await supabase
-        .from('businesses')
+        .from('payments')
         .select(`
           id,
-          name,
-          owner_id,
-          user_email,
-          receipt_url,
-          payment_status,
+          amount,
+          currency,
+          method,
+          status,
+          notes,
+          receipt_path,
           created_at,
-          listing_expired_date,
-          last_payment_date,
-          odoo_expired_date,
-          "POS+Website"
+          business_id,
+          businesses!inner (
+            id,
+            name,
+            user_email,
+            listing_expired_date,
+            odoo_expired_date,
+            "POS+Website"
+          )
         `)
-        .eq('payment_status', 'to_be_confirmed')
-        .not('receipt_url', 'is', null)
+        .is('businesses.deleted_at', null)
+        // Stripe sessions are settled by the webhook, unless it held one back for not matching the session
+        .or('and(status.eq.pending,method.eq.bank_transfer),status.eq.needs_review')
         .order('created_at', { ascending: false });
 
-      if (error) {
-        console.error('Error fetching listings:', error);
-        throw error;
-      }
-      
-      console.log('Raw database result:', data);
-      console.log('Number of listings found:', data?.length || 0);
-      
-      // Additional debug - let's also check what payment statuses exist
-      const { data: allBusinesses } = await supabase
-        .from('businesses')
-        .select('id, name, payment_status')
-        .not('receipt_url', 'is', null);
-      
-      console.log('All businesses with receipts:', allBusinesses);
-      
-      setListings(data || []);
+      if (error) throw error;
+
+      setPayments(data || []);
     } catch (error) {
       console.error('Error fetching pending listings:', error);
       toast({
@@ -86,60 +108,21 @@ export default function ToBeConfirmedListings() {
     }
   };
 
-  const confirmPayment = async (businessId: string) => {
+  const confirmPayment = async (paymentId: string) => {
     try {
-      console.log('Starting payment confirmation for business:', businessId);
-      
-      // Get business details first to calculate dates
-      const { data: business, error: fetchError } = await supabase
-        .from('businesses')
-        .select('"POS+Website"')
-        .eq('id', businessId)
-        .single();
-
-      if (fetchError) throw fetchError;
-
-      // Set current date as payment confirmation date
-      const currentDate = new Date();
-      const newListingExpiredDate = new Date(currentDate);
-      newListingExpiredDate.setDate(newListingExpiredDate.getDate() + 365);
-
-      let updateData: any = {
-        payment_status: 'confirmed',
-        receipt_url: null,
-        last_payment_date: currentDate.toISOString(),
-        listing_expired_date: newListingExpiredDate.toISOString().split('T')[0]
-      };
-
-      // If POS+Website is 1, also update odoo_expired_date
-      if (business["POS+Website"] === 1) {
-        const newOdooExpiredDate = new Date(currentDate);
-        newOdooExpiredDate.setDate(newOdooExpiredDate.getDate() + 30);
-        updateData.odoo_expired_date = newOdooExpiredDate.toISOString();
-      }
-
-      console.log('Updating business with data:', updateData);
-
-      const { data: updateResult, error } = await supabase
-        .from('businesses')
-        .update(updateData)
-        .eq('id', businessId)
-        .select('payment_status');
+      const { error } = await supabase.rpc('confirm_payment', { payment_id: paymentId });
 
       if (error) throw error;
 
-      console.log('Update successful, new payment status:', updateResult);
-
-      // Remove the listing from local state immediately
-      setListings(prev => prev.filter(listing => listing.id !== businessId));
+      // Remove the payment from local state immediately
+      setPayments(prev => prev.filter(payment => payment.id !== paymentId));
 
       toast({
         title: "Success",
         description: "Payment confirmed successfully",
       });
 
-      console.log('Refreshing listings...');
-      // Refresh the listings to ensure consistency
+      // Refresh the queue to ensure consistency
       await fetchPendingListings();
     } catch (error) {
       console.error('Error confirming payment:', error);
@@ -151,22 +134,56 @@ export default function ToBeConfirmedListings() {
     }
   };
 
-  const deleteListing = async (businessId: string) => {
-    if (!confirm('Are you sure you want to delete this listing? This action cannot be undone.')) {
-      return;
+  const rejectPayment = async (paymentId: string, reason: string) => {
+    try {
+      const { error } = await supabase.rpc('reject_payment', {
+        payment_id: paymentId,
+        reason
+      });
+
+      if (error) throw error;
+
+      setPayments(prev => prev.filter(payment => payment.id !== paymentId));
+
+      toast({
+        title: "Success",
+        description: "Receipt rejected. The owner has been asked to resubmit.",
+      });
+    } catch (error) {
+      console.error('Error rejecting payment:', error);
+      toast({
+        title: "Error",
+        description: "Failed to reject receipt",
+        variant: "destructive",
+      });
     }
+  };
 
+  const closeRejectDialog = () => {
+    setRejectTarget(null);
+    setRejectReason("");
+  };
+
+  const confirmRejection = () => {
+    if (rejectTarget) {
+      rejectPayment(rejectTarget.id, rejectReason.trim());
+    }
+    closeRejectDialog();
+  };
+
+  // Moves the listing to the trash; it can be restored from the Listings tab until it is purged
+  const deleteListing = async (businessId: string, reason: string) => {
     try {
-      const { error } = await supabase
-        .from('businesses')
-        .delete()
-        .eq('id', businessId);
+      const { error } = await supabase.rpc('soft_delete_business', {
+        business_id: businessId,
+        reason: reason || null
+      });
 
       if (error) throw error;
 
       toast({
         title: "Success",
-        description: "Listing deleted successfully",
+        description: "Listing moved to trash",
       });
 
       // Refresh the listings
@@ -181,9 +198,20 @@ export default function ToBeConfirmedListings() {
     }
   };
 
+  const closeDeleteDialog = () => {
+    setDeleteTarget(null);
+    setDeleteReason("");
+  };
+
+  const confirmDeletion = () => {
+    if (deleteTarget) {
+      deleteListing(deleteTarget.business_id, deleteReason.trim());
+    }
+    closeDeleteDialog();
+  };
+
   const editListing = (businessId: string) => {
-    // Navigate to edit page - you can implement this based on your routing structure
-    window.open(`/business/${businessId}/edit`, '_blank');
+    window.open(`/admin/listings/${businessId}/edit`, '_blank');
   };
 
   const updateListingExpiredDate = async (businessId: string, newDate: string) => {
@@ -280,11 +308,11 @@ export default function ToBeConfirmedListings() {
         <CardTitle className="flex items-center space-x-2">
           <AlertCircle className="h-5 w-5" />
           <span>To Be Confirmed Listings</span>
-          <Badge variant="secondary">{listings.length}</Badge>
+          <Badge variant="secondary">{payments.length}</Badge>
         </CardTitle>
       </CardHeader>
       <CardContent>
-        {listings.length === 0 ? (
+        {payments.length === 0 ? (
           <div className="text-center py-8 text-muted-foreground">
             No listings pending confirmation
           </div>
@@ -295,6 +323,7 @@ export default function ToBeConfirmedListings() {
                 <TableRow>
                   <TableHead>Shop Name</TableHead>
                   <TableHead>User Email</TableHead>
+                  <TableHead>Amount</TableHead>
                   <TableHead>Receipt</TableHead>
                   <TableHead>Payment Status</TableHead>
                   <TableHead>Submitted</TableHead>
@@ -304,104 +333,201 @@ export default function ToBeConfirmedListings() {
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {listings.map((listing) => (
-                  <TableRow key={listing.id}>
-                    <TableCell className="font-medium">{listing.name}</TableCell>
-                    <TableCell>{listing.user_email || 'No email provided'}</TableCell>
-                    <TableCell>
-                      {listing.receipt_url ? (
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => window.open(listing.receipt_url, '_blank')}
-                          className="flex items-center space-x-2"
-                        >
-                          <ExternalLink className="h-4 w-4" />
-                          <span>View Receipt</span>
-                        </Button>
-                      ) : (
-                        <span className="text-muted-foreground">No receipt</span>
-                      )}
-                    </TableCell>
-                    <TableCell>
-                      <Badge variant="outline" className="text-yellow-600 border-yellow-300">
-                        To Be Confirmed
-                      </Badge>
-                    </TableCell>
-                    <TableCell className="text-sm text-muted-foreground">
-                      {new Date(listing.created_at).toLocaleDateString()}
-                    </TableCell>
-                    <TableCell className="text-sm">
-                      <div className="flex items-center space-x-2">
-                        <Input
-                          type="date"
-                          value={editingDates[listing.id] !== undefined 
-                            ? editingDates[listing.id] 
-                            : formatDateForInput(listing.listing_expired_date)
-                          }
-                          onChange={(e) => handleDateChange(listing.id, e.target.value)}
-                          className="w-40"
-                        />
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => updateListingExpiredDate(
-                            listing.id, 
-                            editingDates[listing.id] !== undefined 
-                              ? editingDates[listing.id] 
-                              : formatDateForInput(listing.listing_expired_date)
+                {payments.map((payment) => {
+                  const listing = payment.businesses;
+                  if (!listing) return null;
+                  return (
+                    <TableRow key={payment.id}>
+                      <TableCell className="font-medium">{listing.name}</TableCell>
+                      <TableCell>{listing.user_email || 'No email provided'}</TableCell>
+                      <TableCell>{formatPaymentAmount(payment.amount, payment.currency)}</TableCell>
+                      <TableCell>
+                        {payment.receipt_path ? (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => window.open(getReceiptUrl(payment.receipt_path), '_blank')}
+                            className="flex items-center space-x-2"
+                          >
+                            <ExternalLink className="h-4 w-4" />
+                            <span>View Receipt</span>
+                          </Button>
+                        ) : (
+                          <span className="text-muted-foreground">
+                            {payment.method === 'bank_transfer' ? 'No receipt' : PAYMENT_METHOD_LABELS[payment.method] ?? payment.method}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {payment.status === 'needs_review' ? (
+                          <div className="space-y-1">
+                            <Badge variant="outline" className="text-red-600 border-red-300">
+                              Needs Review
+                            </Badge>
+                            {payment.notes && (
+                              <p className="text-xs text-muted-foreground max-w-xs">{payment.notes}</p>
+                            )}
+                          </div>
+                        ) : (
+                          <Badge variant="outline" className="text-yellow-600 border-yellow-300">
+                            To Be Confirmed
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {new Date(payment.created_at).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {canManageListings ? (
+                          <div className="flex items-center space-x-2">
+                            <Input
+                              type="date"
+                              value={editingDates[listing.id] !== undefined 
+                                ? editingDates[listing.id] 
+                                : formatDateForInput(listing.listing_expired_date)
+                              }
+                              onChange={(e) => handleDateChange(listing.id, e.target.value)}
+                              className="w-40"
+                            />
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => updateListingExpiredDate(
+                                listing.id, 
+                                editingDates[listing.id] !== undefined 
+                                  ? editingDates[listing.id] 
+                                  : formatDateForInput(listing.listing_expired_date)
+                              )}
+                              className="flex items-center space-x-1"
+                            >
+                              <Save className="h-3 w-3" />
+                              <span>Save</span>
+                            </Button>
+                          </div>
+                        ) : (
+                          <span className="text-muted-foreground">
+                            {listing.listing_expired_date
+                              ? new Date(listing.listing_expired_date).toLocaleDateString()
+                              : 'Not set'}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {listing.odoo_expired_date 
+                          ? new Date(listing.odoo_expired_date).toLocaleDateString()
+                          : listing["POS+Website"] === 1 ? 'Will be set on confirm' : 'N/A'
+                        }
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center space-x-2">
+                          {canConfirmPayments && (
+                            <>
+                              <Button
+                                variant="default"
+                                size="sm"
+                                onClick={() => confirmPayment(payment.id)}
+                                className="flex items-center space-x-1"
+                              >
+                                <CheckCircle className="h-4 w-4" />
+                                <span>Confirm</span>
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setRejectTarget(payment)}
+                                className="flex items-center space-x-1"
+                              >
+                                <XCircle className="h-4 w-4" />
+                                <span>Reject</span>
+                              </Button>
+                            </>
+                          )}
+                          {canManageListings && (
+                            <>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => editListing(listing.id)}
+                                className="flex items-center space-x-1"
+                              >
+                                <Edit className="h-4 w-4" />
+                                <span>Edit</span>
+                              </Button>
+                              <Button
+                                variant="destructive"
+                                size="sm"
+                                onClick={() => setDeleteTarget(payment)}
+                                className="flex items-center space-x-1"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                                <span>Delete</span>
+                              </Button>
+                            </>
                           )}
-                          className="flex items-center space-x-1"
-                        >
-                          <Save className="h-3 w-3" />
-                          <span>Save</span>
-                        </Button>
-                      </div>
-                    </TableCell>
-                    <TableCell className="text-sm text-muted-foreground">
-                      {listing.odoo_expired_date 
-                        ? new Date(listing.odoo_expired_date).toLocaleDateString()
-                        : listing["POS+Website"] === 1 ? 'Will be set on confirm' : 'N/A'
-                      }
-                    </TableCell>
-                    <TableCell>
-                      <div className="flex items-center space-x-2">
-                        <Button
-                          variant="default"
-                          size="sm"
-                          onClick={() => confirmPayment(listing.id)}
-                          className="flex items-center space-x-1"
-                        >
-                          <CheckCircle className="h-4 w-4" />
-                          <span>Confirm</span>
-                        </Button>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => editListing(listing.id)}
-                          className="flex items-center space-x-1"
-                        >
-                          <Edit className="h-4 w-4" />
-                          <span>Edit</span>
-                        </Button>
-                        <Button
-                          variant="destructive"
-                          size="sm"
-                          onClick={() => deleteListing(listing.id)}
-                          className="flex items-center space-x-1"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                          <span>Delete</span>
-                        </Button>
-                      </div>
-                    </TableCell>
-                  </TableRow>
-                ))}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
               </TableBody>
             </Table>
           </div>
         )}
       </CardContent>
+
+      <AlertDialog open={!!rejectTarget} onOpenChange={(open) => !open && closeRejectDialog()}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reject receipt for {rejectTarget?.businesses?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The owner will see this reason on their dashboard and can upload a new receipt.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="rejectReason">Reason *</Label>
+            <Textarea
+              id="rejectReason"
+              placeholder="e.g. The receipt is unreadable or the amount does not match"
+              value={rejectReason}
+              onChange={(e) => setRejectReason(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmRejection} disabled={!rejectReason.trim()}>
+              Reject Receipt
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!deleteTarget} onOpenChange={(open) => !open && closeDeleteDialog()}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleteTarget?.businesses?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The listing will be hidden immediately and moved to the trash. It can be restored for {retentionDays === null ? "a while" : `${retentionDays} days`} before it is permanently removed with its reviews and bookmarks.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="deleteReason">Reason</Label>
+            <Textarea
+              id="deleteReason"
+              placeholder="e.g. Duplicate listing or spam"
+              value={deleteReason}
+              onChange={(e) => setDeleteReason(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDeletion}>
+              Move to Trash
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Card>
   );
 }
\ No newline at end of file
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useToast } from "@/hooks/use-toast";
+import { callTwoFactor } from "@/lib/twoFactor";
+
+interface TwoFactorChallengeProps {
+  onVerified: () => void;
+  onCancel: () => void;
+}
+
+export default function TwoFactorChallenge({ onVerified, onCancel }: TwoFactorChallengeProps) {
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+  const { toast } = useToast();
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setVerifying(true);
+    try {
+      await callTwoFactor('verify', code);
+      onVerified();
+    } catch (error) {
+      setCode("");
+      toast({
+        title: "Verification failed",
+        description: error instanceof Error ? error.message : "Invalid verification code",
+        variant: "destructive",
+      });
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const toggleRecoveryCode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setCode("");
+  };
+
+  return (
+    <form onSubmit={handleVerify} className="space-y-4">
+      {useRecoveryCode ? (
+        <div className="space-y-2">
+          <Label htmlFor="recovery-code">Recovery code</Label>
+          <Input
+            id="recovery-code"
+            placeholder="xxxxx-xxxxx"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            autoComplete="off"
+            required
+          />
+          <p className="text-xs text-muted-foreground">Each recovery code can only be used once.</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <Label>Authentication code</Label>
+          <div className="flex justify-center">
+            <InputOTP maxLength={6} value={code} onChange={setCode} autoFocus>
+              <InputOTPGroup>
+                {Array.from({ length: 6 }, (_, index) => (
+                  <InputOTPSlot key={index} index={index} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+          <p className="text-xs text-muted-foreground text-center">
+            Enter the 6-digit code from your authenticator app.
+          </p>
+        </div>
+      )}
+
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={verifying || (!useRecoveryCode && code.length < 6) || !code}
+      >
+        {verifying ? "Verifying..." : "Verify"}
+      </Button>
+
+      <div className="flex justify-between">
+        <Button type="button" variant="link" className="px-0" onClick={toggleRecoveryCode}>
+          {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+        </Button>
+        <Button type="button" variant="link" className="px-0 text-muted-foreground" onClick={onCancel}>
+          Sign out
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,164 @@
+import { useEffect, useState } from "react";
+import QRCode from "qrcode";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useToast } from "@/hooks/use-toast";
+import { callTwoFactor } from "@/lib/twoFactor";
+import { Copy, Loader2 } from "lucide-react";
+
+interface TwoFactorEnrollmentProps {
+  // Called once the admin has saved their recovery codes
+  onComplete: () => void;
+  onCancel?: () => void;
+}
+
+export default function TwoFactorEnrollment({ onComplete, onCancel }: TwoFactorEnrollmentProps) {
+  const [secret, setSecret] = useState("");
+  const [qrCodeUrl, setQrCodeUrl] = useState("");
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [activating, setActivating] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const startEnrollment = async () => {
+      try {
+        const { secret, otpauthUri } = await callTwoFactor('enroll');
+        setSecret(secret);
+        setQrCodeUrl(await QRCode.toDataURL(otpauthUri, { width: 200, margin: 1 }));
+      } catch (error) {
+        console.error('Error starting two-factor enrollment:', error);
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to start two-factor setup",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    startEnrollment();
+  }, [toast]);
+
+  const handleActivate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setActivating(true);
+    try {
+      const { recoveryCodes } = await callTwoFactor('activate', code);
+      setRecoveryCodes(recoveryCodes);
+    } catch (error) {
+      setCode("");
+      toast({
+        title: "Verification failed",
+        description: error instanceof Error ? error.message : "Invalid verification code",
+        variant: "destructive",
+      });
+    } finally {
+      setActivating(false);
+    }
+  };
+
+  const copyRecoveryCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      toast({
+        title: "Copied",
+        description: "Recovery codes copied to clipboard",
+      });
+    } catch (error) {
+      console.error('Error copying recovery codes:', error);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (recoveryCodes.length > 0) {
+    return (
+      <div className="space-y-4">
+        <Alert>
+          <AlertDescription>
+            Two-factor authentication is enabled. Store these recovery codes somewhere safe — each one can be used once if you lose access to your authenticator app. They will not be shown again.
+          </AlertDescription>
+        </Alert>
+        <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted p-4 font-mono text-sm">
+          {recoveryCodes.map((recoveryCode) => (
+            <span key={recoveryCode}>{recoveryCode}</span>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" className="flex-1" onClick={copyRecoveryCodes}>
+            <Copy className="h-4 w-4 mr-2" />
+            Copy codes
+          </Button>
+          <Button type="button" className="flex-1" onClick={onComplete}>
+            I've saved my codes
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!secret) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground text-center">Two-factor setup could not be started.</p>
+        {onCancel && (
+          <Button type="button" variant="outline" className="w-full" onClick={onCancel}>
+            Back
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleActivate} className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Scan this QR code with an authenticator app such as Google Authenticator, 1Password or Authy.
+      </p>
+      {qrCodeUrl && (
+        <div className="flex justify-center">
+          <img src={qrCodeUrl} alt="Two-factor authentication QR code" className="h-48 w-48 rounded-md border" />
+        </div>
+      )}
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Or enter this key manually</Label>
+        <p className="break-all rounded-md bg-muted px-3 py-2 font-mono text-sm">{secret}</p>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Enter the 6-digit code from the app</Label>
+        <div className="flex justify-center">
+          <InputOTP maxLength={6} value={code} onChange={setCode}>
+            <InputOTPGroup>
+              {Array.from({ length: 6 }, (_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        {onCancel && (
+          <Button type="button" variant="outline" className="flex-1" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" className="flex-1" disabled={activating || code.length < 6}>
+          {activating ? "Verifying..." : "Enable Two-Factor"}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { TwoFactorStatus, callTwoFactor } from "@/lib/twoFactor";
+import TwoFactorEnrollment from "@/components/admin/TwoFactorEnrollment";
+import { KeyRound } from "lucide-react";
+
+interface TwoFactorSettingsProps {
+  status: TwoFactorStatus | null;
+  isSuperAdmin: boolean;
+  onStatusChange: () => Promise<void>;
+}
+
+export default function TwoFactorSettings({ status, isSuperAdmin, onStatusChange }: TwoFactorSettingsProps) {
+  const [enrolling, setEnrolling] = useState(false);
+  const [disableCode, setDisableCode] = useState("");
+  const [disabling, setDisabling] = useState(false);
+  const [updatingEnforcement, setUpdatingEnforcement] = useState(false);
+  const { toast } = useToast();
+
+  const enabled = !!status?.enabled;
+  const enforced = !!status?.enforced;
+
+  const handleEnrollmentComplete = async () => {
+    setEnrolling(false);
+    await onStatusChange();
+  };
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setDisabling(true);
+    try {
+      await callTwoFactor('disable', disableCode);
+      setDisableCode("");
+      toast({
+        title: "Two-factor disabled",
+        description: "Your account no longer requires an authentication code",
+      });
+      await onStatusChange();
+    } catch (error) {
+      console.error('Error disabling two-factor:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to disable two-factor authentication",
+        variant: "destructive",
+      });
+    } finally {
+      setDisabling(false);
+    }
+  };
+
+  const toggleEnforcement = async (enforce: boolean) => {
+    setUpdatingEnforcement(true);
+    try {
+      const { error } = await supabase.rpc('set_admin_two_factor_enforcement', { enforce });
+
+      if (error) throw error;
+
+      toast({
+        title: enforce ? "Two-factor required" : "Two-factor optional",
+        description: enforce
+          ? "Admins without two-factor will be asked to set it up at their next sign-in"
+          : "Admins can now choose whether to use two-factor authentication",
+      });
+      await onStatusChange();
+    } catch (error) {
+      console.error('Error updating two-factor enforcement:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update two-factor enforcement",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingEnforcement(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <KeyRound className="h-5 w-5" />
+          <span>Two-Factor Authentication</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">Status</p>
+          {enabled ? (
+            <Badge variant="secondary" className="bg-green-100 text-green-800">Enabled</Badge>
+          ) : (
+            <Badge variant="secondary" className="bg-gray-100 text-gray-800">Disabled</Badge>
+          )}
+        </div>
+
+        {enabled ? (
+          enforced ? (
+            <p className="text-sm text-muted-foreground">
+              Two-factor authentication is required for all admins and cannot be turned off.
+            </p>
+          ) : (
+            <form onSubmit={handleDisable} className="space-y-2">
+              <Label htmlFor="disable-code">Enter a code to turn off two-factor</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="disable-code"
+                  placeholder="Authentication or recovery code"
+                  value={disableCode}
+                  onChange={(e) => setDisableCode(e.target.value)}
+                  autoComplete="off"
+                  required
+                />
+                <Button type="submit" variant="outline" disabled={disabling || !disableCode}>
+                  {disabling ? "Disabling..." : "Disable"}
+                </Button>
+              </div>
+            </form>
+          )
+        ) : (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              Protect your admin account with a code from an authenticator app at every sign-in.
+            </p>
+            <Button onClick={() => setEnrolling(true)}>Set Up Two-Factor</Button>
+          </div>
+        )}
+
+        {isSuperAdmin && (
+          <div className="flex items-center justify-between border-t pt-4">
+            <div>
+              <Label htmlFor="require-two-factor">Require two-factor for all admins</Label>
+              <p className="text-xs text-muted-foreground">
+                {enabled ? "Admins without it must enroll at their next sign-in." : "Enable two-factor on your own account first."}
+              </p>
+            </div>
+            <Switch
+              id="require-two-factor"
+              checked={enforced}
+              onCheckedChange={toggleEnforcement}
+              disabled={updatingEnforcement || (!enabled && !enforced)}
+            />
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={enrolling} onOpenChange={setEnrolling}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Set Up Two-Factor Authentication</DialogTitle>
+            <DialogDescription>
+              You'll need your authenticator app every time you sign in to the admin panel.
+            </DialogDescription>
+          </DialogHeader>
+          {enrolling && (
+            <TwoFactorEnrollment
+              onComplete={handleEnrollmentComplete}
+              onCancel={() => setEnrolling(false)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,379 @@
+import { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Search, ChevronLeft, ChevronRight, Ban, CheckCircle, LogOut } from "lucide-react";
+
+interface AdminUser {
+  user_id: string;
+  email: string;
+  display_name: string | null;
+  role: string | null;
+  created_at: string;
+  last_sign_in_at: string | null;
+  banned_until: string | null;
+  business_count: number;
+  is_admin: boolean;
+  total_count: number;
+}
+
+const PAGE_SIZE = 20;
+
+const ROLE_OPTIONS = [
+  { value: "user", label: "User" },
+  { value: "business_owner", label: "Business Owner" },
+];
+
+const isSuspended = (user: AdminUser) =>
+  !!user.banned_until && new Date(user.banned_until) > new Date();
+
+export default function UserManagement() {
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [searchInput, setSearchInput] = useState("");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [page, setPage] = useState(0);
+  const [updatingUserId, setUpdatingUserId] = useState<string | null>(null);
+  const [suspendTarget, setSuspendTarget] = useState<AdminUser | null>(null);
+  const [suspendReason, setSuspendReason] = useState("");
+  const { toast } = useToast();
+
+  const totalPages = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+
+  const fetchUsers = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('get_admin_users', {
+        search_term: searchTerm.trim() || null,
+        page_size: PAGE_SIZE,
+        page_offset: page * PAGE_SIZE
+      });
+
+      if (error) throw error;
+      setUsers(data || []);
+      setTotalCount(data?.[0]?.total_count || 0);
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch users",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Debounce typing before hitting the database
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setSearchTerm(searchInput);
+      setPage(0);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [searchTerm, page]);
+
+  // Run an admin action against one user, then reload the current page
+  const runUserAction = async (userId: string, action: () => Promise<{ error: unknown }>, successMessage: string) => {
+    setUpdatingUserId(userId);
+    try {
+      const { error } = await action();
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: successMessage,
+      });
+      await fetchUsers();
+    } catch (error) {
+      console.error('Error updating user:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update user",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingUserId(null);
+    }
+  };
+
+  const changeRole = (user: AdminUser, newRole: string) => {
+    runUserAction(
+      user.user_id,
+      async () => supabase.rpc('admin_set_user_role', {
+        target_user_id: user.user_id,
+        new_role: newRole
+      }),
+      `${user.email} is now a ${ROLE_OPTIONS.find(role => role.value === newRole)?.label.toLowerCase()}`
+    );
+  };
+
+  const setSuspension = (user: AdminUser, suspend: boolean, reason?: string) => {
+    runUserAction(
+      user.user_id,
+      async () => supabase.rpc('admin_set_user_suspension', {
+        target_user_id: user.user_id,
+        suspend,
+        reason: reason?.trim() || null
+      }),
+      suspend ? `${user.email} has been suspended` : `${user.email} has been reinstated`
+    );
+  };
+
+  const signOutUser = (user: AdminUser) => {
+    if (!confirm(`Sign ${user.email} out of every device?`)) {
+      return;
+    }
+
+    runUserAction(
+      user.user_id,
+      async () => supabase.rpc('admin_sign_out_user', { target_user_id: user.user_id }),
+      `${user.email} has been signed out`
+    );
+  };
+
+  const confirmSuspension = () => {
+    if (suspendTarget) {
+      setSuspension(suspendTarget, true, suspendReason);
+    }
+    setSuspendTarget(null);
+    setSuspendReason("");
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="p-6">
+          <div className="relative">
+            <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by email or name..."
+              className="pl-10"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Listings</TableHead>
+                  <TableHead>Joined</TableHead>
+                  <TableHead>Last Sign-in</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  Array.from({ length: 5 }).map((_, index) => (
+                    <TableRow key={index}>
+                      {Array.from({ length: 7 }).map((_, cell) => (
+                        <TableCell key={cell}>
+                          <Skeleton className="h-4 w-full" />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))
+                ) : users.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                      No users found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  users.map((user) => {
+                    const suspended = isSuspended(user);
+                    const updating = updatingUserId === user.user_id;
+                    return (
+                      <TableRow key={user.user_id}>
+                        <TableCell>
+                          <div className="font-medium">{user.display_name || 'No display name'}</div>
+                          <div className="text-sm text-muted-foreground">{user.email}</div>
+                        </TableCell>
+                        <TableCell>
+                          {user.is_admin ? (
+                            <Badge variant="secondary">Admin</Badge>
+                          ) : (
+                            <Select
+                              value={user.role || "user"}
+                              onValueChange={(value) => changeRole(user, value)}
+                              disabled={updating}
+                            >
+                              <SelectTrigger className="w-40">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {ROLE_OPTIONS.map((role) => (
+                                  <SelectItem key={role.value} value={role.value}>
+                                    {role.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                        </TableCell>
+                        <TableCell>{user.business_count}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {new Date(user.created_at).toLocaleDateString()}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {user.last_sign_in_at
+                            ? formatDistanceToNow(new Date(user.last_sign_in_at), { addSuffix: true })
+                            : 'Never'}
+                        </TableCell>
+                        <TableCell>
+                          {suspended ? (
+                            <Badge variant="secondary" className="bg-red-100 text-red-800">Suspended</Badge>
+                          ) : (
+                            <Badge variant="secondary" className="bg-green-100 text-green-800">Active</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center space-x-2">
+                            {suspended ? (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setSuspension(user, false)}
+                                disabled={updating}
+                                className="flex items-center space-x-1"
+                              >
+                                <CheckCircle className="h-4 w-4" />
+                                <span>Unsuspend</span>
+                              </Button>
+                            ) : (
+                              <Button
+                                variant="destructive"
+                                size="sm"
+                                onClick={() => setSuspendTarget(user)}
+                                disabled={updating || user.is_admin}
+                                className="flex items-center space-x-1"
+                              >
+                                <Ban className="h-4 w-4" />
+                                <span>Suspend</span>
+                              </Button>
+                            )}
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => signOutUser(user)}
+                              disabled={updating}
+                              className="flex items-center space-x-1"
+                            >
+                              <LogOut className="h-4 w-4" />
+                              <span>Sign out</span>
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Pagination */}
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {totalCount === 0
+            ? 'No users'
+            : `Showing ${page * PAGE_SIZE + 1}-${Math.min((page + 1) * PAGE_SIZE, totalCount)} of ${totalCount.toLocaleString()}`}
+        </p>
+        <div className="flex items-center space-x-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(prev => prev - 1)}
+            disabled={loading || page === 0}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm">Page {page + 1} of {totalPages}</span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(prev => prev + 1)}
+            disabled={loading || page + 1 >= totalPages}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <AlertDialog
+        open={!!suspendTarget}
+        onOpenChange={(open) => {
+          if (!open) {
+            setSuspendTarget(null);
+            setSuspendReason("");
+          }
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Suspend {suspendTarget?.email}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The user will be signed out and unable to sign in until the account is unsuspended.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="suspendReason">Reason (optional)</Label>
+            <Textarea
+              id="suspendReason"
+              value={suspendReason}
+              onChange={(e) => setSuspendReason(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmSuspension}>Suspend</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,13 +1,14 @@
 import { useState, useEffect } from "react";
 import { User, Session } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
+import { TwoFactorStatus, getTwoFactorStatus, needsSecondFactor } from "@/lib/twoFactor";
+import { AdminPermission, getAdminPermissions } from "@/lib/admin";
 
 interface AdminProfile {
   id: string;
   user_id: string;
   admin_role: string;
   two_factor_enabled?: boolean;
-  two_factor_secret?: string;
   created_at: string;
   updated_at: string;
 }
@@ -16,6 +17,8 @@ export function useAdminAuth() {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [adminProfile, setAdminProfile] = useState<AdminProfile | null>(null);
+  const [twoFactorStatus, setTwoFactorStatus] = useState<TwoFactorStatus | null>(null);
+  const [permissions, setPermissions] = useState<AdminPermission[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -32,6 +35,8 @@ export function useAdminAuth() {
           }, 0);
         } else {
           setAdminProfile(null);
+          setTwoFactorStatus(null);
+          setPermissions([]);
           setLoading(false);
         }
       }
@@ -62,34 +67,28 @@ export function useAdminAuth() {
       if (error) {
         console.error('Error fetching admin profile:', error);
         setAdminProfile(null);
+        setTwoFactorStatus(null);
+        setPermissions([]);
       } else {
         setAdminProfile(data);
+        setTwoFactorStatus(await getTwoFactorStatus());
+        // Empty until the session has passed the second factor
+        setPermissions(await getAdminPermissions());
       }
     } catch (error) {
       console.error('Error fetching admin profile:', error);
       setAdminProfile(null);
+      setTwoFactorStatus(null);
+      setPermissions([]);
     } finally {
       setLoading(false);
     }
   };
 
-  const updateAdminProfile = async (updates: Partial<AdminProfile>) => {
-    if (!user || !adminProfile) return;
-
-    try {
-      const { error } = await supabase
-        .from('admin_users')
-        .update(updates)
-        .eq('user_id', user.id);
-
-      if (error) throw error;
-      
-      // Refresh profile
-      await fetchAdminProfile(user.id);
-    } catch (error) {
-      console.error('Error updating admin profile:', error);
-      throw error;
-    }
+  // Reload the profile after enrolling in or verifying two-factor authentication
+  const refreshAdminProfile = async () => {
+    if (!user) return;
+    await fetchAdminProfile(user.id);
   };
 
   const signOut = async () => {
@@ -136,45 +135,23 @@ export function useAdminAuth() {
     }
   };
 
-  const provisionAdminUser = async (userId: string) => {
-    try {
-      const { error } = await supabase
-        .from('admin_users')
-        .insert({
-          user_id: userId,
-          admin_role: 'admin'
-        });
-
-      if (error) throw error;
-      
-      // Also create profile entry
-      await supabase
-        .from('profiles')
-        .upsert({
-          user_id: userId,
-          role: 'admin'
-        });
-
-      await fetchAdminProfile(userId);
-    } catch (error) {
-      console.error('Error provisioning admin user:', error);
-      throw error;
-    }
-  };
-
   return {
     user,
     session,
     adminProfile,
     loading,
-    updateAdminProfile,
+    twoFactorStatus,
+    permissions,
+    hasPermission: (permission: AdminPermission) => permissions.includes(permission),
+    refreshAdminProfile,
     signOut,
     checkAdminRateLimit,
     logAdminLoginAttempt,
-    provisionAdminUser,
     isSuperAdmin: adminProfile?.admin_role === 'super_admin',
     isAdmin: adminProfile?.admin_role === 'admin',
     isModerator: adminProfile?.admin_role === 'moderator',
-    isAuthenticated: !!user && !!adminProfile
+    // Signed in with a password but still owes a TOTP or recovery code
+    needsTwoFactor: !!adminProfile && needsSecondFactor(twoFactorStatus),
+    isAuthenticated: !!user && !!adminProfile && !needsSecondFactor(twoFactorStatus)
   };
 }
\ No newline at end of file
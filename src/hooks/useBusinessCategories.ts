@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { BusinessCategory, getBusinessCategories } from '@/lib/taxonomy';
+
+// Active categories in the order admins arranged them, shared by the listing form and the filters
+export const useBusinessCategories = () => {
+  const [categories, setCategories] = useState<BusinessCategory[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getBusinessCategories()
+      .then((data) => {
+        if (!cancelled) setCategories(data);
+      })
+      .catch((error) => console.error('Error fetching categories:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { categories, loading };
+};
@@ -0,0 +1,131 @@
+import { useEffect, useRef, useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  BusinessFacetCounts,
+  BusinessMapPoints,
+  BusinessSearchParams,
+  BusinessSearchResult,
+  ProductSearchResult,
+  getBusinessFacets,
+  getBusinessMapPoints,
+  searchBusinesses,
+  searchProducts,
+} from '@/lib/search';
+
+interface SearchPage<T> {
+  results: T[];
+  totalCount: number;
+}
+
+// Runs the search whenever the key changes and pages through the results on demand
+const usePagedSearch = <T,>(key: string, fetchPage: (offset: number) => Promise<SearchPage<T>>) => {
+  const [results, setResults] = useState<T[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Ignores responses to a search that has since been replaced
+  const requestIdRef = useRef(0);
+  const { toast } = useToast();
+
+  const showError = (error: unknown) => {
+    console.error('Error searching businesses:', error);
+    toast({
+      title: "Error",
+      description: "Failed to fetch businesses. Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  useEffect(() => {
+    const requestId = ++requestIdRef.current;
+    setLoading(true);
+
+    fetchPage(0)
+      .then((page) => {
+        if (requestId !== requestIdRef.current) return;
+        setResults(page.results);
+        setTotalCount(page.totalCount);
+      })
+      .catch((error) => {
+        if (requestId === requestIdRef.current) showError(error);
+      })
+      .finally(() => {
+        if (requestId === requestIdRef.current) setLoading(false);
+      });
+  }, [key]);
+
+  const loadMore = async () => {
+    const requestId = requestIdRef.current;
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage(results.length);
+      if (requestId !== requestIdRef.current) return;
+      setResults((prev) => [...prev, ...page.results]);
+      setTotalCount(page.totalCount);
+    } catch (error) {
+      if (requestId === requestIdRef.current) showError(error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  return {
+    results,
+    totalCount,
+    loading,
+    loadingMore,
+    hasMore: results.length < totalCount,
+    loadMore,
+  };
+};
+
+export const useBusinessSearch = (params: BusinessSearchParams) =>
+  usePagedSearch<BusinessSearchResult>(JSON.stringify(params), (offset) => searchBusinesses(params, offset));
+
+export const useProductSearch = (query: string) =>
+  usePagedSearch<ProductSearchResult>(query, (offset) => searchProducts(query, offset));
+
+// Counts for the filter panel; the previous counts stay up while new ones load
+export const useBusinessFacets = (params: BusinessSearchParams) => {
+  const [counts, setCounts] = useState<BusinessFacetCounts | null>(null);
+  const key = JSON.stringify(params);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getBusinessFacets(params)
+      .then((data) => {
+        if (!cancelled) setCounts(data);
+      })
+      .catch((error) => console.error('Error fetching search facets:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  return counts;
+};
+
+// Pins for the map view, only fetched while the map is shown; null until the first ones arrive
+export const useBusinessMapPoints = (params: BusinessSearchParams, enabled: boolean) => {
+  const [mapPoints, setMapPoints] = useState<BusinessMapPoints | null>(null);
+  const key = JSON.stringify(params);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+
+    getBusinessMapPoints(params)
+      .then((data) => {
+        if (!cancelled) setMapPoints(data);
+      })
+      .catch((error) => console.error('Error fetching map points:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key, enabled]);
+
+  return mapPoints;
+};
@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import { getBusinessTrashRetentionDays } from '@/lib/admin';
+
+// Null until loaded, so the trash wording never shows a number the purge job doesn't use
+export const useBusinessTrashRetentionDays = () => {
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getBusinessTrashRetentionDays()
+      .then((days) => {
+        if (!cancelled) setRetentionDays(days);
+      })
+      .catch((error) => console.error('Error fetching trash retention:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return retentionDays;
+};
@@ -14,13 +14,254 @@ export type Database = {
   }
   public: {
     Tables: {
+      activity_events: {
+        Row: {
+          actor_id: string | null
+          actor_name: string | null
+          business_id: string | null
+          created_at: string
+          description: string | null
+          event_type: string
+          id: string
+          metadata: Json
+          title: string
+        }
+        Insert: {
+          actor_id?: string | null
+          actor_name?: string | null
+          business_id?: string | null
+          created_at?: string
+          description?: string | null
+          event_type: string
+          id?: string
+          metadata?: Json
+          title: string
+        }
+        Update: {
+          actor_id?: string | null
+          actor_name?: string | null
+          business_id?: string | null
+          created_at?: string
+          description?: string | null
+          event_type?: string
+          id?: string
+          metadata?: Json
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "activity_events_business_id_fkey"
+            columns: ["business_id"]
+            isOneToOne: false
+            referencedRelation: "businesses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      admin_audit_log: {
+        Row: {
+          action: string
+          actor_id: string
+          after_data: Json | null
+          before_data: Json | null
+          created_at: string
+          id: string
+          target_id: string | null
+          target_table: string
+        }
+        Insert: {
+          action: string
+          actor_id: string
+          after_data?: Json | null
+          before_data?: Json | null
+          created_at?: string
+          id?: string
+          target_id?: string | null
+          target_table: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string
+          after_data?: Json | null
+          before_data?: Json | null
+          created_at?: string
+          id?: string
+          target_id?: string | null
+          target_table?: string
+        }
+        Relationships: []
+      }
+      admin_invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          admin_role: string
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string
+          last_sent_at: string | null
+          revoked_at: string | null
+          token: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          admin_role?: string
+          created_at?: string
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by: string
+          last_sent_at?: string | null
+          revoked_at?: string | null
+          token?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          admin_role?: string
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string
+          last_sent_at?: string | null
+          revoked_at?: string | null
+          token?: string
+        }
+        Relationships: []
+      }
+      admin_role_permissions: {
+        Row: {
+          admin_role: string
+          created_at: string
+          permission: string
+        }
+        Insert: {
+          admin_role: string
+          created_at?: string
+          permission: string
+        }
+        Update: {
+          admin_role?: string
+          created_at?: string
+          permission?: string
+        }
+        Relationships: []
+      }
+      admin_security_settings: {
+        Row: {
+          id: boolean
+          require_two_factor: boolean
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          id?: boolean
+          require_two_factor?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          id?: boolean
+          require_two_factor?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      admin_signup_confirmations: {
+        Row: {
+          confirmed_at: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invitation_id: string | null
+          token: string
+          user_id: string
+        }
+        Insert: {
+          confirmed_at?: string | null
+          created_at?: string
+          email: string
+          expires_at?: string
+          id?: string
+          invitation_id?: string | null
+          token?: string
+          user_id: string
+        }
+        Update: {
+          confirmed_at?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invitation_id?: string | null
+          token?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      admin_two_factor: {
+        Row: {
+          created_at: string
+          enabled_at: string | null
+          last_used_step: number | null
+          pending_secret: string | null
+          recovery_code_hashes: string[]
+          secret: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          enabled_at?: string | null
+          last_used_step?: number | null
+          pending_secret?: string | null
+          recovery_code_hashes?: string[]
+          secret?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          enabled_at?: string | null
+          last_used_step?: number | null
+          pending_secret?: string | null
+          recovery_code_hashes?: string[]
+          secret?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      admin_two_factor_sessions: {
+        Row: {
+          session_id: string
+          user_id: string
+          verified_at: string
+        }
+        Insert: {
+          session_id: string
+          user_id: string
+          verified_at?: string
+        }
+        Update: {
+          session_id?: string
+          user_id?: string
+          verified_at?: string
+        }
+        Relationships: []
+      }
       admin_users: {
         Row: {
           admin_role: string | null
           created_at: string
           id: string
           two_factor_enabled: boolean | null
-          two_factor_secret: string | null
           updated_at: string
           user_id: string
         }
@@ -29,7 +270,6 @@ export type Database = {
           created_at?: string
           id?: string
           two_factor_enabled?: boolean | null
-          two_factor_secret?: string | null
           updated_at?: string
           user_id: string
         }
@@ -38,7 +278,6 @@ export type Database = {
           created_at?: string
           id?: string
           two_factor_enabled?: boolean | null
-          two_factor_secret?: string | null
           updated_at?: string
           user_id?: string
         }
@@ -73,26 +312,202 @@ export type Database = {
       business_categories: {
         Row: {
           created_at: string
+          icon: string | null
           id: string
+          is_active: boolean
+          is_service: boolean
           name: string
+          parent_id: string | null
+          slug: string
+          sort_order: number
+          updated_at: string
         }
         Insert: {
           created_at?: string
+          icon?: string | null
           id?: string
+          is_active?: boolean
+          is_service?: boolean
           name: string
+          parent_id?: string | null
+          slug: string
+          sort_order?: number
+          updated_at?: string
         }
         Update: {
           created_at?: string
+          icon?: string | null
           id?: string
+          is_active?: boolean
+          is_service?: boolean
           name?: string
+          parent_id?: string | null
+          slug?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "business_categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "business_categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      business_claims: {
+        Row: {
+          business_id: string
+          claim_email: string | null
+          claim_token: string
+          claimed_at: string | null
+          claimed_by: string | null
+          created_at: string
+          created_by: string
+          id: string
+        }
+        Insert: {
+          business_id: string
+          claim_email?: string | null
+          claim_token?: string
+          claimed_at?: string | null
+          claimed_by?: string | null
+          created_at?: string
+          created_by: string
+          id?: string
+        }
+        Update: {
+          business_id?: string
+          claim_email?: string | null
+          claim_token?: string
+          claimed_at?: string | null
+          claimed_by?: string | null
+          created_at?: string
+          created_by?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "business_claims_business_id_fkey"
+            columns: ["business_id"]
+            isOneToOne: false
+            referencedRelation: "businesses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      business_drafts: {
+        Row: {
+          created_at: string
+          current_step: number
+          data: Json
+          id: string
+          owner_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          current_step?: number
+          data?: Json
+          id?: string
+          owner_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          current_step?: number
+          data?: Json
+          id?: string
+          owner_id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      business_options: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          sort_order?: number
+          updated_at?: string
         }
         Relationships: []
       }
+      business_products: {
+        Row: {
+          business_id: string
+          created_at: string
+          currency: string
+          description: string | null
+          id: string
+          image_url: string | null
+          is_available: boolean
+          name: string
+          price: number | null
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          business_id: string
+          created_at?: string
+          currency?: string
+          description?: string | null
+          id?: string
+          image_url?: string | null
+          is_available?: boolean
+          name: string
+          price?: number | null
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          business_id?: string
+          created_at?: string
+          currency?: string
+          description?: string | null
+          id?: string
+          image_url?: string | null
+          is_available?: boolean
+          name?: string
+          price?: number | null
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "business_products_business_id_fkey"
+            columns: ["business_id"]
+            isOneToOne: false
+            referencedRelation: "businesses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       business_reviews: {
         Row: {
           business_id: string
           comment: string | null
           created_at: string
+          hidden_at: string | null
+          hidden_by: string | null
           id: string
           rating: number
           updated_at: string
@@ -102,6 +517,8 @@ export type Database = {
           business_id: string
           comment?: string | null
           created_at?: string
+          hidden_at?: string | null
+          hidden_by?: string | null
           id?: string
           rating: number
           updated_at?: string
@@ -111,6 +528,8 @@ export type Database = {
           business_id?: string
           comment?: string | null
           created_at?: string
+          hidden_at?: string | null
+          hidden_by?: string | null
           id?: string
           rating?: number
           updated_at?: string
@@ -126,6 +545,38 @@ export type Database = {
           },
         ]
       }
+      business_search_documents: {
+        Row: {
+          business_id: string
+          document: unknown
+          listing_price: number | null
+          products_text: string
+          updated_at: string
+        }
+        Insert: {
+          business_id: string
+          document: unknown
+          listing_price?: number | null
+          products_text?: string
+          updated_at?: string
+        }
+        Update: {
+          business_id?: string
+          document?: unknown
+          listing_price?: number | null
+          products_text?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "business_search_documents_business_id_fkey"
+            columns: ["business_id"]
+            isOneToOne: true
+            referencedRelation: "businesses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       businesses: {
         Row: {
           address: string | null
@@ -133,27 +584,37 @@ export type Database = {
           category: string | null
           city: string | null
           created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
+          deletion_reason: string | null
           description: string | null
           email: string | null
           facebook_page: string | null
           id: string
           image_url: string | null
           last_payment_date: string | null
+          latitude: number | null
           license_expired_date: string | null
           listing_expired_date: string | null
+          located_at: string | null
+          location_precision: string | null
+          location_source: string | null
+          longitude: number | null
           name: string
           odoo_expired_date: string | null
+          odoo_status: string
+          opening_hours: Json | null
           owner_id: string
           payment_status: string
           phone: string | null
           "POS+Website": number | null
           product_images: string[] | null
-          products_catalog: string | null
           rating: number | null
           receipt_url: string | null
           starting_price: string | null
           state: string | null
           tiktok_url: string | null
+          time_zone: string | null
           updated_at: string
           user_email: string | null
           website: string | null
@@ -165,27 +626,37 @@ export type Database = {
           category?: string | null
           city?: string | null
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          deletion_reason?: string | null
           description?: string | null
           email?: string | null
           facebook_page?: string | null
           id?: string
           image_url?: string | null
           last_payment_date?: string | null
+          latitude?: number | null
           license_expired_date?: string | null
           listing_expired_date?: string | null
+          located_at?: string | null
+          location_precision?: string | null
+          location_source?: string | null
+          longitude?: number | null
           name: string
           odoo_expired_date?: string | null
+          odoo_status?: string
+          opening_hours?: Json | null
           owner_id: string
           payment_status?: string
           phone?: string | null
           "POS+Website"?: number | null
           product_images?: string[] | null
-          products_catalog?: string | null
           rating?: number | null
           receipt_url?: string | null
           starting_price?: string | null
           state?: string | null
           tiktok_url?: string | null
+          time_zone?: string | null
           updated_at?: string
           user_email?: string | null
           website?: string | null
@@ -197,27 +668,37 @@ export type Database = {
           category?: string | null
           city?: string | null
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          deletion_reason?: string | null
           description?: string | null
           email?: string | null
           facebook_page?: string | null
           id?: string
           image_url?: string | null
           last_payment_date?: string | null
+          latitude?: number | null
           license_expired_date?: string | null
           listing_expired_date?: string | null
+          located_at?: string | null
+          location_precision?: string | null
+          location_source?: string | null
+          longitude?: number | null
           name?: string
           odoo_expired_date?: string | null
+          odoo_status?: string
+          opening_hours?: Json | null
           owner_id?: string
           payment_status?: string
           phone?: string | null
           "POS+Website"?: number | null
           product_images?: string[] | null
-          products_catalog?: string | null
           rating?: number | null
           receipt_url?: string | null
           starting_price?: string | null
           state?: string | null
           tiktok_url?: string | null
+          time_zone?: string | null
           updated_at?: string
           user_email?: string | null
           website?: string | null
@@ -225,6 +706,115 @@ export type Database = {
         }
         Relationships: []
       }
+      category_suggested_products: {
+        Row: {
+          category_id: string
+          created_at: string
+          id: string
+          name: string
+          sort_order: number
+        }
+        Insert: {
+          category_id: string
+          created_at?: string
+          id?: string
+          name: string
+          sort_order?: number
+        }
+        Update: {
+          category_id?: string
+          created_at?: string
+          id?: string
+          name?: string
+          sort_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "category_suggested_products_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "business_categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      expiry_reminders: {
+        Row: {
+          business_id: string
+          created_at: string
+          days_before: number
+          error: string | null
+          expires_on: string
+          id: string
+          recipient_email: string
+          sent_at: string | null
+          status: string
+          subscription: string
+        }
+        Insert: {
+          business_id: string
+          created_at?: string
+          days_before: number
+          error?: string | null
+          expires_on: string
+          id?: string
+          recipient_email: string
+          sent_at?: string | null
+          status?: string
+          subscription: string
+        }
+        Update: {
+          business_id?: string
+          created_at?: string
+          days_before?: number
+          error?: string | null
+          expires_on?: string
+          id?: string
+          recipient_email?: string
+          sent_at?: string | null
+          status?: string
+          subscription?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "expiry_reminders_business_id_fkey"
+            columns: ["business_id"]
+            isOneToOne: false
+            referencedRelation: "businesses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      geocoder_gazetteer: {
+        Row: {
+          city: string | null
+          created_at: string
+          id: string
+          latitude: number
+          longitude: number
+          state_code: string
+          state_name: string
+        }
+        Insert: {
+          city?: string | null
+          created_at?: string
+          id?: string
+          latitude: number
+          longitude: number
+          state_code: string
+          state_name: string
+        }
+        Update: {
+          city?: string | null
+          created_at?: string
+          id?: string
+          latitude?: number
+          longitude?: number
+          state_code?: string
+          state_name?: string
+        }
+        Relationships: []
+      }
       login_attempts: {
         Row: {
           created_at: string
@@ -252,6 +842,68 @@ export type Database = {
         }
         Relationships: []
       }
+      payments: {
+        Row: {
+          amount: number | null
+          business_id: string
+          created_at: string
+          currency: string
+          id: string
+          method: string
+          notes: string | null
+          payer_id: string
+          receipt_path: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          stripe_payment_intent_id: string | null
+          stripe_session_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          amount?: number | null
+          business_id: string
+          created_at?: string
+          currency?: string
+          id?: string
+          method?: string
+          notes?: string | null
+          payer_id: string
+          receipt_path?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          stripe_payment_intent_id?: string | null
+          stripe_session_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          amount?: number | null
+          business_id?: string
+          created_at?: string
+          currency?: string
+          id?: string
+          method?: string
+          notes?: string | null
+          payer_id?: string
+          receipt_path?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          stripe_payment_intent_id?: string | null
+          stripe_session_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_business_id_fkey"
+            columns: ["business_id"]
+            isOneToOne: false
+            referencedRelation: "businesses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -285,11 +937,66 @@ export type Database = {
         }
         Relationships: []
       }
+      user_management_actions: {
+        Row: {
+          action: string
+          admin_id: string
+          created_at: string
+          details: Json
+          id: string
+          target_user_id: string
+        }
+        Insert: {
+          action: string
+          admin_id: string
+          created_at?: string
+          details?: Json
+          id?: string
+          target_user_id: string
+        }
+        Update: {
+          action?: string
+          admin_id?: string
+          created_at?: string
+          details?: Json
+          id?: string
+          target_user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      admin_requires_two_factor: {
+        Args: { check_user_id: string }
+        Returns: boolean
+      }
+      admin_set_user_role: {
+        Args: { new_role: string; target_user_id: string }
+        Returns: undefined
+      }
+      admin_set_user_suspension: {
+        Args: { reason?: string; suspend: boolean; target_user_id: string }
+        Returns: undefined
+      }
+      admin_sign_out_user: {
+        Args: { target_user_id: string }
+        Returns: undefined
+      }
+      apply_confirmed_payment: {
+        Args: { target_business_id: string }
+        Returns: undefined
+      }
+      business_trash_retention_days: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      cancel_stripe_payment: {
+        Args: { session_id: string }
+        Returns: undefined
+      }
       check_admin_rate_limit: {
         Args: { user_email: string }
         Returns: boolean
@@ -298,6 +1005,169 @@ export type Database = {
         Args: { user_email: string }
         Returns: boolean
       }
+      claim_business_listing: {
+        Args: { token: string }
+        Returns: string
+      }
+      complete_stripe_payment: {
+        Args: { payment_intent_id?: string; session_id: string }
+        Returns: string
+      }
+      confirm_admin_signup: {
+        Args: { token: string }
+        Returns: string
+      }
+      confirm_payment: {
+        Args: { payment_id: string; review_notes?: string }
+        Returns: undefined
+      }
+      consume_admin_recovery_code: {
+        Args: { code_hash: string; target_user_id: string }
+        Returns: boolean
+      }
+      create_admin_invitation: {
+        Args: { invite_email: string; invite_role?: string }
+        Returns: string
+      }
+      create_admin_signup_confirmation: {
+        Args: { invite_token: string; user_email: string }
+        Returns: string
+      }
+      create_claimable_business: {
+        Args: { claimant_email?: string; listing: Json }
+        Returns: {
+          created_business_id: string
+          created_claim_token: string
+        }[]
+      }
+      distance_km: {
+        Args: {
+          from_latitude: number
+          from_longitude: number
+          to_latitude: number
+          to_longitude: number
+        }
+        Returns: number
+      }
+      expire_lapsed_subscriptions: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          expired_listings: number
+          expired_odoo: number
+        }[]
+      }
+      filtered_business_ids: {
+        Args: {
+          category_names?: string[]
+          location_query?: string
+          max_latitude?: number
+          max_longitude?: number
+          max_price?: number
+          min_latitude?: number
+          min_longitude?: number
+          min_price?: number
+          min_rating?: number
+          name_only?: boolean
+          near_latitude?: number
+          near_longitude?: number
+          open_now?: boolean
+          option_names?: string[]
+          radius_km?: number
+          search_query?: string
+        }
+        Returns: {
+          matched_id: string
+        }[]
+      }
+      find_user_by_email: {
+        Args: { search_email: string }
+        Returns: {
+          display_name: string
+          email: string
+          user_id: string
+        }[]
+      }
+      get_activity_actor_name: {
+        Args: { actor: string }
+        Returns: string
+      }
+      get_admin_audit_log: {
+        Args: {
+          page_offset?: number
+          page_size?: number
+          search_term?: string
+          table_filter?: string
+        }
+        Returns: {
+          action: string
+          actor_email: string
+          actor_id: string
+          after_data: Json
+          before_data: Json
+          created_at: string
+          id: string
+          target_id: string
+          target_table: string
+          total_count: number
+        }[]
+      }
+      get_admin_dashboard_metrics: {
+        Args: { period_days?: number }
+        Returns: {
+          active_listings: number
+          average_rating: number
+          confirmed_payments: number
+          new_listings: number
+          new_reviews: number
+          new_users: number
+          pending_listings: number
+          previous_confirmed_payments: number
+          previous_new_listings: number
+          previous_new_reviews: number
+          previous_new_users: number
+          previous_revenue: number
+          revenue: number
+          total_bookmarks: number
+          total_listings: number
+          total_reviews: number
+          total_users: number
+        }[]
+      }
+      get_admin_invitation: {
+        Args: { invite_token: string }
+        Returns: {
+          admin_role: string
+          email: string
+          expires_at: string
+        }[]
+      }
+      get_admin_permissions: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      get_admin_two_factor_status: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          enabled: boolean
+          enforced: boolean
+          verified: boolean
+        }[]
+      }
+      get_admin_users: {
+        Args: { page_offset?: number; page_size?: number; search_term?: string }
+        Returns: {
+          banned_until: string
+          business_count: number
+          created_at: string
+          display_name: string
+          email: string
+          is_admin: boolean
+          last_sign_in_at: string
+          role: string
+          total_count: number
+          user_id: string
+        }[]
+      }
       get_pending_businesses_with_emails: {
         Args: Record<PropertyKey, never>
         Returns: {
@@ -347,6 +1217,22 @@ export type Database = {
           website: string
         }[]
       }
+      has_admin_permission: {
+        Args: { check_user_id?: string; required_permission: string }
+        Returns: boolean
+      }
+      is_admin: {
+        Args: { check_user_id?: string }
+        Returns: boolean
+      }
+      is_business_open: {
+        Args: { at_time?: string; hours: Json; zone: string }
+        Returns: boolean
+      }
+      is_super_admin: {
+        Args: { check_user_id?: string }
+        Returns: boolean
+      }
       log_admin_login_attempt: {
         Args: { attempt_success: boolean; user_email: string }
         Returns: undefined
@@ -355,13 +1241,190 @@ export type Database = {
         Args: { attempt_success: boolean; user_email: string }
         Returns: undefined
       }
+      lookup_gazetteer: {
+        Args: { city_name: string; state_text: string }
+        Returns: {
+          latitude: number
+          longitude: number
+          match_precision: string
+        }[]
+      }
       provision_admin_user: {
         Args: { user_email: string }
         Returns: undefined
       }
-      verify_totp_token: {
-        Args: { secret_key: string; token_input: string }
-        Returns: boolean
+      purge_deleted_businesses: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      queue_expiry_reminders: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      reject_payment: {
+        Args: { payment_id: string; reason: string }
+        Returns: undefined
+      }
+      restore_business: {
+        Args: { business_id: string }
+        Returns: undefined
+      }
+      revoke_admin_invitation: {
+        Args: { invitation_id: string }
+        Returns: undefined
+      }
+      search_business_facets: {
+        Args: {
+          category_names?: string[]
+          location_query?: string
+          max_latitude?: number
+          max_longitude?: number
+          max_price?: number
+          min_latitude?: number
+          min_longitude?: number
+          min_price?: number
+          min_rating?: number
+          name_only?: boolean
+          near_latitude?: number
+          near_longitude?: number
+          open_now?: boolean
+          option_names?: string[]
+          price_breaks?: number[]
+          radius_km?: number
+          search_query?: string
+        }
+        Returns: {
+          facet: string
+          facet_value: string
+          match_count: number
+        }[]
+      }
+      search_business_map_points: {
+        Args: {
+          category_names?: string[]
+          location_query?: string
+          max_latitude?: number
+          max_longitude?: number
+          max_points?: number
+          max_price?: number
+          min_latitude?: number
+          min_longitude?: number
+          min_price?: number
+          min_rating?: number
+          name_only?: boolean
+          near_latitude?: number
+          near_longitude?: number
+          open_now?: boolean
+          option_names?: string[]
+          radius_km?: number
+          search_query?: string
+        }
+        Returns: {
+          category: string
+          city: string
+          distance_km: number
+          id: string
+          image_url: string
+          latitude: number
+          longitude: number
+          name: string
+          rating: number
+          state: string
+          total_count: number
+        }[]
+      }
+      search_business_products: {
+        Args: {
+          page_offset?: number
+          page_size?: number
+          search_query: string
+        }
+        Returns: {
+          business_city: string
+          business_id: string
+          business_image_url: string
+          business_name: string
+          business_state: string
+          currency: string
+          description: string
+          id: string
+          image_url: string
+          is_available: boolean
+          name: string
+          name_highlight: string
+          price: number
+          rank: number
+          total_count: number
+        }[]
+      }
+      search_businesses: {
+        Args: {
+          category_names?: string[]
+          location_query?: string
+          max_latitude?: number
+          max_longitude?: number
+          max_price?: number
+          min_latitude?: number
+          min_longitude?: number
+          min_price?: number
+          min_rating?: number
+          name_only?: boolean
+          near_latitude?: number
+          near_longitude?: number
+          open_now?: boolean
+          option_names?: string[]
+          page_offset?: number
+          page_size?: number
+          radius_km?: number
+          search_query?: string
+        }
+        Returns: {
+          address: string
+          business_options: string[]
+          category: string
+          city: string
+          created_at: string
+          description: string
+          distance_km: number
+          facebook_page: string
+          id: string
+          image_url: string
+          is_open_now: boolean
+          latitude: number
+          license_expired_date: string
+          longitude: number
+          name: string
+          name_highlight: string
+          owner_id: string
+          phone: string
+          product_images: string[]
+          rank: number
+          rating: number
+          snippet: string
+          starting_price: string
+          state: string
+          tiktok_url: string
+          total_count: number
+          updated_at: string
+          website: string
+          zip_code: string
+        }[]
+      }
+      set_admin_two_factor_enforcement: {
+        Args: { enforce: boolean }
+        Returns: undefined
+      }
+      set_review_hidden: {
+        Args: { hide: boolean; review_id: string }
+        Returns: undefined
+      }
+      soft_delete_business: {
+        Args: { business_id: string; reason?: string }
+        Returns: undefined
+      }
+      to_prefix_tsquery: {
+        Args: { search_text: string }
+        Returns: unknown
       }
     }
     Enums: {
@@ -0,0 +1,63 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json, TablesInsert } from "@/integrations/supabase/types";
+
+export const ADMIN_ROLE_LABELS: Record<string, string> = {
+  super_admin: "Super Administrator",
+  admin: "Administrator",
+  moderator: "Moderator",
+  finance: "Finance",
+  support: "Support",
+};
+
+export const ADMIN_ROLE_OPTIONS = Object.entries(ADMIN_ROLE_LABELS).map(([value, label]) => ({ value, label }));
+
+// Mirrors the permission column of admin_role_permissions; the database decides which role has which
+export type AdminPermission =
+  | "manage_admins"
+  | "manage_users"
+  | "manage_listings"
+  | "view_payments"
+  | "confirm_payments"
+  | "moderate_reviews"
+  | "view_audit_log"
+  | "view_dashboard";
+
+export const ADMIN_PERMISSION_LABELS: Record<AdminPermission, string> = {
+  manage_admins: "Manage admins",
+  manage_users: "Manage users",
+  manage_listings: "Manage listings",
+  view_payments: "View payments",
+  confirm_payments: "Confirm payments",
+  moderate_reviews: "Moderate reviews",
+  view_audit_log: "View audit log",
+  view_dashboard: "View dashboard",
+};
+
+// Permissions of the signed-in admin; empty for everyone else
+export async function getAdminPermissions(): Promise<AdminPermission[]> {
+  const { data, error } = await supabase.rpc('get_admin_permissions');
+
+  if (error) throw error;
+  return (data ?? []) as AdminPermission[];
+}
+
+// Days a deleted listing stays in the trash, as used by the purge job
+export async function getBusinessTrashRetentionDays(): Promise<number> {
+  const { data, error } = await supabase.rpc('business_trash_retention_days');
+
+  if (error) throw error;
+  return data;
+}
+
+// Creates a placeholder listing together with the link its real owner claims it with
+export async function createClaimableBusiness(listing: TablesInsert<'businesses'>, claimantEmail: string | null) {
+  const { data, error } = await supabase
+    .rpc('create_claimable_business', {
+      listing: listing as unknown as Json,
+      claimant_email: claimantEmail,
+    })
+    .single();
+
+  if (error) throw error;
+  return { id: data.created_business_id, claimToken: data.created_claim_token };
+}
@@ -0,0 +1,74 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type LocationSource = "geocoder" | "gazetteer" | "manual";
+
+// How closely the point matches the address; state points are left out of distance search
+export type LocationPrecision = "address" | "city" | "state";
+
+export interface GeocodedLocation {
+  latitude: number;
+  longitude: number;
+  source: LocationSource;
+  precision: LocationPrecision;
+}
+
+export interface AddressParts {
+  address?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+}
+
+export const LOCATION_SOURCE_LABELS: Record<LocationSource, string> = {
+  geocoder: "Found from the address",
+  gazetteer: "Approximate (city or state center)",
+  manual: "Pinned on the map",
+};
+
+// One-line address used both for geocoding and to tell whether the address changed since it was located
+export function formatListingAddress({ address, city, state, zipCode }: AddressParts) {
+  return [address, city, state, zipCode].map(part => part?.trim()).filter(Boolean).join(", ");
+}
+
+// Resolves the address through the geocode-address function; null when nothing matched
+export async function geocodeAddress({ address, city, state, zipCode }: AddressParts): Promise<GeocodedLocation | null> {
+  const { data, error } = await supabase.functions.invoke('geocode-address', {
+    body: { address, city, state, zipCode },
+  });
+
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+
+  return data?.location ?? null;
+}
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+// Promise wrapper around the browser geolocation API
+export function getCurrentPosition(): Promise<Coordinates> {
+  return new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error("Your browser doesn't support location access."));
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => resolve({ latitude: coords.latitude, longitude: coords.longitude }),
+      (error) => reject(new Error(
+        error.code === error.PERMISSION_DENIED
+          ? "Location access was denied. Allow it in your browser to search near you."
+          : "We couldn't determine your location. Please try again."
+      )),
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 5 * 60 * 1000 }
+    );
+  });
+}
+
+export function formatDistance(distanceKm: number | null | undefined) {
+  if (distanceKm === null || distanceKm === undefined) return null;
+  const miles = distanceKm * 0.621371;
+  return miles < 10 ? `${miles.toFixed(1)} mi` : `${Math.round(miles)} mi`;
+}
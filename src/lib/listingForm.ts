@@ -0,0 +1,378 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Json, Tables } from "@/integrations/supabase/types";
+import { LocationPrecision, LocationSource, formatListingAddress, geocodeAddress } from "@/lib/geocoding";
+
+// Opening hours days, matching Postgres day-of-week numbers
+export const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export const LISTING_TIME_ZONES = [
+  { value: "America/New_York", label: "Eastern" },
+  { value: "America/Chicago", label: "Central" },
+  { value: "America/Denver", label: "Mountain" },
+  { value: "America/Phoenix", label: "Arizona" },
+  { value: "America/Los_Angeles", label: "Pacific" },
+  { value: "America/Anchorage", label: "Alaska" },
+  { value: "Pacific/Honolulu", label: "Hawaii" },
+];
+
+// Hours filled in when a day is switched on
+export const DEFAULT_OPENING_TIME = { opens: "09:00", closes: "17:00" };
+
+const ASSET_BUCKET = 'business-assets';
+
+// Every upload on the listing form (logo, product images, receipt) shares this limit
+export const MAX_UPLOAD_SIZE = 1 * 1024 * 1024;
+export const MAX_PRODUCT_IMAGES = 3;
+
+export const LISTING_FORM_MESSAGES = {
+  nameRequired: "Enter your business name",
+  categoryRequired: "Select a category",
+  descriptionRequired: "Describe your business",
+  phoneRequired: "Enter a phone number",
+  phoneInvalid: "Enter a valid phone number",
+  addressRequired: "Enter the street address",
+  cityRequired: "Enter the city",
+  stateRequired: "Enter the state",
+  zipCodeRequired: "Enter the ZIP code",
+  urlInvalid: "Enter a full link starting with http:// or https://",
+  logoTooLarge: "Logo file must be smaller than 1MB. Please choose a smaller file.",
+  imageTooLarge: "Each product image must be smaller than 1MB.",
+  tooManyImages: `You can add up to ${MAX_PRODUCT_IMAGES} product images in total.`,
+  receiptTooLarge: "Receipt file must be smaller than 1MB. Please choose a smaller file.",
+  receiptRequired: "Upload your payment receipt",
+  hoursInvalid: "Enter different opening and closing times for each open day",
+};
+
+const requiredText = (message: string) => z.string().trim().min(1, message);
+
+const optionalUrl = z
+  .string()
+  .trim()
+  .refine((value) => value === "" || /^https?:\/\/\S+$/i.test(value), LISTING_FORM_MESSAGES.urlInvalid);
+
+const openingHoursSchema = z
+  .array(z.object({
+    day: z.number().int().min(0).max(6),
+    opens: z.string(),
+    closes: z.string(),
+  }))
+  .refine(
+    (hours) => hours.every(({ opens, closes }) => opens && closes && opens !== closes),
+    LISTING_FORM_MESSAGES.hoursInvalid
+  );
+
+export type OpeningHours = z.infer<typeof openingHoursSchema>;
+
+const isWithinUploadLimit = (file: File) => file.size <= MAX_UPLOAD_SIZE;
+
+export const listingFormSchema = z
+  .object({
+    name: requiredText(LISTING_FORM_MESSAGES.nameRequired),
+    category: requiredText(LISTING_FORM_MESSAGES.categoryRequired),
+    description: requiredText(LISTING_FORM_MESSAGES.descriptionRequired),
+    phone: requiredText(LISTING_FORM_MESSAGES.phoneRequired)
+      .regex(/^[\d\s()+.-]{6,}$/, LISTING_FORM_MESSAGES.phoneInvalid),
+    licenseExpiredDate: z.string(),
+    address: requiredText(LISTING_FORM_MESSAGES.addressRequired),
+    city: requiredText(LISTING_FORM_MESSAGES.cityRequired),
+    state: requiredText(LISTING_FORM_MESSAGES.stateRequired),
+    zipCode: requiredText(LISTING_FORM_MESSAGES.zipCodeRequired),
+    latitude: z.number().nullable(),
+    longitude: z.number().nullable(),
+    locationSource: z.enum(["geocoder", "gazetteer", "manual"]).nullable(),
+    locationPrecision: z.enum(["address", "city", "state"]).nullable(),
+    locatedAt: z.string().nullable(),
+    // The address the coordinates belong to; once it no longer matches, the listing is geocoded again
+    locatedAddress: z.string(),
+    // Only the days the business opens; a closing time before the opening time runs past midnight
+    openingHours: openingHoursSchema,
+    timeZone: z.string(),
+    website: optionalUrl,
+    facebookPage: optionalUrl,
+    tiktokUrl: optionalUrl,
+    startingPrice: z.string().trim(),
+    options: z.array(z.string()),
+    productsCatalog: z.array(z.string()),
+    logo: z.instanceof(File).refine(isWithinUploadLimit, LISTING_FORM_MESSAGES.logoTooLarge).nullable(),
+    // Public URLs of media that is already uploaded; picked files are added to these
+    logoUrl: z.string(),
+    existingImages: z.array(z.string()),
+    productImages: z
+      .array(z.instanceof(File))
+      .refine((files) => files.every(isWithinUploadLimit), LISTING_FORM_MESSAGES.imageTooLarge),
+    onlineShopOption: z.enum(["sure", "maybe"]),
+    paymentOption: z.enum(["stripe", "bank"]),
+    receipt: z.instanceof(File).refine(isWithinUploadLimit, LISTING_FORM_MESSAGES.receiptTooLarge).nullable(),
+  })
+  .superRefine((values, ctx) => {
+    if (values.existingImages.length + values.productImages.length > MAX_PRODUCT_IMAGES) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["productImages"], message: LISTING_FORM_MESSAGES.tooManyImages });
+    }
+    if (values.paymentOption === "bank" && !values.receipt) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["receipt"], message: LISTING_FORM_MESSAGES.receiptRequired });
+    }
+  });
+
+export type ListingFormValues = z.infer<typeof listingFormSchema>;
+
+// Admin-only columns saved together with the form, overriding the derived values
+export interface BusinessAdminFields {
+  payment_status: string;
+  listing_expired_date: string | null;
+  odoo_expired_date: string | null;
+  "POS+Website": number;
+}
+
+export function getListingFormDefaults(business?: Tables<'businesses'> | null): ListingFormValues {
+  return {
+    name: business?.name || "",
+    category: business?.category || "",
+    description: business?.description || "",
+    phone: business?.phone || "",
+    licenseExpiredDate: business?.license_expired_date || "",
+    address: business?.address || "",
+    city: business?.city || "",
+    state: business?.state || "",
+    zipCode: business?.zip_code || "",
+    latitude: business?.latitude ?? null,
+    longitude: business?.longitude ?? null,
+    locationSource: (business?.location_source as LocationSource | null) ?? null,
+    locationPrecision: (business?.location_precision as LocationPrecision | null) ?? null,
+    locatedAt: business?.located_at ?? null,
+    // Existing coordinates are assumed to match the saved address
+    locatedAddress: business && business.latitude !== null
+      ? formatListingAddress({
+          address: business.address || "",
+          city: business.city || "",
+          state: business.state || "",
+          zipCode: business.zip_code || "",
+        })
+      : "",
+    openingHours: (business?.opening_hours as OpeningHours | null) ?? [],
+    timeZone: business?.time_zone || Intl.DateTimeFormat().resolvedOptions().timeZone,
+    website: business?.website || "",
+    facebookPage: business?.facebook_page || "",
+    tiktokUrl: business?.tiktok_url || "",
+    startingPrice: business?.starting_price || "",
+    options: business?.business_options || [],
+    // Only used to seed the catalog of a new listing; existing catalogs are edited in place
+    productsCatalog: [],
+    logo: null,
+    logoUrl: business?.image_url || "",
+    existingImages: business?.product_images || [],
+    productImages: [],
+    onlineShopOption: business && business["POS+Website"] === 0 ? "maybe" : "sure",
+    paymentOption: "stripe",
+    receipt: null,
+  };
+}
+
+export interface ListingFormStep {
+  title: string;
+  fields: (keyof ListingFormValues)[];
+}
+
+// Wizard steps in order; each step only validates its own fields before moving on
+export const LISTING_FORM_STEPS: ListingFormStep[] = [
+  { title: "Basics", fields: ["name", "category", "description"] },
+  { title: "Media", fields: ["logo", "productImages"] },
+  {
+    title: "Location & Contact",
+    fields: [
+      "phone", "licenseExpiredDate", "address", "city", "state", "zipCode",
+      "latitude", "longitude", "openingHours", "timeZone", "website", "facebookPage", "tiktokUrl",
+    ],
+  },
+  { title: "Catalog", fields: ["startingPrice", "options", "productsCatalog"] },
+  { title: "Plan & Payment", fields: ["onlineShopOption", "paymentOption", "receipt"] },
+];
+
+export const LISTING_MEDIA_STEP = 1;
+
+interface ListingMediaUploads {
+  logoUrl: string | null;
+  productImageUrls: string[];
+}
+
+export interface ListingUploads extends ListingMediaUploads {
+  receiptPath: string | null;
+}
+
+const uploadAsset = async (file: File, path: string) => {
+  const { data, error } = await supabase.storage
+    .from(ASSET_BUCKET)
+    .upload(path, file, {
+      cacheControl: '3600',
+      upsert: false
+    });
+
+  if (error) throw error;
+  return data.path;
+};
+
+const getAssetUrl = (path: string) => supabase.storage.from(ASSET_BUCKET).getPublicUrl(path).data.publicUrl;
+
+// Uploads one image under the owner's folder and returns its public URL; the index keeps batch uploads apart
+export async function uploadListingImage(file: File, folder: "logos" | "products", ownerId: string, index?: number) {
+  const prefix = index === undefined ? `${Date.now()}` : `${Date.now()}_${index}`;
+  return getAssetUrl(await uploadAsset(file, `${folder}/${ownerId}/${prefix}_${file.name}`));
+}
+
+// Uploads the picked logo and product images under the owner's folders
+export async function uploadListingMedia(values: ListingFormValues, ownerId: string): Promise<ListingMediaUploads> {
+  const logoUrl = values.logo ? await uploadListingImage(values.logo, "logos", ownerId) : null;
+
+  const productImageUrls = await Promise.all(
+    values.productImages.map((file, index) => uploadListingImage(file, "products", ownerId, index))
+  );
+
+  return { logoUrl, productImageUrls };
+}
+
+// Uploads whatever files are still pending on the form; the receipt stays a storage path
+export async function uploadListingAssets(values: ListingFormValues, ownerId: string): Promise<ListingUploads> {
+  const media = await uploadListingMedia(values, ownerId);
+
+  const receiptPath = values.paymentOption === 'bank' && values.receipt
+    ? await uploadAsset(values.receipt, `receipts/${ownerId}/${Date.now()}_${values.receipt.name}`)
+    : null;
+
+  return { ...media, receiptPath };
+}
+
+// Maps the form onto the businesses columns it owns
+export function toBusinessRow(values: ListingFormValues, uploads: ListingUploads) {
+  const productImages = [...values.existingImages, ...uploads.productImageUrls];
+
+  return {
+    name: values.name,
+    description: values.description,
+    category: values.category,
+    phone: values.phone,
+    address: values.address,
+    city: values.city,
+    state: values.state,
+    zip_code: values.zipCode,
+    latitude: values.latitude,
+    longitude: values.longitude,
+    location_source: values.locationSource,
+    location_precision: values.locationPrecision,
+    located_at: values.locatedAt,
+    opening_hours: values.openingHours.length > 0 ? values.openingHours : null,
+    time_zone: values.timeZone || null,
+    website: values.website,
+    image_url: uploads.logoUrl || values.logoUrl || null,
+    facebook_page: values.facebookPage || null,
+    tiktok_url: values.tiktokUrl || null,
+    starting_price: values.startingPrice || null,
+    business_options: values.options.length > 0 ? values.options : null,
+    license_expired_date: values.licenseExpiredDate || null,
+    product_images: productImages.length > 0 ? productImages : null,
+    "POS+Website": values.onlineShopOption === 'sure' ? 1 : 0,
+  };
+}
+
+export type ListingLocation = Pick<
+  ListingFormValues,
+  "latitude" | "longitude" | "locationSource" | "locationPrecision" | "locatedAt" | "locatedAddress"
+>;
+
+// Geocodes the address when it changed since the listing was last located, replacing a stale pin.
+// Geocoding is best effort: on failure the previous location is kept and tried again on the next save.
+export async function resolveListingLocation(values: ListingFormValues): Promise<ListingLocation> {
+  const current = {
+    latitude: values.latitude,
+    longitude: values.longitude,
+    locationSource: values.locationSource,
+    locationPrecision: values.locationPrecision,
+    locatedAt: values.locatedAt,
+    locatedAddress: values.locatedAddress,
+  };
+  const address = formatListingAddress(values);
+  if (current.latitude !== null && current.locatedAddress === address) return current;
+
+  try {
+    const location = await geocodeAddress(values);
+    return {
+      latitude: location?.latitude ?? null,
+      longitude: location?.longitude ?? null,
+      locationSource: location?.source ?? null,
+      locationPrecision: location?.precision ?? null,
+      locatedAt: location ? new Date().toISOString() : null,
+      locatedAddress: address,
+    };
+  } catch (error) {
+    console.error('Error geocoding listing address:', error);
+    return current;
+  }
+}
+
+// Everything on the form except pending files, which cannot be stored in a draft
+export type ListingDraftData = Omit<ListingFormValues, "logo" | "productImages" | "receipt">;
+
+export interface ListingDraft {
+  id: string;
+  data: ListingDraftData;
+  current_step: number;
+  updated_at: string;
+}
+
+export function toListingDraftData({ logo, productImages, receipt, ...data }: ListingFormValues): ListingDraftData {
+  return data;
+}
+
+// Creates the draft on first save and updates it afterwards; returns the draft id
+export async function saveListingDraft(draftId: string | null, ownerId: string, data: ListingDraftData, currentStep: number) {
+  const row = { data: data as unknown as Json, current_step: currentStep };
+
+  if (draftId) {
+    const { error } = await supabase
+      .from('business_drafts')
+      .update(row)
+      .eq('id', draftId);
+
+    if (error) throw error;
+    return draftId;
+  }
+
+  const { data: draft, error } = await supabase
+    .from('business_drafts')
+    .insert({ ...row, owner_id: ownerId })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return draft.id;
+}
+
+export async function getListingDrafts(ownerId: string): Promise<ListingDraft[]> {
+  const { data, error } = await supabase
+    .from('business_drafts')
+    .select('id, data, current_step, updated_at')
+    .eq('owner_id', ownerId)
+    .order('updated_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as unknown as ListingDraft[];
+}
+
+export async function getListingDraft(draftId: string): Promise<ListingDraft | null> {
+  const { data, error } = await supabase
+    .from('business_drafts')
+    .select('id, data, current_step, updated_at')
+    .eq('id', draftId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as unknown as ListingDraft | null;
+}
+
+export async function deleteListingDraft(draftId: string) {
+  const { error } = await supabase
+    .from('business_drafts')
+    .delete()
+    .eq('id', draftId);
+
+  if (error) throw error;
+}
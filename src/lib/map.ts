@@ -0,0 +1,10 @@
+// Map tiles default to the public OpenStreetMap server; set VITE_MAP_TILE_URL (and its attribution) to use a self-hosted one
+export const MAP_TILE_URL = import.meta.env.VITE_MAP_TILE_URL || "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png";
+export const MAP_TILE_ATTRIBUTION = import.meta.env.VITE_MAP_TILE_ATTRIBUTION
+  || '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+// Shown before a listing has coordinates: the contiguous United States
+export const DEFAULT_MAP_CENTER: [number, number] = [39.8283, -98.5795];
+export const DEFAULT_MAP_ZOOM = 4;
+// Close enough to place a pin on the right street
+export const LOCATED_MAP_ZOOM = 15;
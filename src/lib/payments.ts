@@ -0,0 +1,31 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Yearly listing fee quoted on the listing forms
+export const LISTING_FEE = 10;
+export const LISTING_FEE_CURRENCY = "USD";
+
+export const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  bank_transfer: "Bank/Digital Payment",
+  stripe: "Stripe",
+};
+
+export function getReceiptUrl(receiptPath: string) {
+  return supabase.storage.from('business-assets').getPublicUrl(receiptPath).data.publicUrl;
+}
+
+export function formatPaymentAmount(amount: number | null, currency: string) {
+  if (amount === null) return "Not specified";
+  return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(amount);
+}
+
+// Opens a Stripe Checkout session for the listing and sends the browser to it
+export async function startStripeCheckout(businessId: string) {
+  const { data, error } = await supabase.functions.invoke('create-checkout-session', {
+    body: { businessId },
+  });
+
+  if (error) throw error;
+  if (!data?.url) throw new Error(data?.error || "Failed to start Stripe checkout");
+
+  window.location.href = data.url;
+}
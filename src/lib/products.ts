@@ -0,0 +1,122 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { LISTING_FORM_MESSAGES, MAX_UPLOAD_SIZE, uploadListingImage } from "@/lib/listingForm";
+
+export type BusinessProduct = Tables<'business_products'>;
+
+export const PRODUCT_CURRENCIES = ["USD", "THB", "EUR", "GBP"];
+
+export const productFormSchema = z.object({
+  name: z.string().trim().min(1, "Enter the product name").max(120, "Keep the name under 120 characters"),
+  description: z.string().trim().max(500, "Keep the description under 500 characters"),
+  price: z
+    .string()
+    .trim()
+    .refine((value) => value === "" || /^\d+(\.\d{1,2})?$/.test(value), "Enter a price like 12 or 12.50"),
+  currency: z.string().regex(/^[A-Z]{3}$/),
+  isAvailable: z.boolean(),
+  image: z
+    .instanceof(File)
+    .refine((file) => file.size <= MAX_UPLOAD_SIZE, LISTING_FORM_MESSAGES.imageTooLarge)
+    .nullable(),
+  // Public URL of the image already saved on the product
+  imageUrl: z.string(),
+});
+
+export type ProductFormValues = z.infer<typeof productFormSchema>;
+
+export function getProductFormDefaults(product?: BusinessProduct | null): ProductFormValues {
+  return {
+    name: product?.name || "",
+    description: product?.description || "",
+    price: product?.price != null ? String(product.price) : "",
+    currency: product?.currency || "USD",
+    isAvailable: product?.is_available ?? true,
+    image: null,
+    imageUrl: product?.image_url || "",
+  };
+}
+
+export function formatProductPrice(product: Pick<BusinessProduct, "price" | "currency">) {
+  if (product.price === null) return null;
+  return new Intl.NumberFormat(undefined, { style: "currency", currency: product.currency }).format(product.price);
+}
+
+export async function getBusinessProducts(businessId: string): Promise<BusinessProduct[]> {
+  const { data, error } = await supabase
+    .from('business_products')
+    .select('*')
+    .eq('business_id', businessId)
+    .order('sort_order', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Seeds the catalog of a freshly created listing from the names picked in the wizard
+export async function createBusinessProducts(businessId: string, names: string[]) {
+  if (names.length === 0) return;
+
+  const { error } = await supabase
+    .from('business_products')
+    .insert(names.map((name, index) => ({ business_id: businessId, name, sort_order: index })));
+
+  if (error) throw error;
+}
+
+// Creates the product when no id is given; images go to the owner's product folder like listing images
+export async function saveBusinessProduct(
+  businessId: string,
+  ownerId: string,
+  values: ProductFormValues,
+  productId?: string,
+  sortOrder?: number
+) {
+  const imageUrl = values.image ? await uploadListingImage(values.image, "products", ownerId) : values.imageUrl;
+
+  const row = {
+    name: values.name,
+    description: values.description || null,
+    price: values.price === "" ? null : Number(values.price),
+    currency: values.currency,
+    is_available: values.isAvailable,
+    image_url: imageUrl || null,
+  };
+
+  const { error } = productId
+    ? await supabase
+        .from('business_products')
+        .update(row)
+        .eq('id', productId)
+    : await supabase
+        .from('business_products')
+        .insert({ ...row, business_id: businessId, sort_order: sortOrder ?? 0 });
+
+  if (error) throw error;
+}
+
+export async function deleteBusinessProduct(productId: string) {
+  const { error } = await supabase
+    .from('business_products')
+    .delete()
+    .eq('id', productId);
+
+  if (error) throw error;
+}
+
+// Rewrites sort_order for the products in their new order
+export async function reorderBusinessProducts(products: BusinessProduct[]) {
+  const results = await Promise.all(
+    products.map((product, index) =>
+      supabase
+        .from('business_products')
+        .update({ sort_order: index })
+        .eq('id', product.id)
+    )
+  );
+
+  const failed = results.find((result) => result.error);
+  if (failed?.error) throw failed.error;
+}
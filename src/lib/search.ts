@@ -0,0 +1,214 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+
+export type BusinessSearchResult = Database['public']['Functions']['search_businesses']['Returns'][number];
+export type ProductSearchResult = Database['public']['Functions']['search_business_products']['Returns'][number];
+export type BusinessMapPoint = Database['public']['Functions']['search_business_map_points']['Returns'][number];
+
+export type SearchMode = "product" | "service" | "business";
+
+// Order of the modes on the home page selector and the results page
+export const SEARCH_MODES: { value: SearchMode; label: string; resultsLabel: string }[] = [
+  { value: "product", label: "Find Product", resultsLabel: "Products" },
+  { value: "service", label: "Find Service", resultsLabel: "Services" },
+  { value: "business", label: "Find Business", resultsLabel: "Businesses" },
+];
+
+export const isSearchMode = (value: string | null): value is SearchMode =>
+  SEARCH_MODES.some((mode) => mode.value === value);
+
+export const SEARCH_PAGE_SIZE = 24;
+
+export interface NearbyFilter {
+  latitude: number;
+  longitude: number;
+  // Null only sorts by distance without limiting it
+  radiusKm: number | null;
+}
+
+// Radius choices for the "Near me" filter, in miles for display
+export const NEARBY_RADIUS_MILES = [5, 10, 25, 50];
+export const DEFAULT_NEARBY_RADIUS_MILES = 25;
+
+export const milesToKm = (miles: number) => miles * 1.609344;
+
+// Visible area of the map, for "search this area"
+export interface MapBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+// Upper bounds of the price bands; the last band has no upper bound
+export const PRICE_BREAKS = [10, 25, 50, 100];
+
+export interface PriceRange {
+  min: number;
+  // Null when the band has no upper bound
+  max: number | null;
+}
+
+export const PRICE_RANGES: PriceRange[] = [0, ...PRICE_BREAKS].map((min, index) => ({
+  min,
+  max: PRICE_BREAKS[index] ?? null,
+}));
+
+export function formatPriceRange({ min, max }: PriceRange) {
+  if (min === 0 && max !== null) return `Under $${max}`;
+  return max === null ? `$${min} and up` : `$${min} – $${max}`;
+}
+
+// "N stars & up" choices, best first
+export const RATING_THRESHOLDS = [4, 3, 2, 1];
+
+export interface FacetFilters {
+  // A listing has to offer every one of these
+  options: string[];
+  minRating: number | null;
+  priceRange: PriceRange | null;
+  openNow: boolean;
+}
+
+export const EMPTY_FACET_FILTERS: FacetFilters = {
+  options: [],
+  minRating: null,
+  priceRange: null,
+  openNow: false,
+};
+
+export interface BusinessSearchParams {
+  query: string;
+  location: string;
+  // Null searches every category
+  categoryNames: string[] | null;
+  // Match listing names only instead of the whole listing
+  nameOnly?: boolean;
+  // Sorts nearest first and leaves out listings without coordinates
+  near?: NearbyFilter | null;
+  // Only listings plotted inside the box
+  bounds?: MapBounds | null;
+  facets?: FacetFilters;
+}
+
+export interface BusinessSearchPage {
+  results: BusinessSearchResult[];
+  totalCount: number;
+}
+
+// Filter arguments shared by the search and facet RPCs
+const toFilterArgs = ({ query, location, categoryNames, nameOnly, near, bounds, facets }: BusinessSearchParams) => ({
+  search_query: query.trim() || null,
+  location_query: location.trim() || null,
+  category_names: categoryNames,
+  name_only: nameOnly ?? false,
+  near_latitude: near?.latitude ?? null,
+  near_longitude: near?.longitude ?? null,
+  radius_km: near?.radiusKm ?? null,
+  min_latitude: bounds?.south ?? null,
+  min_longitude: bounds?.west ?? null,
+  max_latitude: bounds?.north ?? null,
+  max_longitude: bounds?.east ?? null,
+  option_names: facets?.options.length ? facets.options : null,
+  min_rating: facets?.minRating ?? null,
+  min_price: facets?.priceRange?.min ?? null,
+  max_price: facets?.priceRange?.max ?? null,
+  open_now: facets?.openNow ?? false,
+});
+
+// Ranked by relevance when there is a query, by rating otherwise; nearest first when searching near a point
+export async function searchBusinesses(params: BusinessSearchParams, offset = 0): Promise<BusinessSearchPage> {
+  const { data, error } = await supabase.rpc('search_businesses', {
+    ...toFilterArgs(params),
+    page_size: SEARCH_PAGE_SIZE,
+    page_offset: offset,
+  });
+
+  if (error) throw error;
+  return {
+    results: data || [],
+    totalCount: data?.[0]?.total_count ?? 0,
+  };
+}
+
+// Most pins the map view loads for one search; the best rated are kept
+export const MAP_POINTS_LIMIT = 1000;
+
+export interface BusinessMapPoints {
+  points: BusinessMapPoint[];
+  // Every located listing matching the search, including any past the limit
+  totalCount: number;
+}
+
+// Every located match for the map view, independent of how many pages the list has loaded
+export async function getBusinessMapPoints(params: BusinessSearchParams): Promise<BusinessMapPoints> {
+  const { data, error } = await supabase.rpc('search_business_map_points', {
+    ...toFilterArgs(params),
+    max_points: MAP_POINTS_LIMIT,
+  });
+
+  if (error) throw error;
+  return {
+    points: data || [],
+    totalCount: data?.[0]?.total_count ?? 0,
+  };
+}
+
+export interface BusinessFacetCounts {
+  options: Record<string, number>;
+  // Keyed by the minimum rating
+  ratings: Record<number, number>;
+  // Keyed by the price band's lower bound
+  prices: Record<number, number>;
+  openNow: number;
+}
+
+// How many listings each filter value would give with the rest of the search as it is
+export async function getBusinessFacets(params: BusinessSearchParams): Promise<BusinessFacetCounts> {
+  const { data, error } = await supabase.rpc('search_business_facets', {
+    ...toFilterArgs(params),
+    price_breaks: PRICE_BREAKS,
+  });
+
+  if (error) throw error;
+
+  const counts: BusinessFacetCounts = { options: {}, ratings: {}, prices: {}, openNow: 0 };
+  for (const { facet, facet_value, match_count } of data || []) {
+    if (facet === 'option') counts.options[facet_value] = match_count;
+    if (facet === 'rating') counts.ratings[Number(facet_value)] = match_count;
+    if (facet === 'price') counts.prices[Number(facet_value)] = match_count;
+    if (facet === 'open_now') counts.openNow = match_count;
+  }
+  return counts;
+}
+
+export async function searchProducts(query: string, offset = 0) {
+  const { data, error } = await supabase.rpc('search_business_products', {
+    search_query: query.trim(),
+    page_size: SEARCH_PAGE_SIZE,
+    page_offset: offset,
+  });
+
+  if (error) throw error;
+  return {
+    results: data || [],
+    totalCount: data?.[0]?.total_count ?? 0,
+  };
+}
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+// The search RPC wraps matched words in <mark> tags; split on them so the text is never rendered as HTML
+export function splitHighlight(value: string): HighlightSegment[] {
+  return value
+    .split(/(<mark>.*?<\/mark>)/g)
+    .filter(Boolean)
+    .map((part) =>
+      part.startsWith("<mark>") && part.endsWith("</mark>")
+        ? { text: part.slice(6, -7), highlighted: true }
+        : { text: part, highlighted: false }
+    );
+}
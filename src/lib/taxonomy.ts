@@ -0,0 +1,234 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+
+export type BusinessCategory = Tables<'business_categories'>;
+export type BusinessOption = Tables<'business_options'>;
+export type SuggestedProduct = Tables<'category_suggested_products'>;
+
+// A category positioned in the tree; subcategories sit right after their parent
+export interface CategoryTreeItem extends BusinessCategory {
+  depth: number;
+}
+
+export const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+export const categoryFormSchema = z.object({
+  name: z.string().trim().min(1, "Enter the category name").max(60, "Keep the name under 60 characters"),
+  slug: z
+    .string()
+    .trim()
+    .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Use lowercase letters, numbers and single dashes"),
+  // Lucide icon name, e.g. "utensils"
+  icon: z.string().trim(),
+  // Empty for a top-level category
+  parentId: z.string(),
+  sortOrder: z.string().trim().regex(/^\d+$/, "Enter a whole number"),
+  isActive: z.boolean(),
+  // Listings in service categories are what the "Find Service" search returns
+  isService: z.boolean(),
+});
+
+export type CategoryFormValues = z.infer<typeof categoryFormSchema>;
+
+export function getCategoryFormDefaults(category?: BusinessCategory | null, sortOrder = 0): CategoryFormValues {
+  return {
+    name: category?.name || "",
+    slug: category?.slug || "",
+    icon: category?.icon || "",
+    parentId: category?.parent_id || "",
+    sortOrder: String(category?.sort_order ?? sortOrder),
+    isActive: category?.is_active ?? true,
+    isService: category?.is_service ?? false,
+  };
+}
+
+// Orders categories parent first, then its subcategories, each level by sort order
+export function buildCategoryTree(categories: BusinessCategory[]): CategoryTreeItem[] {
+  const byOrder = (a: BusinessCategory, b: BusinessCategory) =>
+    a.sort_order - b.sort_order || a.name.localeCompare(b.name);
+  const ids = new Set(categories.map((category) => category.id));
+  // Subcategories of a hidden parent are shown at the top level
+  const roots = categories.filter((category) => !category.parent_id || !ids.has(category.parent_id)).sort(byOrder);
+
+  return roots.flatMap((root) => [
+    { ...root, depth: 0 },
+    ...categories
+      .filter((category) => category.parent_id === root.id)
+      .sort(byOrder)
+      .map((category) => ({ ...category, depth: 1 })),
+  ]);
+}
+
+// Listings store the category name; filtering on a parent also matches its subcategories
+export function getCategoryFilterNames(categories: BusinessCategory[], name: string) {
+  const category = categories.find((item) => item.name === name);
+  if (!category) return [name];
+
+  return [name, ...categories.filter((item) => item.parent_id === category.id).map((item) => item.name)];
+}
+
+// Service categories and their subcategories, which count as services too
+export function getServiceCategoryNames(categories: BusinessCategory[]) {
+  const serviceIds = new Set(categories.filter((category) => category.is_service).map((category) => category.id));
+
+  return categories
+    .filter((category) => serviceIds.has(category.id) || (!!category.parent_id && serviceIds.has(category.parent_id)))
+    .map((category) => category.name);
+}
+
+export async function getBusinessCategories(includeInactive = false): Promise<BusinessCategory[]> {
+  let query = supabase
+    .from('business_categories')
+    .select('*')
+    .order('sort_order', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (!includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+}
+
+export async function saveBusinessCategory(values: CategoryFormValues, categoryId?: string) {
+  const row = {
+    name: values.name,
+    slug: values.slug,
+    icon: values.icon || null,
+    parent_id: values.parentId || null,
+    sort_order: Number(values.sortOrder),
+    is_active: values.isActive,
+    is_service: values.isService,
+  };
+
+  const { error } = categoryId
+    ? await supabase
+        .from('business_categories')
+        .update(row)
+        .eq('id', categoryId)
+    : await supabase
+        .from('business_categories')
+        .insert(row);
+
+  if (error) throw error;
+}
+
+// The database refuses to delete a category that listings or subcategories still use
+export async function deleteBusinessCategory(categoryId: string) {
+  const { error } = await supabase
+    .from('business_categories')
+    .delete()
+    .eq('id', categoryId);
+
+  if (error) throw error;
+}
+
+export async function getBusinessOptions(includeInactive = false): Promise<BusinessOption[]> {
+  let query = supabase
+    .from('business_options')
+    .select('*')
+    .order('sort_order', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (!includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createBusinessOption(name: string, sortOrder: number) {
+  const { error } = await supabase
+    .from('business_options')
+    .insert({ name, sort_order: sortOrder });
+
+  if (error) throw error;
+}
+
+export async function updateBusinessOption(optionId: string, changes: Partial<Pick<BusinessOption, "name" | "is_active">>) {
+  const { error } = await supabase
+    .from('business_options')
+    .update(changes)
+    .eq('id', optionId);
+
+  if (error) throw error;
+}
+
+export async function deleteBusinessOption(optionId: string) {
+  const { error } = await supabase
+    .from('business_options')
+    .delete()
+    .eq('id', optionId);
+
+  if (error) throw error;
+}
+
+// Rewrites sort_order for the options in their new order
+export async function reorderBusinessOptions(options: BusinessOption[]) {
+  const results = await Promise.all(
+    options.map((option, index) =>
+      supabase
+        .from('business_options')
+        .update({ sort_order: index })
+        .eq('id', option.id)
+    )
+  );
+
+  const failed = results.find((result) => result.error);
+  if (failed?.error) throw failed.error;
+}
+
+export async function getSuggestedProducts(): Promise<SuggestedProduct[]> {
+  const { data, error } = await supabase
+    .from('category_suggested_products')
+    .select('*')
+    .order('sort_order', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Suggestions for the named category, including the ones inherited from its parent
+export function getSuggestionsForCategory(
+  suggestions: SuggestedProduct[],
+  categories: BusinessCategory[],
+  categoryName: string
+) {
+  const category = categories.find((item) => item.name === categoryName);
+  if (!category) return [];
+
+  const categoryIds = [category.parent_id, category.id];
+  const names = suggestions
+    .filter((suggestion) => categoryIds.includes(suggestion.category_id))
+    .sort((a, b) => categoryIds.indexOf(a.category_id) - categoryIds.indexOf(b.category_id))
+    .map((suggestion) => suggestion.name);
+
+  return [...new Set(names)];
+}
+
+export async function createSuggestedProduct(categoryId: string, name: string, sortOrder: number) {
+  const { error } = await supabase
+    .from('category_suggested_products')
+    .insert({ category_id: categoryId, name, sort_order: sortOrder });
+
+  if (error) throw error;
+}
+
+export async function deleteSuggestedProduct(suggestionId: string) {
+  const { error } = await supabase
+    .from('category_suggested_products')
+    .delete()
+    .eq('id', suggestionId);
+
+  if (error) throw error;
+}
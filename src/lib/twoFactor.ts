@@ -0,0 +1,41 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enforced: boolean;
+  verified: boolean;
+}
+
+interface TwoFactorResponses {
+  enroll: { secret: string; otpauthUri: string };
+  activate: { recoveryCodes: string[] };
+  verify: { verified: boolean };
+  disable: { disabled: boolean };
+}
+
+// Calls the admin-two-factor edge function, surfacing its error message on failure
+export async function callTwoFactor<A extends keyof TwoFactorResponses>(action: A, code?: string): Promise<TwoFactorResponses[A]> {
+  const { data, error } = await supabase.functions.invoke('admin-two-factor', {
+    body: { action, code },
+  });
+
+  if (error) {
+    const message = await error.context?.json?.()
+      .then((body: { error?: string }) => body.error)
+      .catch(() => null);
+    throw new Error(message || error.message);
+  }
+
+  return data;
+}
+
+export async function getTwoFactorStatus(): Promise<TwoFactorStatus | null> {
+  const { data, error } = await supabase.rpc('get_admin_two_factor_status');
+
+  if (error) throw error;
+  return data?.[0] ?? null;
+}
+
+// An admin must pass the second factor when they enrolled or a super admin enforces it
+export const needsSecondFactor = (status: TwoFactorStatus | null) =>
+  !!status && (status.enabled || status.enforced) && !status.verified;
@@ -6,9 +6,12 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
-import { Star, MapPin, Phone, Globe, ArrowLeft, Clock } from "lucide-react";
+import { Star, MapPin, Phone, Globe, ArrowLeft, Clock, EyeOff, Eye } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { User as SupabaseUser } from "@supabase/supabase-js";
+import { getAdminPermissions } from "@/lib/admin";
+import { BusinessProduct, getBusinessProducts } from "@/lib/products";
+import ProductCatalogList from "@/components/ProductCatalogList";
 
 interface Business {
   id: string;
@@ -35,26 +38,36 @@ interface Review {
   comment?: string;
   created_at: string;
   user_id: string;
+  hidden_at?: string | null;
 }
 
 export default function BusinessDetail() {
   const { id } = useParams<{ id: string }>();
   const [business, setBusiness] = useState<Business | null>(null);
   const [reviews, setReviews] = useState<Review[]>([]);
+  const [products, setProducts] = useState<BusinessProduct[]>([]);
   const [user, setUser] = useState<SupabaseUser | null>(null);
   const [newReview, setNewReview] = useState({ rating: 5, comment: "" });
   const [loading, setLoading] = useState(true);
+  const [canModerateReviews, setCanModerateReviews] = useState(false);
   const { toast } = useToast();
 
   useEffect(() => {
     if (id) {
       fetchBusiness();
+      fetchProducts();
       fetchReviews();
     }
     
     // Get current user
     supabase.auth.getUser().then(({ data: { user } }) => {
       setUser(user);
+      if (user) {
+        // Signed-in moderators see hidden reviews and can toggle them
+        getAdminPermissions()
+          .then((permissions) => setCanModerateReviews(permissions.includes('moderate_reviews')))
+          .catch((error) => console.error("Error fetching admin permissions:", error));
+      }
     });
   }, [id]);
 
@@ -64,6 +77,7 @@ export default function BusinessDetail() {
         .from("businesses")
         .select("*")
         .eq("id", id)
+        .is("deleted_at", null)
         .single();
 
       if (error) throw error;
@@ -80,6 +94,14 @@ export default function BusinessDetail() {
     }
   };
 
+  const fetchProducts = async () => {
+    try {
+      setProducts(await getBusinessProducts(id));
+    } catch (error) {
+      console.error("Error fetching products:", error);
+    }
+  };
+
   const fetchReviews = async () => {
     try {
       const { data, error } = await supabase
@@ -95,6 +117,33 @@ export default function BusinessDetail() {
     }
   };
 
+  const toggleReviewHidden = async (review: Review) => {
+    try {
+      const { error } = await supabase.rpc("set_review_hidden", {
+        review_id: review.id,
+        hide: !review.hidden_at,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: review.hidden_at ? "Review restored" : "Review hidden",
+        description: review.hidden_at
+          ? "The review is visible to everyone again."
+          : "The review is no longer shown publicly.",
+      });
+      fetchReviews();
+      fetchBusiness();
+    } catch (error) {
+      console.error("Error moderating review:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update review.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const submitReview = async () => {
     if (!user) {
       toast({
@@ -259,6 +308,18 @@ export default function BusinessDetail() {
               </CardContent>
             </Card>
 
+            {/* Products Catalog */}
+            {products.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Products & Services</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ProductCatalogList products={products} />
+                </CardContent>
+              </Card>
+            )}
+
             {/* Reviews Section */}
             <Card>
               <CardHeader>
@@ -272,6 +333,20 @@ export default function BusinessDetail() {
                       <span className="text-sm text-muted-foreground">
                         {new Date(review.created_at).toLocaleDateString()}
                       </span>
+                      {review.hidden_at && (
+                        <Badge variant="secondary">Hidden by a moderator</Badge>
+                      )}
+                      {canModerateReviews && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => toggleReviewHidden(review)}
+                          className="ml-auto flex items-center space-x-1"
+                        >
+                          {review.hidden_at ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+                          <span>{review.hidden_at ? "Unhide" : "Hide"}</span>
+                        </Button>
+                      )}
                     </div>
                     {review.comment && (
                       <p className="text-muted-foreground">{review.comment}</p>
@@ -1,104 +1,30 @@
-import React, { useState, useEffect } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import React, { useState } from "react";
+import { BusinessSearchParams, EMPTY_FACET_FILTERS, FacetFilters, NearbyFilter } from "@/lib/search";
+import { getCategoryFilterNames } from "@/lib/taxonomy";
 import { PopularBusinessCard } from "@/components/PopularBusinessCard";
 import { SearchFilters } from "@/components/SearchFilters";
+import { Button } from "@/components/ui/button";
 import { Navbar } from "@/components/Navbar";
 import { Skeleton } from "@/components/ui/skeleton";
-import { useToast } from "@/hooks/use-toast";
-
-interface Business {
-  id: string;
-  name: string;
-  description?: string;
-  category: string;
-  address?: string;
-  city?: string;
-  state?: string;
-  zip_code?: string;
-  phone?: string;
-  email?: string;
-  website?: string;
-  image_url?: string;
-  rating: number;
-  owner_id: string;
-  created_at: string;
-  updated_at: string;
-}
-
-interface Category {
-  name: string;
-}
+import { useBusinessCategories } from "@/hooks/useBusinessCategories";
+import { useBusinessFacets, useBusinessSearch } from "@/hooks/useBusinessSearch";
 
 export default function BusinessDirectory() {
-  const [businesses, setBusinesses] = useState<Business[]>([]);
-  const [categories, setCategories] = useState<string[]>([]);
-  const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedCategory, setSelectedCategory] = useState("all");
   const [locationFilter, setLocationFilter] = useState("");
-  const { toast } = useToast();
-
-  useEffect(() => {
-    fetchCategories();
-    fetchBusinesses();
-  }, []);
-
-  useEffect(() => {
-    fetchBusinesses();
-  }, [searchTerm, selectedCategory, locationFilter]);
-
-  const fetchCategories = async () => {
-    try {
-      const { data, error } = await supabase
-        .from("business_categories")
-        .select("name")
-        .order("name");
-
-      if (error) throw error;
-      setCategories(data.map((cat: Category) => cat.name));
-    } catch (error) {
-      console.error("Error fetching categories:", error);
-    }
-  };
-
-  const fetchBusinesses = async () => {
-    try {
-      setLoading(true);
-      let query = supabase
-        .from("businesses")
-        .select("*")
-        .order("rating", { ascending: false });
-
-      // Apply search filter
-      if (searchTerm) {
-        query = query.or(`name.ilike.%${searchTerm}%,description.ilike.%${searchTerm}%`);
-      }
-
-      // Apply category filter
-      if (selectedCategory !== "all") {
-        query = query.eq("category", selectedCategory);
-      }
-
-      // Apply location filter
-      if (locationFilter) {
-        query = query.or(`city.ilike.%${locationFilter}%,state.ilike.%${locationFilter}%`);
-      }
-
-      const { data, error } = await query;
-
-      if (error) throw error;
-      setBusinesses(data || []);
-    } catch (error) {
-      console.error("Error fetching businesses:", error);
-      toast({
-        title: "Error",
-        description: "Failed to fetch businesses. Please try again.",
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
-    }
+  const [nearFilter, setNearFilter] = useState<NearbyFilter | null>(null);
+  const [facets, setFacets] = useState<FacetFilters>(EMPTY_FACET_FILTERS);
+  const { categories } = useBusinessCategories();
+  const searchParams: BusinessSearchParams = {
+    query: searchTerm,
+    location: locationFilter,
+    categoryNames: selectedCategory === "all" ? null : getCategoryFilterNames(categories, selectedCategory),
+    near: nearFilter,
+    facets,
   };
+  const { results: businesses, totalCount, loading, loadingMore, hasMore, loadMore } = useBusinessSearch(searchParams);
+  const facetCounts = useBusinessFacets(searchParams);
 
   const BusinessSkeleton = () => (
     <div className="space-y-4">
@@ -126,6 +52,10 @@ export default function BusinessDirectory() {
           onSearchChange={setSearchTerm}
           onCategoryChange={setSelectedCategory}
           onLocationChange={setLocationFilter}
+          onNearChange={setNearFilter}
+          facets={facets}
+          onFacetsChange={setFacets}
+          facetCounts={facetCounts}
           categories={categories}
         />
 
@@ -149,6 +79,17 @@ export default function BusinessDirectory() {
             ))}
           </div>
         )}
+
+        {!loading && hasMore && (
+          <div className="flex flex-col items-center gap-2 mt-8">
+            <p className="text-sm text-muted-foreground">
+              Showing {businesses.length} of {totalCount} businesses
+            </p>
+            <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+              {loadingMore ? "Loading..." : "Load more"}
+            </Button>
+          </div>
+        )}
       </main>
     </div>
   );
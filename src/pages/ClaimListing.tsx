@@ -0,0 +1,47 @@
+import { useEffect, useRef } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+export default function ClaimListing() {
+  const { token } = useParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  // Claim links are single use, so the claim runs once even when StrictMode runs the effect twice
+  const claimStartedRef = useRef(false);
+
+  useEffect(() => {
+    if (claimStartedRef.current) return;
+    claimStartedRef.current = true;
+
+    const claimListing = async () => {
+      try {
+        const { error } = await supabase.rpc('claim_business_listing', { token });
+
+        if (error) throw error;
+
+        toast({
+          title: "Listing Claimed",
+          description: "The business listing is now linked to your account.",
+        });
+      } catch (error) {
+        console.error('Error claiming listing:', error);
+        toast({
+          title: "Unable to Claim Listing",
+          description: error instanceof Error ? error.message : "This claim link is invalid or has already been used.",
+          variant: "destructive",
+        });
+      } finally {
+        navigate("/dashboard", { replace: true });
+      }
+    };
+
+    claimListing();
+  }, [token, navigate, toast]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center">
+      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+    </div>
+  );
+}
@@ -1,97 +1,40 @@
-import React, { useEffect, useState } from "react";
+import React, { useState } from "react";
 import { Navbar } from "@/components/Navbar";
 import Footer from "@/components/Footer";
 import { PopularBusinessCard } from "@/components/PopularBusinessCard";
 import { SearchFilters } from "@/components/SearchFilters";
+import ShopMap from "@/components/ShopMap";
+import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
-import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useBusinessCategories } from "@/hooks/useBusinessCategories";
+import { useBusinessFacets, useBusinessMapPoints, useBusinessSearch } from "@/hooks/useBusinessSearch";
+import { BusinessSearchParams, EMPTY_FACET_FILTERS, FacetFilters, MapBounds, NearbyFilter } from "@/lib/search";
+import { getCategoryFilterNames } from "@/lib/taxonomy";
+import { LayoutGrid, Map as MapIcon, X } from "lucide-react";
 
-interface Business {
-  id: string;
-  name: string;
-  description?: string;
-  category: string;
-  address?: string;
-  city?: string;
-  state?: string;
-  zip_code?: string;
-  phone?: string;
-  email?: string;
-  website?: string;
-  image_url?: string;
-  rating: number;
-  owner_id: string;
-  created_at: string;
-  updated_at: string;
-}
+type ResultsView = "list" | "map";
 
 export default function FindShops() {
-  const [businesses, setBusinesses] = useState<Business[]>([]);
-  const [categories, setCategories] = useState<string[]>([]);
-  const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedCategory, setSelectedCategory] = useState("all");
   const [locationFilter, setLocationFilter] = useState("");
-  const { toast } = useToast();
-
-  useEffect(() => {
-    fetchCategories();
-  }, []);
-
-  useEffect(() => {
-    fetchBusinesses();
-  }, [searchTerm, selectedCategory, locationFilter]);
-
-  const fetchCategories = async () => {
-    try {
-      const { data, error } = await supabase
-        .from("business_categories")
-        .select("name")
-        .order("name");
-
-      if (error) throw error;
-      setCategories(data?.map((cat: { name: string }) => cat.name) || []);
-    } catch (error) {
-      console.error("Error fetching categories:", error);
-    }
-  };
-
-  const fetchBusinesses = async () => {
-    setLoading(true);
-    try {
-      let query = supabase
-        .from("businesses")
-        .select("*")
-        .order("rating", { ascending: false });
-
-      if (searchTerm) {
-        query = query.or(`name.ilike.%${searchTerm}%,description.ilike.%${searchTerm}%`);
-      }
-
-      if (selectedCategory !== "all") {
-        query = query.eq("category", selectedCategory);
-      }
-
-      if (locationFilter) {
-        query = query.or(`city.ilike.%${locationFilter}%,state.ilike.%${locationFilter}%`);
-      }
-
-      const { data, error } = await query;
-
-      if (error) throw error;
-      setBusinesses(data || []);
-    } catch (error) {
-      console.error("Error fetching businesses:", error);
-      toast({
-        title: "Error",
-        description: "Failed to fetch businesses. Please try again.",
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
-    }
+  const [nearFilter, setNearFilter] = useState<NearbyFilter | null>(null);
+  const [facets, setFacets] = useState<FacetFilters>(EMPTY_FACET_FILTERS);
+  const [boundsFilter, setBoundsFilter] = useState<MapBounds | null>(null);
+  const [view, setView] = useState<ResultsView>("list");
+  const { categories } = useBusinessCategories();
+  const searchParams: BusinessSearchParams = {
+    query: searchTerm,
+    location: locationFilter,
+    categoryNames: selectedCategory === "all" ? null : getCategoryFilterNames(categories, selectedCategory),
+    near: nearFilter,
+    bounds: boundsFilter,
+    facets,
   };
+  const { results: businesses, totalCount, loading, loadingMore, hasMore, loadMore } = useBusinessSearch(searchParams);
+  const facetCounts = useBusinessFacets(searchParams);
+  const mapPoints = useBusinessMapPoints(searchParams, view === "map");
 
   const BusinessSkeleton = () => (
     <div className="w-[320px] mx-[5px] md:mx-[10px] mb-4">
@@ -127,30 +70,85 @@ export default function FindShops() {
           onSearchChange={setSearchTerm}
           onCategoryChange={setSelectedCategory}
           onLocationChange={setLocationFilter}
+          onNearChange={setNearFilter}
+          facets={facets}
+          onFacetsChange={setFacets}
+          facetCounts={facetCounts}
           categories={categories}
         />
 
-        <div className="flex flex-wrap justify-center mt-8">
-          {loading ? (
-            // Show skeletons while loading
-            Array.from({ length: 6 }).map((_, index) => (
-              <BusinessSkeleton key={index} />
-            ))
-          ) : businesses.length > 0 ? (
-            businesses.map((business) => (
-              <PopularBusinessCard key={business.id} business={business} />
-            ))
-          ) : (
-            <div className="text-center py-12">
-              <p className="text-xl text-muted-foreground">
-                No businesses found matching your criteria.
-              </p>
-              <p className="text-muted-foreground mt-2">
-                Try adjusting your search filters or browse all categories.
-              </p>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          {boundsFilter ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              Showing businesses in the selected map area
+              <Button type="button" variant="ghost" size="sm" onClick={() => setBoundsFilter(null)}>
+                <X className="h-4 w-4 mr-1" />
+                Clear area
+              </Button>
             </div>
-          )}
+          ) : <div />}
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            value={view}
+            onValueChange={(value) => value && setView(value as ResultsView)}
+            aria-label="Results view"
+          >
+            <ToggleGroupItem value="list" aria-label="List view">
+              <LayoutGrid className="h-4 w-4 mr-2" />
+              List
+            </ToggleGroupItem>
+            <ToggleGroupItem value="map" aria-label="Map view">
+              <MapIcon className="h-4 w-4 mr-2" />
+              Map
+            </ToggleGroupItem>
+          </ToggleGroup>
         </div>
+
+        {view === "map" ? (
+          <div className="mt-4">
+            <ShopMap
+              businesses={mapPoints?.points ?? []}
+              totalCount={mapPoints?.totalCount ?? 0}
+              unlocatedCount={mapPoints ? Math.max(0, totalCount - mapPoints.totalCount) : 0}
+              onSearchArea={setBoundsFilter}
+              fitToResults={!boundsFilter}
+            />
+          </div>
+        ) : (
+          <div className="flex flex-wrap justify-center mt-8">
+            {loading ? (
+              // Show skeletons while loading
+              Array.from({ length: 6 }).map((_, index) => (
+                <BusinessSkeleton key={index} />
+              ))
+            ) : businesses.length > 0 ? (
+              businesses.map((business) => (
+                <PopularBusinessCard key={business.id} business={business} />
+              ))
+            ) : (
+              <div className="text-center py-12">
+                <p className="text-xl text-muted-foreground">
+                  No businesses found matching your criteria.
+                </p>
+                <p className="text-muted-foreground mt-2">
+                  Try adjusting your search filters or browse all categories.
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {view === "list" && !loading && hasMore && (
+          <div className="flex flex-col items-center gap-2 mt-4">
+            <p className="text-sm text-muted-foreground">
+              Showing {businesses.length} of {totalCount} businesses
+            </p>
+            <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+              {loadingMore ? "Loading..." : "Load more"}
+            </Button>
+          </div>
+        )}
       </main>
 
       <Footer />
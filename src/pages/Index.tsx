@@ -1,15 +1,17 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Search, ShoppingBag, Compass } from "lucide-react";
 import { useTypingEffect } from "@/hooks/useTypingEffect";
-import { Link } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
 import { Navbar } from "@/components/Navbar";
 import BusinessDirectory from "./BusinessDirectory";
 import PopularBusinesses from "@/components/PopularBusinesses";
 import Footer from "@/components/Footer";
 import MobileNavBar from "@/components/MobileNavBar";
+import { SEARCH_MODES, SearchMode } from "@/lib/search";
 import { Swiper, SwiperSlide } from 'swiper/react';
+import type { Swiper as SwiperInstance } from 'swiper';
 import { Autoplay, Navigation } from 'swiper/modules';
 import 'swiper/css';
 import 'swiper/css/autoplay';
@@ -25,18 +27,29 @@ const heroBgMobile3 = "https://images.unsplash.com/photo-1519999482648-25049ddd3
 const Index = () => {
   console.log('Index component is rendering...'); // Debug log
   const [searchTerm, setSearchTerm] = useState("");
-  const [selectedCategory, setSelectedCategory] = useState("product");
+  const [selectedCategory, setSelectedCategory] = useState<SearchMode>("product");
+  const modeSwiperRef = useRef<SwiperInstance | null>(null);
+  const navigate = useNavigate();
   const [currentBgIndex, setCurrentBgIndex] = useState(0);
   const typingPlaceholder = useTypingEffect("Search by business name, etc", 20);
 
   const heroBackgrounds = [heroBg1, heroBg2, heroBg3];
   const heroBackgroundsMobile = [heroBgMobile1, heroBgMobile2, heroBgMobile3];
   
-  const categories = [
-    { value: "product", label: "Find Product" },
-    { value: "service", label: "Find Service" },
-    { value: "business", label: "Find Business" }
-  ];
+  const categories = SEARCH_MODES;
+
+  // The mode selector keeps rotating until the visitor picks a mode or starts typing
+  const selectMode = (mode: SearchMode) => {
+    setSelectedCategory(mode);
+    modeSwiperRef.current?.autoplay?.stop();
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const query = searchTerm.trim();
+    if (!query) return;
+    navigate(`/search?${new URLSearchParams({ q: query, mode: selectedCategory })}`);
+  };
 
   useEffect(() => {
     const interval = setInterval(() => {
@@ -83,7 +96,7 @@ const Index = () => {
         
         {/* Search Bar - positioned extending below hero */}
         <div className="absolute -bottom-8 left-4 right-4 z-20">
-          <div className="max-w-2xl mx-auto bg-white rounded-lg shadow-xl p-2 flex items-center space-x-2">
+          <form onSubmit={handleSearch} className="max-w-2xl mx-auto bg-white rounded-lg shadow-xl p-2 flex items-center space-x-2">
             <div className="bg-yellow-400 rounded-md overflow-hidden">
               <Swiper
                 direction="vertical"
@@ -96,11 +109,14 @@ const Index = () => {
                 loop={true}
                 className="h-10 w-full"
                 modules={[Autoplay]}
+                onSwiper={(swiper) => (modeSwiperRef.current = swiper)}
+                onSlideChange={(swiper) => setSelectedCategory(categories[swiper.realIndex].value)}
               >
                 {categories.map((category) => (
                   <SwiperSlide key={category.value} className="h-10 flex items-center">
                      <button
-                       onClick={() => setSelectedCategory(category.value)}
+                       type="button"
+                       onClick={() => selectMode(category.value)}
                        className={`w-full h-full text-black font-medium text-xs sm:text-sm flex items-center justify-center px-1 sm:px-4 ${
                          selectedCategory === category.value ? 'bg-yellow-500' : 'bg-yellow-400'
                        }`}
@@ -117,13 +133,14 @@ const Index = () => {
               placeholder={typingPlaceholder}
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
+              onFocus={() => selectMode(selectedCategory)}
               className="flex-1 border-0 text-gray-600 placeholder-gray-400 focus-visible:ring-0 text-sm sm:text-base placeholder:text-xs sm:placeholder:text-sm"
             />
             
-            <Button className="bg-transparent hover:bg-transparent text-muted-foreground px-3 py-2 rounded-md flex items-center justify-center">
+            <Button type="submit" aria-label="Search" className="bg-transparent hover:bg-transparent text-muted-foreground px-3 py-2 rounded-md flex items-center justify-center">
               <Search className="h-10 w-10" strokeWidth={3} />
             </Button>
-          </div>
+          </form>
         </div>
       </section>
 
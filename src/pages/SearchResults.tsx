@@ -0,0 +1,246 @@
+import { useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Navbar } from "@/components/Navbar";
+import Footer from "@/components/Footer";
+import HighlightedText from "@/components/HighlightedText";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useBusinessCategories } from "@/hooks/useBusinessCategories";
+import { useBusinessSearch, useProductSearch } from "@/hooks/useBusinessSearch";
+import { formatProductPrice } from "@/lib/products";
+import { BusinessSearchResult, ProductSearchResult, SEARCH_MODES, SearchMode, isSearchMode } from "@/lib/search";
+import { getServiceCategoryNames } from "@/lib/taxonomy";
+import { MapPin, Package, Search, Store } from "lucide-react";
+
+interface ResultGroupProps<T> {
+  results: T[];
+  totalCount: number;
+  loading: boolean;
+  loadingMore: boolean;
+  hasMore: boolean;
+  loadMore: () => void;
+  emptyMessage: string;
+  renderResult: (result: T) => React.ReactNode;
+}
+
+function ResultGroup<T>({ results, totalCount, loading, loadingMore, hasMore, loadMore, emptyMessage, renderResult }: ResultGroupProps<T>) {
+  if (loading) {
+    return (
+      <div className="space-y-3">
+        {Array.from({ length: 4 }).map((_, index) => (
+          <Skeleton key={index} className="h-24 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (results.length === 0) {
+    return <p className="py-12 text-center text-muted-foreground">{emptyMessage}</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {results.map(renderResult)}
+      {hasMore && (
+        <div className="flex flex-col items-center gap-2 pt-4">
+          <p className="text-sm text-muted-foreground">
+            Showing {results.length} of {totalCount}
+          </p>
+          <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+            {loadingMore ? "Loading..." : "Load more"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const BusinessResult = ({ business }: { business: BusinessSearchResult }) => (
+  <Link to={`/business/${business.id}`} className="block">
+    <Card className="transition-colors hover:bg-muted/50">
+      <CardContent className="flex items-start gap-4 p-4">
+        {business.image_url ? (
+          <img src={business.image_url} alt={business.name} className="h-16 w-16 rounded-md border object-cover" />
+        ) : (
+          <div className="flex h-16 w-16 items-center justify-center rounded-md bg-muted">
+            <Store className="h-6 w-6 text-muted-foreground" />
+          </div>
+        )}
+        <div className="min-w-0 flex-1 space-y-1">
+          <div className="flex flex-wrap items-center gap-2">
+            <h3 className="font-semibold">
+              {business.name_highlight ? <HighlightedText text={business.name_highlight} /> : business.name}
+            </h3>
+            {business.category && <Badge variant="secondary">{business.category}</Badge>}
+          </div>
+          {business.city && business.state && (
+            <p className="flex items-center gap-1 text-sm text-muted-foreground">
+              <MapPin className="h-3 w-3" />
+              {business.city}, {business.state}
+            </p>
+          )}
+          {business.snippet?.includes("<mark>") && (
+            <p className="text-sm text-muted-foreground line-clamp-2">
+              <HighlightedText text={business.snippet} />
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  </Link>
+);
+
+const ProductResult = ({ product }: { product: ProductSearchResult }) => {
+  const price = formatProductPrice(product);
+  const imageUrl = product.image_url || product.business_image_url;
+
+  return (
+    <Link to={`/business/${product.business_id}`} className="block">
+      <Card className="transition-colors hover:bg-muted/50">
+        <CardContent className="flex items-start gap-4 p-4">
+          {imageUrl ? (
+            <img src={imageUrl} alt={product.name} className="h-16 w-16 rounded-md border object-cover" />
+          ) : (
+            <div className="flex h-16 w-16 items-center justify-center rounded-md bg-muted">
+              <Package className="h-6 w-6 text-muted-foreground" />
+            </div>
+          )}
+          <div className="min-w-0 flex-1 space-y-1">
+            <div className="flex items-start justify-between gap-2">
+              <h3 className="font-semibold">
+                <HighlightedText text={product.name_highlight || product.name} />
+              </h3>
+              {price && <p className="whitespace-nowrap font-semibold text-primary">{price}</p>}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              at <span className="font-medium text-foreground">{product.business_name}</span>
+              {product.business_city && product.business_state && ` · ${product.business_city}, ${product.business_state}`}
+            </p>
+            {!product.is_available && <Badge variant="secondary">Currently unavailable</Badge>}
+          </div>
+        </CardContent>
+      </Card>
+    </Link>
+  );
+};
+
+interface SearchResultGroupsProps {
+  query: string;
+  mode: SearchMode;
+  onModeChange: (mode: SearchMode) => void;
+}
+
+// Runs all three searches so every tab shows its count; the mode from the URL picks the open tab
+const SearchResultGroups = ({ query, mode, onModeChange }: SearchResultGroupsProps) => {
+  const { categories, loading: loadingCategories } = useBusinessCategories();
+  const products = useProductSearch(query);
+  const services = useBusinessSearch({
+    query,
+    location: "",
+    categoryNames: getServiceCategoryNames(categories),
+  });
+  const businesses = useBusinessSearch({ query, location: "", categoryNames: null, nameOnly: true });
+
+  const groups = {
+    product: products,
+    service: { ...services, loading: services.loading || loadingCategories },
+    business: businesses,
+  };
+
+  return (
+    <Tabs value={mode} onValueChange={(value) => isSearchMode(value) && onModeChange(value)}>
+      <TabsList className="mb-6">
+        {SEARCH_MODES.map((item) => (
+          <TabsTrigger key={item.value} value={item.value}>
+            {item.resultsLabel}
+            {!groups[item.value].loading && ` (${groups[item.value].totalCount})`}
+          </TabsTrigger>
+        ))}
+      </TabsList>
+
+      <TabsContent value="product">
+        <ResultGroup
+          {...groups.product}
+          emptyMessage={`No products match "${query}".`}
+          renderResult={(product) => <ProductResult key={product.id} product={product} />}
+        />
+      </TabsContent>
+
+      <TabsContent value="service">
+        <ResultGroup
+          {...groups.service}
+          emptyMessage={`No services match "${query}".`}
+          renderResult={(business) => <BusinessResult key={business.id} business={business} />}
+        />
+      </TabsContent>
+
+      <TabsContent value="business">
+        <ResultGroup
+          {...groups.business}
+          emptyMessage={`No businesses are named like "${query}".`}
+          renderResult={(business) => <BusinessResult key={business.id} business={business} />}
+        />
+      </TabsContent>
+    </Tabs>
+  );
+};
+
+export default function SearchResults() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get("q")?.trim() || "";
+  const modeParam = searchParams.get("mode");
+  const mode: SearchMode = isSearchMode(modeParam) ? modeParam : "business";
+  const [searchInput, setSearchInput] = useState(query);
+
+  // Keep the box in step with back/forward navigation
+  useEffect(() => {
+    setSearchInput(query);
+  }, [query]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearchParams({ q: searchInput.trim(), mode });
+  };
+
+  return (
+    <div className="min-h-screen bg-background pt-16">
+      <Navbar />
+
+      <main className="container mx-auto max-w-4xl px-4 py-8">
+        <form onSubmit={handleSubmit} className="mb-8 flex gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search products, services and businesses..."
+              className="pl-10"
+            />
+          </div>
+          <Button type="submit">Search</Button>
+        </form>
+
+        {query ? (
+          <>
+            <h1 className="mb-4 text-2xl font-bold">Results for "{query}"</h1>
+            <SearchResultGroups
+              query={query}
+              mode={mode}
+              onModeChange={(value) => setSearchParams({ q: query, mode: value }, { replace: true })}
+            />
+          </>
+        ) : (
+          <p className="py-12 text-center text-muted-foreground">
+            Type what you're looking for to search products, services and businesses.
+          </p>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -1,12 +1,17 @@
 import React from "react";
-import { useNavigate, Link } from "react-router-dom";
+import { useNavigate, useSearchParams, Link } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
 import { Navbar } from "@/components/Navbar";
 import { PopularBusinessCard } from "@/components/PopularBusinessCard";
 import { supabase } from "@/integrations/supabase/client";
 import BusinessForm from "@/components/BusinessForm";
+import ProductCatalogManager from "@/components/ProductCatalogManager";
 import UpgradeModal from "@/components/UpgradeModal";
-import { addDays, format } from "date-fns";
+import PaymentHistory from "@/components/PaymentHistory";
+import RejectedPaymentBanner from "@/components/RejectedPaymentBanner";
+import { ListingDraft, LISTING_FORM_STEPS, deleteListingDraft, getListingDrafts } from "@/lib/listingForm";
+import { addDays, format, formatDistanceToNow } from "date-fns";
 import { 
   User, 
   Mail, 
@@ -18,7 +23,11 @@ import {
   LogOut,
   Home,
   Edit,
-  ArrowUp
+  ArrowUp,
+  Receipt,
+  FileText,
+  Package,
+  Trash2
 } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import {
@@ -58,6 +67,8 @@ const sidebarItems = [
 export default function UserDashboard() {
   const { user, profile, signOut } = useAuth();
   const navigate = useNavigate();
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [activeSection, setActiveSection] = React.useState("dashboard");
   const [userBusinesses, setUserBusinesses] = React.useState([]);
   const [loadingBusinesses, setLoadingBusinesses] = React.useState(false);
@@ -69,6 +80,9 @@ export default function UserDashboard() {
   const [bookmarkCount, setBookmarkCount] = React.useState(0);
   const [upgradeModalOpen, setUpgradeModalOpen] = React.useState(false);
   const [selectedBusiness, setSelectedBusiness] = React.useState(null);
+  const [paymentsRefreshKey, setPaymentsRefreshKey] = React.useState(0);
+  const [listingDrafts, setListingDrafts] = React.useState<ListingDraft[]>([]);
+  const [catalogBusiness, setCatalogBusiness] = React.useState<{ id: string; name: string; owner_id: string } | null>(null);
 
   const fetchUserBusinesses = async () => {
     if (!user?.id) return;
@@ -79,6 +93,7 @@ export default function UserDashboard() {
         .from('businesses')
         .select('*')
         .eq('owner_id', user.id)
+        .is('deleted_at', null)
         .order('created_at', { ascending: false });
       
       if (error) {
@@ -95,6 +110,32 @@ export default function UserDashboard() {
     }
   };
 
+  const fetchListingDrafts = async () => {
+    if (!user?.id) return;
+
+    try {
+      setListingDrafts(await getListingDrafts(user.id));
+    } catch (error) {
+      console.error('Error fetching listing drafts:', error);
+    }
+  };
+
+  const handleDiscardDraft = async (draft: ListingDraft) => {
+    if (!confirm(`Discard the draft "${draft.data.name || 'Untitled listing'}"? This cannot be undone.`)) return;
+
+    try {
+      await deleteListingDraft(draft.id);
+      setListingDrafts(prev => prev.filter(item => item.id !== draft.id));
+    } catch (error) {
+      console.error('Error deleting listing draft:', error);
+      toast({
+        title: "Error",
+        description: "Failed to discard the draft",
+        variant: "destructive",
+      });
+    }
+  };
+
   const fetchDashboardCounts = async () => {
     if (!user?.id) return;
     
@@ -103,7 +144,8 @@ export default function UserDashboard() {
       const { data: businessData, error: businessError } = await supabase
         .from('businesses')
         .select('id')
-        .eq('owner_id', user.id);
+        .eq('owner_id', user.id)
+        .is('deleted_at', null);
       
       if (!businessError) {
         setBusinessCount(businessData?.length || 0);
@@ -130,6 +172,34 @@ export default function UserDashboard() {
     }
   }, [user?.id]);
 
+  // Drafts are autosaved from the Add Listing section too, so reload them whenever My Listings opens
+  React.useEffect(() => {
+    if (activeSection === "listings") {
+      fetchListingDrafts();
+    }
+  }, [activeSection, user?.id]);
+
+  // Stripe Checkout sends owners back here with the outcome of the payment
+  React.useEffect(() => {
+    const checkoutStatus = searchParams.get('checkout');
+    if (!checkoutStatus) return;
+
+    if (checkoutStatus === 'success') {
+      toast({
+        title: "Payment received",
+        description: "Thanks! Your listing will be activated as soon as Stripe confirms the payment.",
+      });
+    } else if (checkoutStatus === 'cancelled') {
+      toast({
+        title: "Payment cancelled",
+        description: "Your listing was saved but has not been paid for yet.",
+        variant: "destructive",
+      });
+    }
+
+    setSearchParams({}, { replace: true });
+  }, [searchParams, setSearchParams, toast]);
+
   const fetchBookmarkedBusinesses = async () => {
     console.log('fetchBookmarkedBusinesses called, user ID:', user?.id);
     if (!user?.id) {
@@ -158,13 +228,14 @@ export default function UserDashboard() {
             business_options,
             starting_price,
             license_expired_date,
-            products_catalog,
             facebook_page,
             tiktok_url,
             phone
           )
         `)
-        .eq('user_id', user.id);
+        .eq('user_id', user.id)
+        // Trashed listings come back as null and are dropped below
+        .is('businesses.deleted_at', null);
       
       console.log('Bookmarks query result:', { data, error });
       
@@ -195,7 +266,6 @@ export default function UserDashboard() {
           business_options: business.business_options,
           starting_price: business.starting_price,
           license_expired_date: business.license_expired_date,
-          products_catalog: business.products_catalog,
           facebook_page: business.facebook_page,
           tiktok_url: business.tiktok_url,
           phone: business.phone,
@@ -358,6 +428,36 @@ export default function UserDashboard() {
         return (
           <div className="space-y-6 animate-fade-in">
             <h2 className="text-3xl font-bold bg-gradient-to-r from-dashboard-gradient-start to-dashboard-gradient-end bg-clip-text text-transparent">My Business Listings</h2>
+            {listingDrafts.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-lg">
+                    <FileText className="h-5 w-5" />
+                    Unfinished Listings
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {listingDrafts.map((draft) => (
+                    <div key={draft.id} className="flex flex-col gap-3 rounded-lg border p-3 sm:flex-row sm:items-center sm:justify-between">
+                      <div>
+                        <p className="font-medium">{draft.data.name || 'Untitled listing'}</p>
+                        <p className="text-sm text-muted-foreground">
+                          Step {Math.min(draft.current_step, LISTING_FORM_STEPS.length - 1) + 1} of {LISTING_FORM_STEPS.length} &middot; saved {formatDistanceToNow(new Date(draft.updated_at), { addSuffix: true })}
+                        </p>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button size="sm" onClick={() => navigate(`/list-business?draft=${draft.id}`)}>
+                          Continue
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => handleDiscardDraft(draft)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
             {loadingBusinesses ? (
               <div className="text-center py-8">
                 <p className="text-muted-foreground">Loading your businesses...</p>
@@ -366,7 +466,16 @@ export default function UserDashboard() {
               <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
                 {userBusinesses.map((business) => (
             <div key={business.id} className="relative">
-              <div className="absolute top-2 right-12 z-40">
+              <div className="absolute top-2 right-12 z-40 flex gap-1">
+                <Button
+                  onClick={() => setCatalogBusiness(business)}
+                  size="sm"
+                  variant="secondary"
+                  className="px-2 py-1 h-auto text-xs rounded"
+                >
+                  <Package className="h-3 w-3 mr-1" />
+                  Products
+                </Button>
                 <Button
                   onClick={() => handleEditBusiness(business)}
                   size="sm"
@@ -494,7 +603,7 @@ export default function UserDashboard() {
                           const currentDate = new Date();
                           const listingExpired = business.listing_expired_date && new Date(business.listing_expired_date) < currentDate;
                           const odooExpired = business.odoo_expired_date && new Date(business.odoo_expired_date) < currentDate;
-                          const canUpgrade = listingExpired || odooExpired;
+                          const canUpgrade = listingExpired || odooExpired || business.payment_status === 'rejected';
                           
                           return (
                             <TableRow key={business.id}>
@@ -554,6 +663,25 @@ export default function UserDashboard() {
                 </Card>
               )}
             </div>
+
+            {/* Payment History Section */}
+            {userBusinesses.length > 0 && (
+              <div className="animate-slide-up">
+                <h3 className="text-xl font-semibold mb-6 flex items-center gap-2">
+                  <Receipt className="h-5 w-5 text-primary" />
+                  Payment History
+                </h3>
+                <PaymentHistory businesses={userBusinesses} refreshKey={paymentsRefreshKey} />
+              </div>
+            )}
+
+            <RejectedPaymentBanner
+              businesses={userBusinesses}
+              onResubmit={(business) => {
+                setSelectedBusiness(business);
+                setUpgradeModalOpen(true);
+              }}
+            />
             
             <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
               <Card className="relative overflow-hidden bg-dashboard-card-bg border-0 shadow-lg hover:shadow-xl transition-all duration-300 animate-scale-in">
@@ -774,8 +902,24 @@ export default function UserDashboard() {
         onClose={() => setUpgradeModalOpen(false)}
         businessId={selectedBusiness?.id || ''}
         businessName={selectedBusiness?.name || ''}
+        onSubmitted={() => {
+          setPaymentsRefreshKey(prev => prev + 1);
+          fetchUserBusinesses();
+        }}
       />
       
+      {/* Product Catalog Modal */}
+      <Dialog open={!!catalogBusiness} onOpenChange={(open) => !open && setCatalogBusiness(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{catalogBusiness?.name} - Products</DialogTitle>
+          </DialogHeader>
+          {catalogBusiness && (
+            <ProductCatalogManager businessId={catalogBusiness.id} ownerId={catalogBusiness.owner_id} />
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Edit Business Modal */}
       <Dialog open={editModalOpen} onOpenChange={setEditModalOpen}>
         <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
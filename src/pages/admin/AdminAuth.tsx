@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useNavigate, useLocation } from "react-router-dom";
+import { useNavigate, useLocation, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -9,7 +9,26 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Eye, EyeOff, Shield, Mail, Lock } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { useAdminAuth } from "@/hooks/useAdminAuth";
+import { ADMIN_ROLE_LABELS } from "@/lib/admin";
+import { TwoFactorStatus, getTwoFactorStatus } from "@/lib/twoFactor";
+import TwoFactorChallenge from "@/components/admin/TwoFactorChallenge";
+import TwoFactorEnrollment from "@/components/admin/TwoFactorEnrollment";
+
+interface AdminInvitation {
+  email: string;
+  admin_role: string;
+  expires_at: string;
+}
+
+// After the password step an admin may still owe a TOTP code, or have to enroll when 2FA is enforced
+type TwoFactorStep = 'challenge' | 'enroll' | null;
+
+const getTwoFactorStep = (status: TwoFactorStatus | null): TwoFactorStep => {
+  if (!status || status.verified) return null;
+  if (status.enabled) return 'challenge';
+  if (status.enforced) return 'enroll';
+  return null;
+};
 
 export default function AdminAuth() {
   const [isLoading, setIsLoading] = useState(false);
@@ -19,11 +38,15 @@ export default function AdminAuth() {
   const [confirmPassword, setConfirmPassword] = useState("");
   const [resetEmail, setResetEmail] = useState("");
   const [activeTab, setActiveTab] = useState("login");
+  const [invitation, setInvitation] = useState<AdminInvitation | null>(null);
+  const [checkingInvitation, setCheckingInvitation] = useState(false);
+  const [twoFactorStep, setTwoFactorStep] = useState<TwoFactorStep>(null);
   
   const navigate = useNavigate();
   const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get('invite');
   const { toast } = useToast();
-  const { provisionAdminUser } = useAdminAuth();
 
   useEffect(() => {
     // Check if user is already authenticated and redirect
@@ -34,11 +57,39 @@ export default function AdminAuth() {
     });
 
     // Set tab based on URL
-    if (location.pathname.includes('signup')) {
+    if (location.pathname.includes('signup') || inviteToken) {
       setActiveTab('signup');
     }
   }, []);
 
+  useEffect(() => {
+    const loadInvitation = async () => {
+      if (!inviteToken) return;
+
+      setCheckingInvitation(true);
+      try {
+        const { data, error } = await supabase.rpc('get_admin_invitation', {
+          invite_token: inviteToken
+        });
+
+        if (error) throw error;
+
+        const pendingInvitation = data?.[0] ?? null;
+        setInvitation(pendingInvitation);
+        if (pendingInvitation) {
+          setEmail(pendingInvitation.email);
+        }
+      } catch (error) {
+        console.error('Error loading admin invitation:', error);
+        setInvitation(null);
+      } finally {
+        setCheckingInvitation(false);
+      }
+    };
+
+    loadInvitation();
+  }, [inviteToken]);
+
   const checkAdminAccess = async (userId: string) => {
     try {
       const { data: adminUser } = await supabase
@@ -48,7 +99,12 @@ export default function AdminAuth() {
         .single();
 
       if (adminUser) {
-        navigate('/admin/dashboard');
+        const step = getTwoFactorStep(await getTwoFactorStatus());
+        if (step) {
+          setTwoFactorStep(step);
+        } else {
+          navigate('/admin/dashboard');
+        }
       }
     } catch (error) {
       console.error('Error checking admin access:', error);
@@ -121,6 +177,13 @@ export default function AdminAuth() {
 
 
       await logLoginAttempt(email, true);
+
+      const step = getTwoFactorStep(await getTwoFactorStatus());
+      if (step) {
+        setTwoFactorStep(step);
+        return;
+      }
+
       toast({
         title: "Login successful",
         description: "Welcome to the admin panel!",
@@ -138,11 +201,29 @@ export default function AdminAuth() {
     }
   };
 
+  const handleTwoFactorComplete = () => {
+    toast({
+      title: "Login successful",
+      description: "Welcome to the admin panel!",
+    });
+    navigate("/admin/dashboard");
+  };
+
+  const cancelTwoFactor = async () => {
+    await supabase.auth.signOut();
+    setTwoFactorStep(null);
+    setPassword("");
+  };
+
   const handleSignup = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
 
     try {
+      if (!invitation || !inviteToken) {
+        throw new Error("A valid invitation is required to create an admin account");
+      }
+
       if (password !== confirmPassword) {
         throw new Error("Passwords do not match");
       }
@@ -155,33 +236,28 @@ export default function AdminAuth() {
         email,
         password,
         options: {
-          emailRedirectTo: `${window.location.origin}/@admin/callback`,
+          emailRedirectTo: `${window.location.origin}/@admin/login`,
         }
       });
 
       if (error) throw error;
 
-      if (data.user && !data.user.email_confirmed_at) {
-        // Send admin confirmation email via edge function
-        await supabase.functions.invoke('send-admin-confirmation', {
+      if (data.user) {
+        // Admin access is only granted once the link in this email is opened
+        const { error: confirmationError } = await supabase.functions.invoke('send-admin-confirmation', {
           body: {
             email,
-            confirmationUrl: `${window.location.origin}/@admin/login`
+            confirmationUrl: `${window.location.origin}/@admin/callback`,
+            inviteToken
           }
         });
 
+        if (confirmationError) throw confirmationError;
+
         toast({
           title: "Check your email",
           description: "We've sent you a confirmation link to complete your admin registration.",
         });
-      } else if (data.user?.email_confirmed_at) {
-        // User is confirmed, provision admin access
-        await provisionAdminUser(data.user.id);
-        toast({
-          title: "Admin account created",
-          description: "Your admin account has been created successfully!",
-        });
-        navigate('/admin/dashboard');
       }
 
       setActiveTab('login');
@@ -222,6 +298,37 @@ export default function AdminAuth() {
     }
   };
 
+  if (twoFactorStep) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="space-y-1">
+            <div className="flex items-center justify-center mb-4">
+              <Shield className="h-8 w-8 text-primary mr-2" />
+              <span className="text-2xl font-bold">Admin Portal</span>
+            </div>
+            <CardTitle className="text-center">
+              {twoFactorStep === 'challenge' ? 'Two-Factor Verification' : 'Set Up Two-Factor'}
+            </CardTitle>
+            <CardDescription className="text-center">
+              {twoFactorStep === 'challenge'
+                ? 'Enter the code from your authenticator app to continue'
+                : 'Two-factor authentication is required for all admin accounts'
+              }
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {twoFactorStep === 'challenge' ? (
+              <TwoFactorChallenge onVerified={handleTwoFactorComplete} onCancel={cancelTwoFactor} />
+            ) : (
+              <TwoFactorEnrollment onComplete={handleTwoFactorComplete} onCancel={cancelTwoFactor} />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-background p-4">
       <Card className="w-full max-w-md">
@@ -297,69 +404,83 @@ export default function AdminAuth() {
             </TabsContent>
 
             <TabsContent value="signup" className="space-y-4">
-              <Alert>
-                <AlertDescription>
-                  New admin accounts require email confirmation before activation.
-                </AlertDescription>
-              </Alert>
-              
-              <form onSubmit={handleSignup} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="signup-email">Email</Label>
-                  <div className="relative">
-                    <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                    <Input
-                      id="signup-email"
-                      type="email"
-                      placeholder="Enter your email"
-                      value={email}
-                      onChange={(e) => setEmail(e.target.value)}
-                      className="pl-10"
-                      required
-                    />
-                  </div>
-                </div>
+              {checkingInvitation ? (
+                <p className="text-center text-sm text-muted-foreground">Checking invitation...</p>
+              ) : !invitation ? (
+                <Alert>
+                  <AlertDescription>
+                    {inviteToken
+                      ? "This invitation is invalid, has expired or has already been used. Ask a super administrator to send a new one."
+                      : "Admin accounts are created by invitation only. Ask a super administrator to send you an invite."}
+                  </AlertDescription>
+                </Alert>
+              ) : (
+                <>
+                  <Alert>
+                    <AlertDescription>
+                      You've been invited as {ADMIN_ROLE_LABELS[invitation.admin_role] ?? invitation.admin_role}. New admin accounts require email confirmation before activation.
+                    </AlertDescription>
+                  </Alert>
                 
-                <div className="space-y-2">
-                  <Label htmlFor="signup-password">Password</Label>
-                  <div className="relative">
-                    <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                    <Input
-                      id="signup-password"
-                      type={showPassword ? "text" : "password"}
-                      placeholder="Enter a strong password (min 8 chars)"
-                      value={password}
-                      onChange={(e) => setPassword(e.target.value)}
-                      className="pl-10 pr-10"
-                      required
-                      minLength={8}
-                    />
-                    <button
-                      type="button"
-                      onClick={() => setShowPassword(!showPassword)}
-                      className="absolute right-3 top-3 text-muted-foreground hover:text-foreground"
-                    >
-                      {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                    </button>
-                  </div>
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="confirm-password">Confirm Password</Label>
-                  <Input
-                    id="confirm-password"
-                    type="password"
-                    placeholder="Confirm your password"
-                    value={confirmPassword}
-                    onChange={(e) => setConfirmPassword(e.target.value)}
-                    required
-                  />
-                </div>
-
-                <Button type="submit" className="w-full" disabled={isLoading}>
-                  {isLoading ? "Creating Account..." : "Create Admin Account"}
-                </Button>
-              </form>
+                  <form onSubmit={handleSignup} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="signup-email">Email</Label>
+                      <div className="relative">
+                        <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                        <Input
+                          id="signup-email"
+                          type="email"
+                          placeholder="Enter your email"
+                          value={email}
+                          className="pl-10"
+                          readOnly
+                          required
+                        />
+                      </div>
+                    </div>
+                  
+                    <div className="space-y-2">
+                      <Label htmlFor="signup-password">Password</Label>
+                      <div className="relative">
+                        <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                        <Input
+                          id="signup-password"
+                          type={showPassword ? "text" : "password"}
+                          placeholder="Enter a strong password (min 8 chars)"
+                          value={password}
+                          onChange={(e) => setPassword(e.target.value)}
+                          className="pl-10 pr-10"
+                          required
+                          minLength={8}
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setShowPassword(!showPassword)}
+                          className="absolute right-3 top-3 text-muted-foreground hover:text-foreground"
+                        >
+                          {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                        </button>
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="confirm-password">Confirm Password</Label>
+                      <Input
+                        id="confirm-password"
+                        type="password"
+                        placeholder="Confirm your password"
+                        value={confirmPassword}
+                        onChange={(e) => setConfirmPassword(e.target.value)}
+                        required
+                      />
+                    </div>
+
+                    <Button type="submit" className="w-full" disabled={isLoading}>
+                      {isLoading ? "Creating Account..." : "Create Admin Account"}
+                    </Button>
+                  </form>
+                </>
+              )}
             </TabsContent>
 
             <TabsContent value="reset" className="space-y-4">
@@ -1,8 +1,7 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { useAdminAuth } from "@/hooks/useAdminAuth";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Shield, CheckCircle, XCircle, Loader2 } from "lucide-react";
 
@@ -10,13 +9,40 @@ export default function AdminAuthCallback() {
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { provisionAdminUser } = useAdminAuth();
   const [status, setStatus] = useState<'loading' | 'success' | 'error'>('loading');
   const [message, setMessage] = useState('');
+  // The confirmation token is single use, so the callback runs once even when StrictMode runs the effect twice
+  const callbackStartedRef = useRef(false);
 
   useEffect(() => {
+    if (callbackStartedRef.current) return;
+    callbackStartedRef.current = true;
+
     const handleAuthCallback = async () => {
       try {
+        const token = searchParams.get('token');
+
+        // Links from the admin confirmation email carry a single-use token that grants admin access
+        if (token) {
+          const { error: confirmError } = await supabase.rpc('confirm_admin_signup', { token });
+
+          if (confirmError) throw confirmError;
+
+          setStatus('success');
+          setMessage('Admin account confirmed successfully! You can now sign in.');
+
+          toast({
+            title: "Account confirmed",
+            description: "Your admin account has been confirmed. Redirecting to sign in...",
+          });
+
+          // The login page forwards to the dashboard when a session already exists
+          setTimeout(() => {
+            navigate('/@admin/login');
+          }, 2000);
+          return;
+        }
+
         const { data, error } = await supabase.auth.getSession();
         
         if (error) {
@@ -24,7 +50,7 @@ export default function AdminAuthCallback() {
         }
 
         if (data.session?.user) {
-          // Check if user is already an admin
+          // Only existing admins may continue from other auth redirects
           const { data: adminUser } = await supabase
             .from('admin_users')
             .select('*')
@@ -32,8 +58,7 @@ export default function AdminAuthCallback() {
             .single();
 
           if (!adminUser) {
-            // Provision admin user
-            await provisionAdminUser(data.session.user.id);
+            throw new Error('Access denied. Admin privileges required.');
           }
 
           setStatus('success');
@@ -70,7 +95,7 @@ export default function AdminAuthCallback() {
     };
 
     handleAuthCallback();
-  }, [navigate, toast, provisionAdminUser]);
+  }, [navigate, toast, searchParams]);
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-background p-4">
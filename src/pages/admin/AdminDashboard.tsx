@@ -9,7 +9,13 @@ import { Badge } from "@/components/ui/badge";
 import AdminMetrics from "@/components/admin/AdminMetrics";
 import RecentActivity from "@/components/admin/RecentActivity";
 import ListingManagement from "@/components/admin/ListingManagement";
+import CategoryManagement from "@/components/admin/CategoryManagement";
 import ToBeConfirmedListings from "@/components/admin/ToBeConfirmedListings";
+import UserManagement from "@/components/admin/UserManagement";
+import AdminInvitations from "@/components/admin/AdminInvitations";
+import AdminAuditLog from "@/components/admin/AdminAuditLog";
+import TwoFactorSettings from "@/components/admin/TwoFactorSettings";
+import { ADMIN_PERMISSION_LABELS, ADMIN_ROLE_LABELS, AdminPermission } from "@/lib/admin";
 import { 
   Shield, 
   Users, 
@@ -19,13 +25,26 @@ import {
   BarChart3,
   FileText,
   Store,
-  Home
+  Tags,
+  Home,
+  Wallet,
+  LifeBuoy
 } from "lucide-react";
 
 export default function AdminDashboard() {
-  const { adminProfile, loading, signOut, isAuthenticated } = useAdminAuth();
+  const {
+    adminProfile,
+    loading,
+    signOut,
+    isAuthenticated,
+    isSuperAdmin,
+    twoFactorStatus,
+    refreshAdminProfile,
+    permissions,
+    hasPermission
+  } = useAdminAuth();
   const navigate = useNavigate();
-  const [activeTab, setActiveTab] = useState<'overview' | 'listings' | 'users' | 'settings'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'listings' | 'categories' | 'users' | 'settings'>('overview');
 
   useEffect(() => {
     if (!loading && !isAuthenticated) {
@@ -53,30 +72,26 @@ export default function AdminDashboard() {
         return <Shield className="h-5 w-5 text-blue-500" />;
       case 'moderator':
         return <Users className="h-5 w-5 text-green-500" />;
+      case 'finance':
+        return <Wallet className="h-5 w-5 text-emerald-500" />;
+      case 'support':
+        return <LifeBuoy className="h-5 w-5 text-purple-500" />;
       default:
         return <Settings className="h-5 w-5" />;
     }
   };
 
-  const getRoleDisplayName = () => {
-    switch (adminProfile?.admin_role) {
-      case 'super_admin':
-        return 'Super Administrator';
-      case 'admin':
-        return 'Administrator';
-      case 'moderator':
-        return 'Moderator';
-      default:
-        return 'Unknown Role';
-    }
-  };
+  const getRoleDisplayName = () =>
+    ADMIN_ROLE_LABELS[adminProfile?.admin_role ?? ''] ?? 'Unknown Role';
 
-  const navItems = [
+  const allNavItems: { key: string; label: string; icon: typeof Home; permission?: AdminPermission }[] = [
     { key: 'overview', label: 'Overview', icon: Home },
-    { key: 'listings', label: 'Listings', icon: Store },
-    { key: 'users', label: 'Users', icon: Users },
+    { key: 'listings', label: 'Listings', icon: Store, permission: 'manage_listings' },
+    { key: 'categories', label: 'Categories', icon: Tags, permission: 'manage_listings' },
+    { key: 'users', label: 'Users', icon: Users, permission: 'manage_users' },
     { key: 'settings', label: 'Settings', icon: Settings },
   ];
+  const navItems = allNavItems.filter((item) => !item.permission || hasPermission(item.permission));
 
   return (
     <div className="min-h-screen bg-background">
@@ -135,46 +150,60 @@ export default function AdminDashboard() {
         {activeTab === 'overview' && (
           <div className="space-y-8">
             {/* Metrics Section */}
-            <div>
-              <h2 className="text-2xl font-bold mb-6">Dashboard Overview</h2>
-              <AdminMetrics />
-            </div>
+            {hasPermission('view_dashboard') && (
+              <>
+                <div>
+                  <h2 className="text-2xl font-bold mb-6">Dashboard Overview</h2>
+                  <AdminMetrics />
+                </div>
 
-            <Separator />
+                <Separator />
+              </>
+            )}
 
             {/* To Be Confirmed Listings */}
-            <div>
-              <h2 className="text-2xl font-bold mb-6">To Be Confirmed Listings</h2>
-              <ToBeConfirmedListings />
-            </div>
+            {hasPermission('view_payments') && (
+              <>
+                <div>
+                  <h2 className="text-2xl font-bold mb-6">To Be Confirmed Listings</h2>
+                  <ToBeConfirmedListings
+                    canConfirmPayments={hasPermission('confirm_payments')}
+                    canManageListings={hasPermission('manage_listings')}
+                  />
+                </div>
 
-            <Separator />
+                <Separator />
+              </>
+            )}
 
             {/* Recent Activity */}
-            <div>
-              <h2 className="text-2xl font-bold mb-6">Recent Activity</h2>
-              <RecentActivity />
-            </div>
+            {hasPermission('view_dashboard') && (
+              <div>
+                <h2 className="text-2xl font-bold mb-6">Recent Activity</h2>
+                <RecentActivity />
+              </div>
+            )}
           </div>
         )}
 
-        {activeTab === 'listings' && (
+        {activeTab === 'listings' && hasPermission('manage_listings') && (
           <div>
             <h2 className="text-2xl font-bold mb-6">Listing Management</h2>
             <ListingManagement />
           </div>
         )}
 
-        {activeTab === 'users' && (
+        {activeTab === 'categories' && hasPermission('manage_listings') && (
+          <div>
+            <h2 className="text-2xl font-bold mb-6">Categories & Options</h2>
+            <CategoryManagement />
+          </div>
+        )}
+
+        {activeTab === 'users' && hasPermission('manage_users') && (
           <div>
             <h2 className="text-2xl font-bold mb-6">User Management</h2>
-            <Card>
-              <CardContent className="p-8 text-center">
-                <Users className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
-                <h3 className="text-lg font-semibold mb-2">User Management</h3>
-                <p className="text-muted-foreground">User management features coming soon...</p>
-              </CardContent>
-            </Card>
+            <UserManagement />
           </div>
         )}
 
@@ -199,9 +228,32 @@ export default function AdminDashboard() {
                     <p className="text-sm text-muted-foreground">User ID</p>
                     <p className="font-mono text-xs">{adminProfile?.user_id}</p>
                   </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground mb-2">Permissions</p>
+                    {permissions.length > 0 ? (
+                      <div className="flex flex-wrap gap-2">
+                        {permissions.map((permission) => (
+                          <Badge key={permission} variant="secondary">
+                            {ADMIN_PERMISSION_LABELS[permission] ?? permission}
+                          </Badge>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm">None</p>
+                    )}
+                  </div>
                 </CardContent>
               </Card>
 
+              <TwoFactorSettings
+                status={twoFactorStatus}
+                isSuperAdmin={isSuperAdmin}
+                onStatusChange={refreshAdminProfile}
+              />
+
+              {hasPermission('manage_admins') && <AdminInvitations />}
+
+              {hasPermission('view_audit_log') && <AdminAuditLog />}
             </div>
           </div>
         )}
@@ -0,0 +1,187 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Tables } from "@/integrations/supabase/types";
+import BusinessForm from "@/components/BusinessForm";
+import { BusinessAdminFields } from "@/lib/listingForm";
+import { ArrowLeft, Shield } from "lucide-react";
+
+const PAYMENT_STATUS_OPTIONS = [
+  { value: "to_be_confirmed", label: "To Be Confirmed" },
+  { value: "confirmed", label: "Confirmed" },
+  { value: "rejected", label: "Rejected" },
+  { value: "expired", label: "Expired" },
+  { value: "cancelled", label: "Cancelled" },
+];
+
+const formatDateForInput = (dateString: string | null) => {
+  if (!dateString) return '';
+  try {
+    return new Date(dateString).toISOString().split('T')[0];
+  } catch {
+    return '';
+  }
+};
+
+export default function AdminEditListing() {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [business, setBusiness] = useState<Tables<'businesses'> | null>(null);
+  const [adminFields, setAdminFields] = useState<BusinessAdminFields | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchBusiness = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('businesses')
+          .select('*')
+          .eq('id', id)
+          .maybeSingle();
+
+        if (error) throw error;
+
+        setBusiness(data);
+        if (data) {
+          setAdminFields({
+            payment_status: data.payment_status,
+            listing_expired_date: formatDateForInput(data.listing_expired_date) || null,
+            odoo_expired_date: formatDateForInput(data.odoo_expired_date) || null,
+            "POS+Website": data["POS+Website"] ?? 0
+          });
+        }
+      } catch (error) {
+        console.error('Error fetching business:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load listing",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchBusiness();
+  }, [id, toast]);
+
+  const updateAdminField = <K extends keyof BusinessAdminFields>(field: K, value: BusinessAdminFields[K]) => {
+    setAdminFields(prev => prev && { ...prev, [field]: value });
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 max-w-4xl space-y-6">
+        <Button variant="outline" onClick={() => navigate('/admin/dashboard')} className="flex items-center space-x-2">
+          <ArrowLeft className="h-4 w-4" />
+          <span>Back to Dashboard</span>
+        </Button>
+
+        {!business || !adminFields ? (
+          <Card>
+            <CardContent className="p-8 text-center text-muted-foreground">
+              Listing not found
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div>
+              <h1 className="text-2xl font-bold">Edit Listing</h1>
+              <p className="text-muted-foreground">
+                {business.name} &middot; owned by {business.user_email || business.owner_id}
+              </p>
+            </div>
+
+            {/* Admin-only fields */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Shield className="h-5 w-5" />
+                  <span>Admin Settings</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label>Payment Status</Label>
+                    <Select
+                      value={adminFields.payment_status}
+                      onValueChange={(value) => updateAdminField('payment_status', value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PAYMENT_STATUS_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>POS + Website</Label>
+                    <Select
+                      value={String(adminFields["POS+Website"])}
+                      onValueChange={(value) => updateAdminField('POS+Website', Number(value))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="1">Enabled</SelectItem>
+                        <SelectItem value="0">Disabled</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="listingExpiredDate">Listing Expired Date</Label>
+                    <Input
+                      id="listingExpiredDate"
+                      type="date"
+                      value={adminFields.listing_expired_date || ''}
+                      onChange={(e) => updateAdminField('listing_expired_date', e.target.value || null)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="odooExpiredDate">Odoo Expired Date</Label>
+                    <Input
+                      id="odooExpiredDate"
+                      type="date"
+                      value={adminFields.odoo_expired_date || ''}
+                      onChange={(e) => updateAdminField('odoo_expired_date', e.target.value || null)}
+                      disabled={adminFields["POS+Website"] !== 1}
+                    />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <BusinessForm
+              editingBusiness={business}
+              owner={{ id: business.owner_id, email: business.user_email }}
+              adminFields={adminFields}
+              onSuccess={() => navigate('/admin/dashboard')}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+// Shared transactional email delivery for edge functions.
+//
+// The provider is chosen with MAIL_PROVIDER:
+//   smtp    - SMTP_HOST, SMTP_PORT, SMTP_USERNAME, SMTP_PASSWORD
+//   http    - Resend-compatible API: MAIL_API_KEY, optional MAIL_API_URL
+//   capture - posts to a local Mailpit-style sink at MAIL_CAPTURE_URL, or logs when unset
+// MAIL_PROVIDER must be set; there is no default, so a deployment can't silently skip delivery.
+// MAIL_FROM sets the sender for every provider.
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailProvider {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = 'Business Directory <no-reply@example.com>';
+
+const getFrom = () => Deno.env.get('MAIL_FROM') ?? DEFAULT_FROM;
+
+// `supabase functions serve` points SUPABASE_URL at the local API gateway
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', 'kong', 'host.docker.internal'];
+
+const isLocalEnvironment = () => {
+  try {
+    return LOCAL_HOSTS.includes(new URL(Deno.env.get('SUPABASE_URL') ?? '').hostname);
+  } catch {
+    return false;
+  }
+};
+
+const requireEnv = (name: string) => {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new Error(`Missing mail configuration: ${name}`);
+  }
+  return value;
+};
+
+// Splits "Name <address>" into its parts for providers that want them separately
+const parseAddress = (address: string) => {
+  const match = address.match(/^\s*(.*?)\s*<(.+)>\s*$/);
+  return match ? { name: match[1], email: match[2] } : { name: '', email: address.trim() };
+};
+
+export function createSmtpProvider(): MailProvider {
+  const port = Number(Deno.env.get('SMTP_PORT') ?? '587');
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      const client = new SMTPClient({
+        connection: {
+          hostname: requireEnv('SMTP_HOST'),
+          port,
+          // Port 465 uses implicit TLS; other ports upgrade with STARTTLS
+          tls: port === 465,
+          auth: {
+            username: requireEnv('SMTP_USERNAME'),
+            password: requireEnv('SMTP_PASSWORD'),
+          },
+        },
+      });
+
+      try {
+        await client.send({
+          from: getFrom(),
+          to: message.to,
+          subject: message.subject,
+          content: message.text,
+          html: message.html,
+        });
+      } finally {
+        await client.close();
+      }
+    },
+  };
+}
+
+export function createHttpProvider(): MailProvider {
+  const apiUrl = Deno.env.get('MAIL_API_URL') ?? 'https://api.resend.com';
+
+  return {
+    name: 'http',
+    async send(message) {
+      const response = await fetch(`${apiUrl}/emails`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${requireEnv('MAIL_API_KEY')}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          from: getFrom(),
+          to: [message.to],
+          subject: message.subject,
+          text: message.text,
+          html: message.html,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Mail API responded with ${response.status}: ${await response.text()}`);
+      }
+    },
+  };
+}
+
+export function createCaptureProvider(): MailProvider {
+  const captureUrl = Deno.env.get('MAIL_CAPTURE_URL');
+
+  return {
+    name: 'capture',
+    async send(message) {
+      if (!captureUrl) {
+        console.log(`Email to: ${message.to}`);
+        console.log(`Subject: ${message.subject}`);
+        // Bodies carry single-use links, so they only reach the logs on a local stack
+        if (isLocalEnvironment()) {
+          console.log(message.text);
+        }
+        return;
+      }
+
+      const from = parseAddress(getFrom());
+
+      // Mailpit's send API (POST /api/v1/send)
+      const response = await fetch(captureUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          From: { Email: from.email, Name: from.name },
+          To: [{ Email: message.to }],
+          Subject: message.subject,
+          Text: message.text,
+          HTML: message.html,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Mail capture sink responded with ${response.status}`);
+      }
+    },
+  };
+}
+
+export function getMailProvider(): MailProvider {
+  const provider = requireEnv('MAIL_PROVIDER');
+
+  switch (provider) {
+    case 'smtp':
+      return createSmtpProvider();
+    case 'http':
+    case 'resend':
+      return createHttpProvider();
+    case 'capture':
+      return createCaptureProvider();
+    default:
+      throw new Error(`Unknown MAIL_PROVIDER: ${provider}`);
+  }
+}
+
+export async function sendMail(message: MailMessage) {
+  const provider = getMailProvider();
+  await provider.send(message);
+  console.log(`Email "${message.subject}" sent to ${message.to} via ${provider.name}`);
+}
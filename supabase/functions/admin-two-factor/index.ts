@@ -0,0 +1,332 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.56.1';
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const ISSUER = 'WellFinds Admin';
+const STEP_SECONDS = 30;
+const CODE_DIGITS = 6;
+// Accept the previous and next step to allow for clock drift
+const DRIFT_STEPS = 1;
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+type TwoFactorAction = 'enroll' | 'activate' | 'verify' | 'disable';
+
+interface TwoFactorRequest {
+  action: TwoFactorAction;
+  code?: string;
+}
+
+interface TwoFactorRecord {
+  user_id: string;
+  secret: string | null;
+  pending_secret: string | null;
+  recovery_code_hashes: string[];
+  last_used_step: number | null;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+const base32Encode = (bytes: Uint8Array) => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+};
+
+const base32Decode = (input: string) => {
+  const clean = input.replace(/=+$/, '').toUpperCase();
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error('Invalid base32 secret');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+// RFC 6238 TOTP code for a given 30-second step
+const generateCode = async (secret: string, step: number) => {
+  const counter = new ArrayBuffer(8);
+  new DataView(counter).setBigUint64(0, BigInt(step));
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    base32Decode(secret),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counter));
+
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary =
+    ((hmac[offset] & 127) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return String(binary % 10 ** CODE_DIGITS).padStart(CODE_DIGITS, '0');
+};
+
+// Returns the matching step, or null; steps at or before lastUsedStep are rejected as replays
+const matchCode = async (secret: string, code: string, lastUsedStep: number | null) => {
+  const currentStep = Math.floor(Date.now() / 1000 / STEP_SECONDS);
+  for (let drift = -DRIFT_STEPS; drift <= DRIFT_STEPS; drift++) {
+    const step = currentStep + drift;
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    if (await generateCode(secret, step) === code) return step;
+  }
+  return null;
+};
+
+const sha256 = async (value: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+const normalizeRecoveryCode = (code: string) => code.replace(/[\s-]/g, '').toLowerCase();
+
+const generateRecoveryCodes = () =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const bytes = crypto.getRandomValues(new Uint8Array(5));
+    const code = Array.from(bytes).map((byte) => byte.toString(16).padStart(2, '0')).join('');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+
+// The session_id claim ties a verification to this sign-in only; the JWT itself was validated by getUser
+const getSessionId = (jwt: string) => {
+  const payload = JSON.parse(atob(jwt.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+  return payload.session_id as string | undefined;
+};
+
+const markSessionVerified = async (supabaseAdmin: SupabaseClient, sessionId: string, userId: string) => {
+  const { error } = await supabaseAdmin
+    .from('admin_two_factor_sessions')
+    .upsert({ session_id: sessionId, user_id: userId, verified_at: new Date().toISOString() });
+  if (error) throw error;
+};
+
+// Accepts either a current TOTP code or an unused recovery code, consuming whichever matched
+const checkSecondFactor = async (supabaseAdmin: SupabaseClient, record: TwoFactorRecord, code: string) => {
+  if (!record.secret) return false;
+
+  if (/^\d{6}$/.test(code)) {
+    const step = await matchCode(record.secret, code, record.last_used_step);
+    if (step === null) return false;
+
+    // Only one of several concurrent requests with the same code gets to move last_used_step forward
+    const { data, error } = await supabaseAdmin
+      .from('admin_two_factor')
+      .update({ last_used_step: step })
+      .eq('user_id', record.user_id)
+      .or(`last_used_step.is.null,last_used_step.lt.${step}`)
+      .select('user_id');
+    if (error) throw error;
+    return data.length > 0;
+  }
+
+  const hash = await sha256(normalizeRecoveryCode(code));
+  if (!record.recovery_code_hashes.includes(hash)) return false;
+
+  const { data: consumed, error } = await supabaseAdmin.rpc('consume_admin_recovery_code', {
+    target_user_id: record.user_id,
+    code_hash: hash,
+  });
+  if (error) throw error;
+  return consumed === true;
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action, code }: TwoFactorRequest = await req.json();
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Resolve the caller from their JWT
+    const jwt = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(jwt);
+    const sessionId = user ? getSessionId(jwt) : undefined;
+
+    if (userError || !user || !sessionId) {
+      return jsonResponse({ error: "Not authenticated" }, 401);
+    }
+
+    const { data: adminUser } = await supabaseAdmin
+      .from('admin_users')
+      .select('user_id, two_factor_enabled')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!adminUser) {
+      return jsonResponse({ error: "Admin privileges required" }, 403);
+    }
+
+    const { data: record } = await supabaseAdmin
+      .from('admin_two_factor')
+      .select('user_id, secret, pending_secret, recovery_code_hashes, last_used_step')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    switch (action) {
+      case 'enroll': {
+        if (adminUser.two_factor_enabled) {
+          return jsonResponse({ error: "Two-factor authentication is already enabled" }, 400);
+        }
+
+        const secret = base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+        const { error } = await supabaseAdmin
+          .from('admin_two_factor')
+          .upsert({ user_id: user.id, pending_secret: secret });
+        if (error) throw error;
+
+        const label = encodeURIComponent(`${ISSUER}:${user.email ?? user.id}`);
+        const otpauthUri = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}&algorithm=SHA1&digits=${CODE_DIGITS}&period=${STEP_SECONDS}`;
+
+        return jsonResponse({ secret, otpauthUri });
+      }
+
+      case 'activate': {
+        if (!record?.pending_secret || !code) {
+          return jsonResponse({ error: "Start enrollment before confirming a code" }, 400);
+        }
+
+        const step = await matchCode(record.pending_secret, code.trim(), null);
+        if (step === null) {
+          return jsonResponse({ error: "Invalid code. Check your authenticator app and try again." }, 400);
+        }
+
+        const recoveryCodes = generateRecoveryCodes();
+        const recoveryCodeHashes = await Promise.all(recoveryCodes.map((item) => sha256(normalizeRecoveryCode(item))));
+
+        const { error: recordError } = await supabaseAdmin
+          .from('admin_two_factor')
+          .update({
+            secret: record.pending_secret,
+            pending_secret: null,
+            recovery_code_hashes: recoveryCodeHashes,
+            last_used_step: step,
+            enabled_at: new Date().toISOString(),
+          })
+          .eq('user_id', user.id);
+        if (recordError) throw recordError;
+
+        const { error: adminError } = await supabaseAdmin
+          .from('admin_users')
+          .update({ two_factor_enabled: true })
+          .eq('user_id', user.id);
+        if (adminError) throw adminError;
+
+        // Enrolling proves possession of the device, so the current session counts as verified
+        await markSessionVerified(supabaseAdmin, sessionId, user.id);
+
+        return jsonResponse({ recoveryCodes });
+      }
+
+      case 'verify': {
+        if (!adminUser.two_factor_enabled || !record || !code) {
+          return jsonResponse({ error: "Two-factor authentication is not enabled" }, 400);
+        }
+
+        const email = user.email ?? '';
+        const { data: canAttempt, error: rateLimitError } = await supabaseAdmin.rpc('check_rate_limit', { user_email: email });
+        // Fail closed: without a working limit, codes could be guessed without bound
+        if (rateLimitError) throw rateLimitError;
+        if (canAttempt !== true) {
+          return jsonResponse({ error: "Too many failed attempts. Please wait 15 minutes before trying again." }, 429);
+        }
+
+        const valid = await checkSecondFactor(supabaseAdmin, record, code.trim());
+        const { error: logError } = await supabaseAdmin.rpc('log_login_attempt', { user_email: email, attempt_success: valid });
+        if (logError) throw logError;
+
+        if (!valid) {
+          return jsonResponse({ error: "Invalid verification code" }, 400);
+        }
+
+        await markSessionVerified(supabaseAdmin, sessionId, user.id);
+
+        return jsonResponse({ verified: true });
+      }
+
+      case 'disable': {
+        if (!adminUser.two_factor_enabled || !record || !code) {
+          return jsonResponse({ error: "Two-factor authentication is not enabled" }, 400);
+        }
+
+        const { data: settings } = await supabaseAdmin
+          .from('admin_security_settings')
+          .select('require_two_factor')
+          .maybeSingle();
+
+        if (settings?.require_two_factor) {
+          return jsonResponse({ error: "Two-factor authentication is required for all admins" }, 400);
+        }
+
+        const valid = await checkSecondFactor(supabaseAdmin, record, code.trim());
+        if (!valid) {
+          return jsonResponse({ error: "Invalid verification code" }, 400);
+        }
+
+        const { error: recordError } = await supabaseAdmin
+          .from('admin_two_factor')
+          .delete()
+          .eq('user_id', user.id);
+        if (recordError) throw recordError;
+
+        const { error: adminError } = await supabaseAdmin
+          .from('admin_users')
+          .update({ two_factor_enabled: false })
+          .eq('user_id', user.id);
+        if (adminError) throw adminError;
+
+        return jsonResponse({ disabled: true });
+      }
+
+      default:
+        return jsonResponse({ error: "Unknown action" }, 400);
+    }
+  } catch (error) {
+    console.error("Error in admin-two-factor function:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unexpected error" }, 500);
+  }
+};
+
+serve(handler);
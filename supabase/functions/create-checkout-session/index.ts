@@ -0,0 +1,136 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.56.1';
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Point STRIPE_API_BASE at stripe-mock (e.g. http://localhost:12111) or a fixture server to test locally
+const STRIPE_API_BASE = Deno.env.get('STRIPE_API_BASE') ?? 'https://api.stripe.com';
+
+const CURRENCY = 'usd';
+
+// Sites Checkout may send the customer back to, comma separated; the first is used when the request's Origin isn't one
+const SITE_URLS = (Deno.env.get('SITE_URL') ?? '')
+  .split(',')
+  .map((url) => url.trim().replace(/\/+$/, ''))
+  .filter(Boolean);
+
+// Prices in cents, matching LISTING_FEE in src/lib/payments.ts
+const PLANS = {
+  listing: { name: 'Business listing (1 year)', amount: 1000 },
+  pos: { name: 'Business listing with Online Shop Website and POS', amount: 1000 },
+};
+
+interface CheckoutRequest {
+  businessId: string;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { businessId }: CheckoutRequest = await req.json();
+
+    if (!businessId) {
+      return jsonResponse({ error: "Missing business ID" }, 400);
+    }
+
+    // Never redirect to a caller-supplied address, only back to one of our own sites
+    const requestOrigin = req.headers.get('Origin') ?? '';
+    const siteUrl = SITE_URLS.includes(requestOrigin) ? requestOrigin : SITE_URLS[0];
+
+    if (!siteUrl) {
+      throw new Error('SITE_URL is not configured');
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Resolve the caller from their JWT
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(token);
+
+    if (userError || !user) {
+      return jsonResponse({ error: "Not authenticated" }, 401);
+    }
+
+    const { data: business, error: businessError } = await supabaseAdmin
+      .from('businesses')
+      .select('id, name, owner_id, "POS+Website"')
+      .eq('id', businessId)
+      .single();
+
+    if (businessError || !business || business.owner_id !== user.id) {
+      return jsonResponse({ error: "Business not found" }, 404);
+    }
+
+    // The plan is derived from the listing so clients cannot pick their own price
+    const plan = business["POS+Website"] === 1 ? PLANS.pos : PLANS.listing;
+
+    const params = new URLSearchParams({
+      mode: 'payment',
+      success_url: `${siteUrl}/dashboard?checkout=success`,
+      cancel_url: `${siteUrl}/dashboard?checkout=cancelled`,
+      client_reference_id: business.id,
+      'line_items[0][quantity]': '1',
+      'line_items[0][price_data][currency]': CURRENCY,
+      'line_items[0][price_data][unit_amount]': String(plan.amount),
+      'line_items[0][price_data][product_data][name]': `${plan.name} - ${business.name}`,
+      'metadata[business_id]': business.id,
+      'metadata[user_id]': user.id,
+    });
+
+    if (user.email) {
+      params.set('customer_email', user.email);
+    }
+
+    const stripeResponse = await fetch(`${STRIPE_API_BASE}/v1/checkout/sessions`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${Deno.env.get('STRIPE_SECRET_KEY') ?? ''}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: params,
+    });
+
+    const session = await stripeResponse.json();
+
+    if (!stripeResponse.ok) {
+      throw new Error(session?.error?.message ?? 'Failed to create checkout session');
+    }
+
+    // Record the open session; the webhook confirms it once Stripe reports it as paid
+    const { error: paymentError } = await supabaseAdmin
+      .from('payments')
+      .insert({
+        business_id: business.id,
+        payer_id: user.id,
+        amount: plan.amount / 100,
+        currency: CURRENCY.toUpperCase(),
+        method: 'stripe',
+        stripe_session_id: session.id,
+      });
+
+    if (paymentError) throw paymentError;
+
+    return jsonResponse({ url: session.url, sessionId: session.id });
+  } catch (error) {
+    console.error("Error in create-checkout-session function:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unexpected error" }, 500);
+  }
+};
+
+serve(handler);
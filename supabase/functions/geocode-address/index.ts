@@ -0,0 +1,138 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.56.1';
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// GEOCODER_PROVIDER picks the online geocoder ("nominatim" or "none" to only use the gazetteer);
+// GEOCODER_API_BASE can point it at a self-hosted instance
+const GEOCODER_PROVIDER = Deno.env.get('GEOCODER_PROVIDER') ?? 'nominatim';
+const GEOCODER_API_BASE = Deno.env.get('GEOCODER_API_BASE') ?? 'https://nominatim.openstreetmap.org';
+const GEOCODER_USER_AGENT = Deno.env.get('GEOCODER_USER_AGENT') ?? 'WellFinds listing geocoder';
+
+interface GeocodeRequest {
+  address?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+}
+
+interface GeocodeResult {
+  latitude: number;
+  longitude: number;
+  source: 'geocoder' | 'gazetteer';
+  // How closely the point matches the request; state points are left out of distance search
+  precision: 'address' | 'city' | 'state';
+}
+
+// Nominatim's addresstype for places coarser than a street address
+const NOMINATIM_PRECISION: Record<string, GeocodeResult['precision']> = {
+  city: 'city',
+  town: 'city',
+  village: 'city',
+  postcode: 'city',
+  county: 'state',
+  state: 'state',
+};
+
+type Geocoder = (request: GeocodeRequest) => Promise<GeocodeResult | null>;
+
+const geocoders: Record<string, Geocoder> = {
+  nominatim: async (request) => {
+    const params = new URLSearchParams({
+      format: 'jsonv2',
+      limit: '1',
+      countrycodes: 'us',
+      q: [request.address, request.city, request.state, request.zipCode].filter(Boolean).join(', '),
+    });
+
+    const response = await fetch(`${GEOCODER_API_BASE}/search?${params}`, {
+      headers: { 'User-Agent': GEOCODER_USER_AGENT, Accept: 'application/json' },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Geocoder responded with ${response.status}`);
+    }
+
+    const [place] = await response.json();
+    if (!place) return null;
+
+    return {
+      latitude: Number(place.lat),
+      longitude: Number(place.lon),
+      source: 'geocoder',
+      precision: NOMINATIM_PRECISION[place.addresstype] ?? 'address',
+    };
+  },
+  none: async () => null,
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const request: GeocodeRequest = await req.json();
+
+    if (!request.city && !request.state && !request.zipCode) {
+      return jsonResponse({ error: "Missing city, state or ZIP code" }, 400);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Only signed-in owners and admins geocode; the public provider is rate limited
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(token);
+
+    if (userError || !user) {
+      return jsonResponse({ error: "Not authenticated" }, 401);
+    }
+
+    const geocoder = geocoders[GEOCODER_PROVIDER] ?? geocoders.none;
+
+    try {
+      const result = await geocoder(request);
+      if (result) return jsonResponse({ location: result });
+    } catch (error) {
+      // An unreachable provider should not stop the listing from being located roughly
+      console.error("Geocoder failed, falling back to the gazetteer:", error);
+    }
+
+    const { data: matches, error: gazetteerError } = await supabaseAdmin.rpc('lookup_gazetteer', {
+      city_name: request.city ?? '',
+      state_text: request.state ?? '',
+    });
+
+    if (gazetteerError) throw gazetteerError;
+
+    const [match] = matches ?? [];
+    if (!match) return jsonResponse({ location: null });
+
+    const location: GeocodeResult = {
+      latitude: match.latitude,
+      longitude: match.longitude,
+      source: 'gazetteer',
+      precision: match.match_precision,
+    };
+
+    return jsonResponse({ location });
+  } catch (error) {
+    console.error("Error in geocode-address function:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unexpected error" }, 500);
+  }
+};
+
+serve(handler);
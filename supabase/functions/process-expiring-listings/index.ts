@@ -0,0 +1,117 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.56.1';
+import { sendMail } from "../_shared/mail.ts";
+
+// Sent per run so a backlog cannot hold the job open
+const BATCH_SIZE = 100;
+
+interface ExpiryReminder {
+  id: string;
+  subscription: 'listing' | 'odoo';
+  days_before: number;
+  expires_on: string;
+  recipient_email: string;
+  businesses: { name: string } | null;
+}
+
+const SUBSCRIPTION_LABELS = {
+  listing: 'business listing',
+  odoo: 'Online Shop Website and POS subscription',
+};
+
+const buildReminder = (reminder: ExpiryReminder) => {
+  const businessName = reminder.businesses?.name ?? 'your business';
+  const label = SUBSCRIPTION_LABELS[reminder.subscription];
+
+  if (reminder.days_before === 0) {
+    return {
+      subject: `Your ${label} for ${businessName} has expired`,
+      text: `The ${label} for ${businessName} expired on ${reminder.expires_on}. Renew it from your dashboard to keep it active.`,
+    };
+  }
+
+  const days = reminder.days_before === 1 ? '1 day' : `${reminder.days_before} days`;
+  return {
+    subject: `Your ${label} for ${businessName} expires in ${days}`,
+    text: `The ${label} for ${businessName} expires on ${reminder.expires_on}. Renew it from your dashboard before then to avoid any interruption.`,
+  };
+};
+
+const sendReminder = async (reminder: ExpiryReminder) => {
+  const { subject, text } = buildReminder(reminder);
+  await sendMail({ to: reminder.recipient_email, subject, text });
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+  // Only the scheduled job, which authenticates with the service role key, may trigger a run
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const supabaseAdmin = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+    const { data: expired, error: expireError } = await supabaseAdmin.rpc('expire_lapsed_subscriptions');
+    if (expireError) throw expireError;
+
+    const { data: queued, error: queueError } = await supabaseAdmin.rpc('queue_expiry_reminders');
+    if (queueError) throw queueError;
+
+    const { data: reminders, error: remindersError } = await supabaseAdmin
+      .from('expiry_reminders')
+      .select('id, subscription, days_before, expires_on, recipient_email, businesses (name)')
+      .eq('status', 'queued')
+      .order('created_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (remindersError) throw remindersError;
+
+    let sent = 0;
+    let failed = 0;
+
+    for (const reminder of (reminders ?? []) as ExpiryReminder[]) {
+      try {
+        await sendReminder(reminder);
+        await supabaseAdmin
+          .from('expiry_reminders')
+          .update({ status: 'sent', sent_at: new Date().toISOString() })
+          .eq('id', reminder.id);
+        sent++;
+      } catch (error) {
+        console.error(`Error sending expiry reminder ${reminder.id}:`, error);
+        await supabaseAdmin
+          .from('expiry_reminders')
+          .update({ status: 'failed', error: error instanceof Error ? error.message : String(error) })
+          .eq('id', reminder.id);
+        failed++;
+      }
+    }
+
+    const summary = {
+      expired_listings: expired?.[0]?.expired_listings ?? 0,
+      expired_odoo: expired?.[0]?.expired_odoo ?? 0,
+      queued,
+      sent,
+      failed,
+    };
+    console.log("Expiry job finished:", summary);
+
+    return new Response(JSON.stringify(summary), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error in process-expiring-listings function:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unexpected error" }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+};
+
+serve(handler);
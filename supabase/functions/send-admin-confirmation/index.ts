@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.56.1';
+import { sendMail } from "../_shared/mail.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -8,7 +9,9 @@ const corsHeaders = {
 
 interface ConfirmationRequest {
   email: string;
+  // Page that redeems the token, e.g. https://example.com/@admin/callback
   confirmationUrl: string;
+  inviteToken: string;
 }
 
 const handler = async (req: Request): Promise<Response> => {
@@ -18,11 +21,11 @@ const handler = async (req: Request): Promise<Response> => {
   }
 
   try {
-    const { email, confirmationUrl }: ConfirmationRequest = await req.json();
+    const { email, confirmationUrl, inviteToken }: ConfirmationRequest = await req.json();
 
-    if (!email || !confirmationUrl) {
+    if (!email || !confirmationUrl || !inviteToken) {
       return new Response(
-        JSON.stringify({ error: "Missing email or confirmation URL" }),
+        JSON.stringify({ error: "Missing email, confirmation URL or invitation" }),
         {
           status: 400,
           headers: { "Content-Type": "application/json", ...corsHeaders },
@@ -30,52 +33,51 @@ const handler = async (req: Request): Promise<Response> => {
       );
     }
 
-    // For now, just log the confirmation email details
-    // In production, integrate with an email service like Resend
-    console.log(`Admin confirmation email would be sent to: ${email}`);
-    console.log(`Confirmation URL: ${confirmationUrl}`);
-    
-    // Also provision the admin user immediately for development
-    // In production, this should only happen after email confirmation
-    try {
-      // Get the Supabase client
-      const supabaseAdmin = createClient(
-        Deno.env.get('SUPABASE_URL') ?? '',
-        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-      );
-      
-      // Find the user by email
-      const { data: users } = await supabaseAdmin.auth.admin.listUsers();
-      const user = users?.users?.find(u => u.email === email);
-      
-      if (user) {
-        // Provision admin user
-        await supabaseAdmin.rpc('provision_admin_user', { 
-          user_email: email 
-        });
-        console.log(`Admin user provisioned for: ${email}`);
-      }
-    } catch (error) {
-      console.error('Error provisioning admin user:', error);
-    }
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
 
-    const emailSent = true;
+    // Admin access is only provisioned once the emailed link is opened, and only for a valid invitation
+    const { data: token, error: tokenError } = await supabaseAdmin.rpc('create_admin_signup_confirmation', {
+      user_email: email,
+      invite_token: inviteToken
+    });
 
-    if (emailSent) {
+    if (tokenError) {
       return new Response(
-        JSON.stringify({ success: true, message: "Confirmation email sent" }),
+        JSON.stringify({ error: tokenError.message }),
         {
-          status: 200,
+          status: 400,
           headers: { "Content-Type": "application/json", ...corsHeaders },
         }
       );
-    } else {
-      throw new Error("Failed to send confirmation email");
     }
-  } catch (error: any) {
+
+    // Unknown or already-admin addresses get the same response so accounts cannot be probed
+    if (token) {
+      const link = new URL(confirmationUrl);
+      link.searchParams.set('token', token);
+
+      await sendMail({
+        to: email,
+        subject: "Confirm your admin account",
+        text: `Open this link within 24 hours to confirm your admin account:\n\n${link.toString()}\n\nIf you did not request admin access, you can ignore this email.`,
+        html: `<p>Open this link within 24 hours to confirm your admin account:</p><p><a href="${link.toString()}">Confirm admin account</a></p><p>If you did not request admin access, you can ignore this email.</p>`,
+      });
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, message: "Confirmation email sent" }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+  } catch (error) {
     console.error("Error in send-admin-confirmation function:", error);
     return new Response(
-      JSON.stringify({ error: error.message }),
+      JSON.stringify({ error: error instanceof Error ? error.message : "Failed to send confirmation email" }),
       {
         status: 500,
         headers: { "Content-Type": "application/json", ...corsHeaders },
@@ -84,4 +86,4 @@ const handler = async (req: Request): Promise<Response> => {
   }
 };
 
-serve(handler);
\ No newline at end of file
+serve(handler);
@@ -0,0 +1,103 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.56.1';
+import { sendMail } from "../_shared/mail.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Each send, including resends, keeps the invitation open for another week
+const INVITATION_TTL_DAYS = 7;
+
+const ROLE_LABELS: Record<string, string> = {
+  super_admin: 'Super Administrator',
+  admin: 'Administrator',
+  moderator: 'Moderator',
+  finance: 'Finance',
+  support: 'Support',
+};
+
+interface InvitationRequest {
+  invitationId: string;
+  // Signup page that accepts the invite, e.g. https://example.com/@admin/signup
+  signupUrl: string;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { invitationId, signupUrl }: InvitationRequest = await req.json();
+
+    if (!invitationId || !signupUrl) {
+      return jsonResponse({ error: "Missing invitation ID or signup URL" }, 400);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Resolve the caller from their JWT
+    const jwt = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(jwt);
+
+    if (userError || !user) {
+      return jsonResponse({ error: "Not authenticated" }, 401);
+    }
+
+    const { data: isSuperAdmin, error: roleError } = await supabaseAdmin.rpc('is_super_admin', {
+      check_user_id: user.id
+    });
+
+    if (roleError) throw roleError;
+    if (!isSuperAdmin) {
+      return jsonResponse({ error: "Super admin privileges required" }, 403);
+    }
+
+    const { data: invitation, error: invitationError } = await supabaseAdmin
+      .from('admin_invitations')
+      .update({
+        expires_at: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+        last_sent_at: new Date().toISOString(),
+      })
+      .eq('id', invitationId)
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .select('email, admin_role, token')
+      .maybeSingle();
+
+    if (invitationError) throw invitationError;
+    if (!invitation) {
+      return jsonResponse({ error: "Invitation is not pending" }, 404);
+    }
+
+    const link = new URL(signupUrl);
+    link.searchParams.set('invite', invitation.token);
+    const role = ROLE_LABELS[invitation.admin_role] ?? invitation.admin_role;
+
+    await sendMail({
+      to: invitation.email,
+      subject: "You've been invited to the admin portal",
+      text: `You've been invited to join the admin portal as ${role}.\n\nCreate your account within ${INVITATION_TTL_DAYS} days using this link:\n\n${link.toString()}\n\nThe link can only be used once.`,
+      html: `<p>You've been invited to join the admin portal as <strong>${role}</strong>.</p><p>Create your account within ${INVITATION_TTL_DAYS} days using this link:</p><p><a href="${link.toString()}">Accept invitation</a></p><p>The link can only be used once.</p>`,
+    });
+
+    return jsonResponse({ success: true, message: "Invitation sent" });
+  } catch (error) {
+    console.error("Error in send-admin-invitation function:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Failed to send invitation" }, 500);
+  }
+};
+
+serve(handler);
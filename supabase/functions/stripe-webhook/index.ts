@@ -0,0 +1,141 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.56.1';
+
+// Reject events whose signature timestamp is older than this, as Stripe's own libraries do
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+// Constant-time comparison so the expected signature cannot be guessed byte by byte
+const safeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let mismatch = 0;
+  for (let i = 0; i < a.length; i++) {
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return mismatch === 0;
+};
+
+// Verifies a Stripe-Signature header ("t=<timestamp>,v1=<hmac>,...") against the raw request body
+const verifySignature = async (payload: string, header: string, secret: string) => {
+  const parts = header.split(',').map((part) => part.split('='));
+  const timestamp = parts.find(([key]) => key === 't')?.[1];
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+
+  if (!timestamp || signatures.length === 0) return false;
+
+  const age = Math.floor(Date.now() / 1000) - Number(timestamp);
+  if (!Number.isFinite(age) || Math.abs(age) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const expected = toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${payload}`)));
+
+  return signatures.some((signature) => safeEqual(signature, expected));
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method !== "POST") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const payload = await req.text();
+  const signature = req.headers.get('Stripe-Signature') ?? '';
+
+  const isValid = await verifySignature(payload, signature, Deno.env.get('STRIPE_WEBHOOK_SECRET') ?? '');
+  if (!isValid) {
+    console.error("Rejected Stripe webhook with an invalid signature");
+    return new Response("Invalid signature", { status: 400 });
+  }
+
+  try {
+    const event = JSON.parse(payload);
+    const session = event.data?.object;
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    switch (event.type) {
+      case 'checkout.session.completed':
+      case 'checkout.session.async_payment_succeeded': {
+        // Delayed payment methods complete the session before the money arrives
+        if (session.payment_status !== 'paid') break;
+
+        const { data: payment, error: paymentError } = await supabaseAdmin
+          .from('payments')
+          .select('id, amount, currency')
+          .eq('stripe_session_id', session.id)
+          .maybeSingle();
+        if (paymentError) throw paymentError;
+
+        // Only extend the listing for the price recorded when the session was opened (in dollars; Stripe
+        // reports cents). A mismatch goes to the admin review queue, as a retry wouldn't change it.
+        const expectedAmount = payment?.amount === null || payment?.amount === undefined
+          ? null
+          : Math.round(Number(payment.amount) * 100);
+        if (payment && (session.amount_total !== expectedAmount || session.currency?.toUpperCase() !== payment.currency)) {
+          console.error(
+            `Stripe session ${session.id} paid ${session.amount_total} ${session.currency}, expected ${expectedAmount} ${payment.currency}`
+          );
+
+          const { error: flagError } = await supabaseAdmin
+            .from('payments')
+            .update({
+              status: 'needs_review',
+              notes: `Stripe reported ${session.amount_total} ${session.currency?.toUpperCase()} (in cents), which does not match this payment. Not applied to the listing.`,
+            })
+            .eq('id', payment.id)
+            // A repeat delivery must not reopen a payment an admin already reviewed
+            .eq('status', 'pending');
+          if (flagError) throw flagError;
+          break;
+        }
+
+        const { error } = await supabaseAdmin.rpc('complete_stripe_payment', {
+          session_id: session.id,
+          payment_intent_id: session.payment_intent ?? null,
+        });
+        if (error) throw error;
+
+        console.log(`Stripe payment confirmed for session: ${session.id}`);
+        break;
+      }
+      case 'checkout.session.expired':
+      case 'checkout.session.async_payment_failed': {
+        const { error } = await supabaseAdmin.rpc('cancel_stripe_payment', {
+          session_id: session.id,
+        });
+        if (error) throw error;
+        break;
+      }
+      default:
+        console.log(`Ignoring Stripe event: ${event.type}`);
+    }
+
+    return new Response(JSON.stringify({ received: true }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error in stripe-webhook function:", error);
+    // A 500 makes Stripe retry the delivery
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : "Unexpected error" }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+serve(handler);
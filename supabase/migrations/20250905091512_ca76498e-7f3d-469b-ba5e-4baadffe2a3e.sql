@@ -0,0 +1,69 @@
+-- Create admin dashboard metrics RPC with period-over-period comparisons
+CREATE OR REPLACE FUNCTION public.get_admin_dashboard_metrics(period_days integer DEFAULT 30)
+ RETURNS TABLE(
+  total_listings bigint,
+  active_listings bigint,
+  pending_listings bigint,
+  new_listings bigint,
+  previous_new_listings bigint,
+  total_users bigint,
+  new_users bigint,
+  previous_new_users bigint,
+  total_bookmarks bigint,
+  total_reviews bigint,
+  new_reviews bigint,
+  previous_new_reviews bigint,
+  average_rating numeric,
+  confirmed_payments bigint,
+  previous_confirmed_payments bigint
+ )
+ LANGUAGE plpgsql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  period_start timestamptz;
+  previous_start timestamptz;
+BEGIN
+  -- Only admins may read platform-wide metrics
+  IF NOT EXISTS (SELECT 1 FROM public.admin_users WHERE user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Admin privileges required';
+  END IF;
+
+  IF period_days NOT IN (7, 30, 90) THEN
+    RAISE EXCEPTION 'Unsupported period: % days', period_days;
+  END IF;
+
+  period_start := now() - make_interval(days => period_days);
+  previous_start := now() - make_interval(days => period_days * 2);
+
+  RETURN QUERY
+  SELECT
+    (SELECT COUNT(*) FROM public.businesses),
+    (SELECT COUNT(*) FROM public.businesses b
+      WHERE b.payment_status = 'confirmed'
+        AND (b.listing_expired_date IS NULL OR b.listing_expired_date >= CURRENT_DATE)),
+    (SELECT COUNT(*) FROM public.businesses b WHERE b.payment_status = 'to_be_confirmed'),
+    (SELECT COUNT(*) FROM public.businesses b WHERE b.created_at >= period_start),
+    (SELECT COUNT(*) FROM public.businesses b
+      WHERE b.created_at >= previous_start AND b.created_at < period_start),
+    (SELECT COUNT(*) FROM public.profiles),
+    (SELECT COUNT(*) FROM public.profiles p WHERE p.created_at >= period_start),
+    (SELECT COUNT(*) FROM public.profiles p
+      WHERE p.created_at >= previous_start AND p.created_at < period_start),
+    (SELECT COUNT(*) FROM public.bookmarks),
+    (SELECT COUNT(*) FROM public.business_reviews),
+    (SELECT COUNT(*) FROM public.business_reviews r WHERE r.created_at >= period_start),
+    (SELECT COUNT(*) FROM public.business_reviews r
+      WHERE r.created_at >= previous_start AND r.created_at < period_start),
+    (SELECT ROUND(COALESCE(AVG(r.rating), 0), 1) FROM public.business_reviews r),
+    (SELECT COUNT(*) FROM public.businesses b
+      WHERE b.payment_status = 'confirmed' AND b.last_payment_date >= period_start),
+    (SELECT COUNT(*) FROM public.businesses b
+      WHERE b.payment_status = 'confirmed'
+        AND b.last_payment_date >= previous_start AND b.last_payment_date < period_start);
+END;
+$function$;
+
+-- Ensure RPC is callable by signed-in users (admin check happens inside)
+GRANT EXECUTE ON FUNCTION public.get_admin_dashboard_metrics(integer) TO authenticated;
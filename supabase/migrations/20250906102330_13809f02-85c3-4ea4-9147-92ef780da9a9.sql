@@ -0,0 +1,165 @@
+-- Create activity_events table backing the admin activity feed
+CREATE TABLE public.activity_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_type TEXT NOT NULL,
+  actor_id UUID,
+  actor_name TEXT,
+  business_id UUID REFERENCES public.businesses(id) ON DELETE SET NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  CONSTRAINT check_activity_event_type CHECK (event_type IN (
+    'business_created',
+    'receipt_uploaded',
+    'payment_confirmed',
+    'review_posted',
+    'user_signed_up'
+  ))
+);
+
+CREATE INDEX idx_activity_events_created_at ON public.activity_events (created_at DESC);
+CREATE INDEX idx_activity_events_type_created_at ON public.activity_events (event_type, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.activity_events ENABLE ROW LEVEL SECURITY;
+
+-- Only admins can read the feed; rows are written by the triggers below
+CREATE POLICY "Admins can view activity events"
+ON public.activity_events
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.admin_users WHERE user_id = auth.uid()));
+
+-- Resolve a readable name for the user behind an event
+CREATE OR REPLACE FUNCTION public.get_activity_actor_name(actor uuid)
+RETURNS text
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path TO 'public', 'auth'
+AS $function$
+  SELECT COALESCE(p.display_name, au.email::text)
+  FROM auth.users au
+  LEFT JOIN public.profiles p ON p.user_id = au.id
+  WHERE au.id = actor
+$function$;
+
+-- Record listing creation, receipt uploads and payment confirmations
+CREATE OR REPLACE FUNCTION public.log_business_activity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.activity_events (event_type, actor_id, actor_name, business_id, title, description, metadata)
+    VALUES (
+      'business_created',
+      NEW.owner_id,
+      public.get_activity_actor_name(NEW.owner_id),
+      NEW.id,
+      'New listing submitted',
+      NEW.name || COALESCE(' - ' || NEW.category, ''),
+      jsonb_build_object('category', NEW.category, 'city', NEW.city)
+    );
+  END IF;
+
+  IF NEW.payment_status = 'to_be_confirmed' AND NEW.receipt_url IS NOT NULL AND (
+    TG_OP = 'INSERT'
+    OR OLD.payment_status IS DISTINCT FROM NEW.payment_status
+    OR OLD.receipt_url IS DISTINCT FROM NEW.receipt_url
+  ) THEN
+    INSERT INTO public.activity_events (event_type, actor_id, actor_name, business_id, title, description)
+    VALUES (
+      'receipt_uploaded',
+      COALESCE(auth.uid(), NEW.owner_id),
+      public.get_activity_actor_name(COALESCE(auth.uid(), NEW.owner_id)),
+      NEW.id,
+      'Payment receipt uploaded',
+      NEW.name
+    );
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.payment_status = 'confirmed'
+    AND OLD.payment_status IS DISTINCT FROM NEW.payment_status THEN
+    INSERT INTO public.activity_events (event_type, actor_id, actor_name, business_id, title, description, metadata)
+    VALUES (
+      'payment_confirmed',
+      auth.uid(),
+      public.get_activity_actor_name(auth.uid()),
+      NEW.id,
+      'Payment confirmed',
+      NEW.name,
+      jsonb_build_object('listing_expired_date', NEW.listing_expired_date)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER log_business_activity_trigger
+  AFTER INSERT OR UPDATE OF payment_status, receipt_url ON public.businesses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_business_activity();
+
+-- Record new reviews
+CREATE OR REPLACE FUNCTION public.log_review_activity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  INSERT INTO public.activity_events (event_type, actor_id, actor_name, business_id, title, description, metadata)
+  SELECT
+    'review_posted',
+    NEW.user_id,
+    public.get_activity_actor_name(NEW.user_id),
+    NEW.business_id,
+    'New ' || NEW.rating || '-star review',
+    b.name,
+    jsonb_build_object('rating', NEW.rating)
+  FROM public.businesses b
+  WHERE b.id = NEW.business_id;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER log_review_activity_trigger
+  AFTER INSERT ON public.business_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_review_activity();
+
+-- Record sign-ups when the profile row is created for a new auth user
+CREATE OR REPLACE FUNCTION public.log_signup_activity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'auth'
+AS $function$
+BEGIN
+  INSERT INTO public.activity_events (event_type, actor_id, actor_name, title, description)
+  SELECT
+    'user_signed_up',
+    NEW.user_id,
+    COALESCE(NEW.display_name, au.email::text),
+    'New user registration',
+    au.email::text
+  FROM auth.users au
+  WHERE au.id = NEW.user_id;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER log_signup_activity_trigger
+  AFTER INSERT ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_signup_activity();
+
+-- Stream new events to the admin dashboard
+ALTER PUBLICATION supabase_realtime ADD TABLE public.activity_events;
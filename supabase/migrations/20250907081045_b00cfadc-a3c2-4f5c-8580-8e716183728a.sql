@@ -0,0 +1,121 @@
+-- Helper to check whether a user is an admin (avoids repeating the EXISTS in every policy)
+CREATE OR REPLACE FUNCTION public.is_admin(check_user_id uuid DEFAULT auth.uid())
+RETURNS boolean
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT EXISTS (SELECT 1 FROM public.admin_users WHERE user_id = check_user_id)
+$function$;
+
+-- Allow admins to create listings on behalf of other owners
+CREATE POLICY "Admins can create businesses for any owner"
+ON public.businesses
+FOR INSERT
+WITH CHECK (public.is_admin());
+
+-- Pending ownership claims for listings that admins created with a placeholder owner
+CREATE TABLE public.business_claims (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  business_id UUID NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  claim_token UUID NOT NULL DEFAULT gen_random_uuid() UNIQUE,
+  claim_email TEXT,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  claimed_by UUID REFERENCES auth.users(id),
+  claimed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security; tokens must never be readable by the public
+ALTER TABLE public.business_claims ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view business claims"
+ON public.business_claims
+FOR SELECT
+USING (public.is_admin());
+
+CREATE POLICY "Admins can create business claims"
+ON public.business_claims
+FOR INSERT
+WITH CHECK (public.is_admin() AND created_by = auth.uid());
+
+CREATE POLICY "Admins can delete business claims"
+ON public.business_claims
+FOR DELETE
+USING (public.is_admin());
+
+-- Look up an existing account by email so admins can pick a listing owner
+CREATE OR REPLACE FUNCTION public.find_user_by_email(search_email text)
+ RETURNS TABLE(user_id uuid, email text, display_name text)
+ LANGUAGE plpgsql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public', 'auth'
+AS $function$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Admin privileges required';
+  END IF;
+
+  RETURN QUERY
+  SELECT au.id::uuid,
+         au.email::text,
+         p.display_name::text
+  FROM auth.users au
+  LEFT JOIN public.profiles p ON p.user_id = au.id
+  WHERE lower(au.email) = lower(trim(search_email))
+  LIMIT 1;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.find_user_by_email(text) TO authenticated;
+
+-- Transfer a placeholder listing to the signed-in user holding the claim token
+CREATE OR REPLACE FUNCTION public.claim_business_listing(token uuid)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public', 'auth'
+AS $function$
+DECLARE
+  claim_record public.business_claims%ROWTYPE;
+  claimant_email text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to claim this listing';
+  END IF;
+
+  SELECT * INTO claim_record
+  FROM public.business_claims
+  WHERE claim_token = token
+  FOR UPDATE;
+
+  IF claim_record.id IS NULL THEN
+    RAISE EXCEPTION 'Invalid claim link';
+  END IF;
+
+  IF claim_record.claimed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This listing has already been claimed';
+  END IF;
+
+  SELECT email INTO claimant_email FROM auth.users WHERE id = auth.uid();
+
+  IF claim_record.claim_email IS NOT NULL
+    AND lower(claim_record.claim_email) <> lower(claimant_email) THEN
+    RAISE EXCEPTION 'This claim link was issued for a different email address';
+  END IF;
+
+  UPDATE public.businesses
+  SET owner_id = auth.uid(),
+      user_email = claimant_email
+  WHERE id = claim_record.business_id;
+
+  UPDATE public.business_claims
+  SET claimed_by = auth.uid(),
+      claimed_at = now()
+  WHERE id = claim_record.id;
+
+  RETURN claim_record.business_id;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.claim_business_listing(uuid) TO authenticated;
@@ -0,0 +1,219 @@
+-- Record of every change an admin makes to a user account
+CREATE TABLE public.user_management_actions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  target_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  admin_id UUID NOT NULL REFERENCES auth.users(id),
+  action TEXT NOT NULL,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  CONSTRAINT check_user_management_action CHECK (action IN (
+    'role_changed',
+    'suspended',
+    'unsuspended',
+    'signed_out'
+  ))
+);
+
+CREATE INDEX idx_user_management_actions_target ON public.user_management_actions (target_user_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.user_management_actions ENABLE ROW LEVEL SECURITY;
+
+-- Only admins can read the log; rows are written by the functions below
+CREATE POLICY "Admins can view user management actions"
+ON public.user_management_actions
+FOR SELECT
+USING (public.is_admin());
+
+-- Users may still edit their own profile, but only admins may change the role
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role
+    AND auth.uid() IS NOT NULL
+    AND NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can change user roles';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER protect_profile_role_trigger
+  BEFORE UPDATE OF role ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_profile_role();
+
+-- List user accounts for the admin dashboard with search and paging
+CREATE OR REPLACE FUNCTION public.get_admin_users(
+  search_term text DEFAULT NULL,
+  page_size integer DEFAULT 20,
+  page_offset integer DEFAULT 0
+)
+ RETURNS TABLE(
+   user_id uuid,
+   email text,
+   display_name text,
+   role text,
+   created_at timestamp with time zone,
+   last_sign_in_at timestamp with time zone,
+   banned_until timestamp with time zone,
+   business_count bigint,
+   is_admin boolean,
+   total_count bigint
+ )
+ LANGUAGE plpgsql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public', 'auth'
+AS $function$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Admin privileges required';
+  END IF;
+
+  RETURN QUERY
+  SELECT au.id::uuid,
+         au.email::text,
+         p.display_name::text,
+         p.role::text,
+         au.created_at,
+         au.last_sign_in_at,
+         au.banned_until,
+         (SELECT COUNT(*) FROM public.businesses b WHERE b.owner_id = au.id),
+         EXISTS (SELECT 1 FROM public.admin_users adm WHERE adm.user_id = au.id),
+         COUNT(*) OVER ()
+  FROM auth.users au
+  LEFT JOIN public.profiles p ON p.user_id = au.id
+  WHERE search_term IS NULL
+    OR trim(search_term) = ''
+    OR au.email ILIKE '%' || trim(search_term) || '%'
+    OR p.display_name ILIKE '%' || trim(search_term) || '%'
+  ORDER BY au.created_at DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100)
+  OFFSET GREATEST(page_offset, 0);
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_admin_users(text, integer, integer) TO authenticated;
+
+-- Change a user's profile role
+CREATE OR REPLACE FUNCTION public.admin_set_user_role(target_user_id uuid, new_role text)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  previous_role text;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Admin privileges required';
+  END IF;
+
+  IF new_role NOT IN ('user', 'business_owner') THEN
+    RAISE EXCEPTION 'Invalid role: %', new_role;
+  END IF;
+
+  SELECT role INTO previous_role FROM public.profiles WHERE user_id = target_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User profile not found';
+  END IF;
+
+  IF previous_role IS NOT DISTINCT FROM new_role THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.profiles
+  SET role = new_role,
+      updated_at = now()
+  WHERE user_id = target_user_id;
+
+  INSERT INTO public.user_management_actions (target_user_id, admin_id, action, details)
+  VALUES (
+    target_user_id,
+    auth.uid(),
+    'role_changed',
+    jsonb_build_object('previous_role', previous_role, 'new_role', new_role)
+  );
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.admin_set_user_role(uuid, text) TO authenticated;
+
+-- End every session of a user; access tokens already issued stay valid until they expire
+CREATE OR REPLACE FUNCTION public.admin_sign_out_user(target_user_id uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public', 'auth'
+AS $function$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Admin privileges required';
+  END IF;
+
+  DELETE FROM auth.sessions WHERE user_id = target_user_id;
+  UPDATE auth.refresh_tokens SET revoked = true WHERE user_id = target_user_id::text;
+
+  INSERT INTO public.user_management_actions (target_user_id, admin_id, action)
+  VALUES (target_user_id, auth.uid(), 'signed_out');
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.admin_sign_out_user(uuid) TO authenticated;
+
+-- Suspend (ban) or reinstate an account; suspending also ends its sessions
+CREATE OR REPLACE FUNCTION public.admin_set_user_suspension(
+  target_user_id uuid,
+  suspend boolean,
+  reason text DEFAULT NULL
+)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public', 'auth'
+AS $function$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Admin privileges required';
+  END IF;
+
+  IF target_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot suspend your own account';
+  END IF;
+
+  IF suspend AND public.is_admin(target_user_id) THEN
+    RAISE EXCEPTION 'Admin accounts cannot be suspended';
+  END IF;
+
+  UPDATE auth.users
+  SET banned_until = CASE WHEN suspend THEN now() + interval '100 years' ELSE NULL END,
+      updated_at = now()
+  WHERE id = target_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  IF suspend THEN
+    DELETE FROM auth.sessions WHERE user_id = target_user_id;
+    UPDATE auth.refresh_tokens SET revoked = true WHERE user_id = target_user_id::text;
+  END IF;
+
+  INSERT INTO public.user_management_actions (target_user_id, admin_id, action, details)
+  VALUES (
+    target_user_id,
+    auth.uid(),
+    CASE WHEN suspend THEN 'suspended' ELSE 'unsuspended' END,
+    CASE WHEN reason IS NULL THEN '{}'::jsonb ELSE jsonb_build_object('reason', reason) END
+  );
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.admin_set_user_suspension(uuid, boolean, text) TO authenticated;
@@ -0,0 +1,40 @@
+-- Allow admins to edit any listing, including ones owned by other users
+CREATE POLICY "Admins can update any business"
+ON public.businesses
+FOR UPDATE
+USING (public.is_admin())
+WITH CHECK (public.is_admin());
+
+-- Only default the listing expiry on insert so admin edits to the date are kept
+CREATE OR REPLACE FUNCTION public.set_listing_expired_date()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.listing_expired_date IS NULL THEN
+    NEW.listing_expired_date = (NEW.created_at + INTERVAL '365 days')::DATE;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Keep an explicitly set Odoo expiry instead of resetting it when POS+Website is switched on
+CREATE OR REPLACE FUNCTION public.set_odoo_expired_date()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW."POS+Website" = 1 AND (TG_OP = 'INSERT' OR OLD."POS+Website" IS NULL OR OLD."POS+Website" != 1) THEN
+    IF TG_OP = 'INSERT' OR NEW.odoo_expired_date IS NOT DISTINCT FROM OLD.odoo_expired_date THEN
+      NEW.odoo_expired_date = NEW.created_at + INTERVAL '7 days';
+    END IF;
+  ELSIF NEW."POS+Website" != 1 THEN
+    NEW.odoo_expired_date = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,276 @@
+-- Create payments ledger so every receipt and review is kept instead of overwriting businesses columns
+CREATE TABLE public.payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  business_id UUID NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  payer_id UUID NOT NULL REFERENCES auth.users(id),
+  amount NUMERIC(10, 2),
+  currency TEXT NOT NULL DEFAULT 'USD',
+  method TEXT NOT NULL DEFAULT 'bank_transfer',
+  receipt_path TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  reviewed_by UUID REFERENCES auth.users(id),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  CONSTRAINT check_payment_amount CHECK (amount IS NULL OR amount >= 0),
+  CONSTRAINT check_payment_method CHECK (method IN ('bank_transfer', 'stripe')),
+  CONSTRAINT check_payment_ledger_status CHECK (status IN ('pending', 'confirmed', 'cancelled'))
+);
+
+CREATE INDEX idx_payments_business_created_at ON public.payments (business_id, created_at DESC);
+CREATE INDEX idx_payments_status_created_at ON public.payments (status, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view payments for their businesses"
+ON public.payments
+FOR SELECT
+USING (
+  auth.uid() = payer_id
+  OR EXISTS (SELECT 1 FROM public.businesses b WHERE b.id = business_id AND b.owner_id = auth.uid())
+);
+
+CREATE POLICY "Owners can submit payments for their businesses"
+ON public.payments
+FOR INSERT
+WITH CHECK (
+  auth.uid() = payer_id
+  AND status = 'pending'
+  AND reviewed_by IS NULL
+  AND EXISTS (SELECT 1 FROM public.businesses b WHERE b.id = business_id AND b.owner_id = auth.uid())
+);
+
+CREATE POLICY "Admins can view all payments"
+ON public.payments
+FOR SELECT
+USING (public.is_admin());
+
+-- Admins record payments taken while onboarding a shop on the owner's behalf
+CREATE POLICY "Admins can record payments"
+ON public.payments
+FOR INSERT
+WITH CHECK (public.is_admin() AND status = 'pending');
+
+CREATE TRIGGER update_payments_updated_at
+  BEFORE UPDATE ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Carry over receipts that are still waiting for review
+INSERT INTO public.payments (business_id, payer_id, method, receipt_path, status, created_at)
+SELECT
+  b.id,
+  b.owner_id,
+  'bank_transfer',
+  NULLIF(split_part(b.receipt_url, '/business-assets/', 2), ''),
+  'pending',
+  COALESCE(b.last_payment_date, b.created_at)
+FROM public.businesses b
+WHERE b.payment_status = 'to_be_confirmed'
+  AND b.receipt_url IS NOT NULL;
+
+-- Keep the listing's payment summary in step with the ledger and log receipt uploads
+CREATE OR REPLACE FUNCTION public.sync_business_payment_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.status = 'pending' THEN
+    UPDATE public.businesses
+    SET payment_status = 'to_be_confirmed',
+        last_payment_date = NEW.created_at
+    WHERE id = NEW.business_id;
+
+    IF TG_OP = 'INSERT' AND NEW.receipt_path IS NOT NULL THEN
+      INSERT INTO public.activity_events (event_type, actor_id, actor_name, business_id, title, description, metadata)
+      SELECT
+        'receipt_uploaded',
+        NEW.payer_id,
+        public.get_activity_actor_name(NEW.payer_id),
+        NEW.business_id,
+        'Payment receipt uploaded',
+        b.name,
+        jsonb_build_object('payment_id', NEW.id, 'amount', NEW.amount, 'currency', NEW.currency)
+      FROM public.businesses b
+      WHERE b.id = NEW.business_id;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER sync_business_payment_status_trigger
+  AFTER INSERT OR UPDATE OF status ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_business_payment_status();
+
+-- Receipt uploads are now logged from the payments ledger
+CREATE OR REPLACE FUNCTION public.log_business_activity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.activity_events (event_type, actor_id, actor_name, business_id, title, description, metadata)
+    VALUES (
+      'business_created',
+      NEW.owner_id,
+      public.get_activity_actor_name(NEW.owner_id),
+      NEW.id,
+      'New listing submitted',
+      NEW.name || COALESCE(' - ' || NEW.category, ''),
+      jsonb_build_object('category', NEW.category, 'city', NEW.city)
+    );
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.payment_status = 'confirmed'
+    AND OLD.payment_status IS DISTINCT FROM NEW.payment_status THEN
+    INSERT INTO public.activity_events (event_type, actor_id, actor_name, business_id, title, description, metadata)
+    VALUES (
+      'payment_confirmed',
+      auth.uid(),
+      public.get_activity_actor_name(auth.uid()),
+      NEW.id,
+      'Payment confirmed',
+      NEW.name,
+      jsonb_build_object('listing_expired_date', NEW.listing_expired_date)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+-- Confirm a pending payment and extend the listing it pays for
+CREATE OR REPLACE FUNCTION public.confirm_payment(payment_id uuid, review_notes text DEFAULT NULL)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  payment_record public.payments%ROWTYPE;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Admin privileges required';
+  END IF;
+
+  SELECT * INTO payment_record
+  FROM public.payments
+  WHERE id = payment_id
+  FOR UPDATE;
+
+  IF payment_record.id IS NULL THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF payment_record.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending payments can be confirmed';
+  END IF;
+
+  UPDATE public.payments
+  SET status = 'confirmed',
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      notes = COALESCE(review_notes, notes)
+  WHERE id = payment_id;
+
+  UPDATE public.businesses
+  SET payment_status = 'confirmed',
+      receipt_url = NULL,
+      last_payment_date = now(),
+      listing_expired_date = (CURRENT_DATE + INTERVAL '365 days')::DATE,
+      odoo_expired_date = CASE WHEN "POS+Website" = 1 THEN now() + INTERVAL '30 days' ELSE odoo_expired_date END
+  WHERE id = payment_record.business_id;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.confirm_payment(uuid, text) TO authenticated;
+
+-- Dashboard metrics now count confirmed payments and revenue from the ledger
+DROP FUNCTION IF EXISTS public.get_admin_dashboard_metrics(integer);
+
+CREATE OR REPLACE FUNCTION public.get_admin_dashboard_metrics(period_days integer DEFAULT 30)
+ RETURNS TABLE(
+  total_listings bigint,
+  active_listings bigint,
+  pending_listings bigint,
+  new_listings bigint,
+  previous_new_listings bigint,
+  total_users bigint,
+  new_users bigint,
+  previous_new_users bigint,
+  total_bookmarks bigint,
+  total_reviews bigint,
+  new_reviews bigint,
+  previous_new_reviews bigint,
+  average_rating numeric,
+  confirmed_payments bigint,
+  previous_confirmed_payments bigint,
+  revenue numeric,
+  previous_revenue numeric
+ )
+ LANGUAGE plpgsql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  period_start timestamptz;
+  previous_start timestamptz;
+BEGIN
+  -- Only admins may read platform-wide metrics
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Admin privileges required';
+  END IF;
+
+  IF period_days NOT IN (7, 30, 90) THEN
+    RAISE EXCEPTION 'Unsupported period: % days', period_days;
+  END IF;
+
+  period_start := now() - make_interval(days => period_days);
+  previous_start := now() - make_interval(days => period_days * 2);
+
+  RETURN QUERY
+  SELECT
+    (SELECT COUNT(*) FROM public.businesses),
+    (SELECT COUNT(*) FROM public.businesses b
+      WHERE b.payment_status = 'confirmed'
+        AND (b.listing_expired_date IS NULL OR b.listing_expired_date >= CURRENT_DATE)),
+    (SELECT COUNT(*) FROM public.businesses b WHERE b.payment_status = 'to_be_confirmed'),
+    (SELECT COUNT(*) FROM public.businesses b WHERE b.created_at >= period_start),
+    (SELECT COUNT(*) FROM public.businesses b
+      WHERE b.created_at >= previous_start AND b.created_at < period_start),
+    (SELECT COUNT(*) FROM public.profiles),
+    (SELECT COUNT(*) FROM public.profiles p WHERE p.created_at >= period_start),
+    (SELECT COUNT(*) FROM public.profiles p
+      WHERE p.created_at >= previous_start AND p.created_at < period_start),
+    (SELECT COUNT(*) FROM public.bookmarks),
+    (SELECT COUNT(*) FROM public.business_reviews),
+    (SELECT COUNT(*) FROM public.business_reviews r WHERE r.created_at >= period_start),
+    (SELECT COUNT(*) FROM public.business_reviews r
+      WHERE r.created_at >= previous_start AND r.created_at < period_start),
+    (SELECT ROUND(COALESCE(AVG(r.rating), 0), 1) FROM public.business_reviews r),
+    (SELECT COUNT(*) FROM public.payments pm
+      WHERE pm.status = 'confirmed' AND pm.reviewed_at >= period_start),
+    (SELECT COUNT(*) FROM public.payments pm
+      WHERE pm.status = 'confirmed'
+        AND pm.reviewed_at >= previous_start AND pm.reviewed_at < period_start),
+    (SELECT COALESCE(SUM(pm.amount), 0) FROM public.payments pm
+      WHERE pm.status = 'confirmed' AND pm.reviewed_at >= period_start),
+    (SELECT COALESCE(SUM(pm.amount), 0) FROM public.payments pm
+      WHERE pm.status = 'confirmed'
+        AND pm.reviewed_at >= previous_start AND pm.reviewed_at < period_start);
+END;
+$function$;
+
+-- Ensure RPC is callable by signed-in users (admin check happens inside)
+GRANT EXECUTE ON FUNCTION public.get_admin_dashboard_metrics(integer) TO authenticated;
@@ -0,0 +1,79 @@
+-- Allow payments and listings to be marked as rejected
+ALTER TABLE public.payments DROP CONSTRAINT check_payment_ledger_status;
+ALTER TABLE public.payments
+ADD CONSTRAINT check_payment_ledger_status
+CHECK (status IN ('pending', 'confirmed', 'rejected', 'cancelled'));
+
+ALTER TABLE public.businesses DROP CONSTRAINT check_payment_status;
+ALTER TABLE public.businesses
+ADD CONSTRAINT check_payment_status
+CHECK (payment_status IN ('to_be_confirmed', 'confirmed', 'rejected', 'cancelled'));
+
+ALTER TABLE public.activity_events DROP CONSTRAINT check_activity_event_type;
+ALTER TABLE public.activity_events
+ADD CONSTRAINT check_activity_event_type CHECK (event_type IN (
+  'business_created',
+  'receipt_uploaded',
+  'payment_confirmed',
+  'payment_rejected',
+  'review_posted',
+  'user_signed_up'
+));
+
+-- Reject a pending payment with a reason the owner will see on their dashboard
+CREATE OR REPLACE FUNCTION public.reject_payment(payment_id uuid, reason text)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  payment_record public.payments%ROWTYPE;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Admin privileges required';
+  END IF;
+
+  IF reason IS NULL OR trim(reason) = '' THEN
+    RAISE EXCEPTION 'A rejection reason is required';
+  END IF;
+
+  SELECT * INTO payment_record
+  FROM public.payments
+  WHERE id = payment_id
+  FOR UPDATE;
+
+  IF payment_record.id IS NULL THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF payment_record.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending payments can be rejected';
+  END IF;
+
+  UPDATE public.payments
+  SET status = 'rejected',
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      notes = trim(reason)
+  WHERE id = payment_id;
+
+  UPDATE public.businesses
+  SET payment_status = 'rejected'
+  WHERE id = payment_record.business_id;
+
+  INSERT INTO public.activity_events (event_type, actor_id, actor_name, business_id, title, description, metadata)
+  SELECT
+    'payment_rejected',
+    auth.uid(),
+    public.get_activity_actor_name(auth.uid()),
+    b.id,
+    'Payment receipt rejected',
+    b.name,
+    jsonb_build_object('payment_id', payment_id, 'reason', trim(reason))
+  FROM public.businesses b
+  WHERE b.id = payment_record.business_id;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.reject_payment(uuid, text) TO authenticated;
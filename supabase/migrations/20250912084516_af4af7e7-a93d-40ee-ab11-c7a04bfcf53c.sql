@@ -0,0 +1,151 @@
+-- Track Stripe Checkout sessions on the payments ledger
+ALTER TABLE public.payments
+ADD COLUMN stripe_session_id TEXT UNIQUE,
+ADD COLUMN stripe_payment_intent_id TEXT;
+
+-- Shared renewal rules for a confirmed payment, used by admin review and the Stripe webhook
+CREATE OR REPLACE FUNCTION public.apply_confirmed_payment(target_business_id uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE public.businesses
+  SET payment_status = 'confirmed',
+      receipt_url = NULL,
+      last_payment_date = now(),
+      listing_expired_date = (CURRENT_DATE + INTERVAL '365 days')::DATE,
+      odoo_expired_date = CASE WHEN "POS+Website" = 1 THEN now() + INTERVAL '30 days' ELSE odoo_expired_date END
+  WHERE id = target_business_id;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_confirmed_payment(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.confirm_payment(payment_id uuid, review_notes text DEFAULT NULL)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  payment_record public.payments%ROWTYPE;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Admin privileges required';
+  END IF;
+
+  SELECT * INTO payment_record
+  FROM public.payments
+  WHERE id = payment_id
+  FOR UPDATE;
+
+  IF payment_record.id IS NULL THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF payment_record.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending payments can be confirmed';
+  END IF;
+
+  UPDATE public.payments
+  SET status = 'confirmed',
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      notes = COALESCE(review_notes, notes)
+  WHERE id = payment_id;
+
+  PERFORM public.apply_confirmed_payment(payment_record.business_id);
+END;
+$function$;
+
+-- Called by the stripe-webhook edge function with the service role once Checkout reports the session as paid
+CREATE OR REPLACE FUNCTION public.complete_stripe_payment(session_id text, payment_intent_id text DEFAULT NULL)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  payment_record public.payments%ROWTYPE;
+BEGIN
+  SELECT * INTO payment_record
+  FROM public.payments
+  WHERE stripe_session_id = session_id
+  FOR UPDATE;
+
+  IF payment_record.id IS NULL THEN
+    RAISE EXCEPTION 'No payment found for checkout session %', session_id;
+  END IF;
+
+  -- Stripe retries webhooks, so a repeat delivery is a no-op
+  IF payment_record.status = 'confirmed' THEN
+    RETURN payment_record.id;
+  END IF;
+
+  UPDATE public.payments
+  SET status = 'confirmed',
+      stripe_payment_intent_id = COALESCE(payment_intent_id, stripe_payment_intent_id),
+      reviewed_at = now()
+  WHERE id = payment_record.id;
+
+  PERFORM public.apply_confirmed_payment(payment_record.business_id);
+
+  RETURN payment_record.id;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_stripe_payment(text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_stripe_payment(text, text) TO service_role;
+
+-- Checkout sessions that expire unpaid are closed out on the ledger
+CREATE OR REPLACE FUNCTION public.cancel_stripe_payment(session_id text)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE public.payments
+  SET status = 'cancelled'
+  WHERE stripe_session_id = session_id
+    AND status = 'pending';
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_stripe_payment(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_stripe_payment(text) TO service_role;
+
+-- Open Stripe sessions are settled by the webhook, so only bank receipts put a listing into the review queue
+CREATE OR REPLACE FUNCTION public.sync_business_payment_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.status = 'pending' AND NEW.method = 'bank_transfer' THEN
+    UPDATE public.businesses
+    SET payment_status = 'to_be_confirmed',
+        last_payment_date = NEW.created_at
+    WHERE id = NEW.business_id;
+
+    IF TG_OP = 'INSERT' AND NEW.receipt_path IS NOT NULL THEN
+      INSERT INTO public.activity_events (event_type, actor_id, actor_name, business_id, title, description, metadata)
+      SELECT
+        'receipt_uploaded',
+        NEW.payer_id,
+        public.get_activity_actor_name(NEW.payer_id),
+        NEW.business_id,
+        'Payment receipt uploaded',
+        b.name,
+        jsonb_build_object('payment_id', NEW.id, 'amount', NEW.amount, 'currency', NEW.currency)
+      FROM public.businesses b
+      WHERE b.id = NEW.business_id;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
@@ -0,0 +1,235 @@
+-- Let listings lapse into an expired state once their paid year runs out
+ALTER TABLE public.businesses DROP CONSTRAINT check_payment_status;
+ALTER TABLE public.businesses
+ADD CONSTRAINT check_payment_status
+CHECK (payment_status IN ('to_be_confirmed', 'confirmed', 'rejected', 'expired', 'cancelled'));
+
+-- Track the POS/Online Shop subscription separately from the listing itself
+ALTER TABLE public.businesses
+ADD COLUMN odoo_status TEXT NOT NULL DEFAULT 'active';
+
+ALTER TABLE public.businesses
+ADD CONSTRAINT check_odoo_status CHECK (odoo_status IN ('active', 'expired'));
+
+-- Reminder emails queued by the process-expiring-listings job
+CREATE TABLE public.expiry_reminders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  business_id UUID NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  subscription TEXT NOT NULL,
+  days_before INTEGER NOT NULL,
+  expires_on DATE NOT NULL,
+  recipient_email TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued',
+  error TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  CONSTRAINT check_expiry_reminder_subscription CHECK (subscription IN ('listing', 'odoo')),
+  -- 0 is the notice sent once the subscription has lapsed
+  CONSTRAINT check_expiry_reminder_days_before CHECK (days_before IN (7, 3, 1, 0)),
+  CONSTRAINT check_expiry_reminder_status CHECK (status IN ('queued', 'sent', 'failed')),
+  -- One reminder per step, so reruns of the job never email twice
+  CONSTRAINT expiry_reminders_unique_step UNIQUE (business_id, subscription, days_before, expires_on)
+);
+
+CREATE INDEX idx_expiry_reminders_status_created_at ON public.expiry_reminders (status, created_at);
+
+ALTER TABLE public.expiry_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view reminders for their businesses"
+ON public.expiry_reminders
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.businesses b WHERE b.id = business_id AND b.owner_id = auth.uid()));
+
+CREATE POLICY "Admins can view all expiry reminders"
+ON public.expiry_reminders
+FOR SELECT
+USING (public.is_admin());
+
+-- Renewing a payment reactivates the POS subscription along with the listing
+CREATE OR REPLACE FUNCTION public.apply_confirmed_payment(target_business_id uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE public.businesses
+  SET payment_status = 'confirmed',
+      receipt_url = NULL,
+      last_payment_date = now(),
+      listing_expired_date = (CURRENT_DATE + INTERVAL '365 days')::DATE,
+      odoo_expired_date = CASE WHEN "POS+Website" = 1 THEN now() + INTERVAL '30 days' ELSE odoo_expired_date END,
+      odoo_status = CASE WHEN "POS+Website" = 1 THEN 'active' ELSE odoo_status END
+  WHERE id = target_business_id;
+END;
+$function$;
+
+-- Queue reminders for listings and POS subscriptions expiring in 7, 3 or 1 days
+CREATE OR REPLACE FUNCTION public.queue_expiry_reminders()
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  queued_count integer;
+BEGIN
+  WITH due AS (
+    SELECT b.id, 'listing' AS subscription, b.listing_expired_date AS expires_on,
+           COALESCE(b.user_email, u.email) AS recipient_email
+    FROM public.businesses b
+    LEFT JOIN auth.users u ON u.id = b.owner_id
+    WHERE b.payment_status = 'confirmed'
+      AND b.listing_expired_date - CURRENT_DATE IN (7, 3, 1)
+    UNION ALL
+    SELECT b.id, 'odoo', b.odoo_expired_date::DATE,
+           COALESCE(b.user_email, u.email)
+    FROM public.businesses b
+    LEFT JOIN auth.users u ON u.id = b.owner_id
+    WHERE b."POS+Website" = 1
+      AND b.odoo_status = 'active'
+      AND b.odoo_expired_date::DATE - CURRENT_DATE IN (7, 3, 1)
+  ), inserted AS (
+    INSERT INTO public.expiry_reminders (business_id, subscription, days_before, expires_on, recipient_email)
+    SELECT id, subscription, expires_on - CURRENT_DATE, expires_on, recipient_email
+    FROM due
+    WHERE recipient_email IS NOT NULL
+    ON CONFLICT ON CONSTRAINT expiry_reminders_unique_step DO NOTHING
+    RETURNING 1
+  )
+  SELECT COUNT(*) INTO queued_count FROM inserted;
+
+  RETURN queued_count;
+END;
+$function$;
+
+-- Flip lapsed listings and POS subscriptions to expired and queue a notice for each
+CREATE OR REPLACE FUNCTION public.expire_lapsed_subscriptions()
+ RETURNS TABLE(expired_listings integer, expired_odoo integer)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  listing_count integer;
+  odoo_count integer;
+BEGIN
+  WITH lapsed AS (
+    UPDATE public.businesses b
+    SET payment_status = 'expired'
+    WHERE b.payment_status = 'confirmed'
+      AND b.listing_expired_date < CURRENT_DATE
+    RETURNING b.id, b.owner_id, b.user_email, b.listing_expired_date
+  ), queued AS (
+    INSERT INTO public.expiry_reminders (business_id, subscription, days_before, expires_on, recipient_email)
+    SELECT l.id, 'listing', 0, l.listing_expired_date, COALESCE(l.user_email, u.email)
+    FROM lapsed l
+    LEFT JOIN auth.users u ON u.id = l.owner_id
+    WHERE COALESCE(l.user_email, u.email) IS NOT NULL
+    ON CONFLICT ON CONSTRAINT expiry_reminders_unique_step DO NOTHING
+  )
+  SELECT COUNT(*) INTO listing_count FROM lapsed;
+
+  WITH lapsed AS (
+    UPDATE public.businesses b
+    SET odoo_status = 'expired'
+    WHERE b."POS+Website" = 1
+      AND b.odoo_status = 'active'
+      AND b.odoo_expired_date < now()
+    RETURNING b.id, b.owner_id, b.user_email, b.odoo_expired_date
+  ), queued AS (
+    INSERT INTO public.expiry_reminders (business_id, subscription, days_before, expires_on, recipient_email)
+    SELECT l.id, 'odoo', 0, l.odoo_expired_date::DATE, COALESCE(l.user_email, u.email)
+    FROM lapsed l
+    LEFT JOIN auth.users u ON u.id = l.owner_id
+    WHERE COALESCE(l.user_email, u.email) IS NOT NULL
+    ON CONFLICT ON CONSTRAINT expiry_reminders_unique_step DO NOTHING
+  )
+  SELECT COUNT(*) INTO odoo_count FROM lapsed;
+
+  RETURN QUERY SELECT listing_count, odoo_count;
+END;
+$function$;
+
+-- Only the scheduled job may run these
+REVOKE EXECUTE ON FUNCTION public.queue_expiry_reminders() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.expire_lapsed_subscriptions() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.queue_expiry_reminders() TO service_role;
+GRANT EXECUTE ON FUNCTION public.expire_lapsed_subscriptions() TO service_role;
+
+-- Hide expired listings from the public directory
+CREATE OR REPLACE FUNCTION public.get_public_businesses(search_term text DEFAULT NULL::text, category_filter text DEFAULT NULL::text, location_filter text DEFAULT NULL::text)
+ RETURNS TABLE(id uuid, name text, description text, category text, city text, state text, rating numeric, image_url text, website text, product_images text[], business_options text[], starting_price text, license_expired_date date)
+ LANGUAGE sql
+ SET search_path TO 'public'
+AS $function$
+  SELECT b.id,
+         b.name,
+         b.description,
+         b.category,
+         b.city,
+         b.state,
+         b.rating,
+         b.image_url,
+         b.website,
+         b.product_images,
+         b.business_options,
+         b.starting_price,
+         b.license_expired_date
+  FROM public.businesses b
+  WHERE b.payment_status <> 'expired'
+  AND (
+    search_term IS NULL OR
+    b.name ILIKE '%' || search_term || '%' OR
+    b.description ILIKE '%' || search_term || '%'
+  )
+  AND (
+    category_filter IS NULL OR b.category = category_filter
+  )
+  AND (
+    location_filter IS NULL OR
+    b.city ILIKE '%' || location_filter || '%' OR
+    b.state ILIKE '%' || location_filter || '%'
+  )
+  ORDER BY b.created_at DESC, b.rating DESC
+  LIMIT 6;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.get_public_business_by_id(business_id uuid)
+ RETURNS TABLE(id uuid, name text, description text, category text, city text, state text, rating numeric, image_url text, website text)
+ LANGUAGE sql
+ SET search_path TO 'public'
+AS $function$
+  SELECT b.id,
+         b.name,
+         b.description,
+         b.category,
+         b.city,
+         b.state,
+         b.rating,
+         b.image_url,
+         b.website
+  FROM public.businesses b
+  WHERE b.id = business_id
+    AND b.payment_status <> 'expired';
+$function$;
+
+-- Run the expiry job every morning
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'process-expiring-listings',
+  '0 1 * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://mfclqtbudstlthtnhqpj.supabase.co/functions/v1/process-expiring-listings',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
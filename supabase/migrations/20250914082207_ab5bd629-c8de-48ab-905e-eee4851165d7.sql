@@ -0,0 +1,93 @@
+-- Admin access is granted only once the emailed confirmation link is opened, never by the client directly
+DROP POLICY IF EXISTS "Admins can insert their own profile" ON public.admin_users;
+
+REVOKE EXECUTE ON FUNCTION public.provision_admin_user(text) FROM PUBLIC, anon, authenticated;
+
+-- Single-use confirmation tokens emailed by the send-admin-confirmation edge function
+CREATE TABLE public.admin_signup_confirmations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  token UUID NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT (now() + INTERVAL '24 hours'),
+  confirmed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_admin_signup_confirmations_user_id ON public.admin_signup_confirmations (user_id);
+
+-- No policies: rows are only touched by the functions below
+ALTER TABLE public.admin_signup_confirmations ENABLE ROW LEVEL SECURITY;
+
+-- Issue a confirmation token for a signed-up user; returns NULL when there is nothing to confirm
+CREATE OR REPLACE FUNCTION public.create_admin_signup_confirmation(user_email text)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  target_user_id uuid;
+  new_token uuid;
+BEGIN
+  SELECT id INTO target_user_id
+  FROM auth.users
+  WHERE lower(email) = lower(trim(user_email))
+  LIMIT 1;
+
+  IF target_user_id IS NULL OR public.is_admin(target_user_id) THEN
+    RETURN NULL;
+  END IF;
+
+  -- A new link replaces any earlier one that has not been used
+  DELETE FROM public.admin_signup_confirmations
+  WHERE user_id = target_user_id
+    AND confirmed_at IS NULL;
+
+  INSERT INTO public.admin_signup_confirmations (user_id, email)
+  VALUES (target_user_id, lower(trim(user_email)))
+  RETURNING token INTO new_token;
+
+  RETURN new_token;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.create_admin_signup_confirmation(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_admin_signup_confirmation(text) TO service_role;
+
+-- Redeem a confirmation token from the emailed link and provision the admin account
+CREATE OR REPLACE FUNCTION public.confirm_admin_signup(token uuid)
+ RETURNS text
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  confirmation public.admin_signup_confirmations%ROWTYPE;
+BEGIN
+  SELECT * INTO confirmation
+  FROM public.admin_signup_confirmations c
+  WHERE c.token = confirm_admin_signup.token
+  FOR UPDATE;
+
+  IF confirmation.id IS NULL OR confirmation.confirmed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This confirmation link is invalid or has already been used';
+  END IF;
+
+  IF confirmation.expires_at < now() THEN
+    RAISE EXCEPTION 'This confirmation link has expired';
+  END IF;
+
+  UPDATE public.admin_signup_confirmations
+  SET confirmed_at = now()
+  WHERE id = confirmation.id;
+
+  INSERT INTO public.admin_users (user_id, admin_role)
+  VALUES (confirmation.user_id, 'admin')
+  ON CONFLICT (user_id) DO NOTHING;
+
+  RETURN confirmation.email;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.confirm_admin_signup(uuid) TO anon, authenticated;
@@ -0,0 +1,237 @@
+-- Helper to check super admin role for a user
+CREATE OR REPLACE FUNCTION public.is_super_admin(check_user_id uuid DEFAULT auth.uid())
+RETURNS boolean
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM public.admin_users
+    WHERE user_id = check_user_id AND admin_role = 'super_admin'
+  )
+$function$;
+
+-- Admin accounts are created by invitation only
+CREATE TABLE public.admin_invitations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  email TEXT NOT NULL,
+  admin_role TEXT NOT NULL DEFAULT 'admin',
+  token UUID NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+  invited_by UUID NOT NULL REFERENCES auth.users(id),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT (now() + INTERVAL '7 days'),
+  last_sent_at TIMESTAMP WITH TIME ZONE,
+  accepted_by UUID REFERENCES auth.users(id),
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  CONSTRAINT check_admin_invitation_role CHECK (admin_role IN ('super_admin', 'admin', 'moderator'))
+);
+
+-- Only one open invitation per address
+CREATE UNIQUE INDEX idx_admin_invitations_pending_email
+ON public.admin_invitations (lower(email))
+WHERE accepted_at IS NULL AND revoked_at IS NULL;
+
+ALTER TABLE public.admin_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins can view admin invitations"
+ON public.admin_invitations
+FOR SELECT
+USING (public.is_super_admin());
+
+-- Issue a new invitation, replacing any open one for the same address
+CREATE OR REPLACE FUNCTION public.create_admin_invitation(invite_email text, invite_role text DEFAULT 'admin')
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  new_invitation_id uuid;
+BEGIN
+  IF NOT public.is_super_admin() THEN
+    RAISE EXCEPTION 'Super admin privileges required';
+  END IF;
+
+  IF invite_email IS NULL OR trim(invite_email) = '' THEN
+    RAISE EXCEPTION 'An email address is required';
+  END IF;
+
+  IF invite_role NOT IN ('super_admin', 'admin', 'moderator') THEN
+    RAISE EXCEPTION 'Invalid admin role: %', invite_role;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM auth.users u
+    JOIN public.admin_users a ON a.user_id = u.id
+    WHERE lower(u.email) = lower(trim(invite_email))
+  ) THEN
+    RAISE EXCEPTION 'This user is already an admin';
+  END IF;
+
+  UPDATE public.admin_invitations
+  SET revoked_at = now()
+  WHERE lower(email) = lower(trim(invite_email))
+    AND accepted_at IS NULL
+    AND revoked_at IS NULL;
+
+  INSERT INTO public.admin_invitations (email, admin_role, invited_by)
+  VALUES (lower(trim(invite_email)), invite_role, auth.uid())
+  RETURNING id INTO new_invitation_id;
+
+  RETURN new_invitation_id;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.create_admin_invitation(text, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.revoke_admin_invitation(invitation_id uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NOT public.is_super_admin() THEN
+    RAISE EXCEPTION 'Super admin privileges required';
+  END IF;
+
+  UPDATE public.admin_invitations
+  SET revoked_at = now()
+  WHERE id = invitation_id
+    AND accepted_at IS NULL
+    AND revoked_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation is not pending';
+  END IF;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.revoke_admin_invitation(uuid) TO authenticated;
+
+-- Public lookup used by the signup page; only reveals open invitations for the given token
+CREATE OR REPLACE FUNCTION public.get_admin_invitation(invite_token uuid)
+ RETURNS TABLE(email text, admin_role text, expires_at timestamp with time zone)
+ LANGUAGE sql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT i.email, i.admin_role, i.expires_at
+  FROM public.admin_invitations i
+  WHERE i.token = invite_token
+    AND i.accepted_at IS NULL
+    AND i.revoked_at IS NULL
+    AND i.expires_at > now();
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_admin_invitation(uuid) TO anon, authenticated;
+
+-- Signup confirmations now redeem an invitation
+ALTER TABLE public.admin_signup_confirmations
+ADD COLUMN invitation_id UUID REFERENCES public.admin_invitations(id) ON DELETE CASCADE;
+
+-- Confirmations issued before invitations existed can no longer grant access
+DELETE FROM public.admin_signup_confirmations WHERE confirmed_at IS NULL;
+
+DROP FUNCTION IF EXISTS public.create_admin_signup_confirmation(text);
+
+CREATE OR REPLACE FUNCTION public.create_admin_signup_confirmation(user_email text, invite_token uuid)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  target_user_id uuid;
+  invitation public.admin_invitations%ROWTYPE;
+  new_token uuid;
+BEGIN
+  SELECT * INTO invitation
+  FROM public.admin_invitations i
+  WHERE i.token = invite_token
+    AND lower(i.email) = lower(trim(user_email))
+    AND i.accepted_at IS NULL
+    AND i.revoked_at IS NULL
+    AND i.expires_at > now();
+
+  IF invitation.id IS NULL THEN
+    RAISE EXCEPTION 'This invitation is invalid or has expired';
+  END IF;
+
+  SELECT id INTO target_user_id
+  FROM auth.users
+  WHERE lower(email) = lower(trim(user_email))
+  LIMIT 1;
+
+  IF target_user_id IS NULL OR public.is_admin(target_user_id) THEN
+    RETURN NULL;
+  END IF;
+
+  -- A new link replaces any earlier one that has not been used
+  DELETE FROM public.admin_signup_confirmations
+  WHERE user_id = target_user_id
+    AND confirmed_at IS NULL;
+
+  INSERT INTO public.admin_signup_confirmations (user_id, email, invitation_id)
+  VALUES (target_user_id, lower(trim(user_email)), invitation.id)
+  RETURNING token INTO new_token;
+
+  RETURN new_token;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.create_admin_signup_confirmation(text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_admin_signup_confirmation(text, uuid) TO service_role;
+
+-- Provision the invited role and close the invitation when the emailed link is opened
+CREATE OR REPLACE FUNCTION public.confirm_admin_signup(token uuid)
+ RETURNS text
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  confirmation public.admin_signup_confirmations%ROWTYPE;
+  invitation public.admin_invitations%ROWTYPE;
+BEGIN
+  SELECT * INTO confirmation
+  FROM public.admin_signup_confirmations c
+  WHERE c.token = confirm_admin_signup.token
+  FOR UPDATE;
+
+  IF confirmation.id IS NULL OR confirmation.confirmed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This confirmation link is invalid or has already been used';
+  END IF;
+
+  IF confirmation.expires_at < now() THEN
+    RAISE EXCEPTION 'This confirmation link has expired';
+  END IF;
+
+  SELECT * INTO invitation
+  FROM public.admin_invitations
+  WHERE id = confirmation.invitation_id
+  FOR UPDATE;
+
+  -- The invitation may have been revoked after the confirmation email went out
+  IF invitation.id IS NULL OR invitation.revoked_at IS NOT NULL OR invitation.accepted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This invitation is no longer valid';
+  END IF;
+
+  UPDATE public.admin_signup_confirmations
+  SET confirmed_at = now()
+  WHERE id = confirmation.id;
+
+  UPDATE public.admin_invitations
+  SET accepted_at = now(),
+      accepted_by = confirmation.user_id
+  WHERE id = invitation.id;
+
+  INSERT INTO public.admin_users (user_id, admin_role)
+  VALUES (confirmation.user_id, invitation.admin_role)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  RETURN confirmation.email;
+END;
+$function$;
@@ -0,0 +1,145 @@
+-- Admins may no longer edit their own admin row (role or 2FA flag); changes go through functions
+DROP POLICY IF EXISTS "Admins can update their own profile" ON public.admin_users;
+
+-- The old placeholder accepted every code; verification now happens in the admin-two-factor edge function
+DROP FUNCTION IF EXISTS public.verify_totp_token(text, text);
+
+-- No admin ever completed enrollment against the placeholder, so start everyone from a clean state
+UPDATE public.admin_users SET two_factor_enabled = false;
+ALTER TABLE public.admin_users DROP COLUMN two_factor_secret;
+
+-- TOTP secrets and recovery code hashes, only readable by the edge function
+CREATE TABLE public.admin_two_factor (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  secret TEXT,
+  pending_secret TEXT,
+  recovery_code_hashes TEXT[] NOT NULL DEFAULT '{}',
+  -- Last accepted 30-second step, so a code cannot be replayed
+  last_used_step BIGINT,
+  enabled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.admin_two_factor ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_admin_two_factor_updated_at
+  BEFORE UPDATE ON public.admin_two_factor
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Sign-in sessions that have passed the second factor; removed with the session itself
+CREATE TABLE public.admin_two_factor_sessions (
+  session_id UUID NOT NULL PRIMARY KEY REFERENCES auth.sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  verified_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.admin_two_factor_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Platform-wide admin security settings (single row)
+CREATE TABLE public.admin_security_settings (
+  id BOOLEAN NOT NULL PRIMARY KEY DEFAULT true,
+  require_two_factor BOOLEAN NOT NULL DEFAULT false,
+  updated_by UUID REFERENCES auth.users(id),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  CONSTRAINT admin_security_settings_single_row CHECK (id)
+);
+
+INSERT INTO public.admin_security_settings (id) VALUES (true);
+
+ALTER TABLE public.admin_security_settings ENABLE ROW LEVEL SECURITY;
+
+-- Whether an admin must pass the second factor: they enrolled, or a super admin enforces it for everyone
+CREATE OR REPLACE FUNCTION public.admin_requires_two_factor(check_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT COALESCE((SELECT a.two_factor_enabled FROM public.admin_users a WHERE a.user_id = check_user_id), false)
+    OR COALESCE((SELECT s.require_two_factor FROM public.admin_security_settings s), false)
+$function$;
+
+-- Admin checks for the signed-in user now also require a second-factor verified session when 2FA applies
+CREATE OR REPLACE FUNCTION public.is_admin(check_user_id uuid DEFAULT auth.uid())
+RETURNS boolean
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT EXISTS (SELECT 1 FROM public.admin_users WHERE user_id = check_user_id)
+    AND (
+      check_user_id IS DISTINCT FROM auth.uid()
+      OR NOT public.admin_requires_two_factor(check_user_id)
+      OR EXISTS (
+        SELECT 1 FROM public.admin_two_factor_sessions s
+        WHERE s.user_id = check_user_id
+          AND s.session_id::text = auth.jwt() ->> 'session_id'
+      )
+    )
+$function$;
+
+CREATE OR REPLACE FUNCTION public.is_super_admin(check_user_id uuid DEFAULT auth.uid())
+RETURNS boolean
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT public.is_admin(check_user_id)
+    AND EXISTS (
+      SELECT 1 FROM public.admin_users
+      WHERE user_id = check_user_id AND admin_role = 'super_admin'
+    )
+$function$;
+
+-- Second-factor state for the signed-in admin, used to pause login until a code is entered
+CREATE OR REPLACE FUNCTION public.get_admin_two_factor_status()
+ RETURNS TABLE(enabled boolean, enforced boolean, verified boolean)
+ LANGUAGE sql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT
+    COALESCE(a.two_factor_enabled, false),
+    COALESCE((SELECT s.require_two_factor FROM public.admin_security_settings s), false),
+    EXISTS (
+      SELECT 1 FROM public.admin_two_factor_sessions t
+      WHERE t.user_id = a.user_id
+        AND t.session_id::text = auth.jwt() ->> 'session_id'
+    )
+  FROM public.admin_users a
+  WHERE a.user_id = auth.uid();
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_admin_two_factor_status() TO authenticated;
+
+-- Super admins can require 2FA for every admin, but only once they use it themselves
+CREATE OR REPLACE FUNCTION public.set_admin_two_factor_enforcement(enforce boolean)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NOT public.is_super_admin() THEN
+    RAISE EXCEPTION 'Super admin privileges required';
+  END IF;
+
+  IF enforce AND NOT EXISTS (
+    SELECT 1 FROM public.admin_users
+    WHERE user_id = auth.uid() AND two_factor_enabled
+  ) THEN
+    RAISE EXCEPTION 'Enable two-factor authentication on your own account before enforcing it';
+  END IF;
+
+  UPDATE public.admin_security_settings
+  SET require_two_factor = enforce,
+      updated_by = auth.uid(),
+      updated_at = now()
+  WHERE id;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.set_admin_two_factor_enforcement(boolean) TO authenticated;
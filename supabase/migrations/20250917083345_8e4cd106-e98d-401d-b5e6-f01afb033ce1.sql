@@ -0,0 +1,554 @@
+-- Admin roles grant a fixed set of permissions; every admin policy and RPC now checks a permission instead of bare admin status
+CREATE TABLE public.admin_role_permissions (
+  admin_role TEXT NOT NULL,
+  permission TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  PRIMARY KEY (admin_role, permission),
+  CONSTRAINT check_admin_role_permission CHECK (permission IN (
+    'manage_admins',
+    'manage_users',
+    'manage_listings',
+    'view_payments',
+    'confirm_payments',
+    'moderate_reviews'
+  ))
+);
+
+INSERT INTO public.admin_role_permissions (admin_role, permission) VALUES
+  ('super_admin', 'manage_admins'),
+  ('super_admin', 'manage_users'),
+  ('super_admin', 'manage_listings'),
+  ('super_admin', 'view_payments'),
+  ('super_admin', 'confirm_payments'),
+  ('super_admin', 'moderate_reviews'),
+  ('admin', 'manage_listings'),
+  ('admin', 'view_payments'),
+  ('moderator', 'moderate_reviews'),
+  ('finance', 'view_payments'),
+  ('finance', 'confirm_payments'),
+  ('support', 'manage_users'),
+  ('support', 'view_payments');
+
+ALTER TABLE public.admin_role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view the permission matrix"
+ON public.admin_role_permissions
+FOR SELECT
+USING (public.is_admin());
+
+-- New roles for payment review and user support
+ALTER TABLE public.admin_users
+ADD CONSTRAINT check_admin_users_role CHECK (admin_role IN ('super_admin', 'admin', 'moderator', 'finance', 'support'));
+
+ALTER TABLE public.admin_invitations DROP CONSTRAINT check_admin_invitation_role;
+ALTER TABLE public.admin_invitations
+ADD CONSTRAINT check_admin_invitation_role CHECK (admin_role IN ('super_admin', 'admin', 'moderator', 'finance', 'support'));
+
+-- Whether a (second-factor verified) admin's role grants the given permission
+CREATE OR REPLACE FUNCTION public.has_admin_permission(required_permission text, check_user_id uuid DEFAULT auth.uid())
+RETURNS boolean
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT public.is_admin(check_user_id)
+    AND EXISTS (
+      SELECT 1
+      FROM public.admin_users a
+      JOIN public.admin_role_permissions p ON p.admin_role = a.admin_role
+      WHERE a.user_id = check_user_id
+        AND p.permission = required_permission
+    )
+$function$;
+
+-- Permissions of the signed-in admin, used by the dashboard to show only what they can do
+CREATE OR REPLACE FUNCTION public.get_admin_permissions()
+ RETURNS text[]
+ LANGUAGE sql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+  SELECT COALESCE(array_agg(p.permission ORDER BY p.permission), '{}')
+  FROM public.admin_users a
+  JOIN public.admin_role_permissions p ON p.admin_role = a.admin_role
+  WHERE a.user_id = auth.uid()
+    AND public.is_admin();
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_admin_permissions() TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_admin_invitation(invite_email text, invite_role text DEFAULT 'admin')
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  new_invitation_id uuid;
+BEGIN
+  IF NOT public.is_super_admin() THEN
+    RAISE EXCEPTION 'Super admin privileges required';
+  END IF;
+
+  IF invite_email IS NULL OR trim(invite_email) = '' THEN
+    RAISE EXCEPTION 'An email address is required';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.admin_role_permissions WHERE admin_role = invite_role) THEN
+    RAISE EXCEPTION 'Invalid admin role: %', invite_role;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM auth.users u
+    JOIN public.admin_users a ON a.user_id = u.id
+    WHERE lower(u.email) = lower(trim(invite_email))
+  ) THEN
+    RAISE EXCEPTION 'This user is already an admin';
+  END IF;
+
+  UPDATE public.admin_invitations
+  SET revoked_at = now()
+  WHERE lower(email) = lower(trim(invite_email))
+    AND accepted_at IS NULL
+    AND revoked_at IS NULL;
+
+  INSERT INTO public.admin_invitations (email, admin_role, invited_by)
+  VALUES (lower(trim(invite_email)), invite_role, auth.uid())
+  RETURNING id INTO new_invitation_id;
+
+  RETURN new_invitation_id;
+END;
+$function$;
+
+-- Listings: create, edit, delete and hand over to owners
+DROP POLICY IF EXISTS "Admins can create businesses for any owner" ON public.businesses;
+CREATE POLICY "Admins can create businesses for any owner"
+ON public.businesses
+FOR INSERT
+WITH CHECK (public.has_admin_permission('manage_listings'));
+
+DROP POLICY IF EXISTS "Admins can update any business" ON public.businesses;
+CREATE POLICY "Admins can update any business"
+ON public.businesses
+FOR UPDATE
+USING (public.has_admin_permission('manage_listings'))
+WITH CHECK (public.has_admin_permission('manage_listings'));
+
+CREATE POLICY "Admins can delete any business"
+ON public.businesses
+FOR DELETE
+USING (public.has_admin_permission('manage_listings'));
+
+DROP POLICY IF EXISTS "Admins can view business claims" ON public.business_claims;
+CREATE POLICY "Admins can view business claims"
+ON public.business_claims
+FOR SELECT
+USING (public.has_admin_permission('manage_listings'));
+
+DROP POLICY IF EXISTS "Admins can create business claims" ON public.business_claims;
+CREATE POLICY "Admins can create business claims"
+ON public.business_claims
+FOR INSERT
+WITH CHECK (public.has_admin_permission('manage_listings') AND created_by = auth.uid());
+
+DROP POLICY IF EXISTS "Admins can delete business claims" ON public.business_claims;
+CREATE POLICY "Admins can delete business claims"
+ON public.business_claims
+FOR DELETE
+USING (public.has_admin_permission('manage_listings'));
+
+CREATE OR REPLACE FUNCTION public.find_user_by_email(search_email text)
+ RETURNS TABLE(user_id uuid, email text, display_name text)
+ LANGUAGE plpgsql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public', 'auth'
+AS $function$
+BEGIN
+  IF NOT public.has_admin_permission('manage_listings') THEN
+    RAISE EXCEPTION 'You do not have permission to manage listings';
+  END IF;
+
+  RETURN QUERY
+  SELECT au.id::uuid,
+         au.email::text,
+         p.display_name::text
+  FROM auth.users au
+  LEFT JOIN public.profiles p ON p.user_id = au.id
+  WHERE lower(au.email) = lower(trim(search_email))
+  LIMIT 1;
+END;
+$function$;
+
+-- Payments: viewing the ledger is broader than confirming or rejecting receipts
+DROP POLICY IF EXISTS "Admins can view all payments" ON public.payments;
+CREATE POLICY "Admins can view all payments"
+ON public.payments
+FOR SELECT
+USING (public.has_admin_permission('view_payments'));
+
+-- Recording a payment while onboarding a shop is part of creating its listing
+DROP POLICY IF EXISTS "Admins can record payments" ON public.payments;
+CREATE POLICY "Admins can record payments"
+ON public.payments
+FOR INSERT
+WITH CHECK (public.has_admin_permission('manage_listings') AND status = 'pending');
+
+CREATE OR REPLACE FUNCTION public.confirm_payment(payment_id uuid, review_notes text DEFAULT NULL)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  payment_record public.payments%ROWTYPE;
+BEGIN
+  IF NOT public.has_admin_permission('confirm_payments') THEN
+    RAISE EXCEPTION 'You do not have permission to review payments';
+  END IF;
+
+  SELECT * INTO payment_record
+  FROM public.payments
+  WHERE id = payment_id
+  FOR UPDATE;
+
+  IF payment_record.id IS NULL THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF payment_record.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending payments can be confirmed';
+  END IF;
+
+  UPDATE public.payments
+  SET status = 'confirmed',
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      notes = COALESCE(review_notes, notes)
+  WHERE id = payment_id;
+
+  PERFORM public.apply_confirmed_payment(payment_record.business_id);
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.reject_payment(payment_id uuid, reason text)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  payment_record public.payments%ROWTYPE;
+BEGIN
+  IF NOT public.has_admin_permission('confirm_payments') THEN
+    RAISE EXCEPTION 'You do not have permission to review payments';
+  END IF;
+
+  IF reason IS NULL OR trim(reason) = '' THEN
+    RAISE EXCEPTION 'A rejection reason is required';
+  END IF;
+
+  SELECT * INTO payment_record
+  FROM public.payments
+  WHERE id = payment_id
+  FOR UPDATE;
+
+  IF payment_record.id IS NULL THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF payment_record.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending payments can be rejected';
+  END IF;
+
+  UPDATE public.payments
+  SET status = 'rejected',
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      notes = trim(reason)
+  WHERE id = payment_id;
+
+  UPDATE public.businesses
+  SET payment_status = 'rejected'
+  WHERE id = payment_record.business_id;
+
+  INSERT INTO public.activity_events (event_type, actor_id, actor_name, business_id, title, description, metadata)
+  SELECT
+    'payment_rejected',
+    auth.uid(),
+    public.get_activity_actor_name(auth.uid()),
+    b.id,
+    'Payment receipt rejected',
+    b.name,
+    jsonb_build_object('payment_id', payment_id, 'reason', trim(reason))
+  FROM public.businesses b
+  WHERE b.id = payment_record.business_id;
+END;
+$function$;
+
+-- Users: account roles, suspension and sessions
+DROP POLICY IF EXISTS "Admins can view user management actions" ON public.user_management_actions;
+CREATE POLICY "Admins can view user management actions"
+ON public.user_management_actions
+FOR SELECT
+USING (public.has_admin_permission('manage_users'));
+
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role
+    AND auth.uid() IS NOT NULL
+    AND NOT public.has_admin_permission('manage_users') THEN
+    RAISE EXCEPTION 'Only admins can change user roles';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.get_admin_users(
+  search_term text DEFAULT NULL,
+  page_size integer DEFAULT 20,
+  page_offset integer DEFAULT 0
+)
+ RETURNS TABLE(
+   user_id uuid,
+   email text,
+   display_name text,
+   role text,
+   created_at timestamp with time zone,
+   last_sign_in_at timestamp with time zone,
+   banned_until timestamp with time zone,
+   business_count bigint,
+   is_admin boolean,
+   total_count bigint
+ )
+ LANGUAGE plpgsql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public', 'auth'
+AS $function$
+BEGIN
+  IF NOT public.has_admin_permission('manage_users') THEN
+    RAISE EXCEPTION 'You do not have permission to manage users';
+  END IF;
+
+  RETURN QUERY
+  SELECT au.id::uuid,
+         au.email::text,
+         p.display_name::text,
+         p.role::text,
+         au.created_at,
+         au.last_sign_in_at,
+         au.banned_until,
+         (SELECT COUNT(*) FROM public.businesses b WHERE b.owner_id = au.id),
+         EXISTS (SELECT 1 FROM public.admin_users adm WHERE adm.user_id = au.id),
+         COUNT(*) OVER ()
+  FROM auth.users au
+  LEFT JOIN public.profiles p ON p.user_id = au.id
+  WHERE search_term IS NULL
+    OR trim(search_term) = ''
+    OR au.email ILIKE '%' || trim(search_term) || '%'
+    OR p.display_name ILIKE '%' || trim(search_term) || '%'
+  ORDER BY au.created_at DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100)
+  OFFSET GREATEST(page_offset, 0);
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.admin_set_user_role(target_user_id uuid, new_role text)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  previous_role text;
+BEGIN
+  IF NOT public.has_admin_permission('manage_users') THEN
+    RAISE EXCEPTION 'You do not have permission to manage users';
+  END IF;
+
+  IF new_role NOT IN ('user', 'business_owner') THEN
+    RAISE EXCEPTION 'Invalid role: %', new_role;
+  END IF;
+
+  SELECT role INTO previous_role FROM public.profiles WHERE user_id = target_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User profile not found';
+  END IF;
+
+  IF previous_role IS NOT DISTINCT FROM new_role THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.profiles
+  SET role = new_role,
+      updated_at = now()
+  WHERE user_id = target_user_id;
+
+  INSERT INTO public.user_management_actions (target_user_id, admin_id, action, details)
+  VALUES (
+    target_user_id,
+    auth.uid(),
+    'role_changed',
+    jsonb_build_object('previous_role', previous_role, 'new_role', new_role)
+  );
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.admin_sign_out_user(target_user_id uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public', 'auth'
+AS $function$
+BEGIN
+  IF NOT public.has_admin_permission('manage_users') THEN
+    RAISE EXCEPTION 'You do not have permission to manage users';
+  END IF;
+
+  DELETE FROM auth.sessions WHERE user_id = target_user_id;
+  UPDATE auth.refresh_tokens SET revoked = true WHERE user_id = target_user_id::text;
+
+  INSERT INTO public.user_management_actions (target_user_id, admin_id, action)
+  VALUES (target_user_id, auth.uid(), 'signed_out');
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.admin_set_user_suspension(
+  target_user_id uuid,
+  suspend boolean,
+  reason text DEFAULT NULL
+)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public', 'auth'
+AS $function$
+BEGIN
+  IF NOT public.has_admin_permission('manage_users') THEN
+    RAISE EXCEPTION 'You do not have permission to manage users';
+  END IF;
+
+  IF target_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot suspend your own account';
+  END IF;
+
+  IF suspend AND public.is_admin(target_user_id) THEN
+    RAISE EXCEPTION 'Admin accounts cannot be suspended';
+  END IF;
+
+  UPDATE auth.users
+  SET banned_until = CASE WHEN suspend THEN now() + interval '100 years' ELSE NULL END,
+      updated_at = now()
+  WHERE id = target_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  IF suspend THEN
+    DELETE FROM auth.sessions WHERE user_id = target_user_id;
+    UPDATE auth.refresh_tokens SET revoked = true WHERE user_id = target_user_id::text;
+  END IF;
+
+  INSERT INTO public.user_management_actions (target_user_id, admin_id, action, details)
+  VALUES (
+    target_user_id,
+    auth.uid(),
+    CASE WHEN suspend THEN 'suspended' ELSE 'unsuspended' END,
+    CASE WHEN reason IS NULL THEN '{}'::jsonb ELSE jsonb_build_object('reason', reason) END
+  );
+END;
+$function$;
+
+-- Reviews: moderators can hide a review without deleting it
+ALTER TABLE public.business_reviews
+ADD COLUMN hidden_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN hidden_by UUID REFERENCES auth.users(id);
+
+DROP POLICY IF EXISTS "Anyone can view reviews" ON public.business_reviews;
+CREATE POLICY "Anyone can view visible reviews"
+ON public.business_reviews
+FOR SELECT
+USING (
+  hidden_at IS NULL
+  OR auth.uid() = user_id
+  OR public.has_admin_permission('moderate_reviews')
+);
+
+-- Authors may still edit their review, but cannot unhide it themselves
+CREATE OR REPLACE FUNCTION public.protect_review_moderation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF (NEW.hidden_at IS DISTINCT FROM OLD.hidden_at OR NEW.hidden_by IS DISTINCT FROM OLD.hidden_by)
+    AND auth.uid() IS NOT NULL
+    AND NOT public.has_admin_permission('moderate_reviews') THEN
+    RAISE EXCEPTION 'Only moderators can hide or unhide reviews';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER protect_review_moderation_trigger
+  BEFORE UPDATE OF hidden_at, hidden_by ON public.business_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_review_moderation();
+
+-- Hidden reviews no longer count towards a listing's rating
+CREATE OR REPLACE FUNCTION public.update_business_rating()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.businesses 
+  SET 
+    rating = (
+      SELECT COALESCE(AVG(rating), 0.0)
+      FROM public.business_reviews 
+      WHERE business_id = COALESCE(NEW.business_id, OLD.business_id)
+        AND hidden_at IS NULL
+    ),
+    total_reviews = (
+      SELECT COUNT(*)
+      FROM public.business_reviews 
+      WHERE business_id = COALESCE(NEW.business_id, OLD.business_id)
+        AND hidden_at IS NULL
+    )
+  WHERE id = COALESCE(NEW.business_id, OLD.business_id);
+  
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.set_review_hidden(review_id uuid, hide boolean)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NOT public.has_admin_permission('moderate_reviews') THEN
+    RAISE EXCEPTION 'You do not have permission to moderate reviews';
+  END IF;
+
+  UPDATE public.business_reviews
+  SET hidden_at = CASE WHEN hide THEN now() ELSE NULL END,
+      hidden_by = CASE WHEN hide THEN auth.uid() ELSE NULL END
+  WHERE id = review_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Review not found';
+  END IF;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.set_review_hidden(uuid, boolean) TO authenticated;
@@ -0,0 +1,199 @@
+-- Append-only record of every change made by an admin account
+CREATE TABLE public.admin_audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- No foreign key, so entries outlive the accounts that made them
+  actor_id UUID NOT NULL,
+  action TEXT NOT NULL,
+  target_table TEXT NOT NULL,
+  target_id TEXT,
+  before_data JSONB,
+  after_data JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  CONSTRAINT check_admin_audit_action CHECK (action IN ('insert', 'update', 'delete'))
+);
+
+CREATE INDEX idx_admin_audit_log_created_at ON public.admin_audit_log (created_at DESC);
+CREATE INDEX idx_admin_audit_log_target ON public.admin_audit_log (target_table, target_id);
+CREATE INDEX idx_admin_audit_log_actor ON public.admin_audit_log (actor_id, created_at DESC);
+
+ALTER TABLE public.admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Reading the log is its own permission, granted to super admins
+ALTER TABLE public.admin_role_permissions DROP CONSTRAINT check_admin_role_permission;
+ALTER TABLE public.admin_role_permissions
+ADD CONSTRAINT check_admin_role_permission CHECK (permission IN (
+  'manage_admins',
+  'manage_users',
+  'manage_listings',
+  'view_payments',
+  'confirm_payments',
+  'moderate_reviews',
+  'view_audit_log'
+));
+
+INSERT INTO public.admin_role_permissions (admin_role, permission) VALUES ('super_admin', 'view_audit_log');
+
+-- No insert, update or delete policies: rows are only written by the trigger below
+CREATE POLICY "Admins can view the audit log"
+ON public.admin_audit_log
+FOR SELECT
+USING (public.has_admin_permission('view_audit_log'));
+
+-- Entries can never be edited or removed, not even by the service role
+CREATE OR REPLACE FUNCTION public.prevent_admin_audit_log_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  RAISE EXCEPTION 'The admin audit log is append-only';
+END;
+$function$;
+
+CREATE TRIGGER prevent_admin_audit_log_changes
+  BEFORE UPDATE OR DELETE ON public.admin_audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_admin_audit_log_changes();
+
+CREATE TRIGGER prevent_admin_audit_log_truncate
+  BEFORE TRUNCATE ON public.admin_audit_log
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.prevent_admin_audit_log_changes();
+
+-- Snapshot a row change made by a signed-in admin, whether through RLS or an RPC;
+-- the optional trigger argument names the key column when it is not "id"
+CREATE OR REPLACE FUNCTION public.log_admin_mutation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  before_row jsonb;
+  after_row jsonb;
+BEGIN
+  IF auth.uid() IS NULL OR NOT EXISTS (SELECT 1 FROM public.admin_users WHERE user_id = auth.uid()) THEN
+    RETURN NULL;
+  END IF;
+
+  -- Claim and invitation tokens grant access, so they are never copied into the log
+  IF TG_OP <> 'INSERT' THEN
+    before_row := to_jsonb(OLD) - ARRAY['token', 'claim_token'];
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    after_row := to_jsonb(NEW) - ARRAY['token', 'claim_token'];
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND before_row = after_row THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.admin_audit_log (actor_id, action, target_table, target_id, before_data, after_data)
+  VALUES (
+    auth.uid(),
+    lower(TG_OP),
+    TG_TABLE_NAME,
+    COALESCE(after_row, before_row) ->> COALESCE(TG_ARGV[0], 'id'),
+    before_row,
+    after_row
+  );
+
+  RETURN NULL;
+END;
+$function$;
+
+CREATE TRIGGER audit_businesses
+  AFTER INSERT OR UPDATE OR DELETE ON public.businesses
+  FOR EACH ROW EXECUTE FUNCTION public.log_admin_mutation();
+
+CREATE TRIGGER audit_payments
+  AFTER INSERT OR UPDATE OR DELETE ON public.payments
+  FOR EACH ROW EXECUTE FUNCTION public.log_admin_mutation();
+
+CREATE TRIGGER audit_business_claims
+  AFTER INSERT OR UPDATE OR DELETE ON public.business_claims
+  FOR EACH ROW EXECUTE FUNCTION public.log_admin_mutation();
+
+CREATE TRIGGER audit_business_reviews
+  AFTER INSERT OR UPDATE OR DELETE ON public.business_reviews
+  FOR EACH ROW EXECUTE FUNCTION public.log_admin_mutation();
+
+CREATE TRIGGER audit_profiles
+  AFTER INSERT OR UPDATE OR DELETE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.log_admin_mutation('user_id');
+
+-- Suspensions and forced sign-outs change auth.users, so their log rows are audited instead
+CREATE TRIGGER audit_user_management_actions
+  AFTER INSERT ON public.user_management_actions
+  FOR EACH ROW EXECUTE FUNCTION public.log_admin_mutation('target_user_id');
+
+CREATE TRIGGER audit_admin_users
+  AFTER INSERT OR UPDATE OR DELETE ON public.admin_users
+  FOR EACH ROW EXECUTE FUNCTION public.log_admin_mutation('user_id');
+
+CREATE TRIGGER audit_admin_invitations
+  AFTER INSERT OR UPDATE OR DELETE ON public.admin_invitations
+  FOR EACH ROW EXECUTE FUNCTION public.log_admin_mutation();
+
+CREATE TRIGGER audit_admin_security_settings
+  AFTER INSERT OR UPDATE OR DELETE ON public.admin_security_settings
+  FOR EACH ROW EXECUTE FUNCTION public.log_admin_mutation();
+
+-- Search and page through the log for the settings viewer and CSV export
+CREATE OR REPLACE FUNCTION public.get_admin_audit_log(
+  search_term text DEFAULT NULL,
+  table_filter text DEFAULT NULL,
+  page_size integer DEFAULT 50,
+  page_offset integer DEFAULT 0
+)
+ RETURNS TABLE(
+   id uuid,
+   created_at timestamp with time zone,
+   actor_id uuid,
+   actor_email text,
+   action text,
+   target_table text,
+   target_id text,
+   before_data jsonb,
+   after_data jsonb,
+   total_count bigint
+ )
+ LANGUAGE plpgsql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public', 'auth'
+AS $function$
+BEGIN
+  IF NOT public.has_admin_permission('view_audit_log') THEN
+    RAISE EXCEPTION 'You do not have permission to view the audit log';
+  END IF;
+
+  RETURN QUERY
+  SELECT l.id,
+         l.created_at,
+         l.actor_id,
+         au.email::text,
+         l.action,
+         l.target_table,
+         l.target_id,
+         l.before_data,
+         l.after_data,
+         COUNT(*) OVER ()
+  FROM public.admin_audit_log l
+  LEFT JOIN auth.users au ON au.id = l.actor_id
+  WHERE (table_filter IS NULL OR l.target_table = table_filter)
+    AND (
+      search_term IS NULL
+      OR trim(search_term) = ''
+      OR au.email ILIKE '%' || trim(search_term) || '%'
+      OR l.target_id ILIKE '%' || trim(search_term) || '%'
+      OR l.before_data::text ILIKE '%' || trim(search_term) || '%'
+      OR l.after_data::text ILIKE '%' || trim(search_term) || '%'
+    )
+  ORDER BY l.created_at DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 1000)
+  OFFSET GREATEST(page_offset, 0);
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_admin_audit_log(text, text, integer, integer) TO authenticated;
@@ -0,0 +1,287 @@
+-- Deleting a listing now moves it to a trash that admins can restore from until it is purged
+ALTER TABLE public.businesses
+ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN deleted_by UUID REFERENCES auth.users(id),
+ADD COLUMN deletion_reason TEXT;
+
+CREATE INDEX idx_businesses_deleted_at ON public.businesses (deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Trashed listings disappear for the public, their owners and bookmarks; only listing admins still see them
+DROP POLICY IF EXISTS "Everyone can view businesses" ON public.businesses;
+CREATE POLICY "Everyone can view businesses"
+ON public.businesses
+FOR SELECT
+USING (deleted_at IS NULL OR public.has_admin_permission('manage_listings'));
+
+DROP POLICY IF EXISTS "Users can update their own businesses" ON public.businesses;
+CREATE POLICY "Users can update their own businesses"
+ON public.businesses
+FOR UPDATE
+USING (auth.uid() = owner_id AND deleted_at IS NULL);
+
+-- Hard deletes are left to the purge job
+DROP POLICY IF EXISTS "Users can delete their own businesses" ON public.businesses;
+DROP POLICY IF EXISTS "Business owners can delete their businesses" ON public.businesses;
+DROP POLICY IF EXISTS "Admins can delete any business" ON public.businesses;
+
+-- Trash state may only change through the functions below
+CREATE OR REPLACE FUNCTION public.protect_business_deletion()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF (NEW.deleted_at IS DISTINCT FROM OLD.deleted_at
+      OR NEW.deleted_by IS DISTINCT FROM OLD.deleted_by
+      OR NEW.deletion_reason IS DISTINCT FROM OLD.deletion_reason)
+    AND auth.uid() IS NOT NULL
+    AND NOT public.has_admin_permission('manage_listings') THEN
+    RAISE EXCEPTION 'Only admins can delete or restore listings';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER protect_business_deletion_trigger
+  BEFORE UPDATE OF deleted_at, deleted_by, deletion_reason ON public.businesses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_business_deletion();
+
+-- Days a trashed listing can still be restored before the purge job removes it
+CREATE OR REPLACE FUNCTION public.business_trash_retention_days()
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $function$
+  SELECT 30
+$function$;
+
+CREATE OR REPLACE FUNCTION public.soft_delete_business(business_id uuid, reason text DEFAULT NULL)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NOT public.has_admin_permission('manage_listings') THEN
+    RAISE EXCEPTION 'You do not have permission to manage listings';
+  END IF;
+
+  UPDATE public.businesses
+  SET deleted_at = now(),
+      deleted_by = auth.uid(),
+      deletion_reason = NULLIF(trim(reason), '')
+  WHERE id = business_id
+    AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Listing not found or already deleted';
+  END IF;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.soft_delete_business(uuid, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.restore_business(business_id uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NOT public.has_admin_permission('manage_listings') THEN
+    RAISE EXCEPTION 'You do not have permission to manage listings';
+  END IF;
+
+  UPDATE public.businesses
+  SET deleted_at = NULL,
+      deleted_by = NULL,
+      deletion_reason = NULL
+  WHERE id = business_id
+    AND deleted_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Listing is not in the trash';
+  END IF;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.restore_business(uuid) TO authenticated;
+
+-- Permanently remove listings that have been in the trash longer than the retention window;
+-- reviews, bookmarks and payments go with them through their foreign keys
+CREATE OR REPLACE FUNCTION public.purge_deleted_businesses()
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  purged_count integer;
+BEGIN
+  DELETE FROM public.businesses
+  WHERE deleted_at < now() - make_interval(days => public.business_trash_retention_days());
+
+  GET DIAGNOSTICS purged_count = ROW_COUNT;
+  RETURN purged_count;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_deleted_businesses() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.purge_deleted_businesses() TO service_role;
+
+SELECT cron.schedule(
+  'purge-deleted-businesses',
+  '30 2 * * *',
+  $$SELECT public.purge_deleted_businesses()$$
+);
+
+-- Public listing functions and the expiry job skip trashed listings
+CREATE OR REPLACE FUNCTION public.get_public_businesses(search_term text DEFAULT NULL::text, category_filter text DEFAULT NULL::text, location_filter text DEFAULT NULL::text)
+ RETURNS TABLE(id uuid, name text, description text, category text, city text, state text, rating numeric, image_url text, website text, product_images text[], business_options text[], starting_price text, license_expired_date date)
+ LANGUAGE sql
+ SET search_path TO 'public'
+AS $function$
+  SELECT b.id,
+         b.name,
+         b.description,
+         b.category,
+         b.city,
+         b.state,
+         b.rating,
+         b.image_url,
+         b.website,
+         b.product_images,
+         b.business_options,
+         b.starting_price,
+         b.license_expired_date
+  FROM public.businesses b
+  WHERE b.payment_status <> 'expired'
+  AND b.deleted_at IS NULL
+  AND (
+    search_term IS NULL OR
+    b.name ILIKE '%' || search_term || '%' OR
+    b.description ILIKE '%' || search_term || '%'
+  )
+  AND (
+    category_filter IS NULL OR b.category = category_filter
+  )
+  AND (
+    location_filter IS NULL OR
+    b.city ILIKE '%' || location_filter || '%' OR
+    b.state ILIKE '%' || location_filter || '%'
+  )
+  ORDER BY b.created_at DESC, b.rating DESC
+  LIMIT 6;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.get_public_business_by_id(business_id uuid)
+ RETURNS TABLE(id uuid, name text, description text, category text, city text, state text, rating numeric, image_url text, website text)
+ LANGUAGE sql
+ SET search_path TO 'public'
+AS $function$
+  SELECT b.id,
+         b.name,
+         b.description,
+         b.category,
+         b.city,
+         b.state,
+         b.rating,
+         b.image_url,
+         b.website
+  FROM public.businesses b
+  WHERE b.id = business_id
+    AND b.payment_status <> 'expired'
+    AND b.deleted_at IS NULL;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.queue_expiry_reminders()
+ RETURNS integer
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  queued_count integer;
+BEGIN
+  WITH due AS (
+    SELECT b.id, 'listing' AS subscription, b.listing_expired_date AS expires_on,
+           COALESCE(b.user_email, u.email) AS recipient_email
+    FROM public.businesses b
+    LEFT JOIN auth.users u ON u.id = b.owner_id
+    WHERE b.payment_status = 'confirmed'
+      AND b.deleted_at IS NULL
+      AND b.listing_expired_date - CURRENT_DATE IN (7, 3, 1)
+    UNION ALL
+    SELECT b.id, 'odoo', b.odoo_expired_date::DATE,
+           COALESCE(b.user_email, u.email)
+    FROM public.businesses b
+    LEFT JOIN auth.users u ON u.id = b.owner_id
+    WHERE b."POS+Website" = 1
+      AND b.odoo_status = 'active'
+      AND b.deleted_at IS NULL
+      AND b.odoo_expired_date::DATE - CURRENT_DATE IN (7, 3, 1)
+  ), inserted AS (
+    INSERT INTO public.expiry_reminders (business_id, subscription, days_before, expires_on, recipient_email)
+    SELECT id, subscription, expires_on - CURRENT_DATE, expires_on, recipient_email
+    FROM due
+    WHERE recipient_email IS NOT NULL
+    ON CONFLICT ON CONSTRAINT expiry_reminders_unique_step DO NOTHING
+    RETURNING 1
+  )
+  SELECT COUNT(*) INTO queued_count FROM inserted;
+
+  RETURN queued_count;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.expire_lapsed_subscriptions()
+ RETURNS TABLE(expired_listings integer, expired_odoo integer)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  listing_count integer;
+  odoo_count integer;
+BEGIN
+  WITH lapsed AS (
+    UPDATE public.businesses b
+    SET payment_status = 'expired'
+    WHERE b.payment_status = 'confirmed'
+      AND b.deleted_at IS NULL
+      AND b.listing_expired_date < CURRENT_DATE
+    RETURNING b.id, b.owner_id, b.user_email, b.listing_expired_date
+  ), queued AS (
+    INSERT INTO public.expiry_reminders (business_id, subscription, days_before, expires_on, recipient_email)
+    SELECT l.id, 'listing', 0, l.listing_expired_date, COALESCE(l.user_email, u.email)
+    FROM lapsed l
+    LEFT JOIN auth.users u ON u.id = l.owner_id
+    WHERE COALESCE(l.user_email, u.email) IS NOT NULL
+    ON CONFLICT ON CONSTRAINT expiry_reminders_unique_step DO NOTHING
+  )
+  SELECT COUNT(*) INTO listing_count FROM lapsed;
+
+  WITH lapsed AS (
+    UPDATE public.businesses b
+    SET odoo_status = 'expired'
+    WHERE b."POS+Website" = 1
+      AND b.odoo_status = 'active'
+      AND b.deleted_at IS NULL
+      AND b.odoo_expired_date < now()
+    RETURNING b.id, b.owner_id, b.user_email, b.odoo_expired_date
+  ), queued AS (
+    INSERT INTO public.expiry_reminders (business_id, subscription, days_before, expires_on, recipient_email)
+    SELECT l.id, 'odoo', 0, l.odoo_expired_date::DATE, COALESCE(l.user_email, u.email)
+    FROM lapsed l
+    LEFT JOIN auth.users u ON u.id = l.owner_id
+    WHERE COALESCE(l.user_email, u.email) IS NOT NULL
+    ON CONFLICT ON CONSTRAINT expiry_reminders_unique_step DO NOTHING
+  )
+  SELECT COUNT(*) INTO odoo_count FROM lapsed;
+
+  RETURN QUERY SELECT listing_count, odoo_count;
+END;
+$function$;
@@ -0,0 +1,40 @@
+-- Listings in progress, autosaved by the listing wizard so owners can resume them later
+CREATE TABLE public.business_drafts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Form values without file inputs; uploaded media is kept as public URLs
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  current_step INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_business_drafts_owner_id ON public.business_drafts(owner_id, updated_at DESC);
+
+ALTER TABLE public.business_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own drafts"
+ON public.business_drafts
+FOR SELECT
+USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can create their own drafts"
+ON public.business_drafts
+FOR INSERT
+WITH CHECK (auth.uid() = owner_id);
+
+CREATE POLICY "Users can update their own drafts"
+ON public.business_drafts
+FOR UPDATE
+USING (auth.uid() = owner_id)
+WITH CHECK (auth.uid() = owner_id);
+
+CREATE POLICY "Users can delete their own drafts"
+ON public.business_drafts
+FOR DELETE
+USING (auth.uid() = owner_id);
+
+CREATE TRIGGER update_business_drafts_updated_at
+  BEFORE UPDATE ON public.business_drafts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
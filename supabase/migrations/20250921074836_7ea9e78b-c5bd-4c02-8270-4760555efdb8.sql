@@ -0,0 +1,71 @@
+-- Structured product catalog replacing the comma-joined businesses.products_catalog text
+CREATE TABLE public.business_products (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  business_id UUID NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  price NUMERIC(12,2),
+  currency TEXT NOT NULL DEFAULT 'USD',
+  image_url TEXT,
+  is_available BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  CONSTRAINT business_products_name_not_blank CHECK (btrim(name) <> ''),
+  CONSTRAINT business_products_price_not_negative CHECK (price IS NULL OR price >= 0),
+  CONSTRAINT business_products_currency_code CHECK (currency ~ '^[A-Z]{3}$')
+);
+
+CREATE INDEX idx_business_products_business_id ON public.business_products(business_id, sort_order);
+
+ALTER TABLE public.business_products ENABLE ROW LEVEL SECURITY;
+
+-- Products follow their listing: the businesses policies already hide deleted listings from the public
+CREATE POLICY "Anyone can view products of visible listings"
+ON public.business_products
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.businesses b WHERE b.id = business_id));
+
+CREATE POLICY "Owners can manage products of their listings"
+ON public.business_products
+FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM public.businesses b
+  WHERE b.id = business_id AND b.owner_id = auth.uid() AND b.deleted_at IS NULL
+))
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.businesses b
+  WHERE b.id = business_id AND b.owner_id = auth.uid() AND b.deleted_at IS NULL
+));
+
+CREATE POLICY "Admins can manage all products"
+ON public.business_products
+FOR ALL
+USING (public.has_admin_permission('manage_listings'))
+WITH CHECK (public.has_admin_permission('manage_listings'));
+
+CREATE TRIGGER update_business_products_updated_at
+  BEFORE UPDATE ON public.business_products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER audit_business_products
+  AFTER INSERT OR UPDATE OR DELETE ON public.business_products
+  FOR EACH ROW EXECUTE FUNCTION public.log_admin_mutation();
+
+-- Move the existing catalogs over, keeping their order; a few early rows hold a JSON array instead of a list
+INSERT INTO public.business_products (business_id, name, sort_order)
+SELECT b.id, btrim(item.name), (item.position - 1)::integer
+FROM public.businesses b
+CROSS JOIN LATERAL unnest(
+  CASE
+    WHEN b.products_catalog ~ '^\s*\[.*\]\s*$'
+      THEN ARRAY(SELECT jsonb_array_elements_text(b.products_catalog::jsonb))
+    ELSE string_to_array(b.products_catalog, ',')
+  END
+) WITH ORDINALITY AS item(name, position)
+WHERE b.products_catalog IS NOT NULL
+  AND btrim(item.name) <> '';
+
+ALTER TABLE public.businesses DROP COLUMN products_catalog;
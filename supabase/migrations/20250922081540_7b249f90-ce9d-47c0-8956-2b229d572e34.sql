@@ -0,0 +1,190 @@
+-- Admin-managed listing taxonomy: categories with subcategories, business options and per-category suggested products
+ALTER TABLE public.business_categories
+  ADD COLUMN slug TEXT,
+  ADD COLUMN icon TEXT,
+  ADD COLUMN parent_id UUID REFERENCES public.business_categories(id) ON DELETE RESTRICT,
+  ADD COLUMN sort_order INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN is_active BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+-- The listing form offered its own list; fold the seeded names into the ones listings were saved with
+UPDATE public.business_categories SET name = 'Retail Store' WHERE name = 'Retail';
+UPDATE public.business_categories SET name = 'Beauty & Salon' WHERE name = 'Beauty & Wellness';
+UPDATE public.businesses SET category = 'Retail Store' WHERE category = 'Retail';
+UPDATE public.businesses SET category = 'Beauty & Salon' WHERE category = 'Beauty & Wellness';
+
+INSERT INTO public.business_categories (name) VALUES
+  ('Service Business'),
+  ('Other')
+ON CONFLICT (name) DO NOTHING;
+
+-- Keep every category a listing already uses selectable
+INSERT INTO public.business_categories (name)
+SELECT DISTINCT btrim(category)
+FROM public.businesses
+WHERE category IS NOT NULL AND btrim(category) <> ''
+ON CONFLICT (name) DO NOTHING;
+
+UPDATE public.business_categories
+SET slug = btrim(regexp_replace(lower(name), '[^a-z0-9]+', '-', 'g'), '-');
+
+UPDATE public.business_categories c
+SET sort_order = ordered.position
+FROM (
+  SELECT id, (row_number() OVER (ORDER BY name = 'Other', name))::integer AS position
+  FROM public.business_categories
+) ordered
+WHERE ordered.id = c.id;
+
+UPDATE public.business_categories SET icon = 'utensils' WHERE name = 'Restaurant';
+UPDATE public.business_categories SET icon = 'shopping-bag' WHERE name = 'Retail Store';
+UPDATE public.business_categories SET icon = 'wrench' WHERE name = 'Service Business';
+UPDATE public.business_categories SET icon = 'heart' WHERE name = 'Healthcare';
+UPDATE public.business_categories SET icon = 'scissors' WHERE name = 'Beauty & Salon';
+UPDATE public.business_categories SET icon = 'laptop' WHERE name = 'Technology';
+UPDATE public.business_categories SET icon = 'car' WHERE name = 'Automotive';
+UPDATE public.business_categories SET icon = 'home' WHERE name = 'Real Estate';
+UPDATE public.business_categories SET icon = 'graduation-cap' WHERE name = 'Education';
+UPDATE public.business_categories SET icon = 'music' WHERE name = 'Entertainment';
+UPDATE public.business_categories SET icon = 'briefcase' WHERE name = 'Professional Services';
+
+ALTER TABLE public.business_categories
+  ALTER COLUMN slug SET NOT NULL,
+  ADD CONSTRAINT business_categories_slug_key UNIQUE (slug),
+  ADD CONSTRAINT business_categories_name_not_blank CHECK (btrim(name) <> ''),
+  ADD CONSTRAINT business_categories_slug_format CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  ADD CONSTRAINT business_categories_not_own_parent CHECK (parent_id IS DISTINCT FROM id);
+
+CREATE INDEX idx_business_categories_parent_id ON public.business_categories(parent_id, sort_order);
+
+CREATE POLICY "Admins can manage categories"
+ON public.business_categories
+FOR ALL
+USING (public.has_admin_permission('manage_listings'))
+WITH CHECK (public.has_admin_permission('manage_listings'));
+
+CREATE TRIGGER update_business_categories_updated_at
+  BEFORE UPDATE ON public.business_categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER audit_business_categories
+  AFTER INSERT OR UPDATE OR DELETE ON public.business_categories
+  FOR EACH ROW EXECUTE FUNCTION public.log_admin_mutation();
+
+-- Listings store the category by name, so renames carry over and categories in use cannot be removed
+CREATE OR REPLACE FUNCTION public.sync_business_category_name()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  listing_count integer;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    SELECT count(*) INTO listing_count FROM public.businesses WHERE category = OLD.name;
+
+    IF listing_count > 0 THEN
+      RAISE EXCEPTION 'Category "%" is used by % listing(s); deactivate it instead', OLD.name, listing_count;
+    END IF;
+
+    RETURN OLD;
+  END IF;
+
+  IF NEW.name IS DISTINCT FROM OLD.name THEN
+    UPDATE public.businesses SET category = NEW.name WHERE category = OLD.name;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.sync_business_category_name() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER sync_business_category_name_on_update
+  AFTER UPDATE OF name ON public.business_categories
+  FOR EACH ROW EXECUTE FUNCTION public.sync_business_category_name();
+
+CREATE TRIGGER sync_business_category_name_on_delete
+  BEFORE DELETE ON public.business_categories
+  FOR EACH ROW EXECUTE FUNCTION public.sync_business_category_name();
+
+-- Options a listing can advertise (delivery, payment methods, ...)
+CREATE TABLE public.business_options (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  CONSTRAINT business_options_name_not_blank CHECK (btrim(name) <> '')
+);
+
+ALTER TABLE public.business_options ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Business options are viewable by everyone"
+ON public.business_options
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage business options"
+ON public.business_options
+FOR ALL
+USING (public.has_admin_permission('manage_listings'))
+WITH CHECK (public.has_admin_permission('manage_listings'));
+
+CREATE TRIGGER update_business_options_updated_at
+  BEFORE UPDATE ON public.business_options
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER audit_business_options
+  AFTER INSERT OR UPDATE OR DELETE ON public.business_options
+  FOR EACH ROW EXECUTE FUNCTION public.log_admin_mutation();
+
+INSERT INTO public.business_options (name, sort_order) VALUES
+  ('Cash on Delivery', 0),
+  ('Pickup In-Store', 1),
+  ('Digital Payments', 2),
+  ('Next-Day Delivery', 3);
+
+-- Product names offered as one-click picks when a listing in the category builds its first catalog
+CREATE TABLE public.category_suggested_products (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  category_id UUID NOT NULL REFERENCES public.business_categories(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  CONSTRAINT category_suggested_products_name_not_blank CHECK (btrim(name) <> ''),
+  UNIQUE (category_id, name)
+);
+
+CREATE INDEX idx_category_suggested_products_category_id ON public.category_suggested_products(category_id, sort_order);
+
+ALTER TABLE public.category_suggested_products ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Suggested products are viewable by everyone"
+ON public.category_suggested_products
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage suggested products"
+ON public.category_suggested_products
+FOR ALL
+USING (public.has_admin_permission('manage_listings'))
+WITH CHECK (public.has_admin_permission('manage_listings'));
+
+CREATE TRIGGER audit_category_suggested_products
+  AFTER INSERT OR UPDATE OR DELETE ON public.category_suggested_products
+  FOR EACH ROW EXECUTE FUNCTION public.log_admin_mutation();
+
+-- The form used to suggest the same coffee shop menu for every category
+INSERT INTO public.category_suggested_products (category_id, name, sort_order)
+SELECT c.id, item.name, (item.position - 1)::integer
+FROM public.business_categories c
+CROSS JOIN unnest(ARRAY['Espresso Latte', 'Cappuccino', 'Cold Brew', 'Tea', 'Pastries', 'Sandwiches'])
+  WITH ORDINALITY AS item(name, position)
+WHERE c.name = 'Restaurant';
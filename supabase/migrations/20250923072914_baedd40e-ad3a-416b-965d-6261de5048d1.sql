@@ -0,0 +1,196 @@
+-- Ranked full-text search over listings, replacing the ilike filters built on the client
+-- Kept beside businesses so refreshing it after a catalog change doesn't bump updated_at or write audit entries
+CREATE TABLE public.business_search_documents (
+  business_id UUID NOT NULL PRIMARY KEY REFERENCES public.businesses(id) ON DELETE CASCADE,
+  document TSVECTOR NOT NULL,
+  -- Product names in catalog order, used for match snippets
+  products_text TEXT NOT NULL DEFAULT '',
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_business_search_documents_document ON public.business_search_documents USING GIN (document);
+
+-- Only read through search_businesses
+ALTER TABLE public.business_search_documents ENABLE ROW LEVEL SECURITY;
+
+-- Weights: name A, category and products B, description C, city/state D
+CREATE OR REPLACE FUNCTION public.refresh_business_search_document(target_business_id uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  INSERT INTO public.business_search_documents (business_id, document, products_text)
+  SELECT b.id,
+         setweight(to_tsvector('english', coalesce(b.name, '')), 'A')
+           || setweight(to_tsvector('english', coalesce(b.category, '')), 'B')
+           || setweight(to_tsvector('english', coalesce(p.names, '')), 'B')
+           || setweight(to_tsvector('english', coalesce(b.description, '')), 'C')
+           || setweight(to_tsvector('english', concat_ws(' ', b.city, b.state)), 'D'),
+         coalesce(p.names, '')
+  FROM public.businesses b
+  LEFT JOIN LATERAL (
+    SELECT string_agg(bp.name, ', ' ORDER BY bp.sort_order, bp.created_at) AS names
+    FROM public.business_products bp
+    WHERE bp.business_id = b.id
+  ) p ON true
+  WHERE b.id = target_business_id
+  ON CONFLICT (business_id) DO UPDATE
+    SET document = EXCLUDED.document,
+        products_text = EXCLUDED.products_text,
+        updated_at = now();
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_business_search_document(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.refresh_business_search_document_trigger()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF TG_TABLE_NAME = 'businesses' THEN
+    PERFORM public.refresh_business_search_document(NEW.id);
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM public.refresh_business_search_document(OLD.business_id);
+  END IF;
+
+  IF TG_OP <> 'DELETE' AND (TG_OP = 'INSERT' OR NEW.business_id IS DISTINCT FROM OLD.business_id) THEN
+    PERFORM public.refresh_business_search_document(NEW.business_id);
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_business_search_document_trigger() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER refresh_business_search_document
+  AFTER INSERT OR UPDATE OF name, category, description, city, state ON public.businesses
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_business_search_document_trigger();
+
+CREATE TRIGGER refresh_business_search_document
+  AFTER INSERT OR UPDATE OR DELETE ON public.business_products
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_business_search_document_trigger();
+
+SELECT public.refresh_business_search_document(id) FROM public.businesses;
+
+-- Every word matches as a prefix so results show up while a word is still being typed; punctuation is ignored
+-- instead of breaking the query. Without a search term listings are ordered by rating as before.
+CREATE OR REPLACE FUNCTION public.search_businesses(
+  search_query text DEFAULT NULL,
+  location_query text DEFAULT NULL,
+  category_names text[] DEFAULT NULL,
+  page_size integer DEFAULT 24,
+  page_offset integer DEFAULT 0
+)
+ RETURNS TABLE(
+   id uuid,
+   name text,
+   description text,
+   category text,
+   address text,
+   city text,
+   state text,
+   zip_code text,
+   phone text,
+   website text,
+   image_url text,
+   rating numeric,
+   owner_id uuid,
+   product_images text[],
+   business_options text[],
+   starting_price text,
+   license_expired_date date,
+   facebook_page text,
+   tiktok_url text,
+   created_at timestamp with time zone,
+   updated_at timestamp with time zone,
+   rank real,
+   name_highlight text,
+   snippet text,
+   total_count bigint
+ )
+ LANGUAGE plpgsql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  prefix_terms text;
+  query tsquery;
+  location_term text := NULLIF(trim(location_query), '');
+BEGIN
+  SELECT string_agg(word || ':*', ' & ')
+  INTO prefix_terms
+  FROM regexp_split_to_table(lower(coalesce(search_query, '')), '[^[:alnum:]]+') AS word
+  WHERE word <> '';
+
+  IF prefix_terms IS NOT NULL THEN
+    query := to_tsquery('english', prefix_terms);
+    -- A query made only of stop words matches nothing, so treat it like an empty search
+    IF numnode(query) = 0 THEN
+      query := NULL;
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT b.id,
+         b.name,
+         b.description,
+         b.category,
+         b.address,
+         b.city,
+         b.state,
+         b.zip_code,
+         b.phone,
+         b.website,
+         b.image_url,
+         b.rating,
+         b.owner_id,
+         b.product_images,
+         b.business_options,
+         b.starting_price,
+         b.license_expired_date,
+         b.facebook_page,
+         b.tiktok_url,
+         b.created_at,
+         b.updated_at,
+         CASE WHEN query IS NULL THEN 0::real ELSE ts_rank(d.document, query) END,
+         CASE WHEN query IS NULL THEN NULL
+           ELSE ts_headline('english', b.name, query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true')
+         END,
+         CASE WHEN query IS NULL THEN NULL
+           ELSE ts_headline(
+             'english',
+             concat_ws(' · ', NULLIF(b.description, ''), NULLIF(d.products_text, '')),
+             query,
+             'StartSel=<mark>, StopSel=</mark>, MaxWords=25, MinWords=10, MaxFragments=2'
+           )
+         END,
+         COUNT(*) OVER ()
+  FROM public.businesses b
+  LEFT JOIN public.business_search_documents d ON d.business_id = b.id
+  WHERE b.deleted_at IS NULL
+    AND b.payment_status <> 'expired'
+    AND (query IS NULL OR d.document @@ query)
+    AND (category_names IS NULL OR b.category = ANY (category_names))
+    AND (
+      location_term IS NULL
+      OR b.city ILIKE '%' || location_term || '%'
+      OR b.state ILIKE '%' || location_term || '%'
+    )
+  ORDER BY CASE WHEN query IS NULL THEN 0::real ELSE ts_rank(d.document, query) END DESC,
+           b.rating DESC NULLS LAST,
+           b.created_at DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100)
+  OFFSET GREATEST(page_offset, 0);
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.search_businesses(text, text, text[], integer, integer) TO anon, authenticated;
@@ -0,0 +1,209 @@
+-- Search modes for the home page: products match catalog items, services match listings in service
+-- categories and businesses match listing names
+ALTER TABLE public.business_categories
+  ADD COLUMN is_service BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE public.business_categories
+SET is_service = true
+WHERE name IN ('Service Business', 'Professional Services', 'Healthcare', 'Beauty & Salon', 'Automotive', 'Real Estate', 'Education');
+
+-- Turns free text into a prefix query: every word must match, punctuation is ignored. Null when nothing searchable is left.
+CREATE OR REPLACE FUNCTION public.to_prefix_tsquery(search_text text)
+ RETURNS tsquery
+ LANGUAGE plpgsql
+ IMMUTABLE
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  prefix_terms text;
+  query tsquery;
+BEGIN
+  SELECT string_agg(word || ':*', ' & ')
+  INTO prefix_terms
+  FROM regexp_split_to_table(lower(coalesce(search_text, '')), '[^[:alnum:]]+') AS word
+  WHERE word <> '';
+
+  IF prefix_terms IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  query := to_tsquery('english', prefix_terms);
+  -- A query made only of stop words matches nothing, so treat it like an empty search
+  IF numnode(query) = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN query;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.to_prefix_tsquery(text) TO anon, authenticated;
+
+-- Same search with an added switch to match listing names only
+DROP FUNCTION public.search_businesses(text, text, text[], integer, integer);
+
+CREATE OR REPLACE FUNCTION public.search_businesses(
+  search_query text DEFAULT NULL,
+  location_query text DEFAULT NULL,
+  category_names text[] DEFAULT NULL,
+  page_size integer DEFAULT 24,
+  page_offset integer DEFAULT 0,
+  name_only boolean DEFAULT false
+)
+ RETURNS TABLE(
+   id uuid,
+   name text,
+   description text,
+   category text,
+   address text,
+   city text,
+   state text,
+   zip_code text,
+   phone text,
+   website text,
+   image_url text,
+   rating numeric,
+   owner_id uuid,
+   product_images text[],
+   business_options text[],
+   starting_price text,
+   license_expired_date date,
+   facebook_page text,
+   tiktok_url text,
+   created_at timestamp with time zone,
+   updated_at timestamp with time zone,
+   rank real,
+   name_highlight text,
+   snippet text,
+   total_count bigint
+ )
+ LANGUAGE plpgsql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  query tsquery := public.to_prefix_tsquery(search_query);
+  location_term text := NULLIF(trim(location_query), '');
+BEGIN
+  RETURN QUERY
+  SELECT b.id,
+         b.name,
+         b.description,
+         b.category,
+         b.address,
+         b.city,
+         b.state,
+         b.zip_code,
+         b.phone,
+         b.website,
+         b.image_url,
+         b.rating,
+         b.owner_id,
+         b.product_images,
+         b.business_options,
+         b.starting_price,
+         b.license_expired_date,
+         b.facebook_page,
+         b.tiktok_url,
+         b.created_at,
+         b.updated_at,
+         CASE WHEN query IS NULL THEN 0::real ELSE ts_rank(d.document, query) END,
+         CASE WHEN query IS NULL THEN NULL
+           ELSE ts_headline('english', b.name, query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true')
+         END,
+         CASE WHEN query IS NULL THEN NULL
+           ELSE ts_headline(
+             'english',
+             concat_ws(' · ', NULLIF(b.description, ''), NULLIF(d.products_text, '')),
+             query,
+             'StartSel=<mark>, StopSel=</mark>, MaxWords=25, MinWords=10, MaxFragments=2'
+           )
+         END,
+         COUNT(*) OVER ()
+  FROM public.businesses b
+  LEFT JOIN public.business_search_documents d ON d.business_id = b.id
+  WHERE b.deleted_at IS NULL
+    AND b.payment_status <> 'expired'
+    AND (query IS NULL OR d.document @@ query)
+    AND (NOT name_only OR query IS NULL OR to_tsvector('english', b.name) @@ query)
+    AND (category_names IS NULL OR b.category = ANY (category_names))
+    AND (
+      location_term IS NULL
+      OR b.city ILIKE '%' || location_term || '%'
+      OR b.state ILIKE '%' || location_term || '%'
+    )
+  ORDER BY CASE WHEN query IS NULL THEN 0::real ELSE ts_rank(d.document, query) END DESC,
+           b.rating DESC NULLS LAST,
+           b.created_at DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100)
+  OFFSET GREATEST(page_offset, 0);
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.search_businesses(text, text, text[], integer, integer, boolean) TO anon, authenticated;
+
+-- Catalog items of visible listings matching the query on name or description, best match first
+CREATE OR REPLACE FUNCTION public.search_business_products(
+  search_query text,
+  page_size integer DEFAULT 24,
+  page_offset integer DEFAULT 0
+)
+ RETURNS TABLE(
+   id uuid,
+   business_id uuid,
+   name text,
+   description text,
+   price numeric,
+   currency text,
+   image_url text,
+   is_available boolean,
+   business_name text,
+   business_city text,
+   business_state text,
+   business_image_url text,
+   name_highlight text,
+   rank real,
+   total_count bigint
+ )
+ LANGUAGE plpgsql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  query tsquery := public.to_prefix_tsquery(search_query);
+BEGIN
+  IF query IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT p.id,
+         p.business_id,
+         p.name,
+         p.description,
+         p.price,
+         p.currency,
+         p.image_url,
+         p.is_available,
+         b.name,
+         b.city,
+         b.state,
+         b.image_url,
+         ts_headline('english', p.name, query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+         ts_rank(
+           setweight(to_tsvector('english', p.name), 'A') || setweight(to_tsvector('english', coalesce(p.description, '')), 'C'),
+           query
+         ),
+         COUNT(*) OVER ()
+  FROM public.business_products p
+  JOIN public.businesses b ON b.id = p.business_id
+  WHERE b.deleted_at IS NULL
+    AND b.payment_status <> 'expired'
+    AND to_tsvector('english', p.name || ' ' || coalesce(p.description, '')) @@ query
+  ORDER BY 14 DESC, p.is_available DESC, b.rating DESC NULLS LAST, p.name
+  LIMIT LEAST(GREATEST(page_size, 1), 100)
+  OFFSET GREATEST(page_offset, 0);
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.search_business_products(text, integer, integer) TO anon, authenticated;
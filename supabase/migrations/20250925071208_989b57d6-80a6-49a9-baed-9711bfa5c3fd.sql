@@ -0,0 +1,287 @@
+-- Listing coordinates for distance search, resolved by the geocode-address function or pinned by hand
+ALTER TABLE public.businesses
+  ADD COLUMN latitude DOUBLE PRECISION,
+  ADD COLUMN longitude DOUBLE PRECISION,
+  -- geocoder: an online provider, gazetteer: the offline fallback below, manual: pinned on the map
+  ADD COLUMN location_source TEXT,
+  ADD COLUMN located_at TIMESTAMP WITH TIME ZONE,
+  ADD CONSTRAINT businesses_latitude_range CHECK (latitude BETWEEN -90 AND 90),
+  ADD CONSTRAINT businesses_longitude_range CHECK (longitude BETWEEN -180 AND 180),
+  ADD CONSTRAINT businesses_coordinates_paired CHECK ((latitude IS NULL) = (longitude IS NULL)),
+  ADD CONSTRAINT businesses_location_source_check CHECK (location_source IN ('geocoder', 'gazetteer', 'manual'));
+
+CREATE INDEX idx_businesses_coordinates ON public.businesses(latitude, longitude) WHERE latitude IS NOT NULL;
+
+-- Offline gazetteer: city points, plus one centroid per state (city NULL) for anything else in that state
+CREATE TABLE public.geocoder_gazetteer (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  city TEXT,
+  state_code TEXT NOT NULL,
+  state_name TEXT NOT NULL,
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+  UNIQUE (state_code, city)
+);
+
+ALTER TABLE public.geocoder_gazetteer ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Gazetteer is viewable by everyone"
+ON public.geocoder_gazetteer
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage the gazetteer"
+ON public.geocoder_gazetteer
+FOR ALL
+USING (public.has_admin_permission('manage_listings'))
+WITH CHECK (public.has_admin_permission('manage_listings'));
+
+INSERT INTO public.geocoder_gazetteer (city, state_code, state_name, latitude, longitude) VALUES
+  (NULL, 'AL', 'Alabama', 32.806671, -86.791130),
+  (NULL, 'AK', 'Alaska', 61.370716, -152.404419),
+  (NULL, 'AZ', 'Arizona', 33.729759, -111.431221),
+  (NULL, 'AR', 'Arkansas', 34.969704, -92.373123),
+  (NULL, 'CA', 'California', 36.116203, -119.681564),
+  (NULL, 'CO', 'Colorado', 39.059811, -105.311104),
+  (NULL, 'CT', 'Connecticut', 41.597782, -72.755371),
+  (NULL, 'DE', 'Delaware', 39.318523, -75.507141),
+  (NULL, 'DC', 'District of Columbia', 38.897438, -77.026817),
+  (NULL, 'FL', 'Florida', 27.766279, -81.686783),
+  (NULL, 'GA', 'Georgia', 33.040619, -83.643074),
+  (NULL, 'HI', 'Hawaii', 21.094318, -157.498337),
+  (NULL, 'ID', 'Idaho', 44.240459, -114.478828),
+  (NULL, 'IL', 'Illinois', 40.349457, -88.986137),
+  (NULL, 'IN', 'Indiana', 39.849426, -86.258278),
+  (NULL, 'IA', 'Iowa', 42.011539, -93.210526),
+  (NULL, 'KS', 'Kansas', 38.526600, -96.726486),
+  (NULL, 'KY', 'Kentucky', 37.668140, -84.670067),
+  (NULL, 'LA', 'Louisiana', 31.169546, -91.867805),
+  (NULL, 'ME', 'Maine', 44.693947, -69.381927),
+  (NULL, 'MD', 'Maryland', 39.063946, -76.802101),
+  (NULL, 'MA', 'Massachusetts', 42.230171, -71.530106),
+  (NULL, 'MI', 'Michigan', 43.326618, -84.536095),
+  (NULL, 'MN', 'Minnesota', 45.694454, -93.900192),
+  (NULL, 'MS', 'Mississippi', 32.741646, -89.678696),
+  (NULL, 'MO', 'Missouri', 38.456085, -92.288368),
+  (NULL, 'MT', 'Montana', 46.921925, -110.454353),
+  (NULL, 'NE', 'Nebraska', 41.125370, -98.268082),
+  (NULL, 'NV', 'Nevada', 38.313515, -117.055374),
+  (NULL, 'NH', 'New Hampshire', 43.452492, -71.563896),
+  (NULL, 'NJ', 'New Jersey', 40.298904, -74.521011),
+  (NULL, 'NM', 'New Mexico', 34.840515, -106.248482),
+  (NULL, 'NY', 'New York', 42.165726, -74.948051),
+  (NULL, 'NC', 'North Carolina', 35.630066, -79.806419),
+  (NULL, 'ND', 'North Dakota', 47.528912, -99.784012),
+  (NULL, 'OH', 'Ohio', 40.388783, -82.764915),
+  (NULL, 'OK', 'Oklahoma', 35.565342, -96.928917),
+  (NULL, 'OR', 'Oregon', 44.572021, -122.070938),
+  (NULL, 'PA', 'Pennsylvania', 40.590752, -77.209755),
+  (NULL, 'RI', 'Rhode Island', 41.680893, -71.511780),
+  (NULL, 'SC', 'South Carolina', 33.856892, -80.945007),
+  (NULL, 'SD', 'South Dakota', 44.299782, -99.438828),
+  (NULL, 'TN', 'Tennessee', 35.747845, -86.692345),
+  (NULL, 'TX', 'Texas', 31.054487, -97.563461),
+  (NULL, 'UT', 'Utah', 40.150032, -111.862434),
+  (NULL, 'VT', 'Vermont', 44.045876, -72.710686),
+  (NULL, 'VA', 'Virginia', 37.769337, -78.169968),
+  (NULL, 'WA', 'Washington', 47.400902, -121.490494),
+  (NULL, 'WV', 'West Virginia', 38.491226, -80.954453),
+  (NULL, 'WI', 'Wisconsin', 44.268543, -89.616508),
+  (NULL, 'WY', 'Wyoming', 42.755966, -107.302490),
+  ('New York', 'NY', 'New York', 40.712800, -74.006000),
+  ('Brooklyn', 'NY', 'New York', 40.678200, -73.944200),
+  ('Los Angeles', 'CA', 'California', 34.052200, -118.243700),
+  ('San Diego', 'CA', 'California', 32.715700, -117.161100),
+  ('San Jose', 'CA', 'California', 37.338200, -121.886300),
+  ('San Francisco', 'CA', 'California', 37.774900, -122.419400),
+  ('Chicago', 'IL', 'Illinois', 41.878100, -87.629800),
+  ('Houston', 'TX', 'Texas', 29.760400, -95.369800),
+  ('San Antonio', 'TX', 'Texas', 29.424100, -98.493600),
+  ('Dallas', 'TX', 'Texas', 32.776700, -96.797000),
+  ('Austin', 'TX', 'Texas', 30.267200, -97.743100),
+  ('Phoenix', 'AZ', 'Arizona', 33.448400, -112.074000),
+  ('Philadelphia', 'PA', 'Pennsylvania', 39.952600, -75.165200),
+  ('Jacksonville', 'FL', 'Florida', 30.332200, -81.655700),
+  ('Miami', 'FL', 'Florida', 25.761700, -80.191800),
+  ('Columbus', 'OH', 'Ohio', 39.961200, -82.998800),
+  ('Seattle', 'WA', 'Washington', 47.606200, -122.332100),
+  ('Denver', 'CO', 'Colorado', 39.739200, -104.990300),
+  ('Washington', 'DC', 'District of Columbia', 38.907200, -77.036900),
+  ('Boston', 'MA', 'Massachusetts', 42.360100, -71.058900),
+  ('Nashville', 'TN', 'Tennessee', 36.162700, -86.781600),
+  ('Las Vegas', 'NV', 'Nevada', 36.169900, -115.139800),
+  ('Portland', 'OR', 'Oregon', 45.515200, -122.678400),
+  ('Atlanta', 'GA', 'Georgia', 33.749000, -84.388000),
+  ('Minneapolis', 'MN', 'Minnesota', 44.977800, -93.265000),
+  ('Detroit', 'MI', 'Michigan', 42.331400, -83.045800);
+
+-- Best gazetteer match for a city and state (code or full name): the city itself, else the state centroid
+CREATE OR REPLACE FUNCTION public.lookup_gazetteer(city_name text, state_text text)
+ RETURNS TABLE(latitude double precision, longitude double precision, match_precision text)
+ LANGUAGE plpgsql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN QUERY
+  SELECT g.latitude,
+         g.longitude,
+         CASE WHEN g.city IS NULL THEN 'state' ELSE 'city' END
+  FROM public.geocoder_gazetteer g
+  WHERE (lower(g.state_code) = lower(trim(state_text)) OR lower(g.state_name) = lower(trim(state_text)))
+    AND (g.city IS NULL OR lower(g.city) = lower(trim(city_name)))
+  ORDER BY g.city IS NULL
+  LIMIT 1;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.lookup_gazetteer(text, text) TO anon, authenticated;
+
+-- Great-circle distance in kilometres
+CREATE OR REPLACE FUNCTION public.distance_km(
+  from_latitude double precision,
+  from_longitude double precision,
+  to_latitude double precision,
+  to_longitude double precision
+)
+ RETURNS double precision
+ LANGUAGE sql
+ IMMUTABLE
+AS $function$
+  SELECT 2 * 6371 * asin(sqrt(
+    power(sin(radians(to_latitude - from_latitude) / 2), 2)
+    + cos(radians(from_latitude)) * cos(radians(to_latitude)) * power(sin(radians(to_longitude - from_longitude) / 2), 2)
+  ));
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.distance_km(double precision, double precision, double precision, double precision) TO anon, authenticated;
+
+-- Adds an optional search origin: with one, results carry their distance, are sorted nearest first and
+-- can be limited to a radius; listings without coordinates are left out
+DROP FUNCTION public.search_businesses(text, text, text[], integer, integer, boolean);
+
+CREATE OR REPLACE FUNCTION public.search_businesses(
+  search_query text DEFAULT NULL,
+  location_query text DEFAULT NULL,
+  category_names text[] DEFAULT NULL,
+  page_size integer DEFAULT 24,
+  page_offset integer DEFAULT 0,
+  name_only boolean DEFAULT false,
+  near_latitude double precision DEFAULT NULL,
+  near_longitude double precision DEFAULT NULL,
+  radius_km double precision DEFAULT NULL
+)
+ RETURNS TABLE(
+   id uuid,
+   name text,
+   description text,
+   category text,
+   address text,
+   city text,
+   state text,
+   zip_code text,
+   phone text,
+   website text,
+   image_url text,
+   rating numeric,
+   owner_id uuid,
+   product_images text[],
+   business_options text[],
+   starting_price text,
+   license_expired_date date,
+   facebook_page text,
+   tiktok_url text,
+   created_at timestamp with time zone,
+   updated_at timestamp with time zone,
+   latitude double precision,
+   longitude double precision,
+   distance_km double precision,
+   rank real,
+   name_highlight text,
+   snippet text,
+   total_count bigint
+ )
+ LANGUAGE plpgsql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  query tsquery := public.to_prefix_tsquery(search_query);
+  location_term text := NULLIF(trim(location_query), '');
+  has_origin boolean := near_latitude IS NOT NULL AND near_longitude IS NOT NULL;
+  -- Degrees of latitude/longitude covering the radius, used to prefilter on the coordinates index
+  latitude_margin double precision := radius_km / 111.0;
+  longitude_margin double precision := radius_km / (111.0 * GREATEST(cos(radians(near_latitude)), 0.01));
+BEGIN
+  RETURN QUERY
+  SELECT b.id,
+         b.name,
+         b.description,
+         b.category,
+         b.address,
+         b.city,
+         b.state,
+         b.zip_code,
+         b.phone,
+         b.website,
+         b.image_url,
+         b.rating,
+         b.owner_id,
+         b.product_images,
+         b.business_options,
+         b.starting_price,
+         b.license_expired_date,
+         b.facebook_page,
+         b.tiktok_url,
+         b.created_at,
+         b.updated_at,
+         b.latitude,
+         b.longitude,
+         CASE WHEN has_origin THEN public.distance_km(near_latitude, near_longitude, b.latitude, b.longitude) END,
+         CASE WHEN query IS NULL THEN 0::real ELSE ts_rank(d.document, query) END,
+         CASE WHEN query IS NULL THEN NULL
+           ELSE ts_headline('english', b.name, query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true')
+         END,
+         CASE WHEN query IS NULL THEN NULL
+           ELSE ts_headline(
+             'english',
+             concat_ws(' · ', NULLIF(b.description, ''), NULLIF(d.products_text, '')),
+             query,
+             'StartSel=<mark>, StopSel=</mark>, MaxWords=25, MinWords=10, MaxFragments=2'
+           )
+         END,
+         COUNT(*) OVER ()
+  FROM public.businesses b
+  LEFT JOIN public.business_search_documents d ON d.business_id = b.id
+  WHERE b.deleted_at IS NULL
+    AND b.payment_status <> 'expired'
+    AND (query IS NULL OR d.document @@ query)
+    AND (NOT name_only OR query IS NULL OR to_tsvector('english', b.name) @@ query)
+    AND (category_names IS NULL OR b.category = ANY (category_names))
+    AND (
+      location_term IS NULL
+      OR b.city ILIKE '%' || location_term || '%'
+      OR b.state ILIKE '%' || location_term || '%'
+    )
+    AND (NOT has_origin OR b.latitude IS NOT NULL)
+    AND (
+      NOT has_origin
+      OR radius_km IS NULL
+      OR (
+        b.latitude BETWEEN near_latitude - latitude_margin AND near_latitude + latitude_margin
+        AND b.longitude BETWEEN near_longitude - longitude_margin AND near_longitude + longitude_margin
+        AND public.distance_km(near_latitude, near_longitude, b.latitude, b.longitude) <= radius_km
+      )
+    )
+  ORDER BY CASE WHEN has_origin THEN public.distance_km(near_latitude, near_longitude, b.latitude, b.longitude) END ASC NULLS LAST,
+           CASE WHEN query IS NULL THEN 0::real ELSE ts_rank(d.document, query) END DESC,
+           b.rating DESC NULLS LAST,
+           b.created_at DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100)
+  OFFSET GREATEST(page_offset, 0);
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.search_businesses(text, text, text[], integer, integer, boolean, double precision, double precision, double precision) TO anon, authenticated;
@@ -0,0 +1,140 @@
+-- Lets the map view search within its visible area: an optional bounding box limits results to
+-- listings plotted inside it
+DROP FUNCTION public.search_businesses(text, text, text[], integer, integer, boolean, double precision, double precision, double precision);
+
+CREATE OR REPLACE FUNCTION public.search_businesses(
+  search_query text DEFAULT NULL,
+  location_query text DEFAULT NULL,
+  category_names text[] DEFAULT NULL,
+  page_size integer DEFAULT 24,
+  page_offset integer DEFAULT 0,
+  name_only boolean DEFAULT false,
+  near_latitude double precision DEFAULT NULL,
+  near_longitude double precision DEFAULT NULL,
+  radius_km double precision DEFAULT NULL,
+  min_latitude double precision DEFAULT NULL,
+  min_longitude double precision DEFAULT NULL,
+  max_latitude double precision DEFAULT NULL,
+  max_longitude double precision DEFAULT NULL
+)
+ RETURNS TABLE(
+   id uuid,
+   name text,
+   description text,
+   category text,
+   address text,
+   city text,
+   state text,
+   zip_code text,
+   phone text,
+   website text,
+   image_url text,
+   rating numeric,
+   owner_id uuid,
+   product_images text[],
+   business_options text[],
+   starting_price text,
+   license_expired_date date,
+   facebook_page text,
+   tiktok_url text,
+   created_at timestamp with time zone,
+   updated_at timestamp with time zone,
+   latitude double precision,
+   longitude double precision,
+   distance_km double precision,
+   rank real,
+   name_highlight text,
+   snippet text,
+   total_count bigint
+ )
+ LANGUAGE plpgsql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  query tsquery := public.to_prefix_tsquery(search_query);
+  location_term text := NULLIF(trim(location_query), '');
+  has_origin boolean := near_latitude IS NOT NULL AND near_longitude IS NOT NULL;
+  -- Degrees of latitude/longitude covering the radius, used to prefilter on the coordinates index
+  latitude_margin double precision := radius_km / 111.0;
+  longitude_margin double precision := radius_km / (111.0 * GREATEST(cos(radians(near_latitude)), 0.01));
+  has_bounds boolean := min_latitude IS NOT NULL AND min_longitude IS NOT NULL
+    AND max_latitude IS NOT NULL AND max_longitude IS NOT NULL;
+BEGIN
+  RETURN QUERY
+  SELECT b.id,
+         b.name,
+         b.description,
+         b.category,
+         b.address,
+         b.city,
+         b.state,
+         b.zip_code,
+         b.phone,
+         b.website,
+         b.image_url,
+         b.rating,
+         b.owner_id,
+         b.product_images,
+         b.business_options,
+         b.starting_price,
+         b.license_expired_date,
+         b.facebook_page,
+         b.tiktok_url,
+         b.created_at,
+         b.updated_at,
+         b.latitude,
+         b.longitude,
+         CASE WHEN has_origin THEN public.distance_km(near_latitude, near_longitude, b.latitude, b.longitude) END,
+         CASE WHEN query IS NULL THEN 0::real ELSE ts_rank(d.document, query) END,
+         CASE WHEN query IS NULL THEN NULL
+           ELSE ts_headline('english', b.name, query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true')
+         END,
+         CASE WHEN query IS NULL THEN NULL
+           ELSE ts_headline(
+             'english',
+             concat_ws(' · ', NULLIF(b.description, ''), NULLIF(d.products_text, '')),
+             query,
+             'StartSel=<mark>, StopSel=</mark>, MaxWords=25, MinWords=10, MaxFragments=2'
+           )
+         END,
+         COUNT(*) OVER ()
+  FROM public.businesses b
+  LEFT JOIN public.business_search_documents d ON d.business_id = b.id
+  WHERE b.deleted_at IS NULL
+    AND b.payment_status <> 'expired'
+    AND (query IS NULL OR d.document @@ query)
+    AND (NOT name_only OR query IS NULL OR to_tsvector('english', b.name) @@ query)
+    AND (category_names IS NULL OR b.category = ANY (category_names))
+    AND (
+      location_term IS NULL
+      OR b.city ILIKE '%' || location_term || '%'
+      OR b.state ILIKE '%' || location_term || '%'
+    )
+    AND (NOT has_origin OR b.latitude IS NOT NULL)
+    AND (
+      NOT has_bounds
+      OR (
+        b.latitude BETWEEN min_latitude AND max_latitude
+        AND b.longitude BETWEEN min_longitude AND max_longitude
+      )
+    )
+    AND (
+      NOT has_origin
+      OR radius_km IS NULL
+      OR (
+        b.latitude BETWEEN near_latitude - latitude_margin AND near_latitude + latitude_margin
+        AND b.longitude BETWEEN near_longitude - longitude_margin AND near_longitude + longitude_margin
+        AND public.distance_km(near_latitude, near_longitude, b.latitude, b.longitude) <= radius_km
+      )
+    )
+  ORDER BY CASE WHEN has_origin THEN public.distance_km(near_latitude, near_longitude, b.latitude, b.longitude) END ASC NULLS LAST,
+           CASE WHEN query IS NULL THEN 0::real ELSE ts_rank(d.document, query) END DESC,
+           b.rating DESC NULLS LAST,
+           b.created_at DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100)
+  OFFSET GREATEST(page_offset, 0);
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.search_businesses(text, text, text[], integer, integer, boolean, double precision, double precision, double precision, double precision, double precision, double precision, double precision) TO anon, authenticated;
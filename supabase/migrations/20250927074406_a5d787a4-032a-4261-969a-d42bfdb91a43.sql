@@ -0,0 +1,387 @@
+-- Facet filters for listing search: business options, minimum rating, price range and open now, plus
+-- per-value counts for the filter panel
+
+-- Weekly opening hours as [{"day": 0-6 (Sunday first), "opens": "HH:MM", "closes": "HH:MM"}]; a closing
+-- time at or before the opening time runs past midnight. time_zone is the IANA zone the hours are in.
+ALTER TABLE public.businesses
+  ADD COLUMN opening_hours JSONB,
+  ADD COLUMN time_zone TEXT,
+  ADD CONSTRAINT businesses_opening_hours_array CHECK (opening_hours IS NULL OR jsonb_typeof(opening_hours) = 'array');
+
+-- Price used by the price filter: the cheapest available catalog item, or the number in the listing's
+-- free-text starting price when the catalog has no prices
+ALTER TABLE public.business_search_documents
+  ADD COLUMN listing_price NUMERIC(12,2);
+
+CREATE INDEX idx_business_search_documents_listing_price ON public.business_search_documents(listing_price);
+
+CREATE OR REPLACE FUNCTION public.refresh_business_search_document(target_business_id uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  INSERT INTO public.business_search_documents (business_id, document, products_text, listing_price)
+  SELECT b.id,
+         setweight(to_tsvector('english', coalesce(b.name, '')), 'A')
+           || setweight(to_tsvector('english', coalesce(b.category, '')), 'B')
+           || setweight(to_tsvector('english', coalesce(p.names, '')), 'B')
+           || setweight(to_tsvector('english', coalesce(b.description, '')), 'C')
+           || setweight(to_tsvector('english', concat_ws(' ', b.city, b.state)), 'D'),
+         coalesce(p.names, ''),
+         coalesce(
+           p.min_price,
+           substring(replace(b.starting_price, ',', '') FROM '\d+(?:\.\d+)?')::numeric
+         )
+  FROM public.businesses b
+  LEFT JOIN LATERAL (
+    SELECT string_agg(bp.name, ', ' ORDER BY bp.sort_order, bp.created_at) AS names,
+           min(bp.price) FILTER (WHERE bp.is_available) AS min_price
+    FROM public.business_products bp
+    WHERE bp.business_id = b.id
+  ) p ON true
+  WHERE b.id = target_business_id
+  ON CONFLICT (business_id) DO UPDATE
+    SET document = EXCLUDED.document,
+        products_text = EXCLUDED.products_text,
+        listing_price = EXCLUDED.listing_price,
+        updated_at = now();
+END;
+$function$;
+
+DROP TRIGGER refresh_business_search_document ON public.businesses;
+
+CREATE TRIGGER refresh_business_search_document
+  AFTER INSERT OR UPDATE OF name, category, description, city, state, starting_price ON public.businesses
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_business_search_document_trigger();
+
+SELECT public.refresh_business_search_document(id) FROM public.businesses;
+
+-- Whether the hours include the given moment in the listing's time zone; false without hours or a valid zone
+CREATE OR REPLACE FUNCTION public.is_business_open(hours jsonb, zone text, at_time timestamp with time zone DEFAULT now())
+ RETURNS boolean
+ LANGUAGE plpgsql
+ STABLE
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  local_time timestamp;
+  local_day integer;
+  time_of_day time;
+BEGIN
+  IF hours IS NULL OR zone IS NULL THEN
+    RETURN false;
+  END IF;
+
+  BEGIN
+    local_time := at_time AT TIME ZONE zone;
+  EXCEPTION WHEN invalid_parameter_value THEN
+    RETURN false;
+  END;
+
+  local_day := extract(dow FROM local_time)::integer;
+  time_of_day := local_time::time;
+
+  RETURN EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(hours) AS h(day integer, opens time, closes time)
+    WHERE (
+      h.opens < h.closes
+      AND h.day = local_day
+      AND time_of_day >= h.opens AND time_of_day < h.closes
+    ) OR (
+      h.opens >= h.closes
+      AND (
+        (h.day = local_day AND time_of_day >= h.opens)
+        OR (h.day = (local_day + 6) % 7 AND time_of_day < h.closes)
+      )
+    )
+  );
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.is_business_open(jsonb, text, timestamp with time zone) TO anon, authenticated;
+
+-- Listings matching every search filter; shared by the search and its facet counts so both agree
+CREATE OR REPLACE FUNCTION public.filtered_business_ids(
+  search_query text DEFAULT NULL,
+  location_query text DEFAULT NULL,
+  category_names text[] DEFAULT NULL,
+  name_only boolean DEFAULT false,
+  near_latitude double precision DEFAULT NULL,
+  near_longitude double precision DEFAULT NULL,
+  radius_km double precision DEFAULT NULL,
+  min_latitude double precision DEFAULT NULL,
+  min_longitude double precision DEFAULT NULL,
+  max_latitude double precision DEFAULT NULL,
+  max_longitude double precision DEFAULT NULL,
+  option_names text[] DEFAULT NULL,
+  min_rating numeric DEFAULT NULL,
+  min_price numeric DEFAULT NULL,
+  max_price numeric DEFAULT NULL,
+  open_now boolean DEFAULT false
+)
+ RETURNS TABLE(matched_id uuid)
+ LANGUAGE plpgsql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  query tsquery := public.to_prefix_tsquery(search_query);
+  location_term text := NULLIF(trim(location_query), '');
+  has_origin boolean := near_latitude IS NOT NULL AND near_longitude IS NOT NULL;
+  -- Degrees of latitude/longitude covering the radius, used to prefilter on the coordinates index
+  latitude_margin double precision := radius_km / 111.0;
+  longitude_margin double precision := radius_km / (111.0 * GREATEST(cos(radians(near_latitude)), 0.01));
+  has_bounds boolean := min_latitude IS NOT NULL AND min_longitude IS NOT NULL
+    AND max_latitude IS NOT NULL AND max_longitude IS NOT NULL;
+BEGIN
+  RETURN QUERY
+  SELECT b.id
+  FROM public.businesses b
+  LEFT JOIN public.business_search_documents d ON d.business_id = b.id
+  WHERE b.deleted_at IS NULL
+    AND b.payment_status <> 'expired'
+    AND (query IS NULL OR d.document @@ query)
+    AND (NOT name_only OR query IS NULL OR to_tsvector('english', b.name) @@ query)
+    AND (category_names IS NULL OR b.category = ANY (category_names))
+    AND (
+      location_term IS NULL
+      OR b.city ILIKE '%' || location_term || '%'
+      OR b.state ILIKE '%' || location_term || '%'
+    )
+    AND (NOT has_origin OR b.latitude IS NOT NULL)
+    AND (
+      NOT has_bounds
+      OR (
+        b.latitude BETWEEN min_latitude AND max_latitude
+        AND b.longitude BETWEEN min_longitude AND max_longitude
+      )
+    )
+    AND (
+      NOT has_origin
+      OR radius_km IS NULL
+      OR (
+        b.latitude BETWEEN near_latitude - latitude_margin AND near_latitude + latitude_margin
+        AND b.longitude BETWEEN near_longitude - longitude_margin AND near_longitude + longitude_margin
+        AND public.distance_km(near_latitude, near_longitude, b.latitude, b.longitude) <= radius_km
+      )
+    )
+    -- A listing has to offer every selected option
+    AND (option_names IS NULL OR b.business_options @> option_names)
+    AND (min_rating IS NULL OR b.rating >= min_rating)
+    AND (min_price IS NULL OR d.listing_price >= min_price)
+    AND (max_price IS NULL OR d.listing_price < max_price)
+    AND (NOT open_now OR public.is_business_open(b.opening_hours, b.time_zone));
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.filtered_business_ids(text, text, text[], boolean, double precision, double precision, double precision, double precision, double precision, double precision, double precision, text[], numeric, numeric, numeric, boolean) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION public.search_businesses(text, text, text[], integer, integer, boolean, double precision, double precision, double precision, double precision, double precision, double precision, double precision);
+
+CREATE OR REPLACE FUNCTION public.search_businesses(
+  search_query text DEFAULT NULL,
+  location_query text DEFAULT NULL,
+  category_names text[] DEFAULT NULL,
+  page_size integer DEFAULT 24,
+  page_offset integer DEFAULT 0,
+  name_only boolean DEFAULT false,
+  near_latitude double precision DEFAULT NULL,
+  near_longitude double precision DEFAULT NULL,
+  radius_km double precision DEFAULT NULL,
+  min_latitude double precision DEFAULT NULL,
+  min_longitude double precision DEFAULT NULL,
+  max_latitude double precision DEFAULT NULL,
+  max_longitude double precision DEFAULT NULL,
+  option_names text[] DEFAULT NULL,
+  min_rating numeric DEFAULT NULL,
+  min_price numeric DEFAULT NULL,
+  max_price numeric DEFAULT NULL,
+  open_now boolean DEFAULT false
+)
+ RETURNS TABLE(
+   id uuid,
+   name text,
+   description text,
+   category text,
+   address text,
+   city text,
+   state text,
+   zip_code text,
+   phone text,
+   website text,
+   image_url text,
+   rating numeric,
+   owner_id uuid,
+   product_images text[],
+   business_options text[],
+   starting_price text,
+   license_expired_date date,
+   facebook_page text,
+   tiktok_url text,
+   created_at timestamp with time zone,
+   updated_at timestamp with time zone,
+   latitude double precision,
+   longitude double precision,
+   distance_km double precision,
+   is_open_now boolean,
+   rank real,
+   name_highlight text,
+   snippet text,
+   total_count bigint
+ )
+ LANGUAGE plpgsql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  query tsquery := public.to_prefix_tsquery(search_query);
+  has_origin boolean := near_latitude IS NOT NULL AND near_longitude IS NOT NULL;
+BEGIN
+  RETURN QUERY
+  SELECT b.id,
+         b.name,
+         b.description,
+         b.category,
+         b.address,
+         b.city,
+         b.state,
+         b.zip_code,
+         b.phone,
+         b.website,
+         b.image_url,
+         b.rating,
+         b.owner_id,
+         b.product_images,
+         b.business_options,
+         b.starting_price,
+         b.license_expired_date,
+         b.facebook_page,
+         b.tiktok_url,
+         b.created_at,
+         b.updated_at,
+         b.latitude,
+         b.longitude,
+         CASE WHEN has_origin THEN public.distance_km(near_latitude, near_longitude, b.latitude, b.longitude) END,
+         public.is_business_open(b.opening_hours, b.time_zone),
+         CASE WHEN query IS NULL THEN 0::real ELSE ts_rank(d.document, query) END,
+         CASE WHEN query IS NULL THEN NULL
+           ELSE ts_headline('english', b.name, query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true')
+         END,
+         CASE WHEN query IS NULL THEN NULL
+           ELSE ts_headline(
+             'english',
+             concat_ws(' · ', NULLIF(b.description, ''), NULLIF(d.products_text, '')),
+             query,
+             'StartSel=<mark>, StopSel=</mark>, MaxWords=25, MinWords=10, MaxFragments=2'
+           )
+         END,
+         COUNT(*) OVER ()
+  FROM public.filtered_business_ids(
+    search_query, location_query, category_names, name_only,
+    near_latitude, near_longitude, radius_km,
+    min_latitude, min_longitude, max_latitude, max_longitude,
+    option_names, min_rating, min_price, max_price, open_now
+  ) f
+  JOIN public.businesses b ON b.id = f.matched_id
+  LEFT JOIN public.business_search_documents d ON d.business_id = b.id
+  ORDER BY CASE WHEN has_origin THEN public.distance_km(near_latitude, near_longitude, b.latitude, b.longitude) END ASC NULLS LAST,
+           CASE WHEN query IS NULL THEN 0::real ELSE ts_rank(d.document, query) END DESC,
+           b.rating DESC NULLS LAST,
+           b.created_at DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100)
+  OFFSET GREATEST(page_offset, 0);
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.search_businesses(text, text, text[], integer, integer, boolean, double precision, double precision, double precision, double precision, double precision, double precision, double precision, text[], numeric, numeric, numeric, boolean) TO anon, authenticated;
+
+-- Counts for the filter panel. Options count within the current results, since a listing has to offer
+-- every selected option; rating, price and open now each ignore their own selection so the other
+-- choices keep showing how many listings they would give.
+--   option:   one row per option name
+--   rating:   listings rated at least 1-4 stars
+--   price:    one row per price band, keyed by the band's lower bound from price_breaks (0 for the first)
+--   open_now: listings open at the moment
+CREATE OR REPLACE FUNCTION public.search_business_facets(
+  search_query text DEFAULT NULL,
+  location_query text DEFAULT NULL,
+  category_names text[] DEFAULT NULL,
+  name_only boolean DEFAULT false,
+  near_latitude double precision DEFAULT NULL,
+  near_longitude double precision DEFAULT NULL,
+  radius_km double precision DEFAULT NULL,
+  min_latitude double precision DEFAULT NULL,
+  min_longitude double precision DEFAULT NULL,
+  max_latitude double precision DEFAULT NULL,
+  max_longitude double precision DEFAULT NULL,
+  option_names text[] DEFAULT NULL,
+  min_rating numeric DEFAULT NULL,
+  min_price numeric DEFAULT NULL,
+  max_price numeric DEFAULT NULL,
+  open_now boolean DEFAULT false,
+  price_breaks numeric[] DEFAULT '{10,25,50,100}'
+)
+ RETURNS TABLE(facet text, facet_value text, match_count bigint)
+ LANGUAGE plpgsql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN QUERY
+  SELECT 'option'::text, o.option_name, COUNT(*)
+  FROM public.filtered_business_ids(
+    search_query, location_query, category_names, name_only,
+    near_latitude, near_longitude, radius_km,
+    min_latitude, min_longitude, max_latitude, max_longitude,
+    option_names, min_rating, min_price, max_price, open_now
+  ) f
+  JOIN public.businesses b ON b.id = f.matched_id
+  CROSS JOIN LATERAL unnest(b.business_options) AS o(option_name)
+  GROUP BY o.option_name;
+
+  RETURN QUERY
+  SELECT 'rating'::text, stars::text, COUNT(b.id)
+  FROM generate_series(1, 4) AS stars
+  LEFT JOIN (
+    public.filtered_business_ids(
+      search_query, location_query, category_names, name_only,
+      near_latitude, near_longitude, radius_km,
+      min_latitude, min_longitude, max_latitude, max_longitude,
+      option_names, NULL, min_price, max_price, open_now
+    ) f
+    JOIN public.businesses b ON b.id = f.matched_id
+  ) ON b.rating >= stars
+  GROUP BY stars;
+
+  RETURN QUERY
+  SELECT 'price'::text, band.lower_bound::text, COUNT(*)
+  FROM public.filtered_business_ids(
+    search_query, location_query, category_names, name_only,
+    near_latitude, near_longitude, radius_km,
+    min_latitude, min_longitude, max_latitude, max_longitude,
+    option_names, min_rating, NULL, NULL, open_now
+  ) f
+  JOIN public.business_search_documents d ON d.business_id = f.matched_id
+  CROSS JOIN LATERAL (
+    SELECT COALESCE(max(pb), 0) AS lower_bound
+    FROM unnest(price_breaks) AS pb
+    WHERE pb <= d.listing_price
+  ) band
+  WHERE d.listing_price IS NOT NULL
+  GROUP BY band.lower_bound;
+
+  RETURN QUERY
+  SELECT 'open_now'::text, 'true'::text, COUNT(*)
+  FROM public.filtered_business_ids(
+    search_query, location_query, category_names, name_only,
+    near_latitude, near_longitude, radius_km,
+    min_latitude, min_longitude, max_latitude, max_longitude,
+    option_names, min_rating, min_price, max_price, true
+  );
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.search_business_facets(text, text, text[], boolean, double precision, double precision, double precision, double precision, double precision, double precision, double precision, text[], numeric, numeric, numeric, boolean, numeric[]) TO anon, authenticated;
@@ -0,0 +1,42 @@
+-- Payment status, expiry dates and the plan may only be changed by admins and by the payment and expiry
+-- functions. Owners still pick the plan when they create a listing, and a bank receipt puts their listing
+-- back in the review queue through the payments trigger.
+CREATE OR REPLACE FUNCTION public.protect_business_admin_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  -- No user: service role or scheduled jobs. Nested: a SECURITY DEFINER trigger such as
+  -- sync_business_payment_status, which is itself guarded by the payments policies.
+  IF auth.uid() IS NULL
+    OR pg_trigger_depth() > 1
+    OR public.has_admin_permission('manage_listings') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.payment_status IS DISTINCT FROM 'to_be_confirmed'
+      OR NEW.listing_expired_date IS NOT NULL
+      OR NEW.odoo_expired_date IS NOT NULL THEN
+      RAISE EXCEPTION 'Only admins can set the payment status or expiry dates of a listing';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.payment_status IS DISTINCT FROM OLD.payment_status
+    OR NEW.listing_expired_date IS DISTINCT FROM OLD.listing_expired_date
+    OR NEW.odoo_expired_date IS DISTINCT FROM OLD.odoo_expired_date
+    OR NEW."POS+Website" IS DISTINCT FROM OLD."POS+Website" THEN
+    RAISE EXCEPTION 'Only admins can change the payment status, expiry dates or plan of a listing';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER protect_business_admin_fields_trigger
+  BEFORE INSERT OR UPDATE OF payment_status, listing_expired_date, odoo_expired_date, "POS+Website" ON public.businesses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_business_admin_fields();
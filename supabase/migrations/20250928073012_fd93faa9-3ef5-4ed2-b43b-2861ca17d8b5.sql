@@ -0,0 +1,3 @@
+-- Hidden reviews were still readable through the original public policy, which is OR'd with the
+-- visibility-aware one; drop it so only visible reviews, the author's own and moderators' reads remain
+DROP POLICY IF EXISTS "Reviews are viewable by everyone" ON public.business_reviews;
@@ -0,0 +1,44 @@
+-- Finance admins confirm and reject payments without manage_listings, and those RPCs set the payment
+-- status and expiry dates directly, so payment reviewers may change those fields but never the plan
+CREATE OR REPLACE FUNCTION public.protect_business_admin_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  -- No user: service role or scheduled jobs. Nested: a SECURITY DEFINER trigger such as
+  -- sync_business_payment_status, which is itself guarded by the payments policies.
+  IF auth.uid() IS NULL
+    OR pg_trigger_depth() > 1
+    OR public.has_admin_permission('manage_listings') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.payment_status IS DISTINCT FROM 'to_be_confirmed'
+      OR NEW.listing_expired_date IS NOT NULL
+      OR NEW.odoo_expired_date IS NOT NULL THEN
+      RAISE EXCEPTION 'Only admins can set the payment status or expiry dates of a listing';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW."POS+Website" IS DISTINCT FROM OLD."POS+Website" THEN
+    RAISE EXCEPTION 'Only admins can change the payment status, expiry dates or plan of a listing';
+  END IF;
+
+  -- confirm_payment, reject_payment and apply_confirmed_payment
+  IF public.has_admin_permission('confirm_payments') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.payment_status IS DISTINCT FROM OLD.payment_status
+    OR NEW.listing_expired_date IS DISTINCT FROM OLD.listing_expired_date
+    OR NEW.odoo_expired_date IS DISTINCT FROM OLD.odoo_expired_date THEN
+    RAISE EXCEPTION 'Only admins can change the payment status, expiry dates or plan of a listing';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
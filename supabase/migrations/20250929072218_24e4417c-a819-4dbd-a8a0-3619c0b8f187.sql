@@ -0,0 +1,11 @@
+-- The original public read policies were never dropped, and permissive policies are OR'd, so trashed listings
+-- stayed readable alongside "Everyone can view businesses"
+DROP POLICY IF EXISTS "Businesses are viewable by everyone" ON public.businesses;
+DROP POLICY IF EXISTS "Anyone can view published businesses" ON public.businesses;
+
+-- Products check the trash themselves instead of relying on the businesses policies
+DROP POLICY IF EXISTS "Anyone can view products of visible listings" ON public.business_products;
+CREATE POLICY "Anyone can view products of visible listings"
+ON public.business_products
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.businesses b WHERE b.id = business_id AND b.deleted_at IS NULL));
@@ -0,0 +1,94 @@
+-- A lapsed listing stays expired, and so hidden, until a payment for it is confirmed. Uploading a receipt
+-- used to flip it back to to_be_confirmed, and rejecting that receipt to rejected, both of which are public.
+CREATE OR REPLACE FUNCTION public.sync_business_payment_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.status = 'pending' AND NEW.method = 'bank_transfer' THEN
+    UPDATE public.businesses
+    SET payment_status = CASE WHEN payment_status = 'expired' THEN 'expired' ELSE 'to_be_confirmed' END,
+        last_payment_date = NEW.created_at
+    WHERE id = NEW.business_id;
+
+    IF TG_OP = 'INSERT' AND NEW.receipt_path IS NOT NULL THEN
+      INSERT INTO public.activity_events (event_type, actor_id, actor_name, business_id, title, description, metadata)
+      SELECT
+        'receipt_uploaded',
+        NEW.payer_id,
+        public.get_activity_actor_name(NEW.payer_id),
+        NEW.business_id,
+        'Payment receipt uploaded',
+        b.name,
+        jsonb_build_object('payment_id', NEW.id, 'amount', NEW.amount, 'currency', NEW.currency)
+      FROM public.businesses b
+      WHERE b.id = NEW.business_id;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.reject_payment(payment_id uuid, reason text)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  payment_record public.payments%ROWTYPE;
+BEGIN
+  IF NOT public.has_admin_permission('confirm_payments') THEN
+    RAISE EXCEPTION 'You do not have permission to review payments';
+  END IF;
+
+  IF reason IS NULL OR trim(reason) = '' THEN
+    RAISE EXCEPTION 'A rejection reason is required';
+  END IF;
+
+  SELECT * INTO payment_record
+  FROM public.payments
+  WHERE id = payment_id
+  FOR UPDATE;
+
+  IF payment_record.id IS NULL THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF payment_record.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending payments can be rejected';
+  END IF;
+
+  UPDATE public.payments
+  SET status = 'rejected',
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      notes = trim(reason)
+  WHERE id = payment_id;
+
+  UPDATE public.businesses
+  SET payment_status = CASE WHEN payment_status = 'expired' THEN 'expired' ELSE 'rejected' END
+  WHERE id = payment_record.business_id;
+
+  INSERT INTO public.activity_events (event_type, actor_id, actor_name, business_id, title, description, metadata)
+  SELECT
+    'payment_rejected',
+    auth.uid(),
+    public.get_activity_actor_name(auth.uid()),
+    b.id,
+    'Payment receipt rejected',
+    b.name,
+    jsonb_build_object('payment_id', payment_id, 'reason', trim(reason))
+  FROM public.businesses b
+  WHERE b.id = payment_record.business_id;
+END;
+$function$;
+
+-- Lapsed listings that were already pulled back into view by a receipt
+UPDATE public.businesses
+SET payment_status = 'expired'
+WHERE payment_status IN ('to_be_confirmed', 'rejected')
+  AND listing_expired_date < CURRENT_DATE;
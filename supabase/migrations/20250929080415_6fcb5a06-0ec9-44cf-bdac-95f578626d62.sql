@@ -0,0 +1,97 @@
+-- Stripe payments whose amount or currency doesn't match the open session are held for an admin to review
+ALTER TABLE public.payments DROP CONSTRAINT check_payment_ledger_status;
+ALTER TABLE public.payments
+ADD CONSTRAINT check_payment_ledger_status
+CHECK (status IN ('pending', 'needs_review', 'confirmed', 'rejected', 'cancelled'));
+
+CREATE OR REPLACE FUNCTION public.confirm_payment(payment_id uuid, review_notes text DEFAULT NULL)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  payment_record public.payments%ROWTYPE;
+BEGIN
+  IF NOT public.has_admin_permission('confirm_payments') THEN
+    RAISE EXCEPTION 'You do not have permission to review payments';
+  END IF;
+
+  SELECT * INTO payment_record
+  FROM public.payments
+  WHERE id = payment_id
+  FOR UPDATE;
+
+  IF payment_record.id IS NULL THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF payment_record.status NOT IN ('pending', 'needs_review') THEN
+    RAISE EXCEPTION 'Only pending payments can be confirmed';
+  END IF;
+
+  UPDATE public.payments
+  SET status = 'confirmed',
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      notes = COALESCE(review_notes, notes)
+  WHERE id = payment_id;
+
+  PERFORM public.apply_confirmed_payment(payment_record.business_id);
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.reject_payment(payment_id uuid, reason text)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  payment_record public.payments%ROWTYPE;
+BEGIN
+  IF NOT public.has_admin_permission('confirm_payments') THEN
+    RAISE EXCEPTION 'You do not have permission to review payments';
+  END IF;
+
+  IF reason IS NULL OR trim(reason) = '' THEN
+    RAISE EXCEPTION 'A rejection reason is required';
+  END IF;
+
+  SELECT * INTO payment_record
+  FROM public.payments
+  WHERE id = payment_id
+  FOR UPDATE;
+
+  IF payment_record.id IS NULL THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF payment_record.status NOT IN ('pending', 'needs_review') THEN
+    RAISE EXCEPTION 'Only pending payments can be rejected';
+  END IF;
+
+  UPDATE public.payments
+  SET status = 'rejected',
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      notes = trim(reason)
+  WHERE id = payment_id;
+
+  UPDATE public.businesses
+  SET payment_status = CASE WHEN payment_status = 'expired' THEN 'expired' ELSE 'rejected' END
+  WHERE id = payment_record.business_id;
+
+  INSERT INTO public.activity_events (event_type, actor_id, actor_name, business_id, title, description, metadata)
+  SELECT
+    'payment_rejected',
+    auth.uid(),
+    public.get_activity_actor_name(auth.uid()),
+    b.id,
+    'Payment receipt rejected',
+    b.name,
+    jsonb_build_object('payment_id', payment_id, 'reason', trim(reason))
+  FROM public.businesses b
+  WHERE b.id = payment_record.business_id;
+END;
+$function$;
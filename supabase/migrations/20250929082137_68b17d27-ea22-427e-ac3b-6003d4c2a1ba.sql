@@ -0,0 +1,19 @@
+-- Removes a recovery code in one statement, so two requests using the same code can't both succeed
+CREATE OR REPLACE FUNCTION public.consume_admin_recovery_code(target_user_id uuid, code_hash text)
+ RETURNS boolean
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE public.admin_two_factor
+  SET recovery_code_hashes = array_remove(recovery_code_hashes, code_hash)
+  WHERE user_id = target_user_id
+    AND code_hash = ANY (recovery_code_hashes);
+
+  RETURN FOUND;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_admin_recovery_code(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_admin_recovery_code(uuid, text) TO service_role;
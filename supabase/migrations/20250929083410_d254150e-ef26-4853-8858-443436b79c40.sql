@@ -0,0 +1,41 @@
+-- Owners write opening_hours through the API, so a malformed day or time must make that one listing closed
+-- instead of failing every search that computes open now
+CREATE OR REPLACE FUNCTION public.is_business_open(hours jsonb, zone text, at_time timestamp with time zone DEFAULT now())
+ RETURNS boolean
+ LANGUAGE plpgsql
+ STABLE
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  local_time timestamp;
+  local_day integer;
+  time_of_day time;
+BEGIN
+  IF hours IS NULL OR zone IS NULL THEN
+    RETURN false;
+  END IF;
+
+  local_time := at_time AT TIME ZONE zone;
+  local_day := extract(dow FROM local_time)::integer;
+  time_of_day := local_time::time;
+
+  RETURN EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(hours) AS h(day integer, opens time, closes time)
+    WHERE (
+      h.opens < h.closes
+      AND h.day = local_day
+      AND time_of_day >= h.opens AND time_of_day < h.closes
+    ) OR (
+      h.opens >= h.closes
+      AND (
+        (h.day = local_day AND time_of_day >= h.opens)
+        OR (h.day = (local_day + 6) % 7 AND time_of_day < h.closes)
+      )
+    )
+  );
+-- An unknown zone, an entry that isn't an object, or a day or time that doesn't cast
+EXCEPTION WHEN data_exception THEN
+  RETURN false;
+END;
+$function$;
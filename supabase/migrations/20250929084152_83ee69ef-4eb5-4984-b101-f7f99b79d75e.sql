@@ -0,0 +1,40 @@
+-- The price bands are in US dollars, the listing fee currency, so only catalog items priced in dollars set
+-- listing_price. A listing whose prices are all in another currency gets none, as its starting price is likely
+-- in that currency too.
+CREATE OR REPLACE FUNCTION public.refresh_business_search_document(target_business_id uuid)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+BEGIN
+  INSERT INTO public.business_search_documents (business_id, document, products_text, listing_price)
+  SELECT b.id,
+         setweight(to_tsvector('english', coalesce(b.name, '')), 'A')
+           || setweight(to_tsvector('english', coalesce(b.category, '')), 'B')
+           || setweight(to_tsvector('english', coalesce(p.names, '')), 'B')
+           || setweight(to_tsvector('english', coalesce(b.description, '')), 'C')
+           || setweight(to_tsvector('english', concat_ws(' ', b.city, b.state)), 'D'),
+         coalesce(p.names, ''),
+         CASE
+           WHEN p.has_prices THEN p.min_price
+           ELSE substring(replace(b.starting_price, ',', '') FROM '\d+(?:\.\d+)?')::numeric
+         END
+  FROM public.businesses b
+  LEFT JOIN LATERAL (
+    SELECT string_agg(bp.name, ', ' ORDER BY bp.sort_order, bp.created_at) AS names,
+           min(bp.price) FILTER (WHERE bp.is_available AND bp.currency = 'USD') AS min_price,
+           coalesce(bool_or(bp.price IS NOT NULL) FILTER (WHERE bp.is_available), false) AS has_prices
+    FROM public.business_products bp
+    WHERE bp.business_id = b.id
+  ) p ON true
+  WHERE b.id = target_business_id
+  ON CONFLICT (business_id) DO UPDATE
+    SET document = EXCLUDED.document,
+        products_text = EXCLUDED.products_text,
+        listing_price = EXCLUDED.listing_price,
+        updated_at = now();
+END;
+$function$;
+
+SELECT public.refresh_business_search_document(id) FROM public.businesses;
@@ -0,0 +1,17 @@
+-- The review queue reads from payments, but the carry-over only created rows for listings with a receipt.
+-- Give every listing still awaiting confirmation without one a pending row so it shows up again.
+INSERT INTO public.payments (business_id, payer_id, method, receipt_path, status, created_at)
+SELECT
+  b.id,
+  b.owner_id,
+  'bank_transfer',
+  NULL,
+  'pending',
+  COALESCE(b.last_payment_date, b.created_at)
+FROM public.businesses b
+WHERE b.payment_status = 'to_be_confirmed'
+  AND NOT EXISTS (
+    SELECT 1 FROM public.payments pm
+    WHERE pm.business_id = b.id
+      AND pm.status IN ('pending', 'needs_review')
+  );
@@ -0,0 +1,67 @@
+-- Pins for the map view: every located listing matching the search, not just the page the list has loaded.
+-- Only what a pin and its popup need, best rated first and capped so a wide area stays light.
+CREATE OR REPLACE FUNCTION public.search_business_map_points(
+  search_query text DEFAULT NULL,
+  location_query text DEFAULT NULL,
+  category_names text[] DEFAULT NULL,
+  name_only boolean DEFAULT false,
+  near_latitude double precision DEFAULT NULL,
+  near_longitude double precision DEFAULT NULL,
+  radius_km double precision DEFAULT NULL,
+  min_latitude double precision DEFAULT NULL,
+  min_longitude double precision DEFAULT NULL,
+  max_latitude double precision DEFAULT NULL,
+  max_longitude double precision DEFAULT NULL,
+  option_names text[] DEFAULT NULL,
+  min_rating numeric DEFAULT NULL,
+  min_price numeric DEFAULT NULL,
+  max_price numeric DEFAULT NULL,
+  open_now boolean DEFAULT false,
+  max_points integer DEFAULT 1000
+)
+ RETURNS TABLE(
+   id uuid,
+   name text,
+   category text,
+   city text,
+   state text,
+   image_url text,
+   rating numeric,
+   latitude double precision,
+   longitude double precision,
+   distance_km double precision,
+   total_count bigint
+ )
+ LANGUAGE plpgsql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  has_origin boolean := near_latitude IS NOT NULL AND near_longitude IS NOT NULL;
+BEGIN
+  RETURN QUERY
+  SELECT b.id,
+         b.name,
+         b.category,
+         b.city,
+         b.state,
+         b.image_url,
+         b.rating,
+         b.latitude,
+         b.longitude,
+         CASE WHEN has_origin THEN public.distance_km(near_latitude, near_longitude, b.latitude, b.longitude) END,
+         COUNT(*) OVER ()
+  FROM public.filtered_business_ids(
+    search_query, location_query, category_names, name_only,
+    near_latitude, near_longitude, radius_km,
+    min_latitude, min_longitude, max_latitude, max_longitude,
+    option_names, min_rating, min_price, max_price, open_now
+  ) f
+  JOIN public.businesses b ON b.id = f.matched_id
+  WHERE b.latitude IS NOT NULL AND b.longitude IS NOT NULL
+  ORDER BY b.rating DESC NULLS LAST, b.created_at DESC
+  LIMIT LEAST(GREATEST(max_points, 1), 1000);
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.search_business_map_points(text, text, text[], boolean, double precision, double precision, double precision, double precision, double precision, double precision, double precision, text[], numeric, numeric, numeric, boolean, integer) TO anon, authenticated;
@@ -0,0 +1,34 @@
+-- Placeholder listings and their claim link are created in one transaction, so a failed claim insert can no
+-- longer leave a listing that nobody can take over. Runs as the caller, so the usual policies and triggers apply.
+CREATE OR REPLACE FUNCTION public.create_claimable_business(listing jsonb, claimant_email text DEFAULT NULL)
+ RETURNS TABLE(created_business_id uuid, created_claim_token uuid)
+ LANGUAGE plpgsql
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  listing_columns text;
+  new_business_id uuid;
+  new_claim_token uuid;
+BEGIN
+  IF NOT public.has_admin_permission('manage_listings') THEN
+    RAISE EXCEPTION 'You do not have permission to manage listings';
+  END IF;
+
+  -- Only the columns the form sent, so every other column keeps its default
+  SELECT string_agg(quote_ident(key), ', ') INTO listing_columns
+  FROM jsonb_object_keys(listing) AS key;
+
+  EXECUTE format(
+    'INSERT INTO public.businesses (%1$s) SELECT %1$s FROM jsonb_populate_record(NULL::public.businesses, $1) RETURNING id',
+    listing_columns
+  ) INTO new_business_id USING listing;
+
+  INSERT INTO public.business_claims (business_id, claim_email, created_by)
+  VALUES (new_business_id, NULLIF(trim(claimant_email), ''), auth.uid())
+  RETURNING claim_token INTO new_claim_token;
+
+  RETURN QUERY SELECT new_business_id, new_claim_token;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.create_claimable_business(jsonb, text) TO authenticated;
@@ -0,0 +1,163 @@
+-- How closely each listing's coordinates match its address. Gazetteer and geocoder fallbacks can only
+-- place some listings at their state's center, which distance and map search must not treat as exact.
+ALTER TABLE public.businesses
+  ADD COLUMN location_precision TEXT,
+  ADD CONSTRAINT businesses_location_precision_check CHECK (location_precision IN ('address', 'city', 'state'));
+
+-- Existing gazetteer points are state centers when they sit exactly on one. Pins and geocoder results
+-- were saved without a precision and keep being treated as exact.
+UPDATE public.businesses b
+SET location_precision = CASE
+  WHEN b.location_source <> 'gazetteer' THEN 'address'
+  WHEN EXISTS (
+    SELECT 1
+    FROM public.geocoder_gazetteer g
+    WHERE g.city IS NULL
+      AND g.latitude = b.latitude
+      AND g.longitude = b.longitude
+  ) THEN 'state'
+  ELSE 'city'
+END
+WHERE b.latitude IS NOT NULL
+  AND b.location_source IS NOT NULL;
+
+-- Near-me, radius and map-area search only use points placed to a city or better
+CREATE OR REPLACE FUNCTION public.filtered_business_ids(
+  search_query text DEFAULT NULL,
+  location_query text DEFAULT NULL,
+  category_names text[] DEFAULT NULL,
+  name_only boolean DEFAULT false,
+  near_latitude double precision DEFAULT NULL,
+  near_longitude double precision DEFAULT NULL,
+  radius_km double precision DEFAULT NULL,
+  min_latitude double precision DEFAULT NULL,
+  min_longitude double precision DEFAULT NULL,
+  max_latitude double precision DEFAULT NULL,
+  max_longitude double precision DEFAULT NULL,
+  option_names text[] DEFAULT NULL,
+  min_rating numeric DEFAULT NULL,
+  min_price numeric DEFAULT NULL,
+  max_price numeric DEFAULT NULL,
+  open_now boolean DEFAULT false
+)
+ RETURNS TABLE(matched_id uuid)
+ LANGUAGE plpgsql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  query tsquery := public.to_prefix_tsquery(search_query);
+  location_term text := NULLIF(trim(location_query), '');
+  has_origin boolean := near_latitude IS NOT NULL AND near_longitude IS NOT NULL;
+  -- Degrees of latitude/longitude covering the radius, used to prefilter on the coordinates index
+  latitude_margin double precision := radius_km / 111.0;
+  longitude_margin double precision := radius_km / (111.0 * GREATEST(cos(radians(near_latitude)), 0.01));
+  has_bounds boolean := min_latitude IS NOT NULL AND min_longitude IS NOT NULL
+    AND max_latitude IS NOT NULL AND max_longitude IS NOT NULL;
+BEGIN
+  RETURN QUERY
+  SELECT b.id
+  FROM public.businesses b
+  LEFT JOIN public.business_search_documents d ON d.business_id = b.id
+  WHERE b.deleted_at IS NULL
+    AND b.payment_status <> 'expired'
+    AND (query IS NULL OR d.document @@ query)
+    AND (NOT name_only OR query IS NULL OR to_tsvector('english', b.name) @@ query)
+    AND (category_names IS NULL OR b.category = ANY (category_names))
+    AND (
+      location_term IS NULL
+      OR b.city ILIKE '%' || location_term || '%'
+      OR b.state ILIKE '%' || location_term || '%'
+    )
+    -- A state center says nothing about how far away the listing is or which part of the map it is in
+    AND (NOT (has_origin OR has_bounds) OR (b.latitude IS NOT NULL AND b.location_precision IS DISTINCT FROM 'state'))
+    AND (
+      NOT has_bounds
+      OR (
+        b.latitude BETWEEN min_latitude AND max_latitude
+        AND b.longitude BETWEEN min_longitude AND max_longitude
+      )
+    )
+    AND (
+      NOT has_origin
+      OR radius_km IS NULL
+      OR (
+        b.latitude BETWEEN near_latitude - latitude_margin AND near_latitude + latitude_margin
+        AND b.longitude BETWEEN near_longitude - longitude_margin AND near_longitude + longitude_margin
+        AND public.distance_km(near_latitude, near_longitude, b.latitude, b.longitude) <= radius_km
+      )
+    )
+    -- A listing has to offer every selected option
+    AND (option_names IS NULL OR b.business_options @> option_names)
+    AND (min_rating IS NULL OR b.rating >= min_rating)
+    AND (min_price IS NULL OR d.listing_price >= min_price)
+    AND (max_price IS NULL OR d.listing_price < max_price)
+    AND (NOT open_now OR public.is_business_open(b.opening_hours, b.time_zone));
+END;
+$function$;
+
+-- State-center listings stay off the map and count as having no map location
+CREATE OR REPLACE FUNCTION public.search_business_map_points(
+  search_query text DEFAULT NULL,
+  location_query text DEFAULT NULL,
+  category_names text[] DEFAULT NULL,
+  name_only boolean DEFAULT false,
+  near_latitude double precision DEFAULT NULL,
+  near_longitude double precision DEFAULT NULL,
+  radius_km double precision DEFAULT NULL,
+  min_latitude double precision DEFAULT NULL,
+  min_longitude double precision DEFAULT NULL,
+  max_latitude double precision DEFAULT NULL,
+  max_longitude double precision DEFAULT NULL,
+  option_names text[] DEFAULT NULL,
+  min_rating numeric DEFAULT NULL,
+  min_price numeric DEFAULT NULL,
+  max_price numeric DEFAULT NULL,
+  open_now boolean DEFAULT false,
+  max_points integer DEFAULT 1000
+)
+ RETURNS TABLE(
+   id uuid,
+   name text,
+   category text,
+   city text,
+   state text,
+   image_url text,
+   rating numeric,
+   latitude double precision,
+   longitude double precision,
+   distance_km double precision,
+   total_count bigint
+ )
+ LANGUAGE plpgsql
+ STABLE SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  has_origin boolean := near_latitude IS NOT NULL AND near_longitude IS NOT NULL;
+BEGIN
+  RETURN QUERY
+  SELECT b.id,
+         b.name,
+         b.category,
+         b.city,
+         b.state,
+         b.image_url,
+         b.rating,
+         b.latitude,
+         b.longitude,
+         CASE WHEN has_origin THEN public.distance_km(near_latitude, near_longitude, b.latitude, b.longitude) END,
+         COUNT(*) OVER ()
+  FROM public.filtered_business_ids(
+    search_query, location_query, category_names, name_only,
+    near_latitude, near_longitude, radius_km,
+    min_latitude, min_longitude, max_latitude, max_longitude,
+    option_names, min_rating, min_price, max_price, open_now
+  ) f
+  JOIN public.businesses b ON b.id = f.matched_id
+  WHERE b.latitude IS NOT NULL AND b.longitude IS NOT NULL
+    AND b.location_precision IS DISTINCT FROM 'state'
+  ORDER BY b.rating DESC NULLS LAST, b.created_at DESC
+  LIMIT LEAST(GREATEST(max_points, 1), 1000);
+END;
+$function$;